@@ -11,6 +11,9 @@ import { VegapullImporter } from './scripts/import-vegapull-data.js';
 import { BoosterModel } from './models/Booster.js';
 import { AchievementService } from './services/AchievementService.js';
 import { AchievementModel } from './models/Achievement.js';
+import { MarketplaceAuctionService } from './services/MarketplaceAuctionService.js';
+import { MarketplaceExpiryService } from './services/MarketplaceExpiryService.js';
+import { BerryLedgerService } from './services/BerryLedgerService.js';
 import { seedWorldMapData, updateIslandCoordinates, initializeExistingUsers } from './scripts/seed-world-map-data.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -35,6 +38,7 @@ import userRoutes from './routes/users.js';
 import leaderboardRoutes from './routes/leaderboard.js';
 import notificationRoutes from './routes/notifications.js';
 import marketplaceRoutes from './routes/marketplace.js';
+import tradeRoutes from './routes/trades.js';
 import worldMapRoutes from './routes/worldMapRoutes.js';
 
 const app = express();
@@ -154,6 +158,7 @@ app.use('/api/users', userRoutes);
 app.use('/api/leaderboard', leaderboardRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/marketplace', marketplaceRoutes);
+app.use('/api/trades', tradeRoutes);
 app.use('/api/world', worldMapRoutes);
 
 // Route de santé
@@ -293,6 +298,20 @@ export const initializeApp = async (): Promise<express.Application> => {
       console.warn('💡 Vous pouvez initialiser manuellement avec: npm run seed-world-map');
     }
 
+    // Clôturer les enchères expirées pendant l'arrêt puis démarrer la clôture périodique
+    await MarketplaceAuctionService.settleExpiredAuctions();
+    MarketplaceAuctionService.startSweeper();
+    console.log('✅ Clôture automatique des enchères démarrée');
+
+    // Expirer les annonces à prix fixe échues pendant l'arrêt puis démarrer l'expiration périodique
+    await MarketplaceExpiryService.expireListings();
+    MarketplaceExpiryService.startSweeper();
+    console.log('✅ Expiration automatique des annonces démarrée');
+
+    // Vérifier périodiquement que les soldes de Berrys correspondent au registre
+    BerryLedgerService.startReconciliation();
+    console.log('✅ Réconciliation du registre des Berrys démarrée');
+
     console.log('🎉 Application initialisée avec succès');
     return app;
 
@@ -306,6 +325,9 @@ export const initializeApp = async (): Promise<express.Application> => {
 export const closeApp = async (): Promise<void> => {
   try {
     console.log('🔄 Fermeture de l\'application...');
+    MarketplaceAuctionService.stopSweeper();
+    MarketplaceExpiryService.stopSweeper();
+    BerryLedgerService.stopReconciliation();
     await Database.close();
     console.log('✅ Application fermée proprement');
   } catch (error) {
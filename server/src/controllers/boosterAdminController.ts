@@ -0,0 +1,186 @@
+import { Request, Response } from 'express';
+import { Database } from '../utils/database.js';
+import { DropTable, DropTableService } from '../services/DropTableService.js';
+import { BoosterSimulationService, MAX_SIMULATION_PACKS } from '../services/BoosterSimulationService.js';
+import { AuditLogger, AuditAction } from '../utils/auditLogger.js';
+
+export class BoosterAdminController {
+  /**
+   * [ADMIN] Lister les boosters avec une table de drop configurée
+   */
+  static async listDropTables(req: Request, res: Response): Promise<void> {
+    try {
+      const tables = await Database.all(`
+        SELECT b.id as booster_id, b.code, b.name, dt.pack_size, dt.alternate_chance, dt.updated_at
+        FROM booster_drop_tables dt
+        JOIN boosters b ON b.id = dt.booster_id
+        ORDER BY b.code
+      `);
+
+      res.json({
+        success: true,
+        data: {
+          tables,
+          default_table: DropTableService.getDefaultDropTable()
+        }
+      });
+    } catch (error) {
+      console.error('Erreur récupération tables de drop:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Récupérer la table de drop d'un booster (par défaut si non configurée)
+   */
+  static async getDropTable(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const booster = await Database.get('SELECT id FROM boosters WHERE id = ?', [id]);
+      if (!booster) {
+        res.status(404).json({ error: 'Booster non trouvé' });
+        return;
+      }
+
+      const table = await DropTableService.getDropTable(id);
+
+      res.json({
+        success: true,
+        data: table
+      });
+    } catch (error) {
+      console.error('Erreur récupération table de drop:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Créer ou remplacer la table de drop d'un booster
+   */
+  static async upsertDropTable(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { id } = req.params;
+      const { pack_size, alternate_chance, slot_weights } = req.body;
+
+      const booster = await Database.get('SELECT id FROM boosters WHERE id = ?', [id]);
+      if (!booster) {
+        res.status(404).json({ error: 'Booster non trouvé' });
+        return;
+      }
+
+      // Validation
+      const validationError = DropTableService.validateDropTable({ pack_size, alternate_chance, slot_weights });
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const table = await DropTableService.saveDropTable(id, { pack_size, alternate_chance, slot_weights }, adminId!);
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'update_drop_table',
+        booster_id: id,
+        pack_size,
+        alternate_chance
+      }, req);
+
+      res.json({
+        success: true,
+        data: table
+      });
+    } catch (error) {
+      console.error('Erreur mise à jour table de drop:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Supprimer la table de drop d'un booster (retour aux taux par défaut)
+   */
+  static async deleteDropTable(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { id } = req.params;
+
+      const deleted = await DropTableService.deleteDropTable(id);
+      if (!deleted) {
+        res.status(404).json({ error: 'Aucune table de drop configurée pour ce booster' });
+        return;
+      }
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'delete_drop_table',
+        booster_id: id
+      }, req);
+
+      res.json({
+        success: true,
+        message: 'Table de drop supprimée, taux par défaut rétablis'
+      });
+    } catch (error) {
+      console.error('Erreur suppression table de drop:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Simuler N ouvertures d'un booster (table actuelle ou table candidate non enregistrée)
+   */
+  static async simulate(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { id } = req.params;
+      const { count, drop_table } = req.body;
+
+      const booster = await Database.get('SELECT id FROM boosters WHERE id = ?', [id]);
+      if (!booster) {
+        res.status(404).json({ error: 'Booster non trouvé' });
+        return;
+      }
+
+      if (!Number.isInteger(count) || count < 1 || count > MAX_SIMULATION_PACKS) {
+        res.status(400).json({ error: `count doit être un entier entre 1 et ${MAX_SIMULATION_PACKS}` });
+        return;
+      }
+
+      let dropTableOverride: DropTable | undefined;
+      if (drop_table !== undefined && drop_table !== null) {
+        const validationError = DropTableService.validateDropTable(drop_table);
+        if (validationError) {
+          res.status(400).json({ error: validationError });
+          return;
+        }
+
+        dropTableOverride = {
+          booster_id: id,
+          pack_size: drop_table.pack_size,
+          alternate_chance: drop_table.alternate_chance,
+          slot_weights: drop_table.slot_weights,
+          is_default: false
+        };
+      }
+
+      const report = await BoosterSimulationService.simulate(id, count, dropTableOverride);
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'simulate_booster',
+        booster_id: id,
+        count,
+        custom_drop_table: !!dropTableOverride
+      }, req);
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      console.error('Erreur simulation booster:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+}
@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { CardModel } from '../models/Card.js';
 import { BoosterModel } from '../models/Booster.js';
 import { Database } from '../utils/database.js';
+import { DropRateService } from '../services/DropRateService.js';
+import { CardMarketService } from '../services/CardMarketService.js';
 
 // Fonction pour transformer les données en camelCase
 function transformBoosterToCamelCase(booster: any) {
@@ -214,6 +216,68 @@ export class CardController {
     }
   }
 
+  /**
+   * Taux de drop publics d'un booster: taux annoncés vs tirages observés
+   */
+  static async getDropRates(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const booster = await BoosterModel.findById(id);
+      if (!booster) {
+        res.status(404).json({
+          success: false,
+          error: 'Booster non trouvé'
+        });
+        return;
+      }
+
+      const dropRates = await DropRateService.getDropRates(id);
+
+      res.json({
+        success: true,
+        data: {
+          ...dropRates,
+          booster: transformBoosterToCamelCase(booster)
+        }
+      });
+
+    } catch (error) {
+      console.error('Erreur lors de la récupération des taux de drop:', error);
+      res.status(500).json({
+        error: 'Erreur interne du serveur'
+      });
+    }
+  }
+
+  static async getCardMarket(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const card = await CardModel.findById(id);
+      if (!card) {
+        res.status(404).json({
+          success: false,
+          error: 'Carte non trouvée'
+        });
+        return;
+      }
+
+      const market = await CardMarketService.getCardMarket(card.id, card.rarity);
+
+      res.json({
+        success: true,
+        data: market
+      });
+
+    } catch (error) {
+      console.error('Erreur lors de la récupération du marché de la carte:', error);
+      res.status(500).json({
+        error: 'Erreur interne du serveur'
+      });
+    }
+  }
+
   static async getCardsByRarity(req: Request, res: Response): Promise<void> {
     try {
       const { boosterId, rarity } = req.params;
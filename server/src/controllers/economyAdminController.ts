@@ -0,0 +1,86 @@
+import { Request, Response } from 'express';
+import { EconomyService, MAX_REPORT_DAYS } from '../services/EconomyService.js';
+import { BerryLedgerService } from '../services/BerryLedgerService.js';
+import { AuditLogger, AuditAction } from '../utils/auditLogger.js';
+
+export class EconomyAdminController {
+  /**
+   * [ADMIN] Berrys créés et détruits par source, avec les paramètres de l'économie
+   */
+  static async getEconomyReport(req: Request, res: Response): Promise<void> {
+    try {
+      const days = Math.max(1, Math.min(parseInt(req.query.days as string) || 30, MAX_REPORT_DAYS));
+
+      const [report, settings] = await Promise.all([
+        EconomyService.getEconomyReport(days),
+        EconomyService.getSettings()
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          ...report,
+          settings
+        }
+      });
+    } catch (error) {
+      console.error('Erreur récupération rapport économie:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Modifier la taxe du marketplace et les emplacements d'annonces payants
+   */
+  static async updateSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { marketplace_tax_rate, listing_slot_price, max_extra_listing_slots } = req.body;
+
+      // Validation
+      const validationError = EconomyService.validateSettings({ marketplace_tax_rate, listing_slot_price, max_extra_listing_slots });
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const settings = await EconomyService.saveSettings(
+        { marketplace_tax_rate, listing_slot_price, max_extra_listing_slots },
+        adminId!
+      );
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'update_economy_settings',
+        marketplace_tax_rate,
+        listing_slot_price,
+        max_extra_listing_slots
+      }, req);
+
+      res.json({
+        success: true,
+        data: settings
+      });
+    } catch (error) {
+      console.error('Erreur mise à jour paramètres économie:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Réconcilier les soldes de Berrys avec le registre
+   */
+  static async getReconciliation(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await BerryLedgerService.runReconciliation();
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      console.error('Erreur réconciliation des Berrys:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+}
@@ -1,32 +1,111 @@
 import { Request, Response } from 'express';
-import { MarketplaceListingModel } from '../models/MarketplaceListing.js';
+import { MarketplaceListingModel, ListingSearchFilters, ListingSort, LISTING_SORTS } from '../models/MarketplaceListing.js';
 import { UserModel } from '../models/User.js';
 import { CardModel } from '../models/Card.js';
 import { Database } from '../utils/database.js';
+import { MarketplaceBuyOrderModel } from '../models/MarketplaceBuyOrder.js';
+import { MarketplaceOrderBookService, BuyOrderFill, ListingMatch } from '../services/MarketplaceOrderBookService.js';
+import {
+  MarketplaceAuctionService,
+  MIN_AUCTION_DURATION_HOURS,
+  MAX_AUCTION_DURATION_HOURS
+} from '../services/MarketplaceAuctionService.js';
+import { EconomyService, ListingSlots } from '../services/EconomyService.js';
+import {
+  MarketplaceExpiryService,
+  LISTING_DURATIONS_DAYS,
+  DEFAULT_LISTING_DURATION_DAYS
+} from '../services/MarketplaceExpiryService.js';
+import { BerryLedgerService } from '../services/BerryLedgerService.js';
+import { RARITIES, Rarity } from '../services/DropTableService.js';
+import { BulkCollectionService, BulkListingResult, MAX_BULK_LISTING_CARDS } from '../services/BulkCollectionService.js';
 import { AuditLogger, AuditAction } from '../utils/auditLogger.js';
 
-// Configuration du marketplace
-const MAX_LISTINGS_PER_USER = 3;
+// Configuration du marketplace (emplacements d'annonces et taxe: voir EconomyService)
+const MAX_BUY_ORDERS_PER_USER = 5;
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
 const MIN_PRICE = 1;
 const MAX_PRICE = 999999;
 
 export class MarketplaceController {
   /**
-   * Récupérer toutes les annonces actives du marketplace
+   * Rechercher les annonces actives du marketplace
+   * Filtres: search, character, rarity, boosterId, color, minPrice, maxPrice, seller
+   * Tri: sort (recent, price_asc, price_desc, rarity) - Pagination: cursor, limit
    */
   static async getListings(req: Request, res: Response): Promise<void> {
     try {
-      const listings = await MarketplaceListingModel.getActiveListings();
+      const query = req.query as Record<string, string | undefined>;
+      const filters: ListingSearchFilters = {};
 
-      // Transformer les couleurs JSON
-      const transformedListings = listings.map(listing => ({
-        ...listing,
-        card_color: listing.card_rarity ? undefined : undefined // Les couleurs sont déjà dans les cartes
-      }));
+      // SÉCURITÉ: Validation des filtres texte
+      for (const key of ['search', 'character', 'seller', 'boosterId'] as const) {
+        const value = query[key];
+        if (value === undefined || value === '') continue;
+        if (typeof value !== 'string' || value.length > 100) {
+          res.status(400).json({ error: `Filtre ${key} invalide: 100 caractères maximum` });
+          return;
+        }
+        filters[key] = value.trim();
+      }
+
+      if (query.rarity) {
+        if (!(RARITIES as readonly string[]).includes(query.rarity)) {
+          res.status(400).json({ error: 'Rareté invalide', validRarities: RARITIES });
+          return;
+        }
+        filters.rarity = query.rarity;
+      }
+
+      if (query.color) {
+        if (typeof query.color !== 'string' || !/^[A-Za-z]{1,20}$/.test(query.color)) {
+          res.status(400).json({ error: 'Couleur invalide' });
+          return;
+        }
+        filters.color = query.color;
+      }
+
+      for (const key of ['minPrice', 'maxPrice'] as const) {
+        if (query[key] === undefined || query[key] === '') continue;
+        const parsed = parseInt(query[key] as string, 10);
+        if (isNaN(parsed) || parsed < 0 || parsed > MAX_PRICE) {
+          res.status(400).json({ error: `Le prix doit être entre 0 et ${MAX_PRICE} Berrys` });
+          return;
+        }
+        filters[key] = parsed;
+      }
+
+      if (query.sort) {
+        if (!(LISTING_SORTS as readonly string[]).includes(query.sort)) {
+          res.status(400).json({ error: 'Tri invalide', validSorts: LISTING_SORTS });
+          return;
+        }
+        filters.sort = query.sort as ListingSort;
+      }
+
+      if (query.cursor) {
+        try {
+          MarketplaceListingModel.decodeCursor(query.cursor);
+        } catch (cursorError: any) {
+          res.status(400).json({ error: cursorError.message });
+          return;
+        }
+        filters.cursor = query.cursor;
+      }
+
+      filters.limit = Math.max(1, Math.min(parseInt(query.limit as string) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE));
+
+      const { listings, nextCursor } = await MarketplaceListingModel.getActiveListings(filters);
 
       res.json({
         success: true,
-        data: transformedListings
+        data: listings,
+        pagination: {
+          limit: filters.limit,
+          next_cursor: nextCursor,
+          has_more: nextCursor !== null
+        }
       });
     } catch (error) {
       console.error('Erreur lors de la récupération des annonces:', error);
@@ -59,17 +138,221 @@ export class MarketplaceController {
 
   /**
    * Créer une nouvelle annonce
+   * Prix fixe: durationDays (1, 3 ou 7 jours) - Enchère: durationHours et buyoutPrice optionnel
    */
   static async createListing(req: Request, res: Response): Promise<void> {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Utilisateur non authentifié' });
+      return;
+    }
+
+    await MarketplaceController.publishListing(req, res, userId, req.body);
+  }
+
+  /**
+   * Mettre en vente à prix fixe plusieurs doublons, au prix fixé pour chaque rareté
+   * Body: cardIds, prices ({ rareté: prix }), durationDays, dryRun (aperçu sans rien modifier)
+   * Les cartes non éligibles sont ignorées et renvoyées dans skipped avec la raison
+   */
+  static async createBulkListings(req: Request, res: Response): Promise<void> {
+    const userId = req.user?.id;
+
+    try {
+      const { cardIds, prices, durationDays, dryRun = false } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      // SÉCURITÉ: Validation des entrées
+      if (!Array.isArray(cardIds) || cardIds.length === 0 || cardIds.length > MAX_BULK_LISTING_CARDS
+        || cardIds.some(cardId => !cardId || typeof cardId !== 'string')) {
+        res.status(400).json({ error: `Liste de cartes invalide (1-${MAX_BULK_LISTING_CARDS} cartes)` });
+        return;
+      }
+
+      if (!prices || typeof prices !== 'object' || Array.isArray(prices)) {
+        res.status(400).json({ error: 'Prix par rareté requis' });
+        return;
+      }
+
+      const parsedPrices: Partial<Record<Rarity, number>> = {};
+      for (const [rarity, price] of Object.entries(prices)) {
+        if (!(RARITIES as readonly string[]).includes(rarity)) {
+          res.status(400).json({ error: `Rareté invalide: ${rarity}` });
+          return;
+        }
+
+        const parsedPrice = parseInt(price as any, 10);
+        if (isNaN(parsedPrice) || parsedPrice < MIN_PRICE || parsedPrice > MAX_PRICE) {
+          res.status(400).json({
+            error: `Le prix doit être entre ${MIN_PRICE} et ${MAX_PRICE} Berrys`
+          });
+          return;
+        }
+
+        parsedPrices[rarity as Rarity] = parsedPrice;
+      }
+
+      const parsedDays = durationDays === undefined || durationDays === null || durationDays === ''
+        ? DEFAULT_LISTING_DURATION_DAYS
+        : parseInt(durationDays, 10);
+      if (!LISTING_DURATIONS_DAYS.includes(parsedDays)) {
+        res.status(400).json({
+          error: `La durée de mise en vente doit être de ${LISTING_DURATIONS_DAYS.join(', ')} jours`
+        });
+        return;
+      }
+
+      if (dryRun === true) {
+        const plan = await BulkCollectionService.planBulkListing(userId, cardIds, parsedPrices);
+
+        res.json({
+          success: true,
+          data: {
+            ...plan,
+            dry_run: true
+          }
+        });
+        return;
+      }
+
+      // SÉCURITÉ: Transaction atomique, l'éligibilité est recalculée sous verrou
+      const endsAt = MarketplaceExpiryService.getExpiryDate(parsedDays);
+      let result: BulkListingResult | null = null;
+
+      await Database.transaction(async () => {
+        result = await BulkCollectionService.executeBulkListing(userId, cardIds, parsedPrices, endsAt);
+        if (result.listings.length === 0 && result.fills.length === 0) {
+          throw new Error('Aucune carte éligible à la mise en vente');
+        }
+      });
+
+      const { listings, fills, skipped } = result! as BulkListingResult;
+
+      // AUDIT: Log de chaque annonce créée et de chaque ordre d'achat servi
+      for (const listing of listings) {
+        await AuditLogger.logSuccess(AuditAction.MARKETPLACE_LISTING_CREATED, userId, {
+          listingId: listing.id,
+          cardId: listing.card_id,
+          price: listing.price,
+          listingType: 'fixed',
+          endsAt,
+          bulk: true
+        }, req);
+      }
+
+      for (const { order, price, tax } of fills) {
+        await AuditLogger.logSuccess(AuditAction.MARKETPLACE_BUY_ORDER_FILLED, userId, {
+          orderId: order.id,
+          cardId: order.card_id,
+          buyerId: order.buyer_id,
+          price,
+          tax,
+          bulk: true
+        }, req);
+      }
+
+      const seller = await UserModel.findById(userId);
+
+      res.json({
+        success: true,
+        data: {
+          listings,
+          filled_buy_orders: fills.map(({ order, price, tax }) => ({ order, price, tax })),
+          skipped,
+          dry_run: false,
+          new_balance: seller?.berrys || 0
+        }
+      });
+    } catch (error: any) {
+      console.error('Erreur lors de la mise en vente par lot:', error);
+
+      // AUDIT: Log échec
+      if (error.message) {
+        await AuditLogger.logFailure(AuditAction.MARKETPLACE_LISTING_CREATED, {
+          reason: error.message,
+          userId,
+          bulk: true
+        }, req, userId);
+      }
+
+      res.status(400).json({
+        error: error.message || 'Erreur serveur'
+      });
+    }
+  }
+
+  /**
+   * Remettre en vente à prix fixe la carte d'une annonce expirée, avec un nouveau prix
+   */
+  static async relistListing(req: Request, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
-      const { cardId, price } = req.body;
+      const { listingId } = req.params;
 
       if (!userId) {
         res.status(401).json({ error: 'Utilisateur non authentifié' });
         return;
       }
 
+      if (!listingId || typeof listingId !== 'string') {
+        res.status(400).json({ error: 'Listing ID invalide' });
+        return;
+      }
+
+      const listing = await MarketplaceListingModel.findById(listingId);
+      if (!listing) {
+        res.status(404).json({ error: 'Annonce non trouvée' });
+        return;
+      }
+
+      // SÉCURITÉ: Vérifier que l'utilisateur est bien le vendeur
+      if (listing.seller_id !== userId) {
+        res.status(403).json({ error: 'Vous n\'êtes pas autorisé à remettre cette annonce en vente' });
+        return;
+      }
+
+      if (listing.status !== 'expired') {
+        res.status(400).json({ error: 'Seules les annonces expirées peuvent être remises en vente' });
+        return;
+      }
+
+      if (listing.relisted_at) {
+        res.status(400).json({ error: 'Cette annonce a déjà été remise en vente' });
+        return;
+      }
+
+      await MarketplaceController.publishListing(req, res, userId, {
+        cardId: listing.card_id,
+        price: req.body.price,
+        listingType: 'fixed',
+        durationDays: req.body.durationDays
+      }, listing.id);
+    } catch (error) {
+      console.error('Erreur lors de la remise en vente:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * Valider et publier une annonce (création ou remise en vente)
+   */
+  private static async publishListing(
+    req: Request,
+    res: Response,
+    userId: string,
+    input: any,
+    relistedFrom: string | null = null
+  ): Promise<void> {
+    const auditAction = relistedFrom ? AuditAction.MARKETPLACE_LISTING_RELISTED : AuditAction.MARKETPLACE_LISTING_CREATED;
+
+    try {
+      const { cardId, price, listingType = 'fixed', buyoutPrice, durationHours, durationDays } = input || {};
+
       // SÉCURITÉ: Validation des entrées
       if (!cardId || typeof cardId !== 'string') {
         res.status(400).json({ error: 'Card ID invalide' });
@@ -84,11 +367,102 @@ export class MarketplaceController {
         return;
       }
 
-      // SÉCURITÉ: Vérifier la limite d'annonces par utilisateur
+      if (listingType !== 'fixed' && listingType !== 'auction') {
+        res.status(400).json({ error: 'Type d\'annonce invalide' });
+        return;
+      }
+
+      // Enchère: le prix correspond à la mise de départ
+      let parsedBuyoutPrice: number | null = null;
+      let endsAt: string | null = null;
+
+      if (listingType === 'auction') {
+        if (buyoutPrice !== undefined && buyoutPrice !== null && buyoutPrice !== '') {
+          parsedBuyoutPrice = parseInt(buyoutPrice, 10);
+          if (isNaN(parsedBuyoutPrice) || parsedBuyoutPrice <= parsedPrice || parsedBuyoutPrice > MAX_PRICE) {
+            res.status(400).json({
+              error: `Le prix d'achat immédiat doit être supérieur à la mise de départ et inférieur à ${MAX_PRICE} Berrys`
+            });
+            return;
+          }
+        }
+
+        const parsedDuration = parseInt(durationHours, 10);
+        if (isNaN(parsedDuration) || parsedDuration < MIN_AUCTION_DURATION_HOURS || parsedDuration > MAX_AUCTION_DURATION_HOURS) {
+          res.status(400).json({
+            error: `La durée de l'enchère doit être entre ${MIN_AUCTION_DURATION_HOURS} et ${MAX_AUCTION_DURATION_HOURS} heures`
+          });
+          return;
+        }
+
+        endsAt = new Date(Date.now() + parsedDuration * 60 * 60 * 1000).toISOString();
+      } else {
+        // Prix fixe: l'annonce expire au bout de la durée choisie par le vendeur
+        const parsedDays = durationDays === undefined || durationDays === null || durationDays === ''
+          ? DEFAULT_LISTING_DURATION_DAYS
+          : parseInt(durationDays, 10);
+        if (!LISTING_DURATIONS_DAYS.includes(parsedDays)) {
+          res.status(400).json({
+            error: `La durée de mise en vente doit être de ${LISTING_DURATIONS_DAYS.join(', ')} jours`
+          });
+          return;
+        }
+
+        endsAt = MarketplaceExpiryService.getExpiryDate(parsedDays);
+      }
+
+      // Remise en vente: l'annonce expirée ne sert qu'une fois, dans la transaction qui publie
+      const claimRelistedListing = async () => {
+        if (relistedFrom && !await MarketplaceListingModel.markRelisted(relistedFrom)) {
+          throw new Error('Cette annonce a déjà été remise en vente');
+        }
+      };
+
+      // Annonce à prix fixe: exécution immédiate si un ordre d'achat couvre le prix demandé
+      if (listingType === 'fixed') {
+        let fill: BuyOrderFill | null = null;
+
+        await Database.transaction(async () => {
+          fill = await MarketplaceOrderBookService.matchIncomingListing(userId, cardId, parsedPrice);
+          if (fill) {
+            await claimRelistedListing();
+          }
+        });
+
+        if (fill) {
+          const { order, price, tax } = fill as BuyOrderFill;
+          const seller = await UserModel.findById(userId);
+
+          // AUDIT: Log exécution de l'ordre d'achat
+          await AuditLogger.logSuccess(AuditAction.MARKETPLACE_BUY_ORDER_FILLED, userId, {
+            orderId: order.id,
+            cardId,
+            buyerId: order.buyer_id,
+            askedPrice: parsedPrice,
+            price,
+            tax,
+            relistedFrom
+          }, req);
+
+          res.json({
+            success: true,
+            data: {
+              filled_buy_order: order,
+              price,
+              tax,
+              new_balance: seller?.berrys || 0
+            }
+          });
+          return;
+        }
+      }
+
+      // SÉCURITÉ: Vérifier la limite d'annonces par utilisateur (emplacements de base + achetés)
       const activeListingsCount = await MarketplaceListingModel.countActiveListingsBySeller(userId);
-      if (activeListingsCount >= MAX_LISTINGS_PER_USER) {
+      const slots = await EconomyService.getListingSlots(userId);
+      if (activeListingsCount >= slots.total) {
         res.status(403).json({
-          error: `Vous ne pouvez avoir que ${MAX_LISTINGS_PER_USER} annonces actives maximum`,
+          error: `Vous ne pouvez avoir que ${slots.total} annonces actives maximum`,
           current_count: activeListingsCount
         });
         return;
@@ -110,9 +484,9 @@ export class MarketplaceController {
           throw new Error('Carte non trouvée dans votre collection');
         }
 
-        // 2. SÉCURITÉ CRITIQUE: Vérifier que l'utilisateur a AU MOINS 2 exemplaires
-        if (userCard.quantity < 2) {
-          throw new Error('Vous devez posséder au moins 2 exemplaires de cette carte pour la vendre');
+        // 2. SÉCURITÉ CRITIQUE: Vérifier que l'utilisateur a AU MOINS 2 exemplaires hors séquestre
+        if (userCard.quantity - (userCard.reserved_quantity || 0) < 2) {
+          throw new Error('Vous devez posséder au moins 2 exemplaires disponibles de cette carte pour la vendre');
         }
 
         // 3. Vérifier que la carte est active
@@ -130,14 +504,24 @@ export class MarketplaceController {
           throw new Error('Vous avez déjà une annonce active pour cette carte');
         }
 
-        // 5. Créer l'annonce
+        // 5. Mettre l'exemplaire sous séquestre jusqu'à la vente ou l'annulation
+        const reserved = await MarketplaceListingModel.reserveCard(userId, cardId);
+        if (!reserved) {
+          throw new Error('Vous devez posséder au moins 2 exemplaires disponibles de cette carte pour la vendre');
+        }
+
+        // 6. Créer l'annonce
         const listing = await MarketplaceListingModel.create({
           seller_id: userId,
           card_id: cardId,
-          price: parsedPrice
+          price: parsedPrice,
+          listing_type: listingType,
+          buyout_price: parsedBuyoutPrice,
+          ends_at: endsAt
         });
 
         listingId = listing.id;
+        await claimRelistedListing();
       });
 
       // Récupérer les détails de l'annonce créée
@@ -155,11 +539,15 @@ export class MarketplaceController {
         WHERE ml.id = ?
       `, [listingId]);
 
-      // AUDIT: Log création d'annonce
-      await AuditLogger.logSuccess(AuditAction.MARKETPLACE_LISTING_CREATED, userId, {
+      // AUDIT: Log création ou remise en vente
+      await AuditLogger.logSuccess(auditAction, userId, {
         listingId,
         cardId,
-        price: parsedPrice
+        price: parsedPrice,
+        listingType,
+        buyoutPrice: parsedBuyoutPrice,
+        endsAt,
+        relistedFrom
       }, req);
 
       res.json({
@@ -171,10 +559,11 @@ export class MarketplaceController {
 
       // AUDIT: Log échec
       if (error.message) {
-        await AuditLogger.logFailure(AuditAction.MARKETPLACE_LISTING_CREATED, {
+        await AuditLogger.logFailure(auditAction, {
           reason: error.message,
-          userId: req.user?.id
-        }, req, req.user?.id);
+          userId,
+          relistedFrom
+        }, req, userId);
       }
 
       res.status(400).json({
@@ -220,6 +609,16 @@ export class MarketplaceController {
           throw new Error('Cette annonce n\'est plus disponible');
         }
 
+        // Les enchères s'achètent via une enchère au prix d'achat immédiat
+        if (listing.listing_type === 'auction') {
+          throw new Error('Cette annonce est une enchère, utilisez l\'achat immédiat ou placez une enchère');
+        }
+
+        // SÉCURITÉ: Une annonce échue n'est plus en vente, même avant le passage du balayage
+        if (listing.ends_at && listing.ends_at <= new Date().toISOString()) {
+          throw new Error('Cette annonce a expiré');
+        }
+
         // 3. SÉCURITÉ: Empêcher l'auto-achat
         if (listing.seller_id === userId) {
           throw new Error('Vous ne pouvez pas acheter votre propre annonce');
@@ -237,82 +636,23 @@ export class MarketplaceController {
           throw new Error(`Berrys insuffisants. Requis: ${listing.price}, Disponible: ${buyerBerrys}`);
         }
 
-        // 6. SÉCURITÉ: Vérifier que le vendeur possède toujours la carte (protection anti-fraude)
-        const sellerCard = await Database.get(`
-          SELECT * FROM user_collections
-          WHERE user_id = ? AND card_id = ?
-        `, [listing.seller_id, listing.card_id]);
-
-        if (!sellerCard || sellerCard.quantity < 1) {
-          // Annuler l'annonce automatiquement
-          await Database.run(`
-            UPDATE marketplace_listings SET status = 'cancelled' WHERE id = ?
-          `, [listingId]);
-          throw new Error('Le vendeur ne possède plus cette carte');
-        }
-
-        // 7. Récupérer les informations de la carte pour le retour
+        // 6. Récupérer les informations de la carte pour le retour
         const card = await CardModel.findById(listing.card_id);
         if (!card) {
           throw new Error('Carte non trouvée');
         }
 
-        // 8. TRANSACTION ATOMIQUE: Déduire les Berrys de l'acheteur
-        const buyerUpdate = await Database.run(`
-          UPDATE users
-          SET berrys = berrys - ?
-          WHERE id = ? AND berrys >= ?
-        `, [listing.price, userId, listing.price]);
-
-        if (buyerUpdate.changes === 0) {
-          throw new Error('Transaction refusée: Berrys insuffisants');
-        }
-
-        // 9. Ajouter les Berrys au vendeur
-        await Database.run(`
-          UPDATE users
-          SET berrys = COALESCE(berrys, 0) + ?
-          WHERE id = ?
-        `, [listing.price, listing.seller_id]);
-
-        // 10. Retirer la carte de la collection du vendeur
-        await Database.run(`
-          UPDATE user_collections
-          SET quantity = quantity - 1
-          WHERE user_id = ? AND card_id = ? AND quantity >= 1
-        `, [listing.seller_id, listing.card_id]);
-
-        // 11. Ajouter la carte à la collection de l'acheteur
-        const buyerCard = await Database.get(`
-          SELECT * FROM user_collections
-          WHERE user_id = ? AND card_id = ?
-        `, [userId, listing.card_id]);
-
-        if (buyerCard) {
-          // L'acheteur a déjà cette carte, augmenter la quantité
-          await Database.run(`
-            UPDATE user_collections
-            SET quantity = quantity + 1
-            WHERE user_id = ? AND card_id = ?
-          `, [userId, listing.card_id]);
-        } else {
-          // Nouvelle carte pour l'acheteur
-          await Database.run(`
-            INSERT INTO user_collections (user_id, card_id, quantity, obtained_at, is_favorite)
-            VALUES (?, ?, 1, ?, 0)
-          `, [userId, listing.card_id, new Date().toISOString()]);
-        }
-
-        // 12. Marquer l'annonce comme vendue
-        await MarketplaceListingModel.markAsSold(listingId, userId);
-
-        // 13. Récupérer les nouveaux soldes
+        // 7. TRANSACTION ATOMIQUE: Berrys au vendeur (moins la taxe), exemplaire sous séquestre à l'acheteur
+        const tax = await MarketplaceOrderBookService.executeListingPurchase(listing, userId);
+
+        // 8. Récupérer les nouveaux soldes
         const updatedBuyer = await UserModel.findById(userId);
         const updatedSeller = await UserModel.findById(listing.seller_id);
 
         purchaseData = {
           card,
           price: listing.price,
+          tax,
           seller_username: updatedSeller?.username,
           buyer_new_balance: updatedBuyer?.berrys || 0,
           seller_new_balance: updatedSeller?.berrys || 0
@@ -324,6 +664,7 @@ export class MarketplaceController {
         listingId,
         cardId: purchaseData.card.id,
         price: purchaseData.price,
+        tax: purchaseData.tax,
         newBalance: purchaseData.buyer_new_balance
       }, req);
 
@@ -392,8 +733,23 @@ export class MarketplaceController {
         return;
       }
 
-      // Annuler l'annonce
-      await MarketplaceListingModel.cancel(listingId);
+      // Une enchère ne peut plus être annulée une fois qu'une offre a été placée
+      if (listing.listing_type === 'auction' && listing.current_bidder_id) {
+        res.status(400).json({ error: 'Impossible d\'annuler une enchère qui a déjà reçu une offre' });
+        return;
+      }
+
+      // Annuler l'annonce et libérer l'exemplaire sous séquestre
+      // SÉCURITÉ: L'annulation est refusée si l'annonce a été vendue ou a reçu une enchère depuis la lecture
+      let cancelled = false;
+      await Database.transaction(async () => {
+        cancelled = await MarketplaceListingModel.cancel(listingId);
+      });
+
+      if (!cancelled) {
+        res.status(400).json({ error: 'Cette annonce ne peut plus être annulée' });
+        return;
+      }
 
       // AUDIT: Log annulation
       await AuditLogger.logSuccess(AuditAction.MARKETPLACE_LISTING_CANCELLED, userId, {
@@ -410,4 +766,491 @@ export class MarketplaceController {
       res.status(500).json({ error: 'Erreur serveur' });
     }
   }
+
+  /**
+   * Placer une enchère sur une annonce
+   */
+  static async placeBid(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { listingId } = req.params;
+      const { amount } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      // SÉCURITÉ: Validation des entrées
+      if (!listingId || typeof listingId !== 'string') {
+        res.status(400).json({ error: 'Listing ID invalide' });
+        return;
+      }
+
+      const parsedAmount = parseInt(amount, 10);
+      if (isNaN(parsedAmount) || parsedAmount < MIN_PRICE || parsedAmount > MAX_PRICE) {
+        res.status(400).json({
+          error: `Le montant doit être entre ${MIN_PRICE} et ${MAX_PRICE} Berrys`
+        });
+        return;
+      }
+
+      let bidData: any = null;
+
+      // SÉCURITÉ: Transaction atomique (retenue, remboursement et clôture éventuelle)
+      await Database.transaction(async () => {
+        const result = await MarketplaceAuctionService.placeBid(listingId, userId, parsedAmount);
+        const bidder = await UserModel.findById(userId);
+
+        bidData = {
+          listing: result.listing,
+          amount: result.amount,
+          settled: result.settled,
+          new_balance: bidder?.berrys || 0
+        };
+      });
+
+      // AUDIT: Log enchère
+      await AuditLogger.logSuccess(AuditAction.MARKETPLACE_BID_PLACED, userId, {
+        listingId,
+        amount: bidData.amount,
+        settled: bidData.settled,
+        newBalance: bidData.new_balance
+      }, req);
+
+      if (bidData.settled) {
+        await AuditLogger.logSuccess(AuditAction.MARKETPLACE_AUCTION_SETTLED, bidData.listing.seller_id, {
+          listingId,
+          cardId: bidData.listing.card_id,
+          winnerId: userId,
+          finalPrice: bidData.amount
+        }, req);
+      }
+
+      res.json({
+        success: true,
+        data: bidData
+      });
+    } catch (error: any) {
+      console.error('Erreur lors de l\'enchère:', error);
+
+      // AUDIT: Log échec
+      if (error.message) {
+        await AuditLogger.logFailure(AuditAction.MARKETPLACE_BID_PLACED, {
+          reason: error.message,
+          userId: req.user?.id,
+          listingId: req.params.listingId
+        }, req, req.user?.id);
+      }
+
+      res.status(400).json({
+        error: error.message || 'Erreur serveur'
+      });
+    }
+  }
+
+  /**
+   * Récupérer l'historique des enchères d'une annonce
+   */
+  static async getBids(req: Request, res: Response): Promise<void> {
+    try {
+      const { listingId } = req.params;
+
+      const listing = await MarketplaceListingModel.findById(listingId);
+      if (!listing) {
+        res.status(404).json({ error: 'Annonce non trouvée' });
+        return;
+      }
+
+      const bids = await MarketplaceListingModel.getBids(listingId);
+
+      res.json({
+        success: true,
+        data: {
+          bids,
+          minimum_bid: MarketplaceAuctionService.getMinimumBid(listing)
+        }
+      });
+    } catch (error) {
+      console.error('Erreur lors de la récupération des enchères:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * Récupérer les ordres d'achat ouverts (optionnellement pour une carte)
+   */
+  static async getBuyOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const cardId = typeof req.query.cardId === 'string' ? req.query.cardId : undefined;
+      const orders = await MarketplaceBuyOrderModel.getActiveOrders(cardId);
+
+      res.json({
+        success: true,
+        data: orders
+      });
+    } catch (error) {
+      console.error('Erreur lors de la récupération des ordres d\'achat:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * Récupérer les ordres d'achat de l'utilisateur
+   */
+  static async getMyBuyOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      const orders = await MarketplaceBuyOrderModel.getBuyerOrders(userId);
+
+      res.json({
+        success: true,
+        data: orders
+      });
+    } catch (error) {
+      console.error('Erreur lors de la récupération des ordres d\'achat utilisateur:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * Créer un ordre d'achat
+   * Exécuté immédiatement contre l'annonce la moins chère au prix maximum ou en dessous,
+   * sinon le prix maximum est retenu sur le solde jusqu'à exécution ou annulation
+   */
+  static async createBuyOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { cardId, maxPrice } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      // SÉCURITÉ: Validation des entrées
+      if (!cardId || typeof cardId !== 'string') {
+        res.status(400).json({ error: 'Card ID invalide' });
+        return;
+      }
+
+      const parsedMaxPrice = parseInt(maxPrice, 10);
+      if (isNaN(parsedMaxPrice) || parsedMaxPrice < MIN_PRICE || parsedMaxPrice > MAX_PRICE) {
+        res.status(400).json({
+          error: `Le prix doit être entre ${MIN_PRICE} et ${MAX_PRICE} Berrys`
+        });
+        return;
+      }
+
+      let match: ListingMatch | null = null;
+      let orderId: string | null = null;
+
+      await Database.transaction(async () => {
+        // 1. Vérifier que la carte existe et est active
+        const card = await CardModel.findById(cardId);
+        if (!card || !card.is_active) {
+          throw new Error('Carte non trouvée');
+        }
+
+        // 2. Exécution immédiate contre une annonce existante
+        match = await MarketplaceOrderBookService.matchIncomingBuyOrder(userId, cardId, parsedMaxPrice);
+        if (match) return;
+
+        // 3. SÉCURITÉ: Limites d'ordres ouverts
+        const activeOrders = await MarketplaceBuyOrderModel.countActiveByBuyer(userId);
+        if (activeOrders >= MAX_BUY_ORDERS_PER_USER) {
+          throw new Error(`Vous ne pouvez avoir que ${MAX_BUY_ORDERS_PER_USER} ordres d'achat ouverts maximum`);
+        }
+
+        const existingOrder = await Database.get(`
+          SELECT id FROM marketplace_buy_orders
+          WHERE buyer_id = ? AND card_id = ? AND status = 'active'
+        `, [userId, cardId]);
+
+        if (existingOrder) {
+          throw new Error('Vous avez déjà un ordre d\'achat ouvert pour cette carte');
+        }
+
+        // 4. Créer l'ordre
+        const order = await MarketplaceBuyOrderModel.create({
+          buyer_id: userId,
+          card_id: cardId,
+          max_price: parsedMaxPrice
+        });
+
+        // 5. Retenir le prix maximum sur le solde de l'acheteur
+        const debit = await BerryLedgerService.debit(userId, parsedMaxPrice, 'buy_order_hold', order.id, 'escrow');
+        if (debit === null) {
+          throw new Error(`Berrys insuffisants. Requis: ${parsedMaxPrice}`);
+        }
+
+        orderId = order.id;
+      });
+
+      const buyer = await UserModel.findById(userId);
+
+      if (match) {
+        const { listing, price } = match as ListingMatch;
+
+        // AUDIT: Log achat immédiat via l'ordre
+        await AuditLogger.logSuccess(AuditAction.MARKETPLACE_PURCHASE, userId, {
+          listingId: listing.id,
+          cardId,
+          price,
+          maxPrice: parsedMaxPrice,
+          newBalance: buyer?.berrys || 0
+        }, req);
+
+        res.json({
+          success: true,
+          data: {
+            matched_listing: listing,
+            price,
+            new_balance: buyer?.berrys || 0
+          }
+        });
+        return;
+      }
+
+      // AUDIT: Log création de l'ordre
+      await AuditLogger.logSuccess(AuditAction.MARKETPLACE_BUY_ORDER_CREATED, userId, {
+        orderId,
+        cardId,
+        maxPrice: parsedMaxPrice
+      }, req);
+
+      res.json({
+        success: true,
+        data: {
+          order: await MarketplaceBuyOrderModel.findById(orderId!),
+          new_balance: buyer?.berrys || 0
+        }
+      });
+    } catch (error: any) {
+      console.error('Erreur lors de la création de l\'ordre d\'achat:', error);
+
+      // AUDIT: Log échec
+      if (error.message) {
+        await AuditLogger.logFailure(AuditAction.MARKETPLACE_BUY_ORDER_CREATED, {
+          reason: error.message,
+          userId: req.user?.id
+        }, req, req.user?.id);
+      }
+
+      res.status(400).json({
+        error: error.message || 'Erreur serveur'
+      });
+    }
+  }
+
+  /**
+   * Servir directement un ordre d'achat avec un exemplaire de sa collection
+   */
+  static async fillBuyOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { orderId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      // SÉCURITÉ: Validation de l'ID
+      if (!orderId || typeof orderId !== 'string') {
+        res.status(400).json({ error: 'Order ID invalide' });
+        return;
+      }
+
+      let fill: BuyOrderFill | null = null;
+
+      await Database.transaction(async () => {
+        fill = await MarketplaceOrderBookService.fillBuyOrder(orderId, userId);
+      });
+
+      const { order, price, tax } = fill! as BuyOrderFill;
+      const seller = await UserModel.findById(userId);
+
+      // AUDIT: Log exécution
+      await AuditLogger.logSuccess(AuditAction.MARKETPLACE_BUY_ORDER_FILLED, userId, {
+        orderId,
+        cardId: order.card_id,
+        buyerId: order.buyer_id,
+        price,
+        tax
+      }, req);
+
+      res.json({
+        success: true,
+        data: {
+          price,
+          tax,
+          new_balance: seller?.berrys || 0
+        }
+      });
+    } catch (error: any) {
+      console.error('Erreur lors de l\'exécution de l\'ordre d\'achat:', error);
+
+      // AUDIT: Log échec
+      if (error.message) {
+        await AuditLogger.logFailure(AuditAction.MARKETPLACE_BUY_ORDER_FILLED, {
+          reason: error.message,
+          userId: req.user?.id,
+          orderId: req.params.orderId
+        }, req, req.user?.id);
+      }
+
+      res.status(400).json({
+        error: error.message || 'Erreur serveur'
+      });
+    }
+  }
+
+  /**
+   * Annuler un ordre d'achat et rendre les Berrys retenus
+   */
+  static async cancelBuyOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { orderId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      const order = await MarketplaceBuyOrderModel.findById(orderId);
+
+      if (!order) {
+        res.status(404).json({ error: 'Ordre d\'achat non trouvé' });
+        return;
+      }
+
+      // SÉCURITÉ: Vérifier que l'utilisateur est bien l'acheteur
+      if (order.buyer_id !== userId) {
+        res.status(403).json({ error: 'Vous n\'êtes pas autorisé à annuler cet ordre d\'achat' });
+        return;
+      }
+
+      let cancelled = false;
+
+      await Database.transaction(async () => {
+        cancelled = await MarketplaceBuyOrderModel.close(orderId, 'cancelled');
+        if (!cancelled) return;
+
+        await BerryLedgerService.credit(userId, order.max_price, 'buy_order_refund', orderId, 'escrow');
+      });
+
+      if (!cancelled) {
+        res.status(400).json({ error: 'Cet ordre d\'achat ne peut plus être annulé' });
+        return;
+      }
+
+      // AUDIT: Log annulation
+      await AuditLogger.logSuccess(AuditAction.MARKETPLACE_BUY_ORDER_CANCELLED, userId, {
+        orderId,
+        cardId: order.card_id,
+        refunded: order.max_price
+      }, req);
+
+      const buyer = await UserModel.findById(userId);
+
+      res.json({
+        success: true,
+        data: {
+          refunded: order.max_price,
+          new_balance: buyer?.berrys || 0
+        }
+      });
+    } catch (error) {
+      console.error('Erreur lors de l\'annulation de l\'ordre d\'achat:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * Taxe de vente et emplacements d'annonces du joueur
+   */
+  static async getFees(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      const [settings, slots, activeListings] = await Promise.all([
+        EconomyService.getSettings(),
+        EconomyService.getListingSlots(userId),
+        MarketplaceListingModel.countActiveListingsBySeller(userId)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          tax_rate: settings.marketplace_tax_rate,
+          listing_slots: { ...slots, used: activeListings }
+        }
+      });
+    } catch (error) {
+      console.error('Erreur lors de la récupération des frais du marketplace:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * Acheter un emplacement d'annonce supplémentaire
+   */
+  static async purchaseListingSlot(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      let slots: ListingSlots | null = null;
+
+      await Database.transaction(async () => {
+        slots = await EconomyService.purchaseListingSlot(userId);
+      });
+
+      const purchased = slots! as ListingSlots;
+      const user = await UserModel.findById(userId);
+
+      // AUDIT: Log achat d'emplacement
+      await AuditLogger.logSuccess(AuditAction.MARKETPLACE_LISTING_SLOT_PURCHASED, userId, {
+        berrysSpent: purchased.slot_price,
+        extraSlots: purchased.extra,
+        newBalance: user?.berrys || 0
+      }, req);
+
+      res.json({
+        success: true,
+        data: {
+          listing_slots: purchased,
+          new_balance: user?.berrys || 0
+        }
+      });
+    } catch (error: any) {
+      console.error('Erreur lors de l\'achat d\'un emplacement d\'annonce:', error);
+
+      // AUDIT: Log échec
+      if (error.message) {
+        await AuditLogger.logFailure(AuditAction.MARKETPLACE_LISTING_SLOT_PURCHASED, {
+          reason: error.message,
+          userId: req.user?.id
+        }, req, req.user?.id);
+      }
+
+      res.status(400).json({
+        error: error.message || 'Erreur serveur'
+      });
+    }
+  }
 }
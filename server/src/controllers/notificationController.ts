@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { Database } from '../utils/database.js';
 import { v4 as uuidv4 } from 'uuid';
 import { AuditLogger, AuditAction } from '../utils/auditLogger.js';
+import { BerryLedgerService } from '../services/BerryLedgerService.js';
 
 const MAX_BERRYS = 999999999;
 
@@ -112,11 +113,12 @@ export class NotificationController {
         LEFT JOIN user_notifications un
           ON n.id = un.notification_id AND un.user_id = ?
         WHERE n.is_active = 1
+          AND (n.user_id IS NULL OR n.user_id = ?)
           AND (n.expires_at IS NULL OR n.expires_at > ?)
           AND un.id IS NULL
         ORDER BY n.created_at DESC
         LIMIT 50
-      `, [userId, now]);
+      `, [userId, userId, now]);
 
       res.json({
         success: true,
@@ -158,8 +160,8 @@ export class NotificationController {
         // 1. Vérifier que la notification existe et est active
         const notification = await Database.get<any>(`
           SELECT * FROM notifications
-          WHERE id = ? AND is_active = 1
-        `, [notificationId]);
+          WHERE id = ? AND is_active = 1 AND (user_id IS NULL OR user_id = ?)
+        `, [notificationId, userId]);
 
         if (!notification) {
           throw new Error('Notification introuvable ou inactive');
@@ -208,13 +210,16 @@ export class NotificationController {
         }
 
         // 4. Appliquer les récompenses
-        if (rewardBerrys > 0 || rewardBoosters > 0) {
+        if (rewardBerrys > 0) {
+          await BerryLedgerService.credit(userId, rewardBerrys, 'notification_reward', notificationId);
+        }
+
+        if (rewardBoosters > 0) {
           await Database.run(`
             UPDATE users
-            SET berrys = berrys + ?,
-                available_boosters = available_boosters + ?
+            SET available_boosters = available_boosters + ?
             WHERE id = ?
-          `, [rewardBerrys, rewardBoosters, userId]);
+          `, [rewardBoosters, userId]);
         }
 
         // 5. Marquer comme lue et réclamée
@@ -257,6 +262,8 @@ export class NotificationController {
         res.status(400).json({ error: 'Notification expirée' });
       } else if (error.message?.includes('Limite')) {
         res.status(400).json({ error: error.message });
+      } else if (error.message?.includes('introuvable')) {
+        res.status(404).json({ error: 'Notification introuvable' });
       } else {
         res.status(500).json({ error: 'Erreur serveur' });
       }
@@ -264,7 +271,7 @@ export class NotificationController {
   }
 
   /**
-   * [ADMIN] Récupérer toutes les notifications
+   * [ADMIN] Récupérer toutes les notifications globales
    */
   static async getAllNotifications(req: Request, res: Response): Promise<void> {
     try {
@@ -275,6 +282,7 @@ export class NotificationController {
           (SELECT COUNT(*) FROM user_notifications WHERE notification_id = n.id) as total_claims
         FROM notifications n
         LEFT JOIN users u ON n.created_by = u.id
+        WHERE n.user_id IS NULL
         ORDER BY n.created_at DESC
       `);
 
@@ -0,0 +1,499 @@
+import { Request, Response } from 'express';
+import { TradeOfferModel, TradeOffer, TradeOfferItem, TradeOfferStatus } from '../models/TradeOffer.js';
+import { UserModel } from '../models/User.js';
+import { Database } from '../utils/database.js';
+import { CollectionTransferService } from '../services/CollectionTransferService.js';
+import { BerryLedgerService } from '../services/BerryLedgerService.js';
+import { AuditLogger, AuditAction } from '../utils/auditLogger.js';
+
+// Configuration des échanges
+const MAX_PENDING_TRADES_PER_USER = 10;
+const MAX_CARDS_PER_SIDE = 10;
+const MAX_CARD_QUANTITY = 100;
+const MAX_TRADE_BERRYS = 999999;
+const TRADE_STATUSES: TradeOfferStatus[] = ['pending', 'accepted', 'declined', 'cancelled', 'countered'];
+
+// Refus à afficher au joueur: les autres erreurs sont des erreurs serveur
+class TradeError extends Error {}
+
+interface TradeTerms {
+  offered_cards: TradeOfferItem[];
+  requested_cards: TradeOfferItem[];
+  offered_berrys: number;
+  requested_berrys: number;
+}
+
+export class TradeController {
+  /**
+   * Valider les cartes d'un côté de l'échange
+   */
+  private static parseTradeCards(raw: any, label: string): TradeOfferItem[] {
+    if (raw === undefined || raw === null) return [];
+
+    if (!Array.isArray(raw) || raw.length > MAX_CARDS_PER_SIDE) {
+      throw new TradeError(`${label}: liste de cartes invalide (${MAX_CARDS_PER_SIDE} maximum)`);
+    }
+
+    const items = new Map<string, number>();
+    for (const entry of raw) {
+      const cardId = entry?.cardId;
+      const quantity = parseInt(entry?.quantity ?? 1, 10);
+
+      if (!cardId || typeof cardId !== 'string') {
+        throw new TradeError(`${label}: Card ID invalide`);
+      }
+      if (isNaN(quantity) || quantity < 1 || quantity > MAX_CARD_QUANTITY) {
+        throw new TradeError(`${label}: quantité invalide (1-${MAX_CARD_QUANTITY})`);
+      }
+      if (items.has(cardId)) {
+        throw new TradeError(`${label}: carte en double`);
+      }
+
+      items.set(cardId, quantity);
+    }
+
+    return Array.from(items, ([card_id, quantity]) => ({ card_id, quantity }));
+  }
+
+  /**
+   * Valider les Berrys d'un côté de l'échange
+   */
+  private static parseTradeBerrys(raw: any, label: string): number {
+    if (raw === undefined || raw === null || raw === '') return 0;
+
+    const berrys = parseInt(raw, 10);
+    if (isNaN(berrys) || berrys < 0 || berrys > MAX_TRADE_BERRYS) {
+      throw new TradeError(`${label}: montant de Berrys invalide (0-${MAX_TRADE_BERRYS})`);
+    }
+
+    return berrys;
+  }
+
+  /**
+   * Valider les termes d'une offre (création ou contre-proposition)
+   */
+  private static parseTradeTerms(body: any): TradeTerms {
+    const terms: TradeTerms = {
+      offered_cards: this.parseTradeCards(body.offeredCards, 'Cartes proposées'),
+      requested_cards: this.parseTradeCards(body.requestedCards, 'Cartes demandées'),
+      offered_berrys: this.parseTradeBerrys(body.offeredBerrys, 'Berrys proposés'),
+      requested_berrys: this.parseTradeBerrys(body.requestedBerrys, 'Berrys demandés')
+    };
+
+    if (terms.offered_cards.length === 0 && terms.offered_berrys === 0) {
+      throw new TradeError('Vous devez proposer au moins une carte ou des Berrys');
+    }
+    if (terms.requested_cards.length === 0 && terms.requested_berrys === 0) {
+      throw new TradeError('Vous devez demander au moins une carte ou des Berrys');
+    }
+    if (terms.offered_cards.length === 0 && terms.requested_cards.length === 0) {
+      throw new TradeError('Un échange doit porter sur au moins une carte');
+    }
+    if (terms.offered_berrys > 0 && terms.requested_berrys > 0) {
+      throw new TradeError('Les Berrys ne peuvent être que d\'un seul côté de l\'échange');
+    }
+
+    return terms;
+  }
+
+  /**
+   * Vérifier que les cartes d'un côté de l'échange existent et sont encore échangeables
+   */
+  private static async assertTradable(cards: TradeOfferItem[]): Promise<void> {
+    for (const item of cards) {
+      const card = await Database.get('SELECT name, is_active FROM cards WHERE id = ?', [item.card_id]);
+
+      if (!card) {
+        throw new TradeError('Carte non trouvée');
+      }
+      if (!card.is_active) {
+        throw new TradeError(`${card.name} ne peut plus être échangée`);
+      }
+    }
+  }
+
+  /**
+   * Vérifier que le joueur peut fournir sa part de l'échange
+   * (cartes actives, exemplaires disponibles hors séquestre en gardant au moins un exemplaire, Berrys)
+   * La part de l'autre joueur n'est vérifiée qu'à l'acceptation, pour ne rien révéler de sa collection
+   */
+  private static async assertCanProvide(userId: string, cards: TradeOfferItem[], berrys: number): Promise<void> {
+    await TradeController.assertTradable(cards);
+
+    for (const item of cards) {
+      const userCard = await Database.get(`
+        SELECT uc.quantity, uc.reserved_quantity, c.name
+        FROM cards c
+        LEFT JOIN user_collections uc ON uc.card_id = c.id AND uc.user_id = ?
+        WHERE c.id = ?
+      `, [userId, item.card_id]);
+
+      const available = (userCard.quantity || 0) - (userCard.reserved_quantity || 0);
+      if (available <= item.quantity) {
+        throw new TradeError(`Vous ne possédez pas assez d'exemplaires disponibles de ${userCard.name} (un exemplaire doit être conservé)`);
+      }
+    }
+
+    if (berrys > 0) {
+      const user = await UserModel.findById(userId);
+      if ((user?.berrys || 0) < berrys) {
+        throw new TradeError('Vous n\'avez pas assez de Berrys');
+      }
+    }
+  }
+
+  /**
+   * Exécuter l'échange: cartes et Berrys dans les deux sens
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  private static async settleTrade(offer: TradeOffer): Promise<void> {
+    const offeredCards = await TradeOfferModel.getItems(offer.id, 'offered');
+    const requestedCards = await TradeOfferModel.getItems(offer.id, 'requested');
+
+    for (const item of offeredCards) {
+      const moved = await CollectionTransferService.transferCard(offer.proposer_id, offer.recipient_id, item.card_id, item.quantity);
+      if (!moved) {
+        throw new TradeError(`Le proposant ne possède plus assez d'exemplaires de ${item.card_name}`);
+      }
+    }
+
+    for (const item of requestedCards) {
+      const moved = await CollectionTransferService.transferCard(offer.recipient_id, offer.proposer_id, item.card_id, item.quantity);
+      if (!moved) {
+        throw new TradeError(`Vous ne possédez plus assez d'exemplaires de ${item.card_name}`);
+      }
+    }
+
+    if (!await BerryLedgerService.transfer(offer.proposer_id, offer.recipient_id, offer.offered_berrys, 'trade', offer.id)) {
+      throw new TradeError('Le proposant n\'a plus assez de Berrys');
+    }
+    if (!await BerryLedgerService.transfer(offer.recipient_id, offer.proposer_id, offer.requested_berrys, 'trade', offer.id)) {
+      throw new TradeError('Berrys insuffisants');
+    }
+  }
+
+  /**
+   * Récupérer les offres envoyées et reçues
+   */
+  static async getTrades(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      const status = req.query.status;
+      if (status !== undefined && !TRADE_STATUSES.includes(status as TradeOfferStatus)) {
+        res.status(400).json({ error: 'Statut invalide' });
+        return;
+      }
+
+      const offers = await TradeOfferModel.getUserOffers(userId, status as TradeOfferStatus | undefined);
+
+      res.json({
+        success: true,
+        data: offers
+      });
+    } catch (error) {
+      console.error('Erreur lors de la récupération des échanges:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * Proposer un échange à un autre joueur
+   */
+  static async createTrade(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { recipientUsername } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      if (!recipientUsername || typeof recipientUsername !== 'string') {
+        res.status(400).json({ error: 'Destinataire invalide' });
+        return;
+      }
+
+      const recipient = await UserModel.findByUsername(recipientUsername);
+      if (!recipient) {
+        res.status(404).json({ error: 'Joueur introuvable' });
+        return;
+      }
+      if (recipient.id === userId) {
+        res.status(400).json({ error: 'Vous ne pouvez pas échanger avec vous-même' });
+        return;
+      }
+
+      const terms = TradeController.parseTradeTerms(req.body);
+
+      // SÉCURITÉ: Limiter le nombre d'offres en attente
+      const pendingCount = await TradeOfferModel.countPendingByProposer(userId);
+      if (pendingCount >= MAX_PENDING_TRADES_PER_USER) {
+        res.status(403).json({
+          error: `Vous ne pouvez avoir que ${MAX_PENDING_TRADES_PER_USER} offres d'échange en attente maximum`,
+          current_count: pendingCount
+        });
+        return;
+      }
+
+      await TradeController.assertCanProvide(userId, terms.offered_cards, terms.offered_berrys);
+      await TradeController.assertTradable(terms.requested_cards);
+
+      let offerId: string | null = null;
+      await Database.transaction(async () => {
+        const offer = await TradeOfferModel.create({
+          proposer_id: userId,
+          recipient_id: recipient.id,
+          ...terms
+        });
+        offerId = offer.id;
+      });
+
+      const offer = await TradeOfferModel.getWithDetails(offerId!);
+
+      // AUDIT: Log création d'offre
+      await AuditLogger.logSuccess(AuditAction.TRADE_OFFER_CREATED, userId, {
+        offerId,
+        recipientId: recipient.id,
+        ...terms
+      }, req);
+
+      res.json({
+        success: true,
+        data: offer
+      });
+    } catch (error: any) {
+      console.error('Erreur lors de la création de l\'offre d\'échange:', error);
+
+      // AUDIT: Log échec
+      if (error.message) {
+        await AuditLogger.logFailure(AuditAction.TRADE_OFFER_CREATED, {
+          reason: error.message,
+          userId: req.user?.id
+        }, req, req.user?.id);
+      }
+
+      if (error instanceof TradeError) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Erreur serveur' });
+      }
+    }
+  }
+
+  /**
+   * Accepter une offre reçue: échange atomique des cartes et des Berrys
+   */
+  static async acceptTrade(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { tradeId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      // SÉCURITÉ: Transaction atomique complète, rollback si une des deux parties ne peut plus fournir sa part
+      await Database.transaction(async () => {
+        const offer = await TradeOfferModel.findById(tradeId);
+
+        if (!offer || offer.recipient_id !== userId) {
+          throw new TradeError('Offre d\'échange non trouvée');
+        }
+
+        if (!await TradeOfferModel.resolve(offer.id, 'accepted')) {
+          throw new TradeError('Cette offre n\'est plus en attente');
+        }
+
+        await TradeController.settleTrade(offer);
+      });
+
+      const offer = await TradeOfferModel.getWithDetails(tradeId);
+      const user = await UserModel.findById(userId);
+
+      // AUDIT: Log échange réalisé
+      await AuditLogger.logSuccess(AuditAction.TRADE_OFFER_ACCEPTED, userId, {
+        offerId: tradeId,
+        proposerId: offer?.proposer_id,
+        offeredBerrys: offer?.offered_berrys,
+        requestedBerrys: offer?.requested_berrys
+      }, req);
+
+      res.json({
+        success: true,
+        data: {
+          trade: offer,
+          new_balance: user?.berrys || 0
+        }
+      });
+    } catch (error: any) {
+      console.error('Erreur lors de l\'acceptation de l\'échange:', error);
+
+      // AUDIT: Log échec
+      if (error.message) {
+        await AuditLogger.logFailure(AuditAction.TRADE_OFFER_ACCEPTED, {
+          reason: error.message,
+          userId: req.user?.id,
+          offerId: req.params.tradeId
+        }, req, req.user?.id);
+      }
+
+      if (error instanceof TradeError) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Erreur serveur' });
+      }
+    }
+  }
+
+  /**
+   * Refuser une offre reçue
+   */
+  static async declineTrade(req: Request, res: Response): Promise<void> {
+    await TradeController.closeTrade(req, res, 'declined');
+  }
+
+  /**
+   * Annuler une offre envoyée
+   */
+  static async cancelTrade(req: Request, res: Response): Promise<void> {
+    await TradeController.closeTrade(req, res, 'cancelled');
+  }
+
+  /**
+   * Clôturer une offre sans échange (refus par le destinataire ou annulation par le proposant)
+   */
+  private static async closeTrade(req: Request, res: Response, status: 'declined' | 'cancelled'): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { tradeId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      const offer = await TradeOfferModel.findById(tradeId);
+      const allowedUserId = status === 'declined' ? offer?.recipient_id : offer?.proposer_id;
+
+      if (!offer || allowedUserId !== userId) {
+        res.status(404).json({ error: 'Offre d\'échange non trouvée' });
+        return;
+      }
+
+      if (!await TradeOfferModel.resolve(offer.id, status)) {
+        res.status(400).json({ error: 'Cette offre n\'est plus en attente' });
+        return;
+      }
+
+      // AUDIT: Log clôture
+      await AuditLogger.logSuccess(
+        status === 'declined' ? AuditAction.TRADE_OFFER_DECLINED : AuditAction.TRADE_OFFER_CANCELLED,
+        userId,
+        { offerId: offer.id },
+        req
+      );
+
+      res.json({
+        success: true,
+        message: status === 'declined' ? 'Offre refusée' : 'Offre annulée'
+      });
+    } catch (error) {
+      console.error('Erreur lors de la clôture de l\'offre d\'échange:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * Répondre à une offre reçue par une contre-proposition
+   * Les termes sont exprimés du point de vue de l'auteur de la contre-proposition
+   */
+  static async counterTrade(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { tradeId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      const original = await TradeOfferModel.findById(tradeId);
+      if (!original || original.recipient_id !== userId) {
+        res.status(404).json({ error: 'Offre d\'échange non trouvée' });
+        return;
+      }
+
+      const terms = TradeController.parseTradeTerms(req.body);
+      const proposer = await UserModel.findById(original.proposer_id);
+      if (!proposer) {
+        throw new TradeError('Joueur introuvable');
+      }
+
+      // SÉCURITÉ: La contre-proposition compte parmi les offres en attente de son auteur
+      const pendingCount = await TradeOfferModel.countPendingByProposer(userId);
+      if (pendingCount >= MAX_PENDING_TRADES_PER_USER) {
+        res.status(403).json({
+          error: `Vous ne pouvez avoir que ${MAX_PENDING_TRADES_PER_USER} offres d'échange en attente maximum`,
+          current_count: pendingCount
+        });
+        return;
+      }
+
+      await TradeController.assertCanProvide(userId, terms.offered_cards, terms.offered_berrys);
+      await TradeController.assertTradable(terms.requested_cards);
+
+      let counterId: string | null = null;
+      await Database.transaction(async () => {
+        if (!await TradeOfferModel.resolve(original.id, 'countered')) {
+          throw new TradeError('Cette offre n\'est plus en attente');
+        }
+
+        const counter = await TradeOfferModel.create({
+          proposer_id: userId,
+          recipient_id: original.proposer_id,
+          parent_offer_id: original.id,
+          ...terms
+        });
+        counterId = counter.id;
+      });
+
+      const counter = await TradeOfferModel.getWithDetails(counterId!);
+
+      // AUDIT: Log contre-proposition
+      await AuditLogger.logSuccess(AuditAction.TRADE_OFFER_COUNTERED, userId, {
+        offerId: original.id,
+        counterOfferId: counterId,
+        ...terms
+      }, req);
+
+      res.json({
+        success: true,
+        data: counter
+      });
+    } catch (error: any) {
+      console.error('Erreur lors de la contre-proposition:', error);
+
+      // AUDIT: Log échec
+      if (error.message) {
+        await AuditLogger.logFailure(AuditAction.TRADE_OFFER_COUNTERED, {
+          reason: error.message,
+          userId: req.user?.id,
+          offerId: req.params.tradeId
+        }, req, req.user?.id);
+      }
+
+      if (error instanceof TradeError) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Erreur serveur' });
+      }
+    }
+  }
+}
@@ -1,25 +1,34 @@
 import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import { UserModel } from '../models/User.js';
 import { CardModel } from '../models/Card.js';
 import { Database } from '../utils/database.js';
-import { BoosterService } from '../services/BoosterService.js';
-import { AchievementService } from '../services/AchievementService.js';
-import { v4 as uuidv4 } from 'uuid';
+import { AchievementService, AchievementProgressDelta } from '../services/AchievementService.js';
+import { FairnessService } from '../services/FairnessService.js';
+import { PityService, PITY_THRESHOLD } from '../services/PityService.js';
+import { BoosterOpeningService, OpenedPack } from '../services/BoosterOpeningService.js';
+import { RARITIES, Rarity } from '../services/DropTableService.js';
+import { OpeningHistoryService, OpeningFilters } from '../services/OpeningHistoryService.js';
+import { CollectionCompletionService } from '../services/CollectionCompletionService.js';
+import { CardMarketService } from '../services/CardMarketService.js';
+import { BerryLedgerService, MAX_HISTORY_LIMIT } from '../services/BerryLedgerService.js';
+import { BulkCollectionService, BulkSellRule, BulkSellPlan } from '../services/BulkCollectionService.js';
 import { AuditLogger, AuditAction } from '../utils/auditLogger.js';
-
-// Prix de vente des cartes en Berrys selon la rareté
-// Leader est plus rare que Rare mais moins rare que Super Rare
-const CARD_SELL_PRICES: Record<string, number> = {
-  common: 10,
-  uncommon: 25,
-  rare: 50,
-  leader: 100,
-  super_rare: 150,
-  secret_rare: 500,
-};
-
-// Prix d'un booster en Berrys
-const BOOSTER_BERRY_PRICE = 100;
+import {
+  CARD_SELL_PRICES,
+  BOOSTER_BERRY_PRICE,
+  CARD_DUST_VALUES,
+  CARD_CRAFT_COSTS,
+  SECRET_RARE_CRAFT_LIMIT,
+  SECRET_RARE_CRAFT_PERIOD_DAYS,
+  MAX_DUST
+} from '../utils/economy.js';
+
+// Taille de page maximale de l'historique des ouvertures
+const MAX_OPENINGS_PER_PAGE = 50;
+
+// Nombre maximum de boosters achetés et ouverts en une seule requête
+const MAX_BOOSTERS_PER_BATCH = 10;
 
 // Fonction pour transformer les cartes en camelCase
 function transformCardToCamelCase(card: any) {
@@ -50,6 +59,7 @@ function transformUserCardToCamelCase(userCard: any) {
   return {
     card_id: userCard.card_id,
     quantity: userCard.quantity,
+    reserved_quantity: userCard.reserved_quantity || 0,
     obtained_at: userCard.obtained_at,
     is_favorite: userCard.is_favorite === 1,
     ...transformCardToCamelCase(userCard)
@@ -71,6 +81,7 @@ export class UserController {
           uc.user_id,
           uc.card_id,
           uc.quantity,
+          uc.reserved_quantity,
           uc.obtained_at,
           uc.is_favorite,
           c.id,
@@ -105,6 +116,40 @@ export class UserController {
     }
   }
 
+  /**
+   * Estimation du nombre de boosters (et de Berrys) restant pour compléter chaque set
+   */
+  static async getCollectionCompletion(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      const boosterId = req.query.booster_id;
+      if (boosterId !== undefined && (typeof boosterId !== 'string' || boosterId.length === 0 || boosterId.length > 100)) {
+        res.status(400).json({ error: 'booster_id invalide' });
+        return;
+      }
+
+      const completion = await CollectionCompletionService.getCompletion(userId, boosterId);
+
+      if (boosterId && completion.length === 0) {
+        res.status(404).json({ error: 'Booster non trouvé' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: completion
+      });
+    } catch (error) {
+      console.error('Erreur lors de l\'estimation de complétion:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
   // Ajouter des cartes à la collection
   static async addCardsToCollection(req: Request, res: Response): Promise<void> {
     try {
@@ -254,13 +299,20 @@ export class UserController {
         ? Math.max(0, new Date(nextBoosterTime).getTime() - now.getTime())
         : 0;
 
+      // Compteurs de malchance par booster (Super Rare garantie)
+      const pityCounters = await PityService.getUserCounters(userId);
+
       res.json({
         success: true,
         data: {
           available_boosters: availableBoosters,
           max_daily_boosters: 3,
           next_booster_time: nextBoosterTime,
-          time_until_next: timeUntilNext
+          time_until_next: timeUntilNext,
+          pity: {
+            threshold: PITY_THRESHOLD,
+            counters: pityCounters
+          }
         }
       });
     } catch (error) {
@@ -327,8 +379,7 @@ export class UserController {
 
       // SÉCURITÉ: TRANSACTION ATOMIQUE pour empêcher duplication de boosters
       let boosterId: string | null = req.body.boosterId || null;
-      let cards: any[] = [];
-      const newCards: string[] = [];
+      let opened!: OpenedPack;
       let newAvailableBoosters = 0;
       let finalNextBoosterTime: Date | null = null;
 
@@ -375,32 +426,10 @@ export class UserController {
           }
         }
 
-        // 4. Générer les cartes
-        cards = await BoosterService.generateBoosterCards(boosterId);
+        // 4. Générer les cartes, les ajouter à la collection et enregistrer l'ouverture
+        opened = await BoosterOpeningService.openPack(userId, boosterId);
 
-        // 5. Ajouter les cartes à la collection
-        for (const card of cards) {
-          const existing = await Database.get(`
-            SELECT * FROM user_collections
-            WHERE user_id = ? AND card_id = ?
-          `, [userId, card.id]);
-
-          if (existing) {
-            await Database.run(`
-              UPDATE user_collections
-              SET quantity = quantity + 1
-              WHERE user_id = ? AND card_id = ?
-            `, [userId, card.id]);
-          } else {
-            newCards.push(card.id);
-            await Database.run(`
-              INSERT INTO user_collections (user_id, card_id, quantity, obtained_at, is_favorite)
-              VALUES (?, ?, 1, ?, 0)
-            `, [userId, card.id, new Date().toISOString()]);
-          }
-        }
-
-        // 6. Calculer le nouveau statut de boosters
+        // 5. Calculer le nouveau statut de boosters
         const updatedUser = await Database.get(`
           SELECT available_boosters, next_booster_time FROM users WHERE id = ?
         `, [userId]);
@@ -415,15 +444,12 @@ export class UserController {
             UPDATE users SET next_booster_time = ? WHERE id = ?
           `, [finalNextBoosterTime.toISOString(), userId]);
         }
-
-        // 7. Enregistrer l'ouverture
-        await Database.run(`
-          INSERT INTO booster_openings (user_id, booster_id, session_id, seed, opened_at, cards_obtained)
-          VALUES (?, ?, ?, 0, ?, ?)
-        `, [userId, boosterId, uuidv4(), new Date().toISOString(), JSON.stringify(cards.map(c => c.id))]);
       });
 
-      // 8. Mettre à jour les achievements (hors transaction)
+      const cards = opened.cards;
+      const newCards = opened.new_cards;
+
+      // 6. Mettre à jour les achievements (hors transaction)
       if (boosterId) {
         try {
           await AchievementService.updateAfterBoosterOpen(userId, boosterId, cards.map(c => c.id));
@@ -446,7 +472,9 @@ export class UserController {
           cards: cards.map(transformCardToCamelCase),
           new_cards: newCards,
           available_boosters: newAvailableBoosters,
-          next_booster_time: finalNextBoosterTime || nextBoosterTime
+          next_booster_time: finalNextBoosterTime || nextBoosterTime,
+          fairness: opened.fairness,
+          pity: opened.pity
         }
       });
     } catch (error) {
@@ -522,6 +550,9 @@ export class UserController {
         boosterBreakdown[stat.booster_id] = stat.unique_count;
       });
 
+      // Valeur marchande de la collection (historique des ventes du marketplace)
+      const marketValue = await CardMarketService.getCollectionMarketValue(userId);
+
       const uniqueCards = collectionStats.unique_cards || 0;
       const totalAvailable = totalAvailableCards.count || 0;
       const collectionCompletion = totalAvailable > 0
@@ -539,6 +570,8 @@ export class UserController {
           total_available_cards: totalAvailable,
           rarity_breakdown: rarityBreakdown,
           booster_breakdown: boosterBreakdown,
+          collection_market_value: marketValue.market_value,
+          market_priced_cards: marketValue.traded_cards,
           user: {
             username: user.username,
             boosters_opened: user.boosters_opened_today || 0,
@@ -595,11 +628,13 @@ export class UserController {
         return;
       }
 
-      // SÉCURITÉ: Vérifier que l'utilisateur a assez de cartes (garder au moins 1)
-      if (userCard.quantity <= parsedQuantity) {
+      // SÉCURITÉ: Vérifier que l'utilisateur a assez de cartes (garder au moins 1, hors exemplaires en vente)
+      const availableQuantity = userCard.quantity - (userCard.reserved_quantity || 0);
+      if (availableQuantity <= parsedQuantity) {
         res.status(403).json({
           error: 'Vous devez garder au moins une carte de chaque type',
           current_quantity: userCard.quantity,
+          reserved_quantity: userCard.reserved_quantity || 0,
           requested_quantity: parsedQuantity
         });
         return;
@@ -633,7 +668,7 @@ export class UserController {
         const updateCards = await Database.run(`
           UPDATE user_collections
           SET quantity = quantity - ?
-          WHERE user_id = ? AND card_id = ? AND quantity > ?
+          WHERE user_id = ? AND card_id = ? AND quantity - COALESCE(reserved_quantity, 0) > ?
         `, [parsedQuantity, userId, cardId, parsedQuantity]);
 
         if (updateCards.changes === 0) {
@@ -641,11 +676,7 @@ export class UserController {
         }
 
         // Ajouter les Berrys
-        await Database.run(`
-          UPDATE users
-          SET berrys = COALESCE(berrys, 0) + ?
-          WHERE id = ?
-        `, [berrysEarned, userId]);
+        await BerryLedgerService.credit(userId, berrysEarned, 'card_sale', cardId);
       });
 
       // Récupérer le nouveau solde
@@ -674,6 +705,346 @@ export class UserController {
     }
   }
 
+  // Vendre en une fois tous les doublons désignés par une règle (rareté maximale, exemplaires conservés)
+  // dryRun: aperçu des cartes vendues et des Berrys gagnés, sans rien modifier
+  static async sellBulk(req: Request, res: Response): Promise<void> {
+    const userId = req.user?.id;
+
+    try {
+      const { maxRarity, keepQuantity = 1, dryRun = false } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      // SÉCURITÉ: Valider les entrées
+      if (!RARITIES.includes(maxRarity)) {
+        res.status(400).json({ error: 'Rareté maximale invalide' });
+        return;
+      }
+
+      const parsedKeep = parseInt(keepQuantity as any, 10);
+      if (isNaN(parsedKeep) || parsedKeep < 1 || parsedKeep > 1000) {
+        res.status(400).json({ error: 'Nombre d\'exemplaires à conserver invalide (1-1000)' });
+        return;
+      }
+
+      const rule: BulkSellRule = { maxRarity, keepQuantity: parsedKeep };
+
+      if (dryRun === true) {
+        const plan = await BulkCollectionService.planBulkSell(userId, rule);
+        const user = await UserModel.findById(userId);
+
+        res.json({
+          success: true,
+          data: {
+            ...plan,
+            dry_run: true,
+            new_balance: (user?.berrys || 0) + plan.total_berrys
+          }
+        });
+        return;
+      }
+
+      // SÉCURITÉ: Transaction atomique, la sélection est recalculée sous verrou
+      let plan: BulkSellPlan | null = null;
+
+      await Database.transaction(async () => {
+        plan = await BulkCollectionService.executeBulkSell(userId, rule);
+        if (plan.items.length === 0) {
+          throw new Error('Aucun doublon à vendre avec ces critères');
+        }
+      });
+
+      const { items, total_cards, total_berrys } = plan! as BulkSellPlan;
+      const user = await UserModel.findById(userId);
+      const newBalance = user?.berrys || 0;
+
+      // AUDIT: Log vente par lot
+      await AuditLogger.logSuccess(AuditAction.CARD_SOLD, userId, {
+        bulk: true,
+        maxRarity,
+        keepQuantity: parsedKeep,
+        cards: items.map(item => ({ cardId: item.card_id, quantity: item.quantity })),
+        totalCards: total_cards,
+        berrysEarned: total_berrys,
+        newBalance
+      }, req);
+
+      res.json({
+        success: true,
+        data: {
+          items,
+          total_cards,
+          total_berrys,
+          dry_run: false,
+          berrys_earned: total_berrys,
+          new_balance: newBalance
+        }
+      });
+    } catch (error: any) {
+      console.error('Erreur lors de la vente par lot:', error);
+
+      if (error.message?.includes('Aucun doublon') || error.message?.includes('Limite') || error.message?.includes('insuffisante')) {
+        await AuditLogger.logFailure(AuditAction.CARD_SOLD, { reason: error.message, userId, bulk: true }, req, userId);
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Erreur serveur' });
+      }
+    }
+  }
+
+  // Désenchanter des doublons pour obtenir de la poussière de craft
+  static async disenchantCard(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { cardId, quantity = 1 } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      // SÉCURITÉ: Valider les entrées
+      if (!cardId || typeof cardId !== 'string') {
+        res.status(400).json({ error: 'Card ID invalide' });
+        return;
+      }
+
+      const parsedQuantity = parseInt(quantity as any, 10);
+      if (isNaN(parsedQuantity) || parsedQuantity < 1 || parsedQuantity > 1000) {
+        res.status(400).json({ error: 'Quantité invalide (1-1000)' });
+        return;
+      }
+
+      const userCard = await Database.get(`
+        SELECT uc.*, c.rarity, c.is_active
+        FROM user_collections uc
+        JOIN cards c ON uc.card_id = c.id
+        WHERE uc.user_id = ? AND uc.card_id = ?
+      `, [userId, cardId]);
+
+      if (!userCard) {
+        res.status(404).json({ error: 'Carte non trouvée dans votre collection' });
+        return;
+      }
+
+      if (!userCard.is_active) {
+        res.status(400).json({ error: 'Cette carte ne peut plus être désenchantée' });
+        return;
+      }
+
+      // SÉCURITÉ: Seuls les doublons peuvent être désenchantés (garder au moins 1, hors exemplaires en vente)
+      const availableQuantity = userCard.quantity - (userCard.reserved_quantity || 0);
+      if (availableQuantity <= parsedQuantity) {
+        res.status(403).json({
+          error: 'Vous devez garder au moins une carte de chaque type',
+          current_quantity: userCard.quantity,
+          reserved_quantity: userCard.reserved_quantity || 0,
+          requested_quantity: parsedQuantity
+        });
+        return;
+      }
+
+      // SÉCURITÉ: Poussière calculée côté serveur
+      const dustValue = CARD_DUST_VALUES[userCard.rarity] || 0;
+      if (dustValue === 0) {
+        res.status(400).json({ error: 'Cette carte ne peut pas être désenchantée' });
+        return;
+      }
+
+      const dustEarned = dustValue * parsedQuantity;
+      const currentUser = await UserModel.findById(userId);
+      if ((currentUser?.dust || 0) + dustEarned > MAX_DUST) {
+        res.status(400).json({
+          error: 'Limite de poussière atteinte',
+          max_dust: MAX_DUST
+        });
+        return;
+      }
+
+      // SÉCURITÉ: Transaction atomique pour éviter race conditions
+      await Database.transaction(async () => {
+        const updateCards = await Database.run(`
+          UPDATE user_collections
+          SET quantity = quantity - ?
+          WHERE user_id = ? AND card_id = ? AND quantity - COALESCE(reserved_quantity, 0) > ?
+        `, [parsedQuantity, userId, cardId, parsedQuantity]);
+
+        if (updateCards.changes === 0) {
+          throw new Error('Échec de la transaction: quantité insuffisante');
+        }
+
+        await Database.run(`
+          UPDATE users
+          SET dust = COALESCE(dust, 0) + ?
+          WHERE id = ?
+        `, [dustEarned, userId]);
+
+        await Database.run(`
+          INSERT INTO card_crafting_history (id, user_id, card_id, action, rarity, quantity, dust_amount)
+          VALUES (?, ?, ?, 'disenchant', ?, ?, ?)
+        `, [uuidv4(), userId, cardId, userCard.rarity, parsedQuantity, dustEarned]);
+      });
+
+      const user = await UserModel.findById(userId);
+      const newDust = user?.dust || 0;
+
+      // AUDIT: Log désenchantement
+      await AuditLogger.logSuccess(AuditAction.CARD_DISENCHANTED, userId, {
+        cardId,
+        quantity: parsedQuantity,
+        rarity: userCard.rarity,
+        dustEarned,
+        newDust
+      }, req);
+
+      res.json({
+        success: true,
+        data: {
+          dust_earned: dustEarned,
+          new_dust: newDust
+        }
+      });
+    } catch (error) {
+      console.error('Erreur lors du désenchantement de la carte:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  // Fabriquer une carte manquante avec de la poussière de craft
+  static async craftCard(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { cardId } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      // SÉCURITÉ: Valider les entrées
+      if (!cardId || typeof cardId !== 'string') {
+        res.status(400).json({ error: 'Card ID invalide' });
+        return;
+      }
+
+      const card = await Database.get(`
+        SELECT id, name, rarity FROM cards WHERE id = ? AND is_active = 1
+      `, [cardId]);
+
+      if (!card) {
+        res.status(404).json({ error: 'Carte non trouvée' });
+        return;
+      }
+
+      const owned = await Database.get(`
+        SELECT quantity FROM user_collections
+        WHERE user_id = ? AND card_id = ? AND quantity > 0
+      `, [userId, cardId]);
+
+      if (owned) {
+        res.status(400).json({ error: 'Vous possédez déjà cette carte' });
+        return;
+      }
+
+      const craftCost = CARD_CRAFT_COSTS[card.rarity] || 0;
+      if (craftCost === 0) {
+        res.status(400).json({ error: 'Cette carte ne peut pas être fabriquée' });
+        return;
+      }
+
+      const currentUser = await UserModel.findById(userId);
+      const currentDust = currentUser?.dust || 0;
+      if (currentDust < craftCost) {
+        res.status(400).json({
+          error: 'Poussière insuffisante',
+          required: craftCost,
+          current: currentDust
+        });
+        return;
+      }
+
+      // Plafond de Secret Rare fabriquées sur la période glissante
+      const countSecretRareCrafts = async () => {
+        const row = await Database.get<{ count: number }>(`
+          SELECT COUNT(*) as count FROM card_crafting_history
+          WHERE user_id = ? AND action = 'craft' AND rarity = 'secret_rare'
+            AND created_at > datetime('now', ?)
+        `, [userId, `-${SECRET_RARE_CRAFT_PERIOD_DAYS} days`]);
+        return row?.count || 0;
+      };
+
+      if (card.rarity === 'secret_rare' && await countSecretRareCrafts() >= SECRET_RARE_CRAFT_LIMIT) {
+        res.status(429).json({
+          error: `Limite de ${SECRET_RARE_CRAFT_LIMIT} Secret Rare fabriquée(s) tous les ${SECRET_RARE_CRAFT_PERIOD_DAYS} jours atteinte`
+        });
+        return;
+      }
+
+      // SÉCURITÉ: Transaction atomique pour éviter race conditions
+      await Database.transaction(async () => {
+        // Revérifier le plafond dans la transaction (requêtes concurrentes)
+        if (card.rarity === 'secret_rare' && await countSecretRareCrafts() >= SECRET_RARE_CRAFT_LIMIT) {
+          throw new Error('Échec de la transaction: limite de Secret Rare atteinte');
+        }
+
+        const updateDust = await Database.run(`
+          UPDATE users
+          SET dust = dust - ?
+          WHERE id = ? AND dust >= ?
+        `, [craftCost, userId, craftCost]);
+
+        if (updateDust.changes === 0) {
+          throw new Error('Échec de la transaction: poussière insuffisante');
+        }
+
+        // La ligne peut exister avec une quantité nulle (carte vendue sur le marketplace)
+        const updateCards = await Database.run(`
+          UPDATE user_collections
+          SET quantity = 1
+          WHERE user_id = ? AND card_id = ? AND quantity <= 0
+        `, [userId, cardId]);
+
+        if (updateCards.changes === 0) {
+          await Database.run(`
+            INSERT INTO user_collections (user_id, card_id, quantity, obtained_at, is_favorite)
+            VALUES (?, ?, 1, ?, 0)
+          `, [userId, cardId, new Date().toISOString()]);
+        }
+
+        await Database.run(`
+          INSERT INTO card_crafting_history (id, user_id, card_id, action, rarity, quantity, dust_amount)
+          VALUES (?, ?, ?, 'craft', ?, 1, ?)
+        `, [uuidv4(), userId, cardId, card.rarity, craftCost]);
+      });
+
+      const user = await UserModel.findById(userId);
+      const newDust = user?.dust || 0;
+
+      // AUDIT: Log fabrication
+      await AuditLogger.logSuccess(AuditAction.CARD_CRAFTED, userId, {
+        cardId,
+        rarity: card.rarity,
+        dustSpent: craftCost,
+        newDust
+      }, req);
+
+      res.json({
+        success: true,
+        data: {
+          card_id: cardId,
+          dust_spent: craftCost,
+          new_dust: newDust
+        }
+      });
+    } catch (error) {
+      console.error('Erreur lors de la fabrication de la carte:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
   // Acheter un booster avec des Berrys
   static async buyBoosterWithBerrys(req: Request, res: Response): Promise<void> {
     const userId = req.user?.id;
@@ -705,19 +1076,14 @@ export class UserController {
 
       // SÉCURITÉ: TRANSACTION ATOMIQUE COMPLÈTE pour éviter perte de Berrys
       let boosterId: string | null = null;
-      let cards: any[] = [];
-      const newCards: string[] = [];
+      let opened!: OpenedPack;
 
       await Database.transaction(async () => {
         // 1. Déduire les Berrys avec vérification atomique
-        const updateResult = await Database.run(`
-          UPDATE users
-          SET berrys = berrys - ?
-          WHERE id = ? AND berrys >= ?
-        `, [BOOSTER_BERRY_PRICE, userId, BOOSTER_BERRY_PRICE]);
+        const debit = await BerryLedgerService.debit(userId, BOOSTER_BERRY_PRICE, 'booster_purchase', requestedBoosterId || null);
 
-        // Si aucune ligne affectée, rollback automatique
-        if (updateResult.changes === 0) {
+        // Si le solde est insuffisant, rollback automatique
+        if (debit === null) {
           throw new Error('Transaction refusée: Berrys insuffisants');
         }
 
@@ -743,41 +1109,14 @@ export class UserController {
           throw new Error('Aucun booster disponible');
         }
 
-        // 3. Générer les cartes du booster
-        cards = await BoosterService.generateBoosterCards(boosterId);
-
-        // 4. Ajouter les cartes à la collection
-        for (const card of cards) {
-          const existing = await Database.get(`
-            SELECT * FROM user_collections
-            WHERE user_id = ? AND card_id = ?
-          `, [userId, card.id]);
-
-          if (existing) {
-            await Database.run(`
-              UPDATE user_collections
-              SET quantity = quantity + 1
-              WHERE user_id = ? AND card_id = ?
-            `, [userId, card.id]);
-          } else {
-            newCards.push(card.id);
-            const nowCollection = new Date().toISOString();
-            await Database.run(`
-              INSERT INTO user_collections (user_id, card_id, quantity, obtained_at, is_favorite)
-              VALUES (?, ?, 1, ?, 0)
-            `, [userId, card.id, nowCollection]);
-          }
-        }
-
-        // 5. Enregistrer l'ouverture
-        const nowOpening = new Date().toISOString();
-        await Database.run(`
-          INSERT INTO booster_openings (user_id, booster_id, session_id, seed, opened_at, cards_obtained)
-          VALUES (?, ?, ?, 0, ?, ?)
-        `, [userId, boosterId, uuidv4(), nowOpening, JSON.stringify(cards.map(c => c.id))]);
+        // 3. Générer les cartes, les ajouter à la collection et enregistrer l'ouverture
+        opened = await BoosterOpeningService.openPack(userId, boosterId);
       });
 
-      // 6. Mettre à jour les achievements (hors transaction car non critique)
+      const cards = opened.cards;
+      const newCards = opened.new_cards;
+
+      // 4. Mettre à jour les achievements (hors transaction car non critique)
       if (boosterId) {
         try {
           await AchievementService.updateAfterBoosterOpen(userId, boosterId, cards.map(c => c.id));
@@ -807,7 +1146,9 @@ export class UserController {
           new_cards: newCards,
           available_boosters: availableBoosters,
           next_booster_time: nextBoosterTime,
-          new_balance: newBalance
+          new_balance: newBalance,
+          fairness: opened.fairness,
+          pity: opened.pity
         }
       });
     } catch (error: any) {
@@ -827,6 +1168,155 @@ export class UserController {
     }
   }
 
+  // Acheter et ouvrir plusieurs boosters d'un coup
+  static async openBoosters(req: Request, res: Response): Promise<void> {
+    const userId = req.user?.id;
+    const { boosterId, count } = req.body;
+
+    try {
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      // SÉCURITÉ: Valider les entrées
+      if (!boosterId || typeof boosterId !== 'string') {
+        res.status(400).json({ error: 'Booster ID invalide' });
+        return;
+      }
+
+      if (!Number.isInteger(count) || count < 1 || count > MAX_BOOSTERS_PER_BATCH) {
+        res.status(400).json({ error: `Nombre de boosters invalide (1-${MAX_BOOSTERS_PER_BATCH})` });
+        return;
+      }
+
+      const user = await UserModel.findById(userId);
+      if (!user) {
+        res.status(404).json({ error: 'Utilisateur non trouvé' });
+        return;
+      }
+
+      const totalPrice = count * BOOSTER_BERRY_PRICE;
+      const currentBerrys = user.berrys || 0;
+      if (currentBerrys < totalPrice) {
+        res.status(403).json({
+          error: `Pas assez de Berrys`,
+          required: totalPrice,
+          current: currentBerrys,
+          missing: totalPrice - currentBerrys
+        });
+        return;
+      }
+
+      const achievementsBefore = await AchievementService.getProgressSnapshot(userId);
+      const packs: OpenedPack[] = [];
+
+      // SÉCURITÉ: TRANSACTION ATOMIQUE - tous les boosters sont payés et ouverts, ou aucun
+      await Database.transaction(async () => {
+        // 1. Déduire le prix total avec vérification atomique
+        const debit = await BerryLedgerService.debit(userId, totalPrice, 'booster_purchase', boosterId);
+        if (debit === null) {
+          throw new Error('Transaction refusée: Berrys insuffisants');
+        }
+
+        // 2. Valider le booster
+        const boosterExists = await Database.get(`
+          SELECT id FROM boosters WHERE id = ? AND is_active = 1
+        `, [boosterId]);
+
+        if (!boosterExists) {
+          throw new Error('Booster invalide ou inactif');
+        }
+
+        // 3. Ouvrir les boosters un par un (seeds, anti-malchance et collection suivent l'ordre)
+        for (let i = 0; i < count; i++) {
+          packs.push(await BoosterOpeningService.openPack(userId, boosterId));
+        }
+      });
+
+      const allCards = packs.flatMap(pack => pack.cards);
+      const newCards = packs.flatMap(pack => pack.new_cards);
+
+      // 4. Mettre à jour les achievements une seule fois (hors transaction car non critique)
+      let achievementDeltas: AchievementProgressDelta[] = [];
+      try {
+        await AchievementService.updateAfterBoosterOpen(userId, boosterId, allCards.map(c => c.id));
+        achievementDeltas = await AchievementService.getProgressDeltas(userId, achievementsBefore);
+      } catch (error) {
+        console.error('Erreur mise à jour achievements (non bloquant):', error);
+      }
+
+      // 5. Regrouper les cartes identiques, des plus rares aux plus communes
+      const grouped = new Map<string, { card: any; quantity: number; is_new: boolean }>();
+      for (const card of allCards) {
+        const entry = grouped.get(card.id);
+        if (entry) {
+          entry.quantity++;
+        } else {
+          grouped.set(card.id, { card, quantity: 1, is_new: newCards.includes(card.id) });
+        }
+      }
+      const tier = (rarity: string) => RARITIES.indexOf(rarity as Rarity);
+      const groupedCards = [...grouped.values()]
+        .sort((a, b) => tier(b.card.rarity) - tier(a.card.rarity) || a.card.name.localeCompare(b.card.name))
+        .map(entry => ({ ...entry, card: transformCardToCamelCase(entry.card) }));
+
+      const raritySummary = allCards.reduce((acc, card) => {
+        acc[card.rarity] = (acc[card.rarity] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+
+      const updatedUser = await UserModel.findById(userId);
+      const newBalance = updatedUser?.berrys || 0;
+
+      // AUDIT: Log achat groupé
+      await AuditLogger.logSuccess(AuditAction.BOOSTER_PURCHASED, userId, {
+        boosterId,
+        boostersOpened: count,
+        berrysSpent: totalPrice,
+        newBalance,
+        cardsObtained: allCards.length,
+        newCards: newCards.length
+      }, req);
+
+      res.json({
+        success: true,
+        data: {
+          booster_id: boosterId,
+          packs: packs.map(pack => ({
+            opening_id: pack.opening_id,
+            cards: pack.cards.map(transformCardToCamelCase),
+            new_cards: pack.new_cards,
+            fairness: pack.fairness,
+            pity: pack.pity
+          })),
+          grouped_cards: groupedCards,
+          rarity_summary: raritySummary,
+          new_cards: newCards,
+          achievement_deltas: achievementDeltas,
+          berrys_spent: totalPrice,
+          new_balance: newBalance,
+          pity: packs[packs.length - 1].pity
+        }
+      });
+    } catch (error: any) {
+      console.error('Erreur lors de l\'ouverture groupée des boosters:', error);
+
+      // AUDIT: Log échec
+      if (error.message?.includes('insuffisants')) {
+        await AuditLogger.logFailure(AuditAction.BOOSTER_PURCHASED, {
+          reason: 'insufficient_berrys',
+          userId,
+          count
+        }, req, userId);
+      }
+
+      res.status(500).json({
+        error: error.message || 'Erreur serveur'
+      });
+    }
+  }
+
   // Obtenir le solde de Berrys
   static async getBerrysBalance(req: Request, res: Response): Promise<void> {
     try {
@@ -845,7 +1335,8 @@ export class UserController {
       res.json({
         success: true,
         data: {
-          berrys: user.berrys || 0
+          berrys: user.berrys || 0,
+          dust: user.dust || 0
         }
       });
     } catch (error) {
@@ -854,6 +1345,44 @@ export class UserController {
     }
   }
 
+  /**
+   * Historique des mouvements de Berrys (registre), du plus récent au plus ancien
+   * Pagination par curseur: ?before=<id de la dernière écriture reçue>
+   */
+  static async getBerrysHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      const limit = Math.min(MAX_HISTORY_LIMIT, Math.max(1, parseInt(req.query.limit as string) || 50));
+
+      let before: number | undefined;
+      if (req.query.before !== undefined) {
+        before = parseInt(req.query.before as string, 10);
+        if (!Number.isInteger(before) || before < 1) {
+          res.status(400).json({ error: 'Curseur invalide' });
+          return;
+        }
+      }
+
+      const { entries, next_cursor } = await BerryLedgerService.getUserHistory(userId, limit, before);
+
+      res.json({
+        success: true,
+        data: {
+          entries,
+          next_cursor
+        }
+      });
+    } catch (error) {
+      console.error('Erreur lors de la récupération de l\'historique des Berrys:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
   // Réclamer la récompense quotidienne
   static async claimDailyReward(req: Request, res: Response): Promise<void> {
     const userId = req.user?.id;
@@ -907,11 +1436,10 @@ export class UserController {
         // 4. Atomic update avec WHERE clause stricte pour éviter race condition
         const result = await Database.run(`
           UPDATE users
-          SET berrys = COALESCE(berrys, 0) + ?,
-              last_daily_reward = ?
+          SET last_daily_reward = ?
           WHERE id = ?
             AND (last_daily_reward IS NULL OR date(last_daily_reward) < date(?))
-        `, [DAILY_REWARD_BERRYS, nowISO, userId, nowISO]);
+        `, [nowISO, userId, nowISO]);
 
         if (result.changes === 0) {
           console.log(`[DAILY REWARD] Update failed - No changes (already claimed or race condition)`);
@@ -920,12 +1448,8 @@ export class UserController {
 
         console.log(`[DAILY REWARD] Update successful - Changes: ${result.changes}`);
 
-        // 5. Récupérer le nouveau solde
-        const updatedUser = await Database.get<any>(`
-          SELECT berrys FROM users WHERE id = ?
-        `, [userId]);
-
-        newBalance = updatedUser?.berrys || 0;
+        // 5. Créditer les Berrys et récupérer le nouveau solde
+        newBalance = await BerryLedgerService.credit(userId, DAILY_REWARD_BERRYS, 'daily_reward', today);
       });
 
       // AUDIT: Log récompense réclamée (en dehors de la transaction)
@@ -1057,6 +1581,7 @@ export class UserController {
           username: user.username,
           is_admin: user.is_admin,
           berrys: user.berrys,
+          dust: user.dust,
           available_boosters: user.available_boosters,
           created_at: user.created_at,
           last_login: user.last_login,
@@ -1162,8 +1687,8 @@ export class UserController {
       // Si cardId est fourni, vérifier que l'utilisateur possède cette carte
       if (cardId) {
         const userCard = await Database.get(`
-          SELECT card_id FROM user_collections
-          WHERE user_id = ? AND card_id = ?
+          SELECT card_id, quantity, reserved_quantity FROM user_collections
+          WHERE user_id = ? AND card_id = ? AND quantity > 0
         `, [userId, cardId]);
 
         if (!userCard) {
@@ -1171,6 +1696,12 @@ export class UserController {
           return;
         }
 
+        // Les exemplaires en vente sur le marketplace ne peuvent pas être mis en vitrine
+        if (userCard.quantity - (userCard.reserved_quantity || 0) < 1) {
+          res.status(400).json({ error: 'Tous vos exemplaires de cette carte sont en vente sur le marketplace' });
+          return;
+        }
+
         // Vérifier que la carte existe et est active
         const card = await CardModel.findById(cardId);
         if (!card || !card.is_active) {
@@ -1211,4 +1742,200 @@ export class UserController {
       res.status(500).json({ error: 'Erreur serveur' });
     }
   }
-}
\ No newline at end of file
+  /**
+   * Obtenir l'engagement courant (hash du seed serveur, seed client et nonce)
+   */
+  static async getFairness(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      const pair = await FairnessService.getSeedPair(userId);
+
+      // SÉCURITÉ: Ne jamais exposer le seed serveur avant qu'il ait été utilisé
+      res.json({
+        success: true,
+        data: {
+          server_seed_hash: pair.server_seed_hash,
+          client_seed: pair.client_seed,
+          nonce: pair.nonce
+        }
+      });
+    } catch (error) {
+      console.error('Erreur lors de la récupération des seeds:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * Changer le seed client utilisé pour les prochaines ouvertures
+   */
+  static async updateClientSeed(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { clientSeed } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      // SÉCURITÉ: Valider l'entrée
+      if (!FairnessService.isValidClientSeed(clientSeed)) {
+        res.status(400).json({ error: 'Seed client invalide (1-64 caractères alphanumériques, - ou _)' });
+        return;
+      }
+
+      const pair = await FairnessService.setClientSeed(userId, clientSeed);
+
+      // AUDIT: Log changement de seed client
+      await AuditLogger.logSuccess(AuditAction.USER_PROFILE_UPDATED, userId, {
+        action: 'set_client_seed',
+        clientSeed
+      }, req);
+
+      res.json({
+        success: true,
+        data: {
+          server_seed_hash: pair.server_seed_hash,
+          client_seed: pair.client_seed,
+          nonce: pair.nonce
+        }
+      });
+    } catch (error) {
+      console.error('Erreur lors du changement de seed client:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * Vérifier une ouverture: rejouer le tirage à partir des seeds révélés
+   */
+  static async verifyOpening(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      const verification = await FairnessService.verifyOpening(id, userId);
+      if (!verification) {
+        res.status(404).json({ error: 'Ouverture non trouvée ou non vérifiable' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: verification
+      });
+    } catch (error) {
+      console.error('Erreur lors de la vérification de l\'ouverture:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * Lit et valide les filtres de l'historique (booster, période)
+   * Retourne un message d'erreur si un filtre est invalide
+   */
+  private static parseOpeningFilters(query: Request['query']): OpeningFilters | string {
+    const filters: OpeningFilters = {};
+    const { booster_id, from, to } = query;
+
+    if (booster_id !== undefined) {
+      if (typeof booster_id !== 'string' || booster_id.length === 0 || booster_id.length > 100) {
+        return 'booster_id invalide';
+      }
+      filters.boosterId = booster_id;
+    }
+
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/;
+    for (const [key, value] of [['from', from], ['to', to]] as const) {
+      if (value === undefined) continue;
+      if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+        return `Date "${key}" invalide`;
+      }
+      // Une date sans heure couvre toute la journée
+      const normalized = key === 'to' && dateOnly.test(value)
+        ? new Date(`${value}T23:59:59.999Z`)
+        : new Date(value);
+      filters[key] = normalized.toISOString();
+    }
+
+    return filters;
+  }
+
+  /**
+   * Historique paginé des ouvertures de boosters de l'utilisateur
+   */
+  static async getOpenings(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      const filters = UserController.parseOpeningFilters(req.query);
+      if (typeof filters === 'string') {
+        res.status(400).json({ error: filters });
+        return;
+      }
+
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(MAX_OPENINGS_PER_PAGE, Math.max(1, parseInt(req.query.limit as string) || 20));
+      const offset = (page - 1) * limit;
+
+      const { openings, total } = await OpeningHistoryService.getOpenings(userId, filters, limit, offset);
+
+      res.json({
+        success: true,
+        data: openings,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      console.error('Erreur lors de la récupération de l\'historique des ouvertures:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * Statistiques de chance de l'utilisateur (mêmes filtres que l'historique)
+   */
+  static async getOpeningStats(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Utilisateur non authentifié' });
+        return;
+      }
+
+      const filters = UserController.parseOpeningFilters(req.query);
+      if (typeof filters === 'string') {
+        res.status(400).json({ error: filters });
+        return;
+      }
+
+      const stats = await OpeningHistoryService.getLuckStats(userId, filters);
+
+      res.json({
+        success: true,
+        data: stats
+      });
+    } catch (error) {
+      console.error('Erreur lors du calcul des statistiques d\'ouverture:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+}
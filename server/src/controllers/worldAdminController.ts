@@ -0,0 +1,479 @@
+import { Request, Response } from 'express';
+import { Database } from '../utils/database.js';
+import { WorldMapModel } from '../models/WorldMap.js';
+import { WorldAdminService } from '../services/WorldAdminService.js';
+import { AuditLogger, AuditAction } from '../utils/auditLogger.js';
+
+export class WorldAdminController {
+  /**
+   * [ADMIN] Îles, quêtes et membres d'équipage, y compris inactifs
+   */
+  static async getWorld(req: Request, res: Response): Promise<void> {
+    try {
+      const [islands, quests, crewMembers] = await Promise.all([
+        WorldMapModel.getAllIslands(true),
+        WorldMapModel.getAllQuests(true),
+        WorldMapModel.getAllCrewMembers(true)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          islands,
+          quests,
+          crew_members: crewMembers
+        }
+      });
+    } catch (error) {
+      console.error('Erreur récupération carte du monde admin:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  // ===== ISLANDS =====
+
+  /**
+   * [ADMIN] Créer une île (ajoutée en fin de carte si order_index est omis)
+   */
+  static async createIsland(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const input = WorldAdminService.parseIsland(req.body);
+      if (req.body?.order_index === undefined) {
+        input.order_index = await WorldAdminService.getNextOrderIndex('islands');
+      }
+
+      const validationError = await WorldAdminService.validateIsland(input, null);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const island = await WorldMapModel.createIsland(input);
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'create_island',
+        island_id: island.id,
+        name: island.name
+      }, req);
+
+      res.status(201).json({
+        success: true,
+        data: island
+      });
+    } catch (error) {
+      console.error('Erreur création île:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Modifier une île (champs omis inchangés)
+   */
+  static async updateIsland(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { id } = req.params;
+
+      const existing = await WorldMapModel.getIslandById(id, true);
+      if (!existing) {
+        res.status(404).json({ error: 'Île introuvable' });
+        return;
+      }
+
+      const input = WorldAdminService.parseIsland(req.body, existing);
+      const validationError = await WorldAdminService.validateIsland(input, id);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const island = await WorldMapModel.updateIsland(id, input);
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'update_island',
+        island_id: id,
+        before: existing,
+        after: island
+      }, req);
+
+      res.json({
+        success: true,
+        data: island
+      });
+    } catch (error) {
+      console.error('Erreur modification île:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Désactiver une île (refusé si une île active en dépend)
+   */
+  static async deactivateIsland(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { id } = req.params;
+
+      const existing = await WorldMapModel.getIslandById(id, true);
+      if (!existing) {
+        res.status(404).json({ error: 'Île introuvable' });
+        return;
+      }
+
+      const validationError = await WorldAdminService.checkIslandDeactivation(id);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      await WorldMapModel.deactivateIsland(id);
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'deactivate_island',
+        island_id: id
+      }, req);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erreur désactivation île:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Réordonner les îles: ids contient toutes les îles dans le nouvel ordre
+   */
+  static async reorderIslands(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { ids } = req.body;
+
+      const islands = await WorldMapModel.getAllIslands(true);
+      const validationError = WorldAdminService.validateOrder(ids, islands.map(island => island.id));
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      await Database.transaction(async () => {
+        await WorldMapModel.reorderIslands(ids);
+      });
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'reorder_islands',
+        ids
+      }, req);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erreur réordonnancement îles:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  // ===== QUESTS =====
+
+  /**
+   * [ADMIN] Créer une quête (ajoutée en fin d'île si order_index est omis)
+   */
+  static async createQuest(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const input = WorldAdminService.parseQuest(req.body);
+
+      const validationError = await WorldAdminService.validateQuest({
+        ...input,
+        order_index: req.body?.order_index === undefined ? 0 : input.order_index
+      });
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      if (req.body?.order_index === undefined) {
+        input.order_index = await WorldAdminService.getNextOrderIndex('quests', input.island_id);
+      }
+
+      const quest = await WorldMapModel.createQuest(input);
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'create_quest',
+        quest_id: quest.id,
+        island_id: quest.island_id,
+        name: quest.name,
+        reward_berrys: quest.reward_berrys
+      }, req);
+
+      res.status(201).json({
+        success: true,
+        data: quest
+      });
+    } catch (error) {
+      console.error('Erreur création quête:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Modifier une quête (champs omis inchangés)
+   * Les quêtes déjà en cours gardent leur durée de départ
+   */
+  static async updateQuest(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { id } = req.params;
+
+      const existing = await WorldMapModel.getQuestById(id, true);
+      if (!existing) {
+        res.status(404).json({ error: 'Quête introuvable' });
+        return;
+      }
+
+      const input = WorldAdminService.parseQuest(req.body, existing);
+      const validationError = await WorldAdminService.validateQuest(input);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const quest = await WorldMapModel.updateQuest(id, input);
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'update_quest',
+        quest_id: id,
+        before: existing,
+        after: quest
+      }, req);
+
+      res.json({
+        success: true,
+        data: quest
+      });
+    } catch (error) {
+      console.error('Erreur modification quête:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Désactiver une quête (les expéditions en cours restent réclamables)
+   */
+  static async deactivateQuest(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { id } = req.params;
+
+      const existing = await WorldMapModel.getQuestById(id, true);
+      if (!existing) {
+        res.status(404).json({ error: 'Quête introuvable' });
+        return;
+      }
+
+      await WorldMapModel.deactivateQuest(id);
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'deactivate_quest',
+        quest_id: id
+      }, req);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erreur désactivation quête:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Réordonner les quêtes d'une île: ids contient toutes ses quêtes dans le nouvel ordre
+   */
+  static async reorderQuests(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { id } = req.params;
+      const { ids } = req.body;
+
+      const island = await WorldMapModel.getIslandById(id, true);
+      if (!island) {
+        res.status(404).json({ error: 'Île introuvable' });
+        return;
+      }
+
+      const quests = (await WorldMapModel.getAllQuests(true)).filter(quest => quest.island_id === id);
+      const validationError = WorldAdminService.validateOrder(ids, quests.map(quest => quest.id));
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      await Database.transaction(async () => {
+        await WorldMapModel.reorderQuests(ids);
+      });
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'reorder_quests',
+        island_id: id,
+        ids
+      }, req);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erreur réordonnancement quêtes:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  // ===== CREW MEMBERS =====
+
+  /**
+   * [ADMIN] Créer un membre d'équipage (ajouté en fin de liste si order_index est omis)
+   */
+  static async createCrewMember(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const input = WorldAdminService.parseCrewMember(req.body);
+      if (req.body?.order_index === undefined) {
+        input.order_index = await WorldAdminService.getNextOrderIndex('crew_members');
+      }
+
+      const validationError = await WorldAdminService.validateCrewMember(input, null);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const member = await WorldMapModel.createCrewMember(input);
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'create_crew_member',
+        crew_member_id: member.id,
+        name: member.name
+      }, req);
+
+      res.status(201).json({
+        success: true,
+        data: member
+      });
+    } catch (error) {
+      console.error('Erreur création membre d\'équipage:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Modifier un membre d'équipage (champs omis inchangés)
+   */
+  static async updateCrewMember(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { id } = req.params;
+
+      const existing = await WorldMapModel.getCrewMemberById(id, true);
+      if (!existing) {
+        res.status(404).json({ error: 'Membre d\'équipage introuvable' });
+        return;
+      }
+
+      const input = WorldAdminService.parseCrewMember(req.body, existing);
+      const validationError = await WorldAdminService.validateCrewMember(input, id);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const member = await WorldMapModel.updateCrewMember(id, input);
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'update_crew_member',
+        crew_member_id: id,
+        before: existing,
+        after: member
+      }, req);
+
+      res.json({
+        success: true,
+        data: member
+      });
+    } catch (error) {
+      console.error('Erreur modification membre d\'équipage:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Désactiver un membre d'équipage (refusé si une quête ou une récompense d'île active le requiert)
+   */
+  static async deactivateCrewMember(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { id } = req.params;
+
+      const existing = await WorldMapModel.getCrewMemberById(id, true);
+      if (!existing) {
+        res.status(404).json({ error: 'Membre d\'équipage introuvable' });
+        return;
+      }
+
+      const validationError = await WorldAdminService.checkCrewMemberDeactivation(id);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      await WorldMapModel.deactivateCrewMember(id);
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'deactivate_crew_member',
+        crew_member_id: id
+      }, req);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erreur désactivation membre d\'équipage:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
+  /**
+   * [ADMIN] Réordonner les membres d'équipage: ids contient tous les membres dans le nouvel ordre
+   */
+  static async reorderCrewMembers(req: Request, res: Response): Promise<void> {
+    try {
+      const adminId = req.user?.id;
+      const { ids } = req.body;
+
+      const members = await WorldMapModel.getAllCrewMembers(true);
+      const validationError = WorldAdminService.validateOrder(ids, members.map(member => member.id));
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      await Database.transaction(async () => {
+        await WorldMapModel.reorderCrewMembers(ids);
+      });
+
+      // AUDIT
+      await AuditLogger.logSuccess(AuditAction.ADMIN_ACTION, adminId!, {
+        action: 'reorder_crew_members',
+        ids
+      }, req);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erreur réordonnancement équipage:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+}
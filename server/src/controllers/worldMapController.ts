@@ -1,7 +1,12 @@
 import { Request, Response } from 'express';
-import { WorldMapModel } from '../models/WorldMap.js';
-import { UserModel } from '../models/User.js';
+import { WorldMapModel, CrewMember } from '../models/WorldMap.js';
 import { Database } from '../utils/database.js';
+import { QuestRewardService, GrantedQuestReward } from '../services/QuestRewardService.js';
+import { AchievementService } from '../services/AchievementService.js';
+import { CrewService, CrewLevelUp } from '../services/CrewService.js';
+import { QuestAssignmentService, QuestAssignmentError } from '../services/QuestAssignmentService.js';
+import { defaultRandom } from '../utils/provablyFair.js';
+import { BerryLedgerService } from '../services/BerryLedgerService.js';
 import { AuditLogger } from '../utils/auditLogger.js';
 
 export class WorldMapController {
@@ -27,7 +32,11 @@ export class WorldMapController {
       // Construire les données de la carte avec détails
       const mapData = await Promise.all(islands.map(async (island) => {
         const userIsland = userIslands.find(ui => ui.island_id === island.id);
-        const quests = await WorldMapModel.getQuestsByIslandId(island.id);
+        const quests = await Promise.all((await WorldMapModel.getQuestsByIslandId(island.id)).map(async (quest) => ({
+          ...quest,
+          stat_requirements: CrewService.parseRequirements(quest.stat_requirements),
+          rewards: await QuestRewardService.describeRewards(quest)
+        })));
         const completedCount = await WorldMapModel.getCompletedQuestsCountForIsland(userId, island.id);
         const totalQuests = quests.length;
 
@@ -44,11 +53,21 @@ export class WorldMapController {
         };
       }));
 
-      // Enrichir les membres d'équipage avec info unlock
-      const enrichedCrewMembers = crewMembers.map(member => ({
-        ...member,
-        unlocked: userCrewMembers.some(ucm => ucm.crew_member_id === member.id)
-      }));
+      // Enrichir les membres d'équipage avec info unlock, niveau, statistiques et bonus de cartes
+      const cardBonuses = await CrewService.getCardBonuses(userId, crewMembers);
+      const enrichedCrewMembers = crewMembers.map(member => {
+        const userCrewMember = userCrewMembers.find(ucm => ucm.crew_member_id === member.id);
+        const progress = CrewService.getProgress(userCrewMember?.experience ?? 0);
+
+        return {
+          ...member,
+          card_characters: CrewService.parseCardCharacters(member.card_characters),
+          unlocked: !!userCrewMember,
+          ...progress,
+          stats: CrewService.getStats(member, progress.level),
+          card_bonus: cardBonuses[member.id] ?? null
+        };
+      });
 
       res.json({
         islands: mapData,
@@ -73,73 +92,20 @@ export class WorldMapController {
         return;
       }
 
-      if (!questId || !Array.isArray(crewMemberIds) || crewMemberIds.length === 0) {
-        res.status(400).json({ error: 'Données invalides' });
-        return;
-      }
-
-      // Récupérer la quête
-      const quest = await WorldMapModel.getQuestById(questId);
-      if (!quest) {
-        res.status(404).json({ error: 'Quête introuvable' });
-        return;
-      }
-
-      // Vérifier l'île débloquée
-      const islandUnlocked = await WorldMapModel.isIslandUnlocked(userId, quest.island_id);
-      if (!islandUnlocked) {
-        res.status(403).json({ error: 'Île non débloquée' });
-        return;
-      }
-
-      // Vérifier le nombre de membres requis
-      if (crewMemberIds.length !== quest.required_crew_count) {
-        res.status(400).json({
-          error: `Cette quête nécessite ${quest.required_crew_count} membre(s) d'équipage`
-        });
-        return;
-      }
-
-      // Vérifier la possession et disponibilité des membres
-      for (const memberId of crewMemberIds) {
-        const hasMember = await WorldMapModel.hasCrewMember(userId, memberId);
-        if (!hasMember) {
-          res.status(403).json({ error: 'Membre d\'équipage non débloqué' });
-          return;
-        }
-
-        const isBusy = await WorldMapModel.isCrewMemberBusy(userId, memberId);
-        if (isBusy) {
-          res.status(400).json({ error: 'Un ou plusieurs membres sont déjà en mission' });
-          return;
-        }
-      }
-
-      // Si spécifique à un membre, vérifier
-      if (quest.specific_crew_member_id) {
-        if (!crewMemberIds.includes(quest.specific_crew_member_id)) {
-          res.status(400).json({ error: 'Cette quête nécessite un membre d\'équipage spécifique' });
-          return;
-        }
-      }
-
-      // Démarrer la quête
-      const activeQuest = await WorldMapModel.startQuest(
-        userId,
-        questId,
-        crewMemberIds,
-        quest.duration_hours
-      );
+      // Validation et réservation de l'équipage dans une seule transaction
+      const { quest, activeQuest, odds, bonus } = await QuestAssignmentService.startQuest(userId, questId, crewMemberIds);
 
       // Log audit
       try {
         await AuditLogger.log(
           'quest_started' as any,
           {
-            quest_id: questId,
+            quest_id: quest.id,
             quest_name: quest.name,
             crew_member_ids: crewMemberIds,
-            duration_hours: quest.duration_hours
+            duration_hours: quest.duration_hours,
+            success_chance: odds.success_chance,
+            card_bonus: bonus
           },
           { userId }
         );
@@ -150,10 +116,16 @@ export class WorldMapController {
       res.json({
         success: true,
         activeQuest,
+        odds,
+        bonus,
         message: 'Quête démarrée avec succès'
       });
 
     } catch (error) {
+      if (error instanceof QuestAssignmentError) {
+        res.status(error.status).json({ error: error.message, code: error.code, details: error.details });
+        return;
+      }
       console.error('Error starting quest:', error);
       res.status(500).json({ error: 'Erreur serveur' });
     }
@@ -198,31 +170,50 @@ export class WorldMapController {
         return;
       }
 
-      // Récupérer la quête pour les récompenses
-      const quest = await WorldMapModel.getQuestById(activeQuest.quest_id);
+      // Récupérer la quête pour les récompenses (une quête désactivée en cours reste réclamable)
+      const quest = await WorldMapModel.getQuestById(activeQuest.quest_id, true);
       if (!quest) {
         res.status(404).json({ error: 'Quête introuvable' });
         return;
       }
 
       // Transaction pour claim les récompenses
+      const crewMemberIds: string[] = JSON.parse(activeQuest.crew_member_ids);
+      // Tirage de réussite avec la chance figée au départ de la quête
+      const questSucceeded = defaultRandom.next() < activeQuest.success_chance;
+      let rewards: GrantedQuestReward[] = [];
+      let berrys = 0;
+      let experience = 0;
+      let levelUps: CrewLevelUp[] = [];
+      let claimed = false;
+
       await Database.transaction(async () => {
+        // SÉCURITÉ: Une seule réclamation par quête, même si deux requêtes ont passé les vérifications
+        claimed = await WorldMapModel.claimQuestReward(activeQuestId);
+        if (!claimed) return;
+
         // Marquer comme complétée
         await WorldMapModel.completeQuest(activeQuestId);
-        await WorldMapModel.claimQuestReward(activeQuestId);
+        await WorldMapModel.releaseCrewMembers(activeQuestId);
 
-        // Ajouter les Berrys
-        if (quest.reward_berrys > 0) {
-          await UserModel.addBerrys(userId, quest.reward_berrys);
-        }
+        const teamBefore = await CrewService.getTeam(userId, crewMemberIds);
+
+        // Donner les récompenses (Berrys, boosters, cartes, expérience d'équipage), réduites en cas d'échec
+        rewards = await QuestRewardService.grantRewards(
+          userId, quest, activeQuestId, crewMemberIds, questSucceeded, activeQuest.reward_bonus
+        );
+        experience = await CrewService.grantQuestExperience(userId, crewMemberIds, quest.duration_hours, questSucceeded);
+        levelUps = CrewService.getLevelUps(teamBefore, await CrewService.getTeam(userId, crewMemberIds));
+        berrys = rewards.reduce((sum, reward) => sum + (reward.type === 'berrys' ? reward.amount : 0), 0);
 
         // Ajouter à l'historique
-        const crewMemberIds = JSON.parse(activeQuest.crew_member_ids);
         await WorldMapModel.addQuestToHistory(
           userId,
           quest.id,
           crewMemberIds,
-          quest.reward_berrys
+          berrys,
+          rewards,
+          questSucceeded
         );
 
         // Vérifier si toutes les quêtes de l'île sont complétées
@@ -234,6 +225,22 @@ export class WorldMapController {
         }
       });
 
+      if (!claimed) {
+        res.status(400).json({ error: 'Quête déjà terminée' });
+        return;
+      }
+
+      // Mettre à jour les achievements des boosters ouverts (hors transaction)
+      for (const reward of rewards) {
+        if (reward.type === 'booster') {
+          try {
+            await AchievementService.updateAfterBoosterOpen(userId, reward.booster_id, reward.cards.map(c => c.id));
+          } catch (error) {
+            console.error('Erreur mise à jour achievements (non bloquant):', error);
+          }
+        }
+      }
+
       // Log audit
       try {
         await AuditLogger.log(
@@ -241,7 +248,15 @@ export class WorldMapController {
           {
             quest_id: quest.id,
             quest_name: quest.name,
-            reward_berrys: quest.reward_berrys
+            succeeded: questSucceeded,
+            success_chance: activeQuest.success_chance,
+            reward_bonus: activeQuest.reward_bonus,
+            experience,
+            rewards: rewards.map(reward => reward.type === 'card'
+              ? { type: reward.type, card_id: reward.card.id }
+              : reward.type === 'booster'
+                ? { type: reward.type, booster_id: reward.booster_id, opening_ids: reward.opening_ids }
+                : reward)
           },
           { userId }
         );
@@ -251,10 +266,15 @@ export class WorldMapController {
 
       res.json({
         success: true,
+        quest_succeeded: questSucceeded,
+        success_chance: activeQuest.success_chance,
         reward: {
-          berrys: quest.reward_berrys
+          berrys
         },
-        message: 'Quête terminée avec succès'
+        rewards,
+        experience,
+        level_ups: levelUps,
+        message: questSucceeded ? 'Quête terminée avec succès' : 'La quête a échoué, récompense partielle'
       });
 
     } catch (error) {
@@ -307,7 +327,7 @@ export class WorldMapController {
 
         // Donner la récompense
         if (island.final_reward_type === 'berrys' && island.final_reward_value) {
-          await UserModel.addBerrys(userId, island.final_reward_value);
+          await BerryLedgerService.grant(userId, island.final_reward_value, 'island_reward', islandId);
         } else if (island.final_reward_type === 'crew_member' && island.final_reward_crew_member_id) {
           // Débloquer le membre d'équipage
           const hasAlready = await WorldMapModel.hasCrewMember(userId, island.final_reward_crew_member_id);
@@ -380,11 +400,20 @@ export class WorldMapController {
       );
 
       // Filter out nulls and check availability
+      const activeMembers = crewMembers.filter((member): member is CrewMember => !!member);
+      const cardBonuses = await CrewService.getCardBonuses(userId, activeMembers);
       const enrichedCrew = await Promise.all(
-        crewMembers.filter(Boolean).map(async (member) => {
-          const isBusy = await WorldMapModel.isCrewMemberBusy(userId, member!.id);
+        activeMembers.map(async (member) => {
+          const isBusy = await WorldMapModel.isCrewMemberBusy(userId, member.id);
+          const experience = userCrewMembers.find(ucm => ucm.crew_member_id === member.id)?.experience ?? 0;
+          const progress = CrewService.getProgress(experience);
           return {
             ...member,
+            card_characters: CrewService.parseCardCharacters(member.card_characters),
+            ...progress,
+            stats: CrewService.getStats(member, progress.level),
+            // Bonus actif grâce aux cartes possédées du personnage (null si aucune)
+            card_bonus: cardBonuses[member.id] ?? null,
             available: !isBusy
           };
         })
@@ -398,6 +427,41 @@ export class WorldMapController {
     }
   }
 
+  // ===== QUEST ODDS =====
+  static async getQuestOdds(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.id;
+      const { questId, crewMemberIds } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Non autorisé' });
+        return;
+      }
+
+      if (!questId || !Array.isArray(crewMemberIds)) {
+        res.status(400).json({ error: 'Données invalides' });
+        return;
+      }
+
+      const quest = await WorldMapModel.getQuestById(questId);
+      if (!quest) {
+        res.status(404).json({ error: 'Quête introuvable' });
+        return;
+      }
+
+      // Les membres non débloqués sont ignorés
+      const team = await CrewService.getTeam(userId, [...new Set(crewMemberIds.map(String))]);
+      res.json({
+        odds: CrewService.evaluateQuest(quest, team),
+        bonus: CrewService.getTeamBonus(team)
+      });
+
+    } catch (error) {
+      console.error('Error computing quest odds:', error);
+      res.status(500).json({ error: 'Erreur serveur' });
+    }
+  }
+
   // ===== GET QUEST HISTORY =====
   static async getQuestHistory(req: Request, res: Response): Promise<void> {
     try {
@@ -414,9 +478,14 @@ export class WorldMapController {
       // Enrichir avec les infos de quête
       const enrichedHistory = await Promise.all(
         history.map(async (h) => {
-          const quest = await WorldMapModel.getQuestById(h.quest_id);
+          const quest = await WorldMapModel.getQuestById(h.quest_id, true);
           return {
             ...h,
+            // Avant les récompenses typées, seuls les Berrys étaient donnés
+            rewards: h.rewards
+              ? JSON.parse(h.rewards)
+              : h.reward_berrys > 0 ? [{ type: 'berrys', amount: h.reward_berrys }] : [],
+            success: !!h.success,
             quest: quest
           };
         })
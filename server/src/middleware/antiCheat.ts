@@ -238,9 +238,10 @@ export const resourceConsistencyCheck = async (
         berrys: user.berrys
       }, req, userId);
 
-      await Database.run(`
-        UPDATE users SET berrys = ? WHERE id = ?
-      `, [Math.max(0, Math.min(user.berrys, MAX_BERRYS)), userId]);
+      const { BerryLedgerService } = await import('../services/BerryLedgerService.js');
+      await Database.transaction(async () => {
+        await BerryLedgerService.correctBalance(userId, Math.max(0, Math.min(user.berrys, MAX_BERRYS)));
+      });
     }
 
     if (user.available_boosters < 0 || user.available_boosters > MAX_BOOSTERS) {
@@ -1,5 +1,6 @@
 import { Database } from '../utils/database.js';
 import { v4 as uuidv4 } from 'uuid';
+import { BerryLedgerService } from '../services/BerryLedgerService.js';
 
 export type AchievementType = 'boosters_opened' | 'unique_cards' | 'booster_cards';
 
@@ -253,11 +254,7 @@ export class AchievementModel {
       }
 
       // Ajouter les Berrys à l'utilisateur
-      await Database.run(`
-        UPDATE users
-        SET berrys = COALESCE(berrys, 0) + ?
-        WHERE id = ?
-      `, [userAchievement.reward_berrys, userId]);
+      await BerryLedgerService.credit(userId, userAchievement.reward_berrys, 'achievement', achievementId);
     });
 
     return userAchievement.reward_berrys;
@@ -0,0 +1,106 @@
+import { Database } from '../utils/database.js';
+
+export type PriceHistorySource = 'listing' | 'auction' | 'buy_order';
+
+export interface CardSale {
+  card_id: string;
+  price: number;
+  source: PriceHistorySource;
+  reference_id?: string | null;
+  seller_id?: string | null;
+  buyer_id?: string | null;
+  sold_at: string;
+}
+
+export interface DailyPricePoint {
+  date: string;
+  average: number;
+  min: number;
+  max: number;
+  volume: number;
+}
+
+export class CardPriceHistoryModel {
+  /**
+   * Enregistrer une vente conclue
+   * Doit être appelé dans la même transaction que la vente
+   */
+  static async record(sale: Omit<CardSale, 'sold_at'>): Promise<void> {
+    await Database.run(`
+      INSERT INTO card_price_history (card_id, price, source, reference_id, seller_id, buyer_id, sold_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [sale.card_id, sale.price, sale.source, sale.reference_id || null, sale.seller_id || null, sale.buyer_id || null, new Date().toISOString()]);
+  }
+
+  /**
+   * Dernière vente d'une carte
+   */
+  static async getLastSale(card_id: string): Promise<CardSale | undefined> {
+    return await Database.get<CardSale>(`
+      SELECT card_id, price, source, sold_at
+      FROM card_price_history
+      WHERE card_id = ?
+      ORDER BY sold_at DESC, id DESC
+      LIMIT 1
+    `, [card_id]);
+  }
+
+  /**
+   * Prix des ventes d'une carte depuis une date
+   */
+  static async getPricesSince(card_id: string, since: string): Promise<number[]> {
+    const rows = await Database.all<{ price: number }>(`
+      SELECT price FROM card_price_history
+      WHERE card_id = ? AND sold_at >= ?
+    `, [card_id, since]);
+
+    return rows.map(row => row.price);
+  }
+
+  /**
+   * Série journalière (moyenne, min, max, volume) depuis une date
+   */
+  static async getDailySeries(card_id: string, since: string): Promise<DailyPricePoint[]> {
+    return await Database.all<DailyPricePoint>(`
+      SELECT
+        date(sold_at) as date,
+        ROUND(AVG(price)) as average,
+        MIN(price) as min,
+        MAX(price) as max,
+        COUNT(*) as volume
+      FROM card_price_history
+      WHERE card_id = ? AND sold_at >= ?
+      GROUP BY date(sold_at)
+      ORDER BY date ASC
+    `, [card_id, since]);
+  }
+
+  /**
+   * Ventes récentes des cartes possédées par un utilisateur
+   */
+  static async getOwnedCardPricesSince(user_id: string, since: string): Promise<{ card_id: string; price: number }[]> {
+    return await Database.all<{ card_id: string; price: number }>(`
+      SELECT h.card_id, h.price
+      FROM card_price_history h
+      JOIN user_collections uc ON uc.card_id = h.card_id AND uc.user_id = ?
+      WHERE h.sold_at >= ?
+    `, [user_id, since]);
+  }
+
+  /**
+   * Dernière vente de chaque carte possédée par un utilisateur
+   */
+  static async getOwnedCardLastSales(user_id: string): Promise<{ card_id: string; price: number }[]> {
+    return await Database.all<{ card_id: string; price: number }>(`
+      SELECT h.card_id, h.price
+      FROM card_price_history h
+      JOIN user_collections uc ON uc.card_id = h.card_id AND uc.user_id = ?
+      WHERE h.id = (
+        SELECT h2.id FROM card_price_history h2
+        WHERE h2.card_id = h.card_id
+        ORDER BY h2.sold_at DESC, h2.id DESC
+        LIMIT 1
+      )
+    `, [user_id]);
+  }
+}
@@ -0,0 +1,138 @@
+import { Database } from '../utils/database.js';
+
+export interface MarketplaceBuyOrder {
+  id: string;
+  buyer_id: string;
+  card_id: string;
+  max_price: number;
+  status: 'active' | 'filled' | 'cancelled';
+  seller_id?: string | null;
+  created_at: string;
+  filled_at?: string | null;
+}
+
+export interface MarketplaceBuyOrderWithDetails extends MarketplaceBuyOrder {
+  buyer_username: string;
+  card_name: string;
+  card_rarity: string;
+  card_image_url?: string;
+  card_character: string;
+}
+
+export interface CreateBuyOrderData {
+  buyer_id: string;
+  card_id: string;
+  max_price: number;
+}
+
+export class MarketplaceBuyOrderModel {
+  /**
+   * Créer un ordre d'achat
+   * Le montant doit déjà avoir été retenu sur le solde de l'acheteur
+   */
+  static async create(data: CreateBuyOrderData): Promise<MarketplaceBuyOrder> {
+    const id = `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const created_at = new Date().toISOString();
+
+    await Database.run(`
+      INSERT INTO marketplace_buy_orders (id, buyer_id, card_id, max_price, status, created_at)
+      VALUES (?, ?, ?, ?, 'active', ?)
+    `, [id, data.buyer_id, data.card_id, data.max_price, created_at]);
+
+    const order = await this.findById(id);
+    if (!order) {
+      throw new Error('Erreur lors de la création de l\'ordre d\'achat');
+    }
+
+    return order;
+  }
+
+  /**
+   * Trouver un ordre d'achat par son ID
+   */
+  static async findById(id: string): Promise<MarketplaceBuyOrder | undefined> {
+    return await Database.get<MarketplaceBuyOrder>(
+      'SELECT * FROM marketplace_buy_orders WHERE id = ?',
+      [id]
+    );
+  }
+
+  /**
+   * Récupérer les ordres d'achat ouverts (meilleur prix d'abord, puis le plus ancien)
+   */
+  static async getActiveOrders(card_id?: string): Promise<MarketplaceBuyOrderWithDetails[]> {
+    return await Database.all<MarketplaceBuyOrderWithDetails>(`
+      SELECT
+        bo.*,
+        u.username as buyer_username,
+        c.name as card_name,
+        c.rarity as card_rarity,
+        c.image_url as card_image_url,
+        c.character as card_character
+      FROM marketplace_buy_orders bo
+      JOIN users u ON bo.buyer_id = u.id
+      JOIN cards c ON bo.card_id = c.id
+      WHERE bo.status = 'active'${card_id ? ' AND bo.card_id = ?' : ''}
+      ORDER BY bo.max_price DESC, bo.created_at ASC
+      LIMIT 200
+    `, card_id ? [card_id] : []);
+  }
+
+  /**
+   * Récupérer les ordres d'achat d'un joueur
+   */
+  static async getBuyerOrders(buyer_id: string): Promise<MarketplaceBuyOrderWithDetails[]> {
+    return await Database.all<MarketplaceBuyOrderWithDetails>(`
+      SELECT
+        bo.*,
+        u.username as buyer_username,
+        c.name as card_name,
+        c.rarity as card_rarity,
+        c.image_url as card_image_url,
+        c.character as card_character
+      FROM marketplace_buy_orders bo
+      JOIN users u ON bo.buyer_id = u.id
+      JOIN cards c ON bo.card_id = c.id
+      WHERE bo.buyer_id = ?
+      ORDER BY bo.created_at DESC
+      LIMIT 100
+    `, [buyer_id]);
+  }
+
+  /**
+   * Meilleur ordre ouvert pour une carte, au moins au prix demandé, hors ordres du vendeur
+   */
+  static async findBestOpenOrder(card_id: string, min_price: number, exclude_user_id: string): Promise<MarketplaceBuyOrder | undefined> {
+    return await Database.get<MarketplaceBuyOrder>(`
+      SELECT * FROM marketplace_buy_orders
+      WHERE card_id = ? AND status = 'active' AND max_price >= ? AND buyer_id != ?
+      ORDER BY max_price DESC, created_at ASC
+      LIMIT 1
+    `, [card_id, min_price, exclude_user_id]);
+  }
+
+  /**
+   * Compter les ordres ouverts d'un joueur
+   */
+  static async countActiveByBuyer(buyer_id: string): Promise<number> {
+    const result = await Database.get<{ count: number }>(
+      'SELECT COUNT(*) as count FROM marketplace_buy_orders WHERE buyer_id = ? AND status = \'active\'',
+      [buyer_id]
+    );
+    return result?.count || 0;
+  }
+
+  /**
+   * Clôturer un ordre ouvert
+   * Retourne false si l'ordre n'était plus ouvert (exécution ou annulation concurrente)
+   */
+  static async close(id: string, status: 'filled' | 'cancelled', seller_id: string | null = null): Promise<boolean> {
+    const result = await Database.run(`
+      UPDATE marketplace_buy_orders
+      SET status = ?, seller_id = ?, filled_at = ?
+      WHERE id = ? AND status = 'active'
+    `, [status, seller_id, status === 'filled' ? new Date().toISOString() : null, id]);
+
+    return result.changes > 0;
+  }
+}
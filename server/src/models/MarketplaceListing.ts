@@ -1,4 +1,5 @@
 import { Database } from '../utils/database.js';
+import { RARITIES } from '../services/DropTableService.js';
 
 export interface MarketplaceListing {
   id: string;
@@ -6,9 +7,31 @@ export interface MarketplaceListing {
   card_id: string;
   price: number;
   created_at: string;
-  status: 'active' | 'sold' | 'cancelled';
+  status: 'active' | 'sold' | 'cancelled' | 'expired';
   buyer_id?: string;
   sold_at?: string;
+  listing_type: MarketplaceListingType;
+  buyout_price?: number | null;
+  ends_at?: string | null;
+  current_bid?: number | null;
+  current_bidder_id?: string | null;
+  // Annonce expirée déjà remise en vente
+  relisted_at?: string | null;
+}
+
+export type MarketplaceListingType = 'fixed' | 'auction';
+
+export interface MarketplaceBid {
+  id: string;
+  listing_id: string;
+  bidder_id: string;
+  amount: number;
+  status: 'active' | 'outbid' | 'won';
+  created_at: string;
+}
+
+export interface MarketplaceBidWithDetails extends MarketplaceBid {
+  bidder_username: string;
 }
 
 export interface MarketplaceListingWithDetails extends MarketplaceListing {
@@ -17,29 +40,69 @@ export interface MarketplaceListingWithDetails extends MarketplaceListing {
   card_rarity: string;
   card_image_url?: string;
   card_character: string;
+  current_bidder_username?: string | null;
+  bid_count?: number;
 }
 
 export interface CreateListingData {
   seller_id: string;
   card_id: string;
   price: number;
+  listing_type?: MarketplaceListingType;
+  buyout_price?: number | null;
+  ends_at?: string | null;
+}
+
+export const LISTING_SORTS = ['recent', 'price_asc', 'price_desc', 'rarity'] as const;
+export type ListingSort = typeof LISTING_SORTS[number];
+
+export interface ListingSearchFilters {
+  search?: string;
+  character?: string;
+  rarity?: string;
+  boosterId?: string;
+  color?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  seller?: string;
+  sort?: ListingSort;
+  cursor?: string;
+  limit?: number;
 }
 
+export interface ListingPage {
+  listings: MarketplaceListingWithDetails[];
+  nextCursor: string | null;
+}
+
+// Prix affiché: enchère actuelle pour les enchères, prix fixe sinon (doit correspondre à l'index)
+const EFFECTIVE_PRICE_SQL = 'COALESCE(ml.current_bid, ml.price)';
+const RARITY_RANK_SQL = `CASE c.rarity ${RARITIES.map((rarity, index) => `WHEN '${rarity}' THEN ${index}`).join(' ')} ELSE -1 END`;
+
+// Clé de tri et sens pour chaque tri (pagination par curseur sur (clé, id))
+const SORTS: Record<ListingSort, { key: string; direction: 'ASC' | 'DESC' }> = {
+  recent: { key: 'ml.created_at', direction: 'DESC' },
+  price_asc: { key: EFFECTIVE_PRICE_SQL, direction: 'ASC' },
+  price_desc: { key: EFFECTIVE_PRICE_SQL, direction: 'DESC' },
+  rarity: { key: RARITY_RANK_SQL, direction: 'DESC' }
+};
+
 export class MarketplaceListingModel {
   /**
    * Créer une nouvelle annonce sur le marketplace
    */
   static async create(data: CreateListingData): Promise<MarketplaceListing> {
     const { seller_id, card_id, price } = data;
+    const listing_type = data.listing_type || 'fixed';
 
     // Générer un ID unique pour l'annonce
     const id = `listing_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const created_at = new Date().toISOString();
 
     await Database.run(`
-      INSERT INTO marketplace_listings (id, seller_id, card_id, price, created_at, status)
-      VALUES (?, ?, ?, ?, ?, 'active')
-    `, [id, seller_id, card_id, price, created_at]);
+      INSERT INTO marketplace_listings (id, seller_id, card_id, price, created_at, status, listing_type, buyout_price, ends_at)
+      VALUES (?, ?, ?, ?, ?, 'active', ?, ?, ?)
+    `, [id, seller_id, card_id, price, created_at, listing_type, data.buyout_price || null, data.ends_at || null]);
 
     const listing = await this.findById(id);
     if (!listing) {
@@ -62,25 +125,109 @@ export class MarketplaceListingModel {
   }
 
   /**
-   * Récupérer toutes les annonces actives avec les détails
+   * Rechercher les annonces actives avec les détails (filtres, tri et pagination par curseur)
    */
-  static async getActiveListings(): Promise<MarketplaceListingWithDetails[]> {
-    const listings = await Database.all<MarketplaceListingWithDetails>(`
+  static async getActiveListings(filters: ListingSearchFilters = {}): Promise<ListingPage> {
+    const sort = SORTS[filters.sort || 'recent'];
+    const limit = filters.limit || 24;
+    // Les annonces échues restent actives jusqu'au prochain passage du balayage: elles ne sont plus proposées
+    const conditions: string[] = ['ml.status = \'active\'', '(ml.ends_at IS NULL OR ml.ends_at > ?)'];
+    const params: any[] = [new Date().toISOString()];
+
+    if (filters.search) {
+      conditions.push('LOWER(c.name) LIKE ?');
+      params.push(`%${filters.search.toLowerCase()}%`);
+    }
+    if (filters.character) {
+      conditions.push('LOWER(c.character) LIKE ?');
+      params.push(`%${filters.character.toLowerCase()}%`);
+    }
+    if (filters.rarity) {
+      conditions.push('c.rarity = ?');
+      params.push(filters.rarity);
+    }
+    if (filters.boosterId) {
+      conditions.push('c.booster_id = ?');
+      params.push(filters.boosterId);
+    }
+    if (filters.color) {
+      // Les couleurs sont stockées en tableau JSON (ex: ["Red","Green"])
+      conditions.push('c.color LIKE ?');
+      params.push(`%"${filters.color}"%`);
+    }
+    if (filters.minPrice !== undefined) {
+      conditions.push(`${EFFECTIVE_PRICE_SQL} >= ?`);
+      params.push(filters.minPrice);
+    }
+    if (filters.maxPrice !== undefined) {
+      conditions.push(`${EFFECTIVE_PRICE_SQL} <= ?`);
+      params.push(filters.maxPrice);
+    }
+    if (filters.seller) {
+      conditions.push('LOWER(u.username) = LOWER(?)');
+      params.push(filters.seller);
+    }
+
+    if (filters.cursor) {
+      const [value, id] = this.decodeCursor(filters.cursor);
+      const comparator = sort.direction === 'DESC' ? '<' : '>';
+      conditions.push(`(${sort.key} ${comparator} ? OR (${sort.key} = ? AND ml.id ${comparator} ?))`);
+      params.push(value, value, id);
+    }
+
+    const rows = await Database.all<MarketplaceListingWithDetails & { sort_key?: string | number }>(`
       SELECT
         ml.*,
         u.username as seller_username,
         c.name as card_name,
         c.rarity as card_rarity,
         c.image_url as card_image_url,
-        c.character as card_character
+        c.character as card_character,
+        b.username as current_bidder_username,
+        (SELECT COUNT(*) FROM marketplace_bids mb WHERE mb.listing_id = ml.id) as bid_count,
+        ${sort.key} as sort_key
       FROM marketplace_listings ml
       JOIN users u ON ml.seller_id = u.id
       JOIN cards c ON ml.card_id = c.id
-      WHERE ml.status = 'active'
-      ORDER BY ml.created_at DESC
-    `);
+      LEFT JOIN users b ON ml.current_bidder_id = b.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${sort.key} ${sort.direction}, ml.id ${sort.direction}
+      LIMIT ?
+    `, [...params, limit + 1]);
 
-    return listings;
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      listings: page.map(row => {
+        const listing = { ...row };
+        delete listing.sort_key;
+        return listing;
+      }),
+      nextCursor: hasMore && last ? this.encodeCursor(last.sort_key!, last.id) : null
+    };
+  }
+
+  private static encodeCursor(value: string | number, id: string): string {
+    return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+  }
+
+  /**
+   * Décoder un curseur de pagination (lève une erreur s'il est mal formé)
+   */
+  static decodeCursor(cursor: string): [string | number, string] {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (Array.isArray(decoded) && decoded.length === 2
+        && (typeof decoded[0] === 'string' || typeof decoded[0] === 'number')
+        && typeof decoded[1] === 'string') {
+        return [decoded[0], decoded[1]];
+      }
+    } catch {
+      // Curseur mal formé: traité ci-dessous
+    }
+    throw new Error('Curseur de pagination invalide');
   }
 
   /**
@@ -94,10 +241,13 @@ export class MarketplaceListingModel {
         c.name as card_name,
         c.rarity as card_rarity,
         c.image_url as card_image_url,
-        c.character as card_character
+        c.character as card_character,
+        b.username as current_bidder_username,
+        (SELECT COUNT(*) FROM marketplace_bids mb WHERE mb.listing_id = ml.id) as bid_count
       FROM marketplace_listings ml
       JOIN users u ON ml.seller_id = u.id
       JOIN cards c ON ml.card_id = c.id
+      LEFT JOIN users b ON ml.current_bidder_id = b.id
       WHERE ml.seller_id = ?
       ORDER BY ml.created_at DESC
     `, [seller_id]);
@@ -130,14 +280,105 @@ export class MarketplaceListingModel {
   }
 
   /**
-   * Annuler une annonce
+   * Mettre sous séquestre l'exemplaire mis en vente
+   * Retourne false si le vendeur n'a pas d'exemplaire disponible (hors exemplaire conservé)
    */
-  static async cancel(id: string): Promise<void> {
-    await Database.run(`
+  static async reserveCard(seller_id: string, card_id: string): Promise<boolean> {
+    const result = await Database.run(`
+      UPDATE user_collections
+      SET reserved_quantity = COALESCE(reserved_quantity, 0) + 1
+      WHERE user_id = ? AND card_id = ? AND quantity - COALESCE(reserved_quantity, 0) >= 2
+    `, [seller_id, card_id]);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Retirer l'exemplaire vendu de la collection du vendeur et du séquestre
+   */
+  static async consumeReservedCard(seller_id: string, card_id: string): Promise<boolean> {
+    const result = await Database.run(`
+      UPDATE user_collections
+      SET quantity = quantity - 1, reserved_quantity = reserved_quantity - 1
+      WHERE user_id = ? AND card_id = ? AND reserved_quantity >= 1 AND quantity >= 1
+    `, [seller_id, card_id]);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Annuler une annonce active et rendre l'exemplaire sous séquestre au vendeur
+   * Retourne false si l'annonce n'était plus active ou si une enchère a été placée entre-temps
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async cancel(id: string): Promise<boolean> {
+    return await this.close(id, 'cancelled');
+  }
+
+  /**
+   * Clôturer une annonce échue (prix fixe, ou enchère sans offre) et rendre l'exemplaire sous séquestre au vendeur
+   * Retourne false si l'annonce n'était plus active ou avait reçu une enchère
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async expire(id: string): Promise<boolean> {
+    return await this.close(id, 'expired');
+  }
+
+  /**
+   * Annonces à prix fixe arrivées à expiration
+   */
+  static async findExpiredFixedListings(now: string): Promise<MarketplaceListing[]> {
+    return await Database.all<MarketplaceListing>(`
+      SELECT * FROM marketplace_listings
+      WHERE listing_type = 'fixed' AND status = 'active' AND ends_at <= ?
+    `, [now]);
+  }
+
+  /**
+   * Marquer une annonce expirée comme remise en vente (une seule fois)
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async markRelisted(id: string): Promise<boolean> {
+    const result = await Database.run(`
       UPDATE marketplace_listings
-      SET status = 'cancelled'
-      WHERE id = ?
-    `, [id]);
+      SET relisted_at = ?
+      WHERE id = ? AND status = 'expired' AND relisted_at IS NULL
+    `, [new Date().toISOString(), id]);
+
+    return result.changes > 0;
+  }
+
+  private static async close(id: string, status: 'cancelled' | 'expired'): Promise<boolean> {
+    const listing = await this.findById(id);
+    if (!listing || listing.status !== 'active') return false;
+
+    const result = await Database.run(`
+      UPDATE marketplace_listings
+      SET status = ?
+      WHERE id = ? AND status = 'active' AND current_bidder_id IS NULL
+    `, [status, id]);
+    if (result.changes === 0) return false;
+
+    await Database.run(`
+      UPDATE user_collections
+      SET reserved_quantity = reserved_quantity - 1
+      WHERE user_id = ? AND card_id = ? AND reserved_quantity >= 1
+    `, [listing.seller_id, listing.card_id]);
+
+    return true;
+  }
+
+  /**
+   * Récupérer l'historique des enchères d'une annonce (plus haute d'abord)
+   */
+  static async getBids(listing_id: string): Promise<MarketplaceBidWithDetails[]> {
+    return await Database.all<MarketplaceBidWithDetails>(`
+      SELECT mb.*, u.username as bidder_username
+      FROM marketplace_bids mb
+      JOIN users u ON mb.bidder_id = u.id
+      WHERE mb.listing_id = ?
+      ORDER BY mb.amount DESC, mb.created_at DESC
+    `, [listing_id]);
   }
 
   /**
@@ -146,7 +387,7 @@ export class MarketplaceListingModel {
   static async cleanupOldListings(daysOld: number = 30): Promise<number> {
     const result = await Database.run(`
       DELETE FROM marketplace_listings
-      WHERE status IN ('sold', 'cancelled')
+      WHERE status IN ('sold', 'cancelled', 'expired')
         AND datetime(created_at) < datetime('now', '-' || ? || ' days')
     `, [daysOld]);
 
@@ -0,0 +1,176 @@
+import { Database } from '../utils/database.js';
+
+export type TradeOfferStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'countered';
+export type TradeSide = 'offered' | 'requested';
+
+export interface TradeOffer {
+  id: string;
+  proposer_id: string;
+  recipient_id: string;
+  offered_berrys: number;
+  requested_berrys: number;
+  status: TradeOfferStatus;
+  parent_offer_id?: string | null;
+  created_at: string;
+  responded_at?: string | null;
+}
+
+export interface TradeOfferItem {
+  card_id: string;
+  quantity: number;
+}
+
+export interface TradeOfferItemWithDetails extends TradeOfferItem {
+  card_name: string;
+  card_rarity: string;
+  card_image_url?: string;
+  card_character: string;
+}
+
+export interface TradeOfferWithDetails extends TradeOffer {
+  proposer_username: string;
+  recipient_username: string;
+  offered_cards: TradeOfferItemWithDetails[];
+  requested_cards: TradeOfferItemWithDetails[];
+}
+
+export interface CreateTradeOfferData {
+  proposer_id: string;
+  recipient_id: string;
+  offered_cards: TradeOfferItem[];
+  requested_cards: TradeOfferItem[];
+  offered_berrys: number;
+  requested_berrys: number;
+  parent_offer_id?: string | null;
+}
+
+export class TradeOfferModel {
+  /**
+   * Créer une offre d'échange avec ses cartes
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async create(data: CreateTradeOfferData): Promise<TradeOffer> {
+    const id = `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const created_at = new Date().toISOString();
+
+    await Database.run(`
+      INSERT INTO trade_offers (id, proposer_id, recipient_id, offered_berrys, requested_berrys, status, parent_offer_id, created_at)
+      VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)
+    `, [id, data.proposer_id, data.recipient_id, data.offered_berrys, data.requested_berrys, data.parent_offer_id || null, created_at]);
+
+    const sides: [TradeSide, TradeOfferItem[]][] = [['offered', data.offered_cards], ['requested', data.requested_cards]];
+    for (const [side, items] of sides) {
+      for (const item of items) {
+        await Database.run(`
+          INSERT INTO trade_offer_items (offer_id, side, card_id, quantity)
+          VALUES (?, ?, ?, ?)
+        `, [id, side, item.card_id, item.quantity]);
+      }
+    }
+
+    const offer = await this.findById(id);
+    if (!offer) {
+      throw new Error('Erreur lors de la création de l\'offre d\'échange');
+    }
+
+    return offer;
+  }
+
+  /**
+   * Trouver une offre par son ID
+   */
+  static async findById(id: string): Promise<TradeOffer | undefined> {
+    return await Database.get<TradeOffer>(
+      'SELECT * FROM trade_offers WHERE id = ?',
+      [id]
+    );
+  }
+
+  /**
+   * Récupérer les cartes d'un côté de l'offre
+   */
+  static async getItems(offerId: string, side: TradeSide): Promise<TradeOfferItemWithDetails[]> {
+    return await Database.all<TradeOfferItemWithDetails>(`
+      SELECT
+        toi.card_id,
+        toi.quantity,
+        c.name as card_name,
+        c.rarity as card_rarity,
+        c.image_url as card_image_url,
+        c.character as card_character
+      FROM trade_offer_items toi
+      JOIN cards c ON toi.card_id = c.id
+      WHERE toi.offer_id = ? AND toi.side = ?
+      ORDER BY c.name
+    `, [offerId, side]);
+  }
+
+  /**
+   * Récupérer une offre avec les pseudos et le détail des cartes
+   */
+  static async getWithDetails(id: string): Promise<TradeOfferWithDetails | undefined> {
+    const offer = await Database.get<TradeOffer & { proposer_username: string; recipient_username: string }>(`
+      SELECT
+        t.*,
+        p.username as proposer_username,
+        r.username as recipient_username
+      FROM trade_offers t
+      JOIN users p ON t.proposer_id = p.id
+      JOIN users r ON t.recipient_id = r.id
+      WHERE t.id = ?
+    `, [id]);
+
+    if (!offer) return undefined;
+
+    return {
+      ...offer,
+      offered_cards: await this.getItems(id, 'offered'),
+      requested_cards: await this.getItems(id, 'requested')
+    };
+  }
+
+  /**
+   * Récupérer les offres envoyées et reçues par un utilisateur
+   */
+  static async getUserOffers(userId: string, status?: TradeOfferStatus): Promise<TradeOfferWithDetails[]> {
+    const offers = await Database.all<{ id: string }>(`
+      SELECT id FROM trade_offers
+      WHERE (proposer_id = ? OR recipient_id = ?)${status ? ' AND status = ?' : ''}
+      ORDER BY created_at DESC
+      LIMIT 100
+    `, status ? [userId, userId, status] : [userId, userId]);
+
+    const detailed: TradeOfferWithDetails[] = [];
+    for (const { id } of offers) {
+      const offer = await this.getWithDetails(id);
+      if (offer) detailed.push(offer);
+    }
+
+    return detailed;
+  }
+
+  /**
+   * Compter les offres en attente envoyées par un utilisateur
+   */
+  static async countPendingByProposer(proposer_id: string): Promise<number> {
+    const result = await Database.get<{ count: number }>(
+      'SELECT COUNT(*) as count FROM trade_offers WHERE proposer_id = ? AND status = \'pending\'',
+      [proposer_id]
+    );
+    return result?.count || 0;
+  }
+
+  /**
+   * Clôturer une offre en attente
+   * Retourne false si l'offre n'était plus en attente (réponse concurrente)
+   */
+  static async resolve(id: string, status: Exclude<TradeOfferStatus, 'pending'>): Promise<boolean> {
+    const result = await Database.run(`
+      UPDATE trade_offers
+      SET status = ?, responded_at = ?
+      WHERE id = ? AND status = 'pending'
+    `, [status, new Date().toISOString(), id]);
+
+    return result.changes > 0;
+  }
+}
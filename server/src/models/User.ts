@@ -17,6 +17,7 @@ export interface User {
   boosters_opened_today?: number;
   last_booster_opened?: Date | null;
   berrys?: number;
+  dust?: number;
   favorite_card_id?: string | null;
 }
 
@@ -187,13 +188,4 @@ export class UserModel {
       today_openings: openingsStats?.today_openings || 0
     };
   }
-
-  static async addBerrys(userId: string, amount: number): Promise<void> {
-    const MAX_BERRYS = 999999999;
-    await Database.run(`
-      UPDATE users
-      SET berrys = MIN(COALESCE(berrys, 0) + ?, ?)
-      WHERE id = ?
-    `, [amount, MAX_BERRYS, userId]);
-  }
 }
\ No newline at end of file
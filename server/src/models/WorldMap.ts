@@ -23,6 +23,13 @@ export interface CrewMember {
   image_url: string;
   unlock_island_id: string | null;
   order_index: number;
+  // Statistiques de base au niveau 1 (voir CrewService)
+  strength: number;
+  navigation: number;
+  intelligence: number;
+  stamina: number;
+  // Valeurs de cards.character donnant un bonus au membre (JSON)
+  card_characters: string;
   is_active: boolean;
   created_at: string;
 }
@@ -34,6 +41,10 @@ export interface Quest {
   description: string;
   duration_hours: number;
   reward_berrys: number;
+  // Définitions JSON des récompenses en plus des Berrys (voir QuestRewardService)
+  extra_rewards: string;
+  // Exigences JSON par statistique (total de l'équipe), vide = réussite assurée
+  stat_requirements: string;
   required_crew_count: number;
   specific_crew_member_id: string | null;
   order_index: number;
@@ -56,6 +67,7 @@ export interface UserCrewMember {
   user_id: string;
   crew_member_id: string;
   unlocked_at: string;
+  experience: number;
 }
 
 export interface ActiveQuest {
@@ -67,6 +79,8 @@ export interface ActiveQuest {
   completes_at: string;
   completed: boolean;
   reward_claimed: boolean;
+  success_chance: number;
+  reward_bonus: number;
 }
 
 export interface QuestHistory {
@@ -76,20 +90,26 @@ export interface QuestHistory {
   crew_member_ids: string;
   completed_at: string;
   reward_berrys: number;
+  // Récompenses obtenues (JSON), NULL avant les récompenses typées
+  rewards: string | null;
+  success: boolean;
 }
 
 export class WorldMapModel {
   // ===== ISLANDS =====
-  static async getAllIslands(): Promise<Island[]> {
+  static async getAllIslands(includeInactive: boolean = false): Promise<Island[]> {
     return await Database.all<Island>(`
       SELECT * FROM islands
-      WHERE is_active = 1
+      ${includeInactive ? '' : 'WHERE is_active = 1'}
       ORDER BY order_index ASC
     `);
   }
 
-  static async getIslandById(id: string): Promise<Island | null> {
-    const result = await Database.get<Island>('SELECT * FROM islands WHERE id = ? AND is_active = 1', [id]);
+  static async getIslandById(id: string, includeInactive: boolean = false): Promise<Island | null> {
+    const result = await Database.get<Island>(
+      `SELECT * FROM islands WHERE id = ?${includeInactive ? '' : ' AND is_active = 1'}`,
+      [id]
+    );
     return result || null;
   }
 
@@ -110,20 +130,50 @@ export class WorldMapModel {
       island.final_reward_crew_member_id, island.is_active ? 1 : 0, now
     ]);
 
-    return (await this.getIslandById(id))!;
+    return (await this.getIslandById(id, true))!;
+  }
+
+  static async updateIsland(id: string, island: Omit<Island, 'id' | 'created_at'>): Promise<Island> {
+    await Database.run(`
+      UPDATE islands SET
+        name = ?, order_index = ?, description = ?, latitude = ?, longitude = ?,
+        unlock_requirement_island_id = ?, final_reward_type = ?, final_reward_value = ?,
+        final_reward_crew_member_id = ?, is_active = ?
+      WHERE id = ?
+    `, [
+      island.name, island.order_index, island.description, island.latitude, island.longitude,
+      island.unlock_requirement_island_id, island.final_reward_type, island.final_reward_value,
+      island.final_reward_crew_member_id, island.is_active ? 1 : 0, id
+    ]);
+
+    return (await this.getIslandById(id, true))!;
+  }
+
+  static async deactivateIsland(id: string): Promise<void> {
+    await Database.run('UPDATE islands SET is_active = 0 WHERE id = ?', [id]);
+  }
+
+  // Doit être appelé à l'intérieur d'une transaction
+  static async reorderIslands(ids: string[]): Promise<void> {
+    for (let index = 0; index < ids.length; index++) {
+      await Database.run('UPDATE islands SET order_index = ? WHERE id = ?', [index + 1, ids[index]]);
+    }
   }
 
   // ===== CREW MEMBERS =====
-  static async getAllCrewMembers(): Promise<CrewMember[]> {
+  static async getAllCrewMembers(includeInactive: boolean = false): Promise<CrewMember[]> {
     return await Database.all<CrewMember>(`
       SELECT * FROM crew_members
-      WHERE is_active = 1
+      ${includeInactive ? '' : 'WHERE is_active = 1'}
       ORDER BY order_index ASC
     `);
   }
 
-  static async getCrewMemberById(id: string): Promise<CrewMember | null> {
-    const result = await Database.get<CrewMember>('SELECT * FROM crew_members WHERE id = ? AND is_active = 1', [id]);
+  static async getCrewMemberById(id: string, includeInactive: boolean = false): Promise<CrewMember | null> {
+    const result = await Database.get<CrewMember>(
+      `SELECT * FROM crew_members WHERE id = ?${includeInactive ? '' : ' AND is_active = 1'}`,
+      [id]
+    );
     return result || null;
   }
 
@@ -133,14 +183,44 @@ export class WorldMapModel {
 
     await Database.run(`
       INSERT INTO crew_members (
-        id, name, description, image_url, unlock_island_id, order_index, is_active, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        id, name, description, image_url, unlock_island_id, order_index,
+        strength, navigation, intelligence, stamina, card_characters, is_active, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       id, member.name, member.description, member.image_url,
-      member.unlock_island_id, member.order_index, member.is_active ? 1 : 0, now
+      member.unlock_island_id, member.order_index,
+      member.strength, member.navigation, member.intelligence, member.stamina,
+      member.card_characters, member.is_active ? 1 : 0, now
     ]);
 
-    return (await this.getCrewMemberById(id))!;
+    return (await this.getCrewMemberById(id, true))!;
+  }
+
+  static async updateCrewMember(id: string, member: Omit<CrewMember, 'id' | 'created_at'>): Promise<CrewMember> {
+    await Database.run(`
+      UPDATE crew_members SET
+        name = ?, description = ?, image_url = ?, unlock_island_id = ?, order_index = ?,
+        strength = ?, navigation = ?, intelligence = ?, stamina = ?, card_characters = ?, is_active = ?
+      WHERE id = ?
+    `, [
+      member.name, member.description, member.image_url,
+      member.unlock_island_id, member.order_index,
+      member.strength, member.navigation, member.intelligence, member.stamina,
+      member.card_characters, member.is_active ? 1 : 0, id
+    ]);
+
+    return (await this.getCrewMemberById(id, true))!;
+  }
+
+  static async deactivateCrewMember(id: string): Promise<void> {
+    await Database.run('UPDATE crew_members SET is_active = 0 WHERE id = ?', [id]);
+  }
+
+  // Doit être appelé à l'intérieur d'une transaction
+  static async reorderCrewMembers(ids: string[]): Promise<void> {
+    for (let index = 0; index < ids.length; index++) {
+      await Database.run('UPDATE crew_members SET order_index = ? WHERE id = ?', [index + 1, ids[index]]);
+    }
   }
 
   // ===== QUESTS =====
@@ -152,8 +232,20 @@ export class WorldMapModel {
     `, [islandId]);
   }
 
-  static async getQuestById(id: string): Promise<Quest | null> {
-    const result = await Database.get<Quest>('SELECT * FROM quests WHERE id = ? AND is_active = 1', [id]);
+  static async getAllQuests(includeInactive: boolean = false): Promise<Quest[]> {
+    return await Database.all<Quest>(`
+      SELECT q.* FROM quests q
+      JOIN islands i ON q.island_id = i.id
+      ${includeInactive ? '' : 'WHERE q.is_active = 1'}
+      ORDER BY i.order_index ASC, q.order_index ASC
+    `);
+  }
+
+  static async getQuestById(id: string, includeInactive: boolean = false): Promise<Quest | null> {
+    const result = await Database.get<Quest>(
+      `SELECT * FROM quests WHERE id = ?${includeInactive ? '' : ' AND is_active = 1'}`,
+      [id]
+    );
     return result || null;
   }
 
@@ -163,17 +255,44 @@ export class WorldMapModel {
 
     await Database.run(`
       INSERT INTO quests (
-        id, island_id, name, description, duration_hours, reward_berrys,
-        required_crew_count, specific_crew_member_id, order_index,
+        id, island_id, name, description, duration_hours, reward_berrys, extra_rewards,
+        stat_requirements, required_crew_count, specific_crew_member_id, order_index,
         is_repeatable, is_active, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       id, quest.island_id, quest.name, quest.description, quest.duration_hours,
-      quest.reward_berrys, quest.required_crew_count, quest.specific_crew_member_id,
+      quest.reward_berrys, quest.extra_rewards, quest.stat_requirements, quest.required_crew_count, quest.specific_crew_member_id,
       quest.order_index, quest.is_repeatable ? 1 : 0, quest.is_active ? 1 : 0, now
     ]);
 
-    return (await this.getQuestById(id))!;
+    return (await this.getQuestById(id, true))!;
+  }
+
+  static async updateQuest(id: string, quest: Omit<Quest, 'id' | 'created_at'>): Promise<Quest> {
+    await Database.run(`
+      UPDATE quests SET
+        island_id = ?, name = ?, description = ?, duration_hours = ?, reward_berrys = ?,
+        extra_rewards = ?, stat_requirements = ?, required_crew_count = ?, specific_crew_member_id = ?,
+        order_index = ?, is_repeatable = ?, is_active = ?
+      WHERE id = ?
+    `, [
+      quest.island_id, quest.name, quest.description, quest.duration_hours, quest.reward_berrys,
+      quest.extra_rewards, quest.stat_requirements, quest.required_crew_count, quest.specific_crew_member_id, quest.order_index,
+      quest.is_repeatable ? 1 : 0, quest.is_active ? 1 : 0, id
+    ]);
+
+    return (await this.getQuestById(id, true))!;
+  }
+
+  static async deactivateQuest(id: string): Promise<void> {
+    await Database.run('UPDATE quests SET is_active = 0 WHERE id = ?', [id]);
+  }
+
+  // Doit être appelé à l'intérieur d'une transaction
+  static async reorderQuests(ids: string[]): Promise<void> {
+    for (let index = 0; index < ids.length; index++) {
+      await Database.run('UPDATE quests SET order_index = ? WHERE id = ?', [index + 1, ids[index]]);
+    }
   }
 
   // ===== USER ISLANDS =====
@@ -249,6 +368,20 @@ export class WorldMapModel {
     ))!;
   }
 
+  /**
+   * Ajouter de l'expérience aux membres d'équipage d'un utilisateur
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async addCrewExperience(userId: string, crewMemberIds: string[], amount: number): Promise<void> {
+    for (const crewMemberId of crewMemberIds) {
+      await Database.run(`
+        UPDATE user_crew_members
+        SET experience = experience + ?
+        WHERE user_id = ? AND crew_member_id = ?
+      `, [amount, userId, crewMemberId]);
+    }
+  }
+
   static async hasCrewMember(userId: string, crewMemberId: string): Promise<boolean> {
     const result = await Database.get<{ count: number }>(
       'SELECT COUNT(*) as count FROM user_crew_members WHERE user_id = ? AND crew_member_id = ?',
@@ -266,16 +399,27 @@ export class WorldMapModel {
     `, [userId]);
   }
 
-  static async startQuest(userId: string, questId: string, crewMemberIds: string[], durationHours: number): Promise<ActiveQuest> {
+  static async startQuest(
+    userId: string,
+    questId: string,
+    crewMemberIds: string[],
+    durationHours: number,
+    successChance: number = 1,
+    rewardBonus: number = 0
+  ): Promise<ActiveQuest> {
     const id = uuidv4();
     const now = new Date();
     const completesAt = new Date(now.getTime() + durationHours * 60 * 60 * 1000);
 
     await Database.run(`
       INSERT INTO active_quests (
-        id, user_id, quest_id, crew_member_ids, started_at, completes_at, completed, reward_claimed
-      ) VALUES (?, ?, ?, ?, ?, ?, 0, 0)
-    `, [id, userId, questId, JSON.stringify(crewMemberIds), now.toISOString(), completesAt.toISOString()]);
+        id, user_id, quest_id, crew_member_ids, started_at, completes_at, completed, reward_claimed,
+        success_chance, reward_bonus
+      ) VALUES (?, ?, ?, ?, ?, ?, 0, 0, ?, ?)
+    `, [
+      id, userId, questId, JSON.stringify(crewMemberIds), now.toISOString(), completesAt.toISOString(),
+      successChance, rewardBonus
+    ]);
 
     return (await Database.get<ActiveQuest>(
       'SELECT * FROM active_quests WHERE id = ?',
@@ -291,12 +435,18 @@ export class WorldMapModel {
     `, [activeQuestId]);
   }
 
-  static async claimQuestReward(activeQuestId: string): Promise<void> {
-    await Database.run(`
+  /**
+   * Marquer la récompense comme réclamée
+   * Retourne false si elle l'était déjà (réclamation concurrente)
+   */
+  static async claimQuestReward(activeQuestId: string): Promise<boolean> {
+    const result = await Database.run(`
       UPDATE active_quests
       SET reward_claimed = 1
-      WHERE id = ?
+      WHERE id = ? AND reward_claimed = 0
     `, [activeQuestId]);
+
+    return result.changes > 0;
   }
 
   static async getActiveQuestById(id: string): Promise<ActiveQuest | null> {
@@ -309,15 +459,17 @@ export class WorldMapModel {
     userId: string,
     questId: string,
     crewMemberIds: string[],
-    rewardBerrys: number
+    rewardBerrys: number,
+    rewards: unknown[] = [],
+    success: boolean = true
   ): Promise<void> {
     const id = uuidv4();
     const now = new Date().toISOString();
 
     await Database.run(`
-      INSERT INTO quest_history (id, user_id, quest_id, crew_member_ids, completed_at, reward_berrys)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `, [id, userId, questId, JSON.stringify(crewMemberIds), now, rewardBerrys]);
+      INSERT INTO quest_history (id, user_id, quest_id, crew_member_ids, completed_at, reward_berrys, rewards, success)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [id, userId, questId, JSON.stringify(crewMemberIds), now, rewardBerrys, JSON.stringify(rewards), success ? 1 : 0]);
   }
 
   static async getQuestHistory(userId: string, limit: number = 50): Promise<QuestHistory[]> {
@@ -331,21 +483,54 @@ export class WorldMapModel {
 
   // ===== UTILITY =====
   static async isCrewMemberBusy(userId: string, crewMemberId: string): Promise<boolean> {
-    const result = await Database.get<{ count: number }>(`
-      SELECT COUNT(*) as count FROM active_quests
-      WHERE user_id = ? AND completed = 0
-      AND json_extract(crew_member_ids, '$') LIKE ?
-    `, [userId, `%"${crewMemberId}"%`]);
+    const result = await Database.get<{ count: number }>(
+      'SELECT COUNT(*) as count FROM crew_assignments WHERE user_id = ? AND crew_member_id = ?',
+      [userId, crewMemberId]
+    );
+
+    return (result?.count ?? 0) > 0;
+  }
+
+  // ===== CREW ASSIGNMENTS =====
+  // Réserver les membres envoyés en quête, échoue (contrainte) si l'un d'eux est déjà réservé
+  // Doit être appelé à l'intérieur d'une transaction
+  static async assignCrewMembers(userId: string, crewMemberIds: string[], activeQuestId: string): Promise<void> {
+    for (const crewMemberId of crewMemberIds) {
+      await Database.run(`
+        INSERT INTO crew_assignments (user_id, crew_member_id, active_quest_id, assigned_at)
+        VALUES (?, ?, ?, ?)
+      `, [userId, crewMemberId, activeQuestId, new Date().toISOString()]);
+    }
+  }
 
+  static async releaseCrewMembers(activeQuestId: string): Promise<void> {
+    await Database.run('DELETE FROM crew_assignments WHERE active_quest_id = ?', [activeQuestId]);
+  }
+
+  static async hasActiveQuest(userId: string, questId: string): Promise<boolean> {
+    const result = await Database.get<{ count: number }>(
+      'SELECT COUNT(*) as count FROM active_quests WHERE user_id = ? AND quest_id = ? AND completed = 0',
+      [userId, questId]
+    );
+    return (result?.count ?? 0) > 0;
+  }
+
+  // Une quête échouée peut être retentée même si elle n'est pas répétable
+  static async hasSucceededQuest(userId: string, questId: string): Promise<boolean> {
+    const result = await Database.get<{ count: number }>(
+      'SELECT COUNT(*) as count FROM quest_history WHERE user_id = ? AND quest_id = ? AND success = 1',
+      [userId, questId]
+    );
     return (result?.count ?? 0) > 0;
   }
 
+  // Seules les quêtes réussies comptent pour terminer une île
   static async getCompletedQuestsCountForIsland(userId: string, islandId: string): Promise<number> {
     const result = await Database.get<{ count: number }>(`
       SELECT COUNT(DISTINCT qh.quest_id) as count
       FROM quest_history qh
       JOIN quests q ON qh.quest_id = q.id
-      WHERE qh.user_id = ? AND q.island_id = ?
+      WHERE qh.user_id = ? AND q.island_id = ? AND q.is_active = 1 AND qh.success = 1
     `, [userId, islandId]);
 
     return result?.count ?? 0;
@@ -4,6 +4,9 @@ import { CardUpdateService } from '../services/CardUpdateService.js';
 import { Database } from '../utils/database.js';
 import { NotificationController } from '../controllers/notificationController.js';
 import { DashboardController } from '../controllers/dashboardController.js';
+import { BoosterAdminController } from '../controllers/boosterAdminController.js';
+import { EconomyAdminController } from '../controllers/economyAdminController.js';
+import { WorldAdminController } from '../controllers/worldAdminController.js';
 
 const router = Router();
 
@@ -389,4 +392,61 @@ router.get('/dashboard/online-users', DashboardController.getOnlineUsers);
 // Activité récente
 router.get('/dashboard/activity', DashboardController.getRecentActivity);
 
+// ========================================
+// ROUTES TABLES DE DROP
+// ========================================
+
+// Lister les tables de drop configurées
+router.get('/boosters/drop-tables', BoosterAdminController.listDropTables);
+
+// Table de drop d'un booster
+router.get('/boosters/:id/drop-table', BoosterAdminController.getDropTable);
+
+// Créer ou remplacer la table de drop d'un booster
+router.put('/boosters/:id/drop-table', BoosterAdminController.upsertDropTable);
+
+// Supprimer la table de drop d'un booster
+router.delete('/boosters/:id/drop-table', BoosterAdminController.deleteDropTable);
+
+// Simuler des ouvertures d'un booster (aucune écriture)
+router.post('/boosters/:id/simulate', BoosterAdminController.simulate);
+
+// ========================================
+// ROUTES ÉCONOMIE
+// ========================================
+
+// Berrys créés et détruits par source
+router.get('/economy', EconomyAdminController.getEconomyReport);
+
+// Réconciliation des soldes de Berrys avec le registre
+router.get('/economy/reconciliation', EconomyAdminController.getReconciliation);
+
+// Taxe du marketplace et emplacements d'annonces payants
+router.put('/economy/settings', EconomyAdminController.updateSettings);
+
+// ========================================
+// ROUTES CARTE DU MONDE
+// ========================================
+
+// Îles, quêtes et équipage (y compris inactifs)
+router.get('/world', WorldAdminController.getWorld);
+
+// Îles
+router.post('/world/islands', WorldAdminController.createIsland);
+router.put('/world/islands/order', WorldAdminController.reorderIslands);
+router.put('/world/islands/:id', WorldAdminController.updateIsland);
+router.delete('/world/islands/:id', WorldAdminController.deactivateIsland);
+router.put('/world/islands/:id/quests/order', WorldAdminController.reorderQuests);
+
+// Quêtes
+router.post('/world/quests', WorldAdminController.createQuest);
+router.put('/world/quests/:id', WorldAdminController.updateQuest);
+router.delete('/world/quests/:id', WorldAdminController.deactivateQuest);
+
+// Membres d'équipage
+router.post('/world/crew', WorldAdminController.createCrewMember);
+router.put('/world/crew/order', WorldAdminController.reorderCrewMembers);
+router.put('/world/crew/:id', WorldAdminController.updateCrewMember);
+router.delete('/world/crew/:id', WorldAdminController.deactivateCrewMember);
+
 export default router;
\ No newline at end of file
@@ -8,9 +8,11 @@ const router = Router();
 // Routes publiques avec authentification optionnelle
 router.get('/cards', optionalAuth, validatePagination, CardController.getCards);
 router.get('/cards/:id', optionalAuth, CardController.getCard);
+router.get('/cards/:id/market', optionalAuth, CardController.getCardMarket);
 
 router.get('/boosters', optionalAuth, validatePagination, CardController.getBoosters);
 router.get('/boosters/:id', optionalAuth, CardController.getBooster);
+router.get('/boosters/:id/drop-rates', optionalAuth, CardController.getDropRates);
 router.get('/boosters/:boosterId/cards/:rarity', optionalAuth, CardController.getCardsByRarity);
 
 router.get('/stats', optionalAuth, CardController.getStats);
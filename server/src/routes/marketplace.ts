@@ -16,10 +16,31 @@ router.get('/my-listings', MarketplaceController.getMyListings);
 // Créer une nouvelle annonce
 router.post('/listings', MarketplaceController.createListing);
 
+// Mettre en vente plusieurs doublons à prix fixe
+router.post('/listings/bulk', MarketplaceController.createBulkListings);
+
 // Acheter une carte
 router.post('/listings/:listingId/purchase', MarketplaceController.purchaseListing);
 
+// Enchères: historique et nouvelle offre
+router.get('/listings/:listingId/bids', MarketplaceController.getBids);
+router.post('/listings/:listingId/bids', MarketplaceController.placeBid);
+
+// Remettre en vente une annonce expirée
+router.post('/listings/:listingId/relist', MarketplaceController.relistListing);
+
 // Annuler une annonce
 router.delete('/listings/:listingId', MarketplaceController.cancelListing);
 
+// Ordres d'achat
+router.get('/buy-orders', MarketplaceController.getBuyOrders);
+router.get('/my-buy-orders', MarketplaceController.getMyBuyOrders);
+router.post('/buy-orders', MarketplaceController.createBuyOrder);
+router.post('/buy-orders/:orderId/fill', MarketplaceController.fillBuyOrder);
+router.delete('/buy-orders/:orderId', MarketplaceController.cancelBuyOrder);
+
+// Taxe de vente et emplacements d'annonces
+router.get('/fees', MarketplaceController.getFees);
+router.post('/listing-slots', MarketplaceController.purchaseListingSlot);
+
 export default router;
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { TradeController } from '../controllers/tradeController.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { antiCheatMiddleware } from '../middleware/antiCheat.js';
+
+const router = Router();
+
+// Toutes les routes d'échange nécessitent une authentification
+router.use(authenticateToken);
+
+// Récupérer mes offres d'échange (envoyées et reçues)
+router.get('/', TradeController.getTrades);
+
+// Proposer un échange
+router.post(
+  '/',
+  antiCheatMiddleware('create_trade', { maxPerMinute: 10, maxPerHour: 100, minDelay: 1000 }),
+  TradeController.createTrade
+);
+
+// Accepter une offre reçue
+router.post(
+  '/:tradeId/accept',
+  antiCheatMiddleware('accept_trade', { maxPerMinute: 10, maxPerHour: 100, minDelay: 1000 }),
+  TradeController.acceptTrade
+);
+
+// Refuser une offre reçue
+router.post('/:tradeId/decline', TradeController.declineTrade);
+
+// Annuler une offre envoyée
+router.post('/:tradeId/cancel', TradeController.cancelTrade);
+
+// Contre-proposer
+router.post(
+  '/:tradeId/counter',
+  antiCheatMiddleware('create_trade', { maxPerMinute: 10, maxPerHour: 100, minDelay: 1000 }),
+  TradeController.counterTrade
+);
+
+export default router;
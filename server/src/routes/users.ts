@@ -36,6 +36,7 @@ router.use(temporalConsistencyCheck);
 
 // Routes pour les collections
 router.get('/collection', UserController.getCollection);
+router.get('/collection/completion', UserController.getCollectionCompletion);
 router.post('/collection', UserController.addCardsToCollection);
 router.put(
   '/collection/favorite/:cardId',
@@ -51,21 +52,57 @@ router.post(
   UserController.openBooster
 );
 
+// Routes pour la vérification des ouvertures (provably fair)
+router.get('/fairness', UserController.getFairness);
+router.put(
+  '/fairness/client-seed',
+  antiCheatMiddleware('set_client_seed', { maxPerMinute: 5, maxPerHour: 30, minDelay: 1000 }),
+  UserController.updateClientSeed
+);
+router.get('/openings/:id/verify', UserController.verifyOpening);
+
+// Routes pour l'historique des ouvertures
+router.get('/openings', UserController.getOpenings);
+router.get('/openings/stats', UserController.getOpeningStats);
+
 // Routes pour les statistiques
 router.get('/stats', UserController.getStats);
 
 // Routes pour les Berrys
 router.get('/berrys', UserController.getBerrysBalance);
+router.get('/berrys/history', UserController.getBerrysHistory);
 router.post(
   '/sell-card',
   antiCheatMiddleware('sell_card', { maxPerMinute: 20, maxPerHour: 200, minDelay: 500 }),
   UserController.sellCard
 );
+router.post(
+  '/sell-bulk',
+  antiCheatMiddleware('sell_bulk', { maxPerMinute: 10, maxPerHour: 100, minDelay: 1000 }),
+  UserController.sellBulk
+);
 router.post(
   '/buy-booster',
   antiCheatMiddleware('buy_booster', { maxPerMinute: 5, maxPerHour: 50, minDelay: 2000 }),
   UserController.buyBoosterWithBerrys
 );
+router.post(
+  '/open-boosters',
+  antiCheatMiddleware('open_boosters', { maxPerMinute: 3, maxPerHour: 30, minDelay: 3000 }),
+  UserController.openBoosters
+);
+
+// Routes pour le craft
+router.post(
+  '/disenchant',
+  antiCheatMiddleware('disenchant_card', { maxPerMinute: 20, maxPerHour: 200, minDelay: 500 }),
+  UserController.disenchantCard
+);
+router.post(
+  '/craft',
+  antiCheatMiddleware('craft_card', { maxPerMinute: 10, maxPerHour: 100, minDelay: 1000 }),
+  UserController.craftCard
+);
 
 // Routes pour les récompenses quotidiennes
 router.get('/daily-reward/check', UserController.checkDailyReward);
@@ -17,6 +17,9 @@ router.get('/crew', WorldMapController.getUserCrew);
 // GET quest history
 router.get('/quests/history', WorldMapController.getQuestHistory);
 
+// POST expected success chance of a crew on a quest
+router.post('/quests/odds', WorldMapController.getQuestOdds);
+
 // POST start quest
 router.post(
   '/quests/start',
@@ -14,7 +14,11 @@ interface QuestData {
   description: string;
   duration_hours: number;
   reward_berrys: number;
+  // Récompenses en plus des Berrys (boosters, cartes, expérience d'équipage), optionnel
+  extra_rewards?: unknown[];
   required_crew_count: number;
+  // Statistiques d'équipe attendues ({ strength, navigation, intelligence, stamina }), optionnel
+  stat_requirements?: Record<string, number>;
   specific_crew_member_id: string | null;
   order_index: number;
   is_repeatable: boolean;
@@ -40,6 +44,10 @@ interface CrewMemberData {
   image_url: string;
   unlock_island_id: string | null;
   order_index: number;
+  // Statistiques de base au niveau 1 (10 par défaut)
+  stats?: { strength?: number; navigation?: number; intelligence?: number; stamina?: number };
+  // Valeurs de cards.character donnant un bonus au membre, optionnel
+  card_characters?: string[];
 }
 
 interface WorldMapData {
@@ -106,26 +114,33 @@ async function migrateQuestsFromJson() {
         [member.id]
       );
 
+      const stats = [
+        member.stats?.strength ?? 10, member.stats?.navigation ?? 10,
+        member.stats?.intelligence ?? 10, member.stats?.stamina ?? 10
+      ];
+
       if (existing) {
         // Mettre à jour (sans unlock_island_id pour l'instant)
         await Database.run(`
           UPDATE crew_members
           SET name = ?, description = ?, image_url = ?,
-              order_index = ?, is_active = 1
+              order_index = ?, strength = ?, navigation = ?, intelligence = ?, stamina = ?,
+              card_characters = ?, is_active = 1
           WHERE id = ?
         `, [
           member.name, member.description, member.image_url,
-          member.order_index, member.id
+          member.order_index, ...stats, JSON.stringify(member.card_characters || []), member.id
         ]);
       } else {
         // Insérer (sans unlock_island_id pour l'instant)
         await Database.run(`
           INSERT INTO crew_members (
-            id, name, description, image_url, unlock_island_id, order_index, is_active, created_at
-          ) VALUES (?, ?, ?, ?, NULL, ?, 1, datetime('now'))
+            id, name, description, image_url, unlock_island_id, order_index,
+            strength, navigation, intelligence, stamina, card_characters, is_active, created_at
+          ) VALUES (?, ?, ?, ?, NULL, ?, ?, ?, ?, ?, ?, 1, datetime('now'))
         `, [
           member.id, member.name, member.description, member.image_url,
-          member.order_index
+          member.order_index, ...stats, JSON.stringify(member.card_characters || [])
         ]);
       }
     }
@@ -202,26 +217,27 @@ async function migrateQuestsFromJson() {
         await Database.run(`
           UPDATE quests
           SET island_id = ?, name = ?, description = ?, duration_hours = ?,
-              reward_berrys = ?, required_crew_count = ?, specific_crew_member_id = ?,
-              order_index = ?, is_repeatable = ?, is_active = 1
+              reward_berrys = ?, extra_rewards = ?, required_crew_count = ?, stat_requirements = ?,
+              specific_crew_member_id = ?, order_index = ?, is_repeatable = ?, is_active = 1
           WHERE id = ?
         `, [
           quest.island_id, quest.name, quest.description, quest.duration_hours,
-          quest.reward_berrys, quest.required_crew_count, quest.specific_crew_member_id,
+          quest.reward_berrys, JSON.stringify(quest.extra_rewards || []), quest.required_crew_count,
+          JSON.stringify(quest.stat_requirements || {}), quest.specific_crew_member_id,
           quest.order_index, quest.is_repeatable ? 1 : 0, quest.id
         ]);
       } else {
         // Insérer
         await Database.run(`
           INSERT INTO quests (
-            id, island_id, name, description, duration_hours, reward_berrys,
-            required_crew_count, specific_crew_member_id, order_index,
+            id, island_id, name, description, duration_hours, reward_berrys, extra_rewards,
+            required_crew_count, stat_requirements, specific_crew_member_id, order_index,
             is_repeatable, is_active, created_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, datetime('now'))
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, datetime('now'))
         `, [
           quest.id, quest.island_id, quest.name, quest.description,
-          quest.duration_hours, quest.reward_berrys, quest.required_crew_count,
-          quest.specific_crew_member_id, quest.order_index, quest.is_repeatable ? 1 : 0
+          quest.duration_hours, quest.reward_berrys, JSON.stringify(quest.extra_rewards || []), quest.required_crew_count,
+          JSON.stringify(quest.stat_requirements || {}), quest.specific_crew_member_id, quest.order_index, quest.is_repeatable ? 1 : 0
         ]);
       }
     }
@@ -1,7 +1,54 @@
 import { AchievementModel, AchievementType } from '../models/Achievement.js';
 import { Database } from '../utils/database.js';
 
+export interface AchievementProgressDelta {
+  achievement_id: string;
+  name: string;
+  icon?: string;
+  threshold: number;
+  reward_berrys: number;
+  progress_before: number;
+  progress_after: number;
+  newly_completed: boolean;
+}
+
 export class AchievementService {
+  // Photographier la progression des achievements d'un utilisateur
+  static async getProgressSnapshot(userId: string): Promise<Record<string, number>> {
+    const rows = await Database.all<{ achievement_id: string; progress: number }>(`
+      SELECT achievement_id, progress FROM user_achievements WHERE user_id = ?
+    `, [userId]);
+
+    return Object.fromEntries(rows.map(row => [row.achievement_id, row.progress || 0]));
+  }
+
+  // Achievements dont la progression a changé depuis un instantané
+  static async getProgressDeltas(userId: string, before: Record<string, number>): Promise<AchievementProgressDelta[]> {
+    const rows = await Database.all<any>(`
+      SELECT a.id, a.name, a.icon, a.threshold, a.reward_berrys, ua.progress
+      FROM user_achievements ua
+      JOIN achievements a ON a.id = ua.achievement_id
+      WHERE ua.user_id = ? AND a.is_active = 1
+      ORDER BY a.category, a.threshold
+    `, [userId]);
+
+    return rows
+      .filter(row => (row.progress || 0) > (before[row.id] || 0))
+      .map(row => {
+        const progressBefore = before[row.id] || 0;
+        return {
+          achievement_id: row.id,
+          name: row.name,
+          icon: row.icon || undefined,
+          threshold: row.threshold,
+          reward_berrys: row.reward_berrys,
+          progress_before: progressBefore,
+          progress_after: row.progress,
+          newly_completed: progressBefore < row.threshold && row.progress >= row.threshold
+        };
+      });
+  }
+
   // Mettre à jour les achievements après l'ouverture d'un booster
   static async updateAfterBoosterOpen(userId: string, boosterId: string, cardIds: string[]): Promise<void> {
     // 1. Mettre à jour le nombre de boosters ouverts
@@ -0,0 +1,357 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../utils/database.js';
+import { AuditLogger, AuditAction, AuditSeverity } from '../utils/auditLogger.js';
+import { MAX_BERRYS } from '../utils/economy.js';
+
+export const MAX_HISTORY_LIMIT = 100;
+const RECONCILIATION_INTERVAL_MS = 60 * 60 * 1000;
+
+// Comptes système servant de contrepartie aux soldes des joueurs
+export type BerrySystemAccount = 'mint' | 'burn' | 'escrow' | 'adjustment';
+
+export type BerrySource =
+  // Création (contrepartie: mint)
+  | 'daily_reward'
+  | 'notification_reward'
+  | 'island_reward'
+  | 'card_sale'
+  | 'achievement'
+  | 'quest'
+  // Destruction (contrepartie: burn)
+  | 'booster_purchase'
+  | 'marketplace_tax'
+  | 'listing_slot'
+  // Transferts entre joueurs
+  | 'marketplace_purchase'
+  | 'trade'
+  // Séquestre des enchères et ordres d'achat (contrepartie: escrow)
+  | 'auction_bid'
+  | 'auction_refund'
+  | 'auction_sale'
+  | 'buy_order_hold'
+  | 'buy_order_refund'
+  | 'buy_order_fill'
+  // Corrections (contrepartie: adjustment)
+  | 'balance_correction';
+
+export interface BerryLedgerEntry {
+  id: number;
+  transaction_id: string;
+  amount: number;
+  balance_after: number | null;
+  source: string;
+  reference_id: string | null;
+  created_at: string;
+}
+
+export interface BerryBalanceMismatch {
+  user_id: string;
+  username: string;
+  balance: number;
+  ledger_balance: number;
+  difference: number;
+}
+
+export interface BerryReconciliation {
+  checked_at: string;
+  users_checked: number;
+  mismatches: BerryBalanceMismatch[];
+  unbalanced_transactions: string[];
+  escrow: {
+    ledger: number;
+    held: number;
+    difference: number;
+  };
+}
+
+interface LedgerLine {
+  account: 'user' | BerrySystemAccount;
+  userId?: string;
+  amount: number;
+  balanceAfter?: number;
+}
+
+/**
+ * Registre en partie double des Berrys.
+ * Chaque mouvement de solde passe par ce service et produit une transaction
+ * dont les écritures s'annulent: la somme des écritures d'un joueur égale son solde.
+ * Les méthodes qui modifient un solde doivent être appelées à l'intérieur d'une transaction.
+ */
+export class BerryLedgerService {
+  private static reconciler: NodeJS.Timeout | null = null;
+
+  /**
+   * Enregistrer les écritures d'un mouvement
+   */
+  private static async post(source: BerrySource, referenceId: string | null, lines: LedgerLine[]): Promise<void> {
+    if (lines.reduce((sum, line) => sum + line.amount, 0) !== 0) {
+      throw new Error('Écritures de Berrys déséquilibrées');
+    }
+
+    const transactionId = uuidv4();
+    const now = new Date().toISOString();
+
+    for (const line of lines) {
+      if (line.amount === 0) continue;
+
+      await Database.run(`
+        INSERT INTO berry_ledger (transaction_id, account, user_id, amount, balance_after, source, reference_id, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [transactionId, line.account, line.userId ?? null, line.amount, line.balanceAfter ?? null, source, referenceId, now]);
+    }
+  }
+
+  /**
+   * Solde courant d'un joueur
+   */
+  private static async getBalance(userId: string): Promise<number> {
+    const user = await Database.get<{ berrys: number | null }>('SELECT berrys FROM users WHERE id = ?', [userId]);
+    return user?.berrys || 0;
+  }
+
+  /**
+   * Ajouter des Berrys au solde d'un joueur
+   * Lève une erreur si le solde dépasserait la limite
+   */
+  private static async increase(userId: string, amount: number): Promise<number> {
+    const result = await Database.run(`
+      UPDATE users
+      SET berrys = COALESCE(berrys, 0) + ?
+      WHERE id = ? AND COALESCE(berrys, 0) + ? <= ?
+    `, [amount, userId, amount, MAX_BERRYS]);
+
+    if (result.changes === 0) {
+      throw new Error('Limite de Berrys atteinte');
+    }
+
+    return await this.getBalance(userId);
+  }
+
+  /**
+   * Retirer des Berrys du solde d'un joueur
+   * Retourne null si le solde est insuffisant
+   */
+  private static async decrease(userId: string, amount: number): Promise<number | null> {
+    const result = await Database.run(`
+      UPDATE users
+      SET berrys = berrys - ?
+      WHERE id = ? AND berrys >= ?
+    `, [amount, userId, amount]);
+
+    if (result.changes === 0) return null;
+
+    return await this.getBalance(userId);
+  }
+
+  /**
+   * Créditer un joueur depuis un compte système (création par défaut)
+   * Retourne le nouveau solde
+   */
+  static async credit(
+    userId: string,
+    amount: number,
+    source: BerrySource,
+    referenceId: string | null = null,
+    counterAccount: BerrySystemAccount = 'mint'
+  ): Promise<number> {
+    if (amount <= 0) return await this.getBalance(userId);
+
+    const balance = await this.increase(userId, amount);
+    await this.post(source, referenceId, [
+      { account: 'user', userId, amount, balanceAfter: balance },
+      { account: counterAccount, amount: -amount }
+    ]);
+
+    return balance;
+  }
+
+  /**
+   * Créditer une récompense en la plafonnant à la limite de Berrys
+   * Retourne le montant réellement crédité
+   */
+  static async grant(userId: string, amount: number, source: BerrySource, referenceId: string | null = null): Promise<number> {
+    const credited = Math.min(amount, MAX_BERRYS - await this.getBalance(userId));
+    if (credited <= 0) return 0;
+
+    await this.credit(userId, credited, source, referenceId);
+    return credited;
+  }
+
+  /**
+   * Débiter un joueur vers un compte système (destruction par défaut)
+   * Retourne le nouveau solde, ou null si le solde est insuffisant
+   */
+  static async debit(
+    userId: string,
+    amount: number,
+    source: BerrySource,
+    referenceId: string | null = null,
+    counterAccount: BerrySystemAccount = 'burn'
+  ): Promise<number | null> {
+    if (amount <= 0) return await this.getBalance(userId);
+
+    const balance = await this.decrease(userId, amount);
+    if (balance === null) return null;
+
+    await this.post(source, referenceId, [
+      { account: 'user', userId, amount: -amount, balanceAfter: balance },
+      { account: counterAccount, amount }
+    ]);
+
+    return balance;
+  }
+
+  /**
+   * Transférer des Berrys entre deux joueurs
+   * Retourne false si le payeur n'a pas assez de Berrys
+   */
+  static async transfer(
+    fromUserId: string,
+    toUserId: string,
+    amount: number,
+    source: BerrySource,
+    referenceId: string | null = null
+  ): Promise<boolean> {
+    if (amount <= 0) return true;
+
+    const fromBalance = await this.decrease(fromUserId, amount);
+    if (fromBalance === null) return false;
+
+    const toBalance = await this.increase(toUserId, amount);
+    await this.post(source, referenceId, [
+      { account: 'user', userId: fromUserId, amount: -amount, balanceAfter: fromBalance },
+      { account: 'user', userId: toUserId, amount, balanceAfter: toBalance }
+    ]);
+
+    return true;
+  }
+
+  /**
+   * Forcer le solde d'un joueur (correction anti-triche), l'écart est porté au compte d'ajustement
+   */
+  static async correctBalance(userId: string, balance: number): Promise<void> {
+    const difference = balance - await this.getBalance(userId);
+    if (difference === 0) return;
+
+    await Database.run('UPDATE users SET berrys = ? WHERE id = ?', [balance, userId]);
+    await this.post('balance_correction', null, [
+      { account: 'user', userId, amount: difference, balanceAfter: balance },
+      { account: 'adjustment', amount: -difference }
+    ]);
+  }
+
+  /**
+   * Historique des mouvements d'un joueur, du plus récent au plus ancien
+   * Pagination par curseur: identifiant de la dernière écriture reçue
+   */
+  static async getUserHistory(userId: string, limit: number, beforeId?: number): Promise<{
+    entries: BerryLedgerEntry[];
+    next_cursor: number | null;
+  }> {
+    const rows = await Database.all<BerryLedgerEntry>(`
+      SELECT id, transaction_id, amount, balance_after, source, reference_id, created_at
+      FROM berry_ledger
+      WHERE account = 'user' AND user_id = ? ${beforeId ? 'AND id < ?' : ''}
+      ORDER BY id DESC
+      LIMIT ?
+    `, beforeId ? [userId, beforeId, limit + 1] : [userId, limit + 1]);
+
+    const hasMore = rows.length > limit;
+    const entries = hasMore ? rows.slice(0, limit) : rows;
+
+    return {
+      entries,
+      next_cursor: hasMore ? entries[entries.length - 1].id : null
+    };
+  }
+
+  /**
+   * Vérifier le registre: solde de chaque joueur, équilibre des transactions et séquestre
+   */
+  static async reconcile(): Promise<BerryReconciliation> {
+    const [users, mismatches, unbalanced, escrow, held] = await Promise.all([
+      Database.get<{ count: number }>('SELECT COUNT(*) as count FROM users'),
+      Database.all<Omit<BerryBalanceMismatch, 'difference'>>(`
+        SELECT u.id as user_id, u.username, COALESCE(u.berrys, 0) as balance, COALESCE(l.total, 0) as ledger_balance
+        FROM users u
+        LEFT JOIN (
+          SELECT user_id, SUM(amount) as total
+          FROM berry_ledger
+          WHERE account = 'user'
+          GROUP BY user_id
+        ) l ON l.user_id = u.id
+        WHERE COALESCE(u.berrys, 0) != COALESCE(l.total, 0)
+      `),
+      Database.all<{ transaction_id: string }>(`
+        SELECT transaction_id
+        FROM berry_ledger
+        GROUP BY transaction_id
+        HAVING SUM(amount) != 0
+        LIMIT 100
+      `),
+      Database.get<{ total: number | null }>('SELECT SUM(amount) as total FROM berry_ledger WHERE account = \'escrow\''),
+      Database.get<{ total: number | null }>(`
+        SELECT
+          (SELECT COALESCE(SUM(max_price), 0) FROM marketplace_buy_orders WHERE status = 'active')
+          + (SELECT COALESCE(SUM(current_bid), 0) FROM marketplace_listings WHERE status = 'active' AND current_bid IS NOT NULL) as total
+      `)
+    ]);
+
+    const escrowLedger = escrow?.total || 0;
+    const escrowHeld = held?.total || 0;
+
+    return {
+      checked_at: new Date().toISOString(),
+      users_checked: users?.count || 0,
+      mismatches: mismatches.map(row => ({ ...row, difference: row.balance - row.ledger_balance })),
+      unbalanced_transactions: unbalanced.map(row => row.transaction_id),
+      escrow: {
+        ledger: escrowLedger,
+        held: escrowHeld,
+        difference: escrowHeld - escrowLedger
+      }
+    };
+  }
+
+  /**
+   * Réconcilier le registre et signaler les écarts dans le journal d'audit
+   */
+  static async runReconciliation(): Promise<BerryReconciliation> {
+    const report = await this.reconcile();
+
+    if (report.mismatches.length > 0 || report.unbalanced_transactions.length > 0 || report.escrow.difference !== 0) {
+      await AuditLogger.log(AuditAction.BERRYS_LEDGER_MISMATCH, {
+        mismatches: report.mismatches.slice(0, 50),
+        mismatch_count: report.mismatches.length,
+        unbalanced_transactions: report.unbalanced_transactions,
+        escrow: report.escrow
+      }, { severity: AuditSeverity.CRITICAL });
+    }
+
+    return report;
+  }
+
+  /**
+   * Démarrer la réconciliation périodique du registre
+   */
+  static startReconciliation(): void {
+    if (this.reconciler) return;
+
+    this.reconciler = setInterval(() => {
+      this.runReconciliation().catch(error => {
+        console.error('Erreur lors de la réconciliation des Berrys:', error);
+      });
+    }, RECONCILIATION_INTERVAL_MS);
+    this.reconciler.unref();
+  }
+
+  /**
+   * Arrêter la réconciliation périodique du registre
+   */
+  static stopReconciliation(): void {
+    if (this.reconciler) {
+      clearInterval(this.reconciler);
+      this.reconciler = null;
+    }
+  }
+}
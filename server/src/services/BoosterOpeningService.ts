@@ -0,0 +1,108 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Card } from '../models/Card.js';
+import { Database } from '../utils/database.js';
+import { BoosterService } from './BoosterService.js';
+import { DropTableService } from './DropTableService.js';
+import { FairnessService, UsedSeeds } from './FairnessService.js';
+import { PityService, PITY_RARITIES } from './PityService.js';
+
+export interface PityResult {
+  // false si le booster ne contient ni Super Rare ni Secret Rare
+  enabled: boolean;
+  guarantee_applied: boolean;
+  packs_since_super_rare: number;
+  packs_until_guarantee: number;
+}
+
+export interface OpenedPack {
+  opening_id: string;
+  booster_id: string;
+  cards: Card[];
+  // Cartes que l'utilisateur ne possédait pas avant ce booster
+  new_cards: string[];
+  fairness: UsedSeeds & { opening_id: string };
+  pity: PityResult;
+}
+
+export class BoosterOpeningService {
+  /**
+   * Ouvre un booster: tirage vérifiable, protection anti-malchance,
+   * ajout à la collection et enregistrement de l'ouverture.
+   * Le paiement (booster gratuit ou Berrys) est à la charge de l'appelant.
+   * Doit être appelé à l'intérieur d'une transaction.
+   */
+  static async openPack(userId: string, boosterId: string): Promise<OpenedPack> {
+    const openingId = uuidv4();
+
+    // 1. Générer les cartes avec la paire de seeds engagée (provably fair)
+    const { rng, seeds } = await FairnessService.consumeSeedPair(userId);
+    const pityEnabled = await BoosterService.hasAnyRarity(boosterId, PITY_RARITIES);
+    const pityApplied = pityEnabled && await PityService.isGuaranteeDue(userId, boosterId);
+    // Table figée avec l'ouverture: une modification ultérieure ne doit pas fausser la vérification
+    const dropTable = await DropTableService.getDropTable(boosterId);
+    // Cartes tirables figées de même: une synchronisation du catalogue ne doit pas la fausser non plus
+    const cardPool = await BoosterService.loadCardPool(boosterId);
+    const cardPoolHash = await FairnessService.recordCardPool(cardPool.pool);
+    const cards = await BoosterService.generateBoosterCards(
+      boosterId,
+      rng,
+      pityApplied ? PITY_RARITIES : undefined,
+      dropTable,
+      cardPool
+    );
+    const packsSinceSuperRare = pityEnabled
+      ? await PityService.recordOpening(userId, boosterId, cards.map(c => c.rarity), pityApplied)
+      : 0;
+
+    // 2. Ajouter les cartes à la collection
+    const newCards: string[] = [];
+    for (const card of cards) {
+      const existing = await Database.get(`
+        SELECT card_id FROM user_collections
+        WHERE user_id = ? AND card_id = ?
+      `, [userId, card.id]);
+
+      if (existing) {
+        await Database.run(`
+          UPDATE user_collections
+          SET quantity = quantity + 1
+          WHERE user_id = ? AND card_id = ?
+        `, [userId, card.id]);
+      } else {
+        newCards.push(card.id);
+        await Database.run(`
+          INSERT INTO user_collections (user_id, card_id, quantity, obtained_at, is_favorite)
+          VALUES (?, ?, 1, ?, 0)
+        `, [userId, card.id, new Date().toISOString()]);
+      }
+    }
+
+    // 3. Enregistrer l'ouverture avec ses seeds pour permettre la vérification
+    await Database.run(`
+      INSERT INTO booster_openings (
+        id, user_id, booster_id, session_id, seed, opened_at, cards_obtained,
+        server_seed, server_seed_hash, client_seed, nonce, pity_applied, drop_table, card_pool_hash
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      openingId, userId, boosterId, uuidv4(), seeds.nonce, new Date().toISOString(),
+      JSON.stringify(cards.map(c => c.id)),
+      seeds.server_seed, seeds.server_seed_hash, seeds.client_seed, seeds.nonce,
+      pityApplied ? 1 : 0, JSON.stringify(dropTable), cardPoolHash
+    ]);
+
+    return {
+      opening_id: openingId,
+      booster_id: boosterId,
+      cards,
+      new_cards: newCards,
+      fairness: { opening_id: openingId, ...seeds },
+      pity: {
+        enabled: pityEnabled,
+        guarantee_applied: pityApplied,
+        packs_since_super_rare: packsSinceSuperRare,
+        packs_until_guarantee: PityService.packsUntilGuarantee(packsSinceSuperRare)
+      }
+    };
+  }
+}
@@ -1,29 +1,24 @@
 import { Card } from '../models/Card.js';
 import { Database } from '../utils/database.js';
+import { RandomSource, defaultRandom } from '../utils/provablyFair.js';
+import { DropTable, DropTableService, RARITIES, Rarity } from './DropTableService.js';
 
-export class BoosterService {
-  // Probabilités par rareté (en pourcentage)
-  private static readonly RARITY_WEIGHTS = {
-    'common': 58,
-    'uncommon': 26,
-    'rare': 10,
-    'leader': 3,
-    'super_rare': 2.5,
-    'secret_rare': 0.5
-  };
-
-  private static readonly CARDS_PER_BOOSTER = 5;
+// Cartes actives tirables par rareté, triées par id, alternates séparées des cartes normales
+export type CardPool = Record<string, { normal: string[]; alternate: string[] }>;
 
-  // Probabilité qu'une carte soit alternate (10% pour les raretés qui ont des alternates)
-  private static readonly ALTERNATE_CHANCE = 0.10; // 10%
+export interface LoadedCardPool {
+  pool: CardPool;
+  cards: Map<string, Card>;
+}
 
+export class BoosterService {
   /**
-   * Récupère les raretés disponibles dans un booster spécifique
+   * Récupère les raretés disponibles dans un booster spécifique avec leur nombre de cartes
    */
-  private static async getAvailableRarities(boosterId?: string): Promise<string[]> {
+  private static async getAvailableRarities(boosterId?: string): Promise<Record<string, number>> {
     try {
       let query = `
-        SELECT DISTINCT rarity FROM cards
+        SELECT rarity, COUNT(*) as count FROM cards
         WHERE is_active = 1
       `;
       const params: any[] = [];
@@ -33,38 +28,45 @@ export class BoosterService {
         params.push(boosterId);
       }
 
+      // Ordre stable pour que le cumul des poids soit reproductible
+      query += ` GROUP BY rarity ORDER BY rarity`;
+
       const results = await Database.all(query, params);
-      return results.map((row: any) => row.rarity);
+      return Object.fromEntries(results.map((row: any) => [row.rarity, row.count]));
     } catch (error) {
       console.error('Erreur lors de la récupération des raretés disponibles:', error);
       // Fallback: retourner toutes les raretés si erreur
-      return Object.keys(this.RARITY_WEIGHTS);
+      return Object.fromEntries(RARITIES.map(rarity => [rarity, 1]));
     }
   }
 
   /**
-   * Ajuste les poids de rareté en fonction des raretés disponibles dans le booster
+   * Le booster contient-il au moins une carte active d'une de ces raretés ?
+   */
+  static async hasAnyRarity(boosterId: string, rarities: string[]): Promise<boolean> {
+    const rarityCounts = await this.getAvailableRarities(boosterId);
+    return rarities.some(rarity => rarityCounts[rarity] > 0);
+  }
+
+  /**
+   * Ajuste les poids de rareté d'un emplacement en fonction des raretés disponibles dans le booster
    */
-  private static adjustRarityWeights(availableRarities: string[]): Record<string, number> {
+  private static adjustRarityWeights(slotWeights: Record<string, number>, availableRarities: string[]): Record<string, number> {
     // Filtrer les poids pour ne garder que les raretés disponibles
     const adjustedWeights: Record<string, number> = {};
     let totalWeight = 0;
 
     for (const rarity of availableRarities) {
-      if (this.RARITY_WEIGHTS[rarity as keyof typeof BoosterService.RARITY_WEIGHTS]) {
-        const weight = this.RARITY_WEIGHTS[rarity as keyof typeof BoosterService.RARITY_WEIGHTS];
+      if (slotWeights[rarity]) {
+        const weight = slotWeights[rarity];
         adjustedWeights[rarity] = weight;
         totalWeight += weight;
       }
     }
 
-    // Si aucun poids n'a été trouvé, distribuer équitablement
+    // Si aucune rareté de l'emplacement n'est disponible, prendre la plus proche du plancher
     if (totalWeight === 0) {
-      const equalWeight = 100 / availableRarities.length;
-      availableRarities.forEach(rarity => {
-        adjustedWeights[rarity] = equalWeight;
-      });
-      return adjustedWeights;
+      return { [this.getClosestRarity(slotWeights, availableRarities)]: 100 };
     }
 
     // Normaliser les poids pour qu'ils totalisent 100
@@ -77,45 +79,171 @@ export class BoosterService {
   }
 
   /**
-   * Génère les cartes pour un booster spécifique
+   * Rareté disponible la plus proche de la rareté plancher d'un emplacement:
+   * la plus basse au-dessus du plancher, sinon la plus haute en dessous
+   */
+  private static getClosestRarity(slotWeights: Record<string, number>, availableRarities: string[]): string {
+    const tier = (rarity: string) => RARITIES.indexOf(rarity as Rarity);
+    const slotTiers = Object.entries(slotWeights)
+      .filter(([, weight]) => weight > 0)
+      .map(([rarity]) => tier(rarity));
+    const floor = slotTiers.length > 0 ? Math.min(...slotTiers) : 0;
+
+    const sorted = [...availableRarities].sort((a, b) => tier(a) - tier(b));
+    return sorted.find(rarity => tier(rarity) >= floor) || sorted[sorted.length - 1];
+  }
+
+  /**
+   * Charge les cartes actives d'un booster (ou de tout le catalogue), regroupées par rareté
+   * Raretés et cartes sont triées: le tirage indexe ces listes et doit être reproductible
    */
-  static async generateBoosterCards(boosterId?: string): Promise<Card[]> {
-    const cards: Card[] = [];
+  static async loadCardPool(boosterId?: string): Promise<LoadedCardPool> {
+    // Les cartes normales n'ont pas de suffixe après le numéro (ex: OP01-016)
+    // Les cartes alternates ont un suffixe _pX, _rX, etc. (ex: OP01-016_p1, OP01-041_r1)
+    const rows = await Database.all(`
+      SELECT *, (vegapull_id LIKE '%\\_%') as is_alternate FROM cards
+      WHERE is_active = 1${boosterId ? ' AND booster_id = ?' : ''}
+      ORDER BY rarity, id
+    `, boosterId ? [boosterId] : []);
+
+    const pool: CardPool = {};
+    const cards = new Map<string, Card>();
+
+    for (const row of rows) {
+      const group = pool[row.rarity] || (pool[row.rarity] = { normal: [], alternate: [] });
+      (row.is_alternate === 1 ? group.alternate : group.normal).push(row.id);
+      cards.set(row.id, this.toCard(row));
+    }
+
+    return { pool, cards };
+  }
 
-    // Identifier les raretés disponibles dans ce booster
-    const availableRarities = await this.getAvailableRarities(boosterId);
+  /**
+   * Génère les cartes pour un booster spécifique selon sa table de drop (voir drawCardIds)
+   * `dropTableOverride` remplace la table du booster (simulations admin avant mise en ligne,
+   * table figée lors d'une ouverture pour pouvoir la rejouer)
+   * `cardPool` évite de recharger les cartes du booster (pool figé lors d'une ouverture)
+   */
+  static async generateBoosterCards(
+    boosterId?: string,
+    rng: RandomSource = defaultRandom,
+    guaranteedRarities?: string[],
+    dropTableOverride?: DropTable,
+    cardPool?: LoadedCardPool
+  ): Promise<Card[]> {
+    const { pool, cards } = cardPool || await this.loadCardPool(boosterId);
+    const availableRarities = Object.keys(pool);
 
     if (availableRarities.length === 0) {
       throw new Error(`Aucune carte active trouvée pour le booster ${boosterId || 'aléatoire'}`);
     }
 
-    // Ajuster les poids de rareté en fonction des raretés disponibles
-    const adjustedWeights = this.adjustRarityWeights(availableRarities);
+    const dropTable = dropTableOverride || await DropTableService.getDropTable(boosterId);
 
     console.log(`🎲 Raretés disponibles dans le booster ${boosterId || 'aléatoire'}:`, availableRarities);
-    console.log(`🎲 Poids ajustés:`, adjustedWeights);
 
-    for (let i = 0; i < this.CARDS_PER_BOOSTER; i++) {
-      const rarity = this.selectRandomRarity(adjustedWeights);
-      const card = await this.getRandomCardByRarity(rarity, boosterId);
+    return this.drawCardIds(pool, dropTable, rng, guaranteedRarities).map(cardId => cards.get(cardId) as Card);
+  }
 
-      if (card) {
-        cards.push(card);
-      } else {
-        // Si aucune carte n'est trouvée, lever une erreur explicite
-        throw new Error(`Impossible de générer une carte de rareté ${rarity} pour le booster ${boosterId || 'aléatoire'}. Vérifiez que la base de données contient des cartes pour cette combinaison.`);
+  /**
+   * Tire les cartes d'un booster parmi un pool selon une table de drop
+   * Chaque emplacement suit ses propres poids et une carte ne sort qu'une fois par booster
+   * Tous les tirages passent par `rng` pour pouvoir rejouer une ouverture à l'identique
+   * `guaranteedRarities` force le dernier emplacement sur ces raretés (protection anti-malchance)
+   */
+  static drawCardIds(pool: CardPool, dropTable: DropTable, rng: RandomSource, guaranteedRarities?: string[]): string[] {
+    const cardIds: string[] = [];
+    const pulledIds = new Set<string>();
+    const availableRarities = Object.keys(pool);
+    const pulledByRarity: Record<string, number> = {};
+
+    if (availableRarities.length === 0) {
+      throw new Error('Aucune carte active à tirer');
+    }
+
+    for (let i = 0; i < dropTable.pack_size; i++) {
+      // Écarter les raretés dont toutes les cartes sont déjà sorties dans ce booster
+      const remainingRarities = availableRarities.filter(rarity =>
+        (pulledByRarity[rarity] || 0) < pool[rarity].normal.length + pool[rarity].alternate.length
+      );
+
+      const isGuaranteedSlot = !!guaranteedRarities && i === dropTable.pack_size - 1;
+      const slotWeights = isGuaranteedSlot
+        ? this.restrictToRarities(dropTable, i, guaranteedRarities)
+        : dropTable.slot_weights[i];
+
+      // Ajuster les poids de l'emplacement en fonction des raretés disponibles
+      const adjustedWeights = this.adjustRarityWeights(
+        slotWeights,
+        remainingRarities.length > 0 ? remainingRarities : availableRarities
+      );
+      const rarity = this.selectRandomRarity(rng, adjustedWeights);
+      const cardId = this.pickFromPool(rng, pool, rarity, dropTable.alternate_chance, pulledIds);
+
+      cardIds.push(cardId);
+      pulledIds.add(cardId);
+      pulledByRarity[rarity] = (pulledByRarity[rarity] || 0) + 1;
+    }
+
+    return cardIds;
+  }
+
+  /**
+   * Tire une carte parmi un ensemble de raretés, optionnellement d'un booster (récompenses de quêtes)
+   * Les raretés sans carte active sont écartées, les autres sont équiprobables
+   */
+  static async drawCardFromPool(
+    rarities: string[],
+    boosterId?: string,
+    rng: RandomSource = defaultRandom
+  ): Promise<Card> {
+    const { pool: cardPool, cards } = await this.loadCardPool(boosterId);
+    const pool = rarities.filter(rarity => cardPool[rarity]);
+
+    if (pool.length === 0) {
+      throw new Error(`Aucune carte active de rareté ${rarities.join(', ')} pour le booster ${boosterId || 'aléatoire'}`);
+    }
+
+    const rarity = pool[Math.floor(rng.next() * pool.length)];
+    const dropTable = await DropTableService.getDropTable(boosterId);
+    const cardId = this.pickFromPool(rng, cardPool, rarity, dropTable.alternate_chance, new Set());
+
+    return cards.get(cardId) as Card;
+  }
+
+  /**
+   * Restreint les poids d'un emplacement à certaines raretés
+   * Si l'emplacement ne les prévoit pas, leurs poids relatifs sur l'ensemble de la table sont utilisés,
+   * et à défaut elles sont équiprobables
+   */
+  private static restrictToRarities(dropTable: DropTable, slotIndex: number, rarities: string[]): Record<string, number> {
+    const pick = (slotWeights: Record<string, number>) => Object.fromEntries(
+      rarities.filter(rarity => slotWeights[rarity] > 0).map(rarity => [rarity, slotWeights[rarity]])
+    );
+
+    const restricted = pick(dropTable.slot_weights[slotIndex]);
+    if (Object.keys(restricted).length > 0) {
+      return restricted;
+    }
+
+    const tableWeights: Record<string, number> = {};
+    for (const slotWeights of dropTable.slot_weights) {
+      for (const [rarity, weight] of Object.entries(pick(slotWeights))) {
+        tableWeights[rarity] = (tableWeights[rarity] || 0) + weight;
       }
     }
+    if (Object.keys(tableWeights).length > 0) {
+      return tableWeights;
+    }
 
-    return cards;
+    return Object.fromEntries(rarities.map(rarity => [rarity, 1]));
   }
 
   /**
    * Sélectionne une rareté selon les probabilités définies
    */
-  private static selectRandomRarity(weights?: Record<string, number>): string {
-    const rarityWeights = weights || this.RARITY_WEIGHTS;
-    const random = Math.random() * 100;
+  private static selectRandomRarity(rng: RandomSource, rarityWeights: Record<string, number>): string {
+    const random = rng.next() * 100;
     let cumulative = 0;
 
     for (const [rarity, weight] of Object.entries(rarityWeights)) {
@@ -132,175 +260,90 @@ export class BoosterService {
   /**
    * Détermine si on devrait obtenir une carte alternate pour une rareté donnée
    * Les Common et Uncommon n'ont pas d'alternates
-   * Les autres raretés (Rare, Leader, SuperRare, SecretRare) ont 10% de chance
+   * Les autres raretés (Rare, Leader, SuperRare, SecretRare) suivent la chance de la table de drop
    */
-  private static shouldGetAlternate(rarity: string): boolean {
+  private static shouldGetAlternate(rng: RandomSource, rarity: string, alternateChance: number): boolean {
     // Common et Uncommon n'ont pas d'alternates
     if (rarity === 'common' || rarity === 'uncommon') {
       return false;
     }
 
-    // Pour les autres raretés, 10% de chance d'être alternate
-    return Math.random() < this.ALTERNATE_CHANCE;
+    return rng.next() < alternateChance;
   }
 
   /**
-   * Récupère une carte aléatoire d'une rareté donnée, optionnellement d'un booster spécifique
-   * Gère la logique des cartes alternate (avec suffixe _p1, _p2, etc.)
+   * Tire une carte d'une rareté donnée dans un pool
+   * Sans alternate disponible, repli sur une carte normale; si la rareté ne compte que
+   * des alternates dans ce booster, n'importe laquelle est acceptée
+   * Les cartes déjà tirées dans le booster (`excludedIds`) sont évitées tant que possible
    */
-  private static async getRandomCardByRarity(rarity: string, boosterId?: string, forceNonAlternate: boolean = false): Promise<Card | null> {
-    try {
-      // Déterminer si cette carte devrait être alternate (sauf si forceNonAlternate est true)
-      const shouldBeAlternate = !forceNonAlternate && this.shouldGetAlternate(rarity);
-
-      let query = `
-        SELECT * FROM cards
-        WHERE rarity = ? AND is_active = 1
-      `;
-      const params: any[] = [rarity];
-
-      if (boosterId) {
-        query += ` AND booster_id = ?`;
-        params.push(boosterId);
-      }
+  private static pickFromPool(
+    rng: RandomSource,
+    pool: CardPool,
+    rarity: string,
+    alternateChance: number,
+    excludedIds: Set<string>
+  ): string {
+    const group = pool[rarity];
+    if (!group) {
+      throw new Error(`Aucune carte de rareté ${rarity} à tirer`);
+    }
 
-      // Filtrer selon si on veut des alternates ou non
-      // Les cartes normales n'ont pas de suffixe après le numéro (ex: OP01-016)
-      // Les cartes alternates ont un suffixe _pX, _rX, etc. (ex: OP01-016_p1, OP01-041_r1)
-      if (shouldBeAlternate) {
-        // Chercher les cartes avec un underscore suivi de n'importe quelle lettre et chiffre
-        query += ` AND vegapull_id LIKE '%\\_%'`;
-      } else {
-        // Chercher les cartes sans underscore dans le vegapull_id
-        query += ` AND (vegapull_id NOT LIKE '%\\_%' OR vegapull_id IS NULL)`;
-      }
+    const shouldBeAlternate = this.shouldGetAlternate(rng, rarity, alternateChance);
+    const cardIds = shouldBeAlternate && group.alternate.length > 0
+      ? group.alternate
+      : group.normal.length > 0 ? group.normal : group.alternate;
 
-      query += ` ORDER BY RANDOM() LIMIT 1`;
-
-      // DEBUG: Log la requête complète
-      console.log(`🔍 DEBUG - Requête SQL pour ${rarity}:`, query);
-      console.log(`🔍 DEBUG - Paramètres:`, params);
-      console.log(`🔍 DEBUG - shouldBeAlternate:`, shouldBeAlternate);
-      console.log(`🔍 DEBUG - boosterId:`, boosterId);
-
-      const cards = await Database.all(query, params);
-
-      console.log(`🔍 DEBUG - Nombre de cartes trouvées:`, cards.length);
-
-      if (cards.length === 0) {
-        // Si aucune carte alternate trouvée, fallback sur une carte normale
-        if (shouldBeAlternate) {
-          console.warn(`Aucune carte alternate trouvée pour ${rarity}, fallback sur carte normale`);
-          return this.getRandomCardByRarity(rarity, boosterId, true); // Retry avec forceNonAlternate
-        }
-
-        // Si on cherchait une carte normale mais qu'on n'en a pas trouvé,
-        // vérifier si ce booster ne contient QUE des alternates pour cette rareté
-        console.warn(`Aucune carte ${rarity} normale trouvée, vérification des alternates...`);
-
-        // Compter le total de cartes de cette rareté dans ce booster
-        const totalQuery = `SELECT COUNT(*) as count FROM cards WHERE rarity = ? AND is_active = 1 AND booster_id = ?`;
-        const totalResult = await Database.get(totalQuery, [rarity, boosterId]);
-        const totalCards = totalResult?.count || 0;
-
-        // Compter les cartes alternates
-        const alternatesQuery = `SELECT COUNT(*) as count FROM cards WHERE rarity = ? AND is_active = 1 AND booster_id = ? AND vegapull_id LIKE '%\\_%'`;
-        const alternatesResult = await Database.get(alternatesQuery, [rarity, boosterId]);
-        const alternateCards = alternatesResult?.count || 0;
-
-        console.log(`🔍 Total ${rarity}: ${totalCards}, Alternates: ${alternateCards}`);
-
-        // Si TOUTES les cartes de cette rareté sont des alternates, accepter n'importe laquelle
-        if (totalCards > 0 && totalCards === alternateCards) {
-          console.warn(`⚠️ Ce booster ne contient QUE des alternates pour ${rarity}, sélection d'une carte alternate`);
-
-          const anyCardQuery = `
-            SELECT * FROM cards
-            WHERE rarity = ? AND is_active = 1 AND booster_id = ?
-            ORDER BY RANDOM() LIMIT 1
-          `;
-          const anyCards = await Database.all(anyCardQuery, [rarity, boosterId]);
-
-          if (anyCards.length > 0) {
-            const cardData = anyCards[0];
-            return {
-              id: cardData.id,
-              name: cardData.name,
-              character: cardData.character,
-              rarity: cardData.rarity,
-              type: cardData.type || undefined,
-              color: cardData.color ? JSON.parse(cardData.color) : undefined,
-              cost: cardData.cost || undefined,
-              power: cardData.power || undefined,
-              counter: cardData.counter || undefined,
-              attack: cardData.attack || undefined,
-              defense: cardData.defense || undefined,
-              description: cardData.description || undefined,
-              special_ability: cardData.special_ability || undefined,
-              image_url: cardData.image_url || undefined,
-              fallback_image_url: cardData.fallback_image_url || undefined,
-              vegapull_id: cardData.vegapull_id || undefined,
-              is_active: cardData.is_active === 1
-            };
-          }
-        }
-
-        // Diagnostic détaillé si vraiment aucune carte trouvée
-        console.error(`ERREUR: Aucune carte ${rarity} trouvée dans le booster ${boosterId || 'non spécifié'}`);
-        console.error(`🔍 DEBUG - Cartes ${rarity} dans booster ${boosterId} (total):`, totalCards);
-        console.error(`🔍 DEBUG - Cartes ${rarity} alternates:`, alternateCards);
-
-        // Montrer quelques exemples de vegapull_id
-        const debugQuery3 = `SELECT vegapull_id FROM cards WHERE rarity = ? AND booster_id = ? LIMIT 5`;
-        const debugResult3 = await Database.all(debugQuery3, [rarity, boosterId]);
-        console.error(`🔍 DEBUG - Exemples de vegapull_id:`, debugResult3.map((r: any) => r.vegapull_id));
-
-        console.error(`Ceci indique un problème de synchronisation des données. Vérifiez que:`);
-        console.error(`1. Le booster ${boosterId} existe et contient des cartes ${rarity}`);
-        console.error(`2. Les cartes ont is_active = 1`);
-        console.error(`3. Le vegapull_id est correctement renseigné`);
-        return null;
-      }
+    return this.pickCard(rng, cardIds, excludedIds);
+  }
 
-      const cardData = cards[0];
+  /**
+   * Choisit une carte au hasard en évitant les doublons dans le même booster
+   * Si toutes les cartes ont déjà été tirées (pool trop petit), le doublon est accepté
+   */
+  private static pickCard(rng: RandomSource, cardIds: string[], excludedIds: Set<string>): string {
+    const candidates = cardIds.filter(cardId => !excludedIds.has(cardId));
+    const pool = candidates.length > 0 ? candidates : cardIds;
+    return pool[Math.floor(rng.next() * pool.length)];
+  }
 
-      // Convertir les données en format Card
-      return {
-        id: cardData.id,
-        name: cardData.name,
-        character: cardData.character,
-        rarity: cardData.rarity,
-        type: cardData.type || undefined,
-        color: cardData.color ? JSON.parse(cardData.color) : undefined,
-        cost: cardData.cost || undefined,
-        power: cardData.power || undefined,
-        counter: cardData.counter || undefined,
-        attack: cardData.attack || undefined,
-        defense: cardData.defense || undefined,
-        description: cardData.description || undefined,
-        special_ability: cardData.special_ability || undefined,
-        image_url: cardData.image_url || undefined,
-        fallback_image_url: cardData.fallback_image_url || undefined,
-        vegapull_id: cardData.vegapull_id || undefined,
-        is_active: cardData.is_active === 1
-      };
-    } catch (error) {
-      console.error(`Erreur lors de la récupération d'une carte ${rarity}:`, error);
-      return null;
-    }
+  /**
+   * Convertit une ligne de la table cards en Card
+   */
+  private static toCard(cardData: any): Card {
+    return {
+      id: cardData.id,
+      name: cardData.name,
+      character: cardData.character,
+      rarity: cardData.rarity,
+      type: cardData.type || undefined,
+      color: cardData.color ? JSON.parse(cardData.color) : undefined,
+      cost: cardData.cost || undefined,
+      power: cardData.power || undefined,
+      counter: cardData.counter || undefined,
+      attack: cardData.attack || undefined,
+      defense: cardData.defense || undefined,
+      description: cardData.description || undefined,
+      special_ability: cardData.special_ability || undefined,
+      image_url: cardData.image_url || undefined,
+      fallback_image_url: cardData.fallback_image_url || undefined,
+      vegapull_id: cardData.vegapull_id || undefined,
+      is_active: cardData.is_active === 1
+    };
   }
 
   /**
    * Obtient les statistiques de distribution des raretés
+   * (nombre de cartes actives par rareté, pour tout le catalogue ou un booster)
    */
-  static async getRarityDistribution(): Promise<Record<string, number>> {
+  static async getRarityDistribution(boosterId?: string): Promise<Record<string, number>> {
     try {
       const distribution = await Database.all(`
         SELECT rarity, COUNT(*) as count
         FROM cards
-        WHERE is_active = 1
+        WHERE is_active = 1${boosterId ? ' AND booster_id = ?' : ''}
         GROUP BY rarity
-      `);
+      `, boosterId ? [boosterId] : []);
 
       const result: Record<string, number> = {};
       distribution.forEach(row => {
@@ -315,18 +358,100 @@ export class BoosterService {
   }
 
   /**
-   * Simule l'ouverture de plusieurs boosters (pour les tests)
+   * Nombre moyen de cartes de chaque rareté par booster selon la table de drop,
+   * après ajustement aux raretés présentes dans le booster
+   * (hors protection anti-malchance et retrait des doublons)
    */
-  static async simulateBoosterOpenings(count: number): Promise<{ rarity: string; count: number }[]> {
-    const rarityCount: Record<string, number> = {};
+  static async getExpectedRarityCounts(boosterId: string, dropTableOverride?: DropTable): Promise<Record<string, number>> {
+    const availableRarities = Object.keys(await this.getAvailableRarities(boosterId));
+    const dropTable = dropTableOverride || await DropTableService.getDropTable(boosterId);
+    const expected: Record<string, number> = {};
+
+    if (availableRarities.length === 0) {
+      return expected;
+    }
+
+    for (const slotWeights of dropTable.slot_weights) {
+      const adjustedWeights = this.adjustRarityWeights(slotWeights, availableRarities);
+      for (const [rarity, weight] of Object.entries(adjustedWeights)) {
+        expected[rarity] = (expected[rarity] || 0) + weight / 100;
+      }
+    }
+
+    return expected;
+  }
+
+  /**
+   * Nombre moyen d'exemplaires de chaque carte par booster, déduit des taux par rareté:
+   * une rareté se répartit uniformément entre ses cartes, les alternates recevant
+   * la chance d'alternate de la table (hors Common et Uncommon)
+   */
+  static async getCardPackRates(
+    boosterId: string,
+    dropTableOverride?: DropTable
+  ): Promise<{ card_id: string; rarity: string; is_alternate: boolean; per_pack: number }[]> {
+    const dropTable = dropTableOverride || await DropTableService.getDropTable(boosterId);
+    const expected = await this.getExpectedRarityCounts(boosterId, dropTable);
+
+    // Même filtre SQL que loadCardPool pour distinguer les alternates
+    const cards = await Database.all<{ id: string; rarity: string; is_alternate: number }>(`
+      SELECT id, rarity, (vegapull_id LIKE '%\\_%') as is_alternate FROM cards
+      WHERE is_active = 1 AND booster_id = ?
+      ORDER BY id
+    `, [boosterId]);
+
+    const isAlternate = (card: { is_alternate: number }) => card.is_alternate === 1;
+
+    // Nombre de cartes normales et alternates par rareté
+    const groups: Record<string, { normals: number; alternates: number }> = {};
+    for (const card of cards) {
+      const group = groups[card.rarity] || (groups[card.rarity] = { normals: 0, alternates: 0 });
+      if (isAlternate(card)) {
+        group.alternates++;
+      } else {
+        group.normals++;
+      }
+    }
+
+    return cards.map(card => {
+      const { normals, alternates } = groups[card.rarity];
+      const canBeAlternate = card.rarity !== 'common' && card.rarity !== 'uncommon';
+
+      // Part de la rareté revenant aux alternates (même repli que pickFromPool)
+      const alternateShare = normals === 0
+        ? 1
+        : (canBeAlternate && alternates > 0 ? dropTable.alternate_chance : 0);
+      const share = isAlternate(card) ? alternateShare / alternates : (1 - alternateShare) / normals;
+
+      return {
+        card_id: card.id,
+        rarity: card.rarity,
+        is_alternate: isAlternate(card),
+        per_pack: (expected[card.rarity] || 0) * share
+      };
+    });
+  }
+
+  /**
+   * Simule l'ouverture de plusieurs boosters (sans rien enregistrer)
+   * Utilise la même table de drop que les vraies ouvertures du booster, sauf si une table est fournie
+   * Les cartes du booster sont chargées une seule fois, puis tirées en mémoire
+   * Retourne les cartes de chaque booster, dans l'ordre d'ouverture
+   */
+  static async simulateBoosterOpenings(count: number, boosterId?: string, dropTableOverride?: DropTable): Promise<Card[][]> {
+    const { pool, cards } = await this.loadCardPool(boosterId);
+
+    if (Object.keys(pool).length === 0) {
+      throw new Error(`Aucune carte active trouvée pour le booster ${boosterId || 'aléatoire'}`);
+    }
+
+    const dropTable = dropTableOverride || await DropTableService.getDropTable(boosterId);
+    const packs: Card[][] = [];
 
     for (let i = 0; i < count; i++) {
-      const cards = await this.generateBoosterCards();
-      cards.forEach(card => {
-        rarityCount[card.rarity] = (rarityCount[card.rarity] || 0) + 1;
-      });
+      packs.push(this.drawCardIds(pool, dropTable, defaultRandom).map(cardId => cards.get(cardId) as Card));
     }
 
-    return Object.entries(rarityCount).map(([rarity, count]) => ({ rarity, count }));
+    return packs;
   }
 }
\ No newline at end of file
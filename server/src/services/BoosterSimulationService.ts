@@ -0,0 +1,151 @@
+import { BOOSTER_BERRY_PRICE, CARD_SELL_PRICES } from '../utils/economy.js';
+import { expectedDrawsToComplete } from '../utils/statistics.js';
+import { BoosterService } from './BoosterService.js';
+import { DropTable, DropTableService, RARITIES } from './DropTableService.js';
+
+// Nombre maximum de boosters simulés par requête
+export const MAX_SIMULATION_PACKS = 2000;
+
+// Paliers de complétion suivis pendant la simulation (en % du set)
+const COMPLETION_MILESTONES = [50, 75, 90, 100];
+
+// Tranches de l'histogramme du nombre d'exemplaires par carte
+const COPY_BUCKETS: { label: string; min: number; max: number }[] = [
+  { label: '1', min: 1, max: 1 },
+  { label: '2', min: 2, max: 2 },
+  { label: '3-5', min: 3, max: 5 },
+  { label: '6-10', min: 6, max: 10 },
+  { label: '11-25', min: 11, max: 25 },
+  { label: '26+', min: 26, max: Infinity }
+];
+
+export interface SimulationReport {
+  booster_id: string;
+  pack_count: number;
+  drop_table: DropTable;
+  rarity_histogram: {
+    rarity: string;
+    count: number;
+    rate: number;
+    per_pack: number;
+    expected_per_pack: number;
+  }[];
+  completion: {
+    set_size: number;
+    base_set_size: number;
+    unique_collected: number;
+    // Boosters nécessaires pour atteindre chaque palier dans cette simulation (null si non atteint)
+    milestones: { percent: number; packs: number | null }[];
+    // Estimations analytiques (collectionneur de coupons), indépendantes du hasard de la simulation
+    expected_packs_full_set: number | null;
+    expected_packs_base_set: number | null;
+  };
+  berrys: {
+    // Berrys dépensés pour acheter les boosters
+    outflow: number;
+    // Berrys récupérés en vendant tous les doublons
+    inflow: number;
+    net: number;
+    net_per_pack: number;
+  };
+  duplicates: {
+    total_cards: number;
+    duplicate_cards: number;
+    duplicate_rate: number;
+    // Nombre de cartes différentes obtenues N fois
+    copies_distribution: { copies: string; cards: number }[];
+  };
+}
+
+export class BoosterSimulationService {
+  /**
+   * Simule N ouvertures d'un booster, avec sa table actuelle ou une table candidate,
+   * sans rien écrire en base
+   */
+  static async simulate(boosterId: string, packCount: number, dropTableOverride?: DropTable): Promise<SimulationReport> {
+    const dropTable = dropTableOverride || await DropTableService.getDropTable(boosterId);
+    const packs = await BoosterService.simulateBoosterOpenings(packCount, boosterId, dropTable);
+    const expected = await BoosterService.getExpectedRarityCounts(boosterId, dropTable);
+    const cardRates = await BoosterService.getCardPackRates(boosterId, dropTable);
+
+    const setSize = cardRates.length;
+    const baseSetSize = cardRates.filter(card => !card.is_alternate).length;
+
+    const rarityCounts: Record<string, number> = {};
+    const copies = new Map<string, { rarity: string; count: number }>();
+    const milestones = COMPLETION_MILESTONES.map(percent => ({ percent, packs: null as number | null }));
+    let totalCards = 0;
+
+    packs.forEach((cards, index) => {
+      for (const card of cards) {
+        totalCards++;
+        rarityCounts[card.rarity] = (rarityCounts[card.rarity] || 0) + 1;
+
+        const entry = copies.get(card.id);
+        if (entry) {
+          entry.count++;
+        } else {
+          copies.set(card.id, { rarity: card.rarity, count: 1 });
+        }
+      }
+
+      // Paliers atteints après ce booster
+      for (const milestone of milestones) {
+        if (milestone.packs === null && setSize > 0 && copies.size >= Math.ceil(setSize * milestone.percent / 100)) {
+          milestone.packs = index + 1;
+        }
+      }
+    });
+
+    const rarityHistogram = RARITIES
+      .filter(rarity => rarityCounts[rarity] || expected[rarity])
+      .map(rarity => ({
+        rarity,
+        count: rarityCounts[rarity] || 0,
+        rate: totalCards > 0 ? (rarityCounts[rarity] || 0) / totalCards : 0,
+        per_pack: packCount > 0 ? (rarityCounts[rarity] || 0) / packCount : 0,
+        expected_per_pack: expected[rarity] || 0
+      }));
+
+    // Économie: achat de chaque booster, puis revente de tous les exemplaires en trop
+    let duplicateCards = 0;
+    let inflow = 0;
+    for (const { rarity, count } of copies.values()) {
+      duplicateCards += count - 1;
+      inflow += (count - 1) * (CARD_SELL_PRICES[rarity] || 0);
+    }
+    const outflow = packCount * BOOSTER_BERRY_PRICE;
+
+    const copiesDistribution = COPY_BUCKETS.map(bucket => ({
+      copies: bucket.label,
+      cards: Array.from(copies.values()).filter(entry => entry.count >= bucket.min && entry.count <= bucket.max).length
+    }));
+
+    return {
+      booster_id: boosterId,
+      pack_count: packCount,
+      drop_table: dropTable,
+      rarity_histogram: rarityHistogram,
+      completion: {
+        set_size: setSize,
+        base_set_size: baseSetSize,
+        unique_collected: copies.size,
+        milestones,
+        expected_packs_full_set: expectedDrawsToComplete(cardRates.map(card => card.per_pack)),
+        expected_packs_base_set: expectedDrawsToComplete(cardRates.filter(card => !card.is_alternate).map(card => card.per_pack))
+      },
+      berrys: {
+        outflow,
+        inflow,
+        net: inflow - outflow,
+        net_per_pack: packCount > 0 ? (inflow - outflow) / packCount : 0
+      },
+      duplicates: {
+        total_cards: totalCards,
+        duplicate_cards: duplicateCards,
+        duplicate_rate: totalCards > 0 ? duplicateCards / totalCards : 0,
+        copies_distribution: copiesDistribution
+      }
+    };
+  }
+}
@@ -0,0 +1,271 @@
+import { Database } from '../utils/database.js';
+import { CARD_SELL_PRICES } from '../utils/economy.js';
+import { RARITIES, Rarity } from './DropTableService.js';
+import { MarketplaceListing, MarketplaceListingModel } from '../models/MarketplaceListing.js';
+import { MarketplaceBuyOrderModel } from '../models/MarketplaceBuyOrder.js';
+import { MarketplaceOrderBookService, BuyOrderFill } from './MarketplaceOrderBookService.js';
+import { EconomyService } from './EconomyService.js';
+import { BerryLedgerService } from './BerryLedgerService.js';
+
+// Nombre maximum de cartes distinctes mises en vente sur le marketplace en une seule requête
+export const MAX_BULK_LISTING_CARDS = 50;
+
+export interface BulkSellRule {
+  // Rareté la plus élevée concernée (incluse)
+  maxRarity: Rarity;
+  // Exemplaires conservés pour chaque carte (au moins 1)
+  keepQuantity: number;
+}
+
+export interface BulkSellItem {
+  card_id: string;
+  card_name: string;
+  rarity: string;
+  quantity: number;
+  unit_price: number;
+  berrys: number;
+}
+
+export interface BulkSellPlan {
+  items: BulkSellItem[];
+  total_cards: number;
+  total_berrys: number;
+}
+
+export interface BulkListingItem {
+  card_id: string;
+  card_name: string;
+  rarity: string;
+  price: number;
+  // Ordre d'achat qui servirait la carte immédiatement, à son prix, au lieu de créer une annonce
+  buy_order_id: string | null;
+  buy_order_price: number | null;
+}
+
+export interface BulkListingSkip {
+  card_id: string;
+  reason: string;
+}
+
+export interface BulkListingPlan {
+  items: BulkListingItem[];
+  skipped: BulkListingSkip[];
+  free_slots: number;
+}
+
+export interface BulkListingResult {
+  listings: MarketplaceListing[];
+  fills: BuyOrderFill[];
+  skipped: BulkListingSkip[];
+}
+
+/**
+ * Gestion des doublons par lot: revente au jeu et mise en vente sur le marketplace
+ * Les méthodes plan* calculent l'aperçu (dry-run), les méthodes execute* l'appliquent
+ */
+export class BulkCollectionService {
+  /**
+   * Doublons revendables selon la règle: pour chaque carte active de rareté inférieure ou égale à maxRarity,
+   * tout ce qui dépasse keepQuantity exemplaires, en gardant toujours au moins un exemplaire hors séquestre
+   * Les cartes favorites sont épargnées
+   */
+  static async planBulkSell(userId: string, rule: BulkSellRule): Promise<BulkSellPlan> {
+    const rarities = RARITIES.slice(0, RARITIES.indexOf(rule.maxRarity) + 1);
+
+    const rows = await Database.all<{
+      card_id: string;
+      card_name: string;
+      rarity: string;
+      quantity: number;
+      reserved_quantity: number | null;
+    }>(`
+      SELECT uc.card_id, c.name as card_name, c.rarity, uc.quantity, uc.reserved_quantity
+      FROM user_collections uc
+      JOIN cards c ON uc.card_id = c.id
+      WHERE uc.user_id = ?
+        AND c.is_active = 1
+        AND COALESCE(uc.is_favorite, 0) = 0
+        AND c.rarity IN (${rarities.map(() => '?').join(', ')})
+      ORDER BY c.name
+    `, [userId, ...rarities]);
+
+    const items: BulkSellItem[] = [];
+
+    for (const row of rows) {
+      const unitPrice = CARD_SELL_PRICES[row.rarity] || 0;
+      const quantity = Math.min(
+        row.quantity - rule.keepQuantity,
+        row.quantity - (row.reserved_quantity || 0) - 1
+      );
+
+      if (unitPrice === 0 || quantity <= 0) continue;
+
+      items.push({
+        card_id: row.card_id,
+        card_name: row.card_name,
+        rarity: row.rarity,
+        quantity,
+        unit_price: unitPrice,
+        berrys: unitPrice * quantity
+      });
+    }
+
+    items.sort((a, b) => RARITIES.indexOf(a.rarity as Rarity) - RARITIES.indexOf(b.rarity as Rarity));
+
+    return {
+      items,
+      total_cards: items.reduce((sum, item) => sum + item.quantity, 0),
+      total_berrys: items.reduce((sum, item) => sum + item.berrys, 0)
+    };
+  }
+
+  /**
+   * Revendre au jeu tous les doublons désignés par la règle, en un seul crédit de Berrys
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async executeBulkSell(userId: string, rule: BulkSellRule): Promise<BulkSellPlan> {
+    const plan = await this.planBulkSell(userId, rule);
+
+    for (const item of plan.items) {
+      const result = await Database.run(`
+        UPDATE user_collections
+        SET quantity = quantity - ?
+        WHERE user_id = ? AND card_id = ? AND quantity - COALESCE(reserved_quantity, 0) > ?
+      `, [item.quantity, userId, item.card_id, item.quantity]);
+
+      if (result.changes === 0) {
+        throw new Error('Échec de la transaction: quantité insuffisante');
+      }
+    }
+
+    await BerryLedgerService.credit(userId, plan.total_berrys, 'card_sale', 'bulk');
+
+    return plan;
+  }
+
+  /**
+   * Cartes qu'une mise en vente par lot publierait, au prix fixé pour leur rareté
+   * Une carte couverte par un ordre d'achat est vendue immédiatement et n'occupe pas d'emplacement
+   */
+  static async planBulkListing(
+    userId: string,
+    cardIds: string[],
+    prices: Partial<Record<Rarity, number>>
+  ): Promise<BulkListingPlan> {
+    const [activeCount, slots] = await Promise.all([
+      MarketplaceListingModel.countActiveListingsBySeller(userId),
+      EconomyService.getListingSlots(userId)
+    ]);
+    let freeSlots = Math.max(0, slots.total - activeCount);
+
+    const items: BulkListingItem[] = [];
+    const skipped: BulkListingSkip[] = [];
+
+    for (const cardId of new Set(cardIds)) {
+      const userCard = await Database.get<{
+        name: string;
+        rarity: Rarity;
+        is_active: number;
+        quantity: number;
+        reserved_quantity: number | null;
+      }>(`
+        SELECT c.name, c.rarity, c.is_active, uc.quantity, uc.reserved_quantity
+        FROM user_collections uc
+        JOIN cards c ON uc.card_id = c.id
+        WHERE uc.user_id = ? AND uc.card_id = ?
+      `, [userId, cardId]);
+
+      if (!userCard) {
+        skipped.push({ card_id: cardId, reason: 'Carte non trouvée dans votre collection' });
+        continue;
+      }
+
+      if (!userCard.is_active) {
+        skipped.push({ card_id: cardId, reason: 'Cette carte ne peut plus être vendue' });
+        continue;
+      }
+
+      if (userCard.quantity - (userCard.reserved_quantity || 0) < 2) {
+        skipped.push({ card_id: cardId, reason: 'Moins de 2 exemplaires disponibles' });
+        continue;
+      }
+
+      const price = prices[userCard.rarity];
+      if (!price) {
+        skipped.push({ card_id: cardId, reason: 'Aucun prix fixé pour cette rareté' });
+        continue;
+      }
+
+      const order = await MarketplaceBuyOrderModel.findBestOpenOrder(cardId, price, userId);
+
+      if (!order) {
+        const existingListing = await Database.get(`
+          SELECT id FROM marketplace_listings
+          WHERE seller_id = ? AND card_id = ? AND status = 'active'
+        `, [userId, cardId]);
+
+        if (existingListing) {
+          skipped.push({ card_id: cardId, reason: 'Vous avez déjà une annonce active pour cette carte' });
+          continue;
+        }
+
+        if (freeSlots === 0) {
+          skipped.push({ card_id: cardId, reason: 'Plus d\'emplacement d\'annonce disponible' });
+          continue;
+        }
+
+        freeSlots--;
+      }
+
+      items.push({
+        card_id: cardId,
+        card_name: userCard.name,
+        rarity: userCard.rarity,
+        price,
+        buy_order_id: order?.id || null,
+        buy_order_price: order?.max_price || null
+      });
+    }
+
+    return { items, skipped, free_slots: freeSlots };
+  }
+
+  /**
+   * Mettre en vente plusieurs cartes à prix fixe: ordres d'achat servis immédiatement, annonces créées sinon
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async executeBulkListing(
+    userId: string,
+    cardIds: string[],
+    prices: Partial<Record<Rarity, number>>,
+    endsAt: string
+  ): Promise<BulkListingResult> {
+    const plan = await this.planBulkListing(userId, cardIds, prices);
+
+    const listings: MarketplaceListing[] = [];
+    const fills: BuyOrderFill[] = [];
+
+    for (const item of plan.items) {
+      if (item.buy_order_id) {
+        fills.push(await MarketplaceOrderBookService.fillBuyOrder(item.buy_order_id, userId));
+        continue;
+      }
+
+      const reserved = await MarketplaceListingModel.reserveCard(userId, item.card_id);
+      if (!reserved) {
+        throw new Error('Vous devez posséder au moins 2 exemplaires disponibles de cette carte pour la vendre');
+      }
+
+      listings.push(await MarketplaceListingModel.create({
+        seller_id: userId,
+        card_id: item.card_id,
+        price: item.price,
+        listing_type: 'fixed',
+        buyout_price: null,
+        ends_at: endsAt
+      }));
+    }
+
+    return { listings, fills, skipped: plan.skipped };
+  }
+}
@@ -0,0 +1,98 @@
+import { Database } from '../utils/database.js';
+import { CardPriceHistoryModel, CardSale, DailyPricePoint } from '../models/CardPriceHistory.js';
+import { CARD_SELL_PRICES } from '../utils/economy.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SERIES_DAYS = 30;
+
+export interface CardMarketSummary {
+  card_id: string;
+  last_sale: Pick<CardSale, 'price' | 'source' | 'sold_at'> | null;
+  median_7d: number | null;
+  median_30d: number | null;
+  volume_7d: number;
+  volume_30d: number;
+  // Prix de revente au jeu, pour comparaison
+  sell_price: number;
+  series: DailyPricePoint[];
+}
+
+export interface CollectionMarketValue {
+  market_value: number;
+  // Cartes possédées dont la valeur vient de ventes réelles (les autres utilisent le prix de revente)
+  traded_cards: number;
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle];
+}
+
+export class CardMarketService {
+  /**
+   * Résumé du marché d'une carte: dernière vente, médianes, volumes et série journalière
+   */
+  static async getCardMarket(cardId: string, rarity: string): Promise<CardMarketSummary> {
+    const [lastSale, prices7d, prices30d, series] = await Promise.all([
+      CardPriceHistoryModel.getLastSale(cardId),
+      CardPriceHistoryModel.getPricesSince(cardId, daysAgo(7)),
+      CardPriceHistoryModel.getPricesSince(cardId, daysAgo(30)),
+      CardPriceHistoryModel.getDailySeries(cardId, daysAgo(SERIES_DAYS))
+    ]);
+
+    return {
+      card_id: cardId,
+      last_sale: lastSale ? { price: lastSale.price, source: lastSale.source, sold_at: lastSale.sold_at } : null,
+      median_7d: median(prices7d),
+      median_30d: median(prices30d),
+      volume_7d: prices7d.length,
+      volume_30d: prices30d.length,
+      sell_price: CARD_SELL_PRICES[rarity] || 0,
+      series
+    };
+  }
+
+  /**
+   * Valeur marchande d'une collection
+   * Par carte: médiane sur 30 jours, sinon dernière vente, sinon prix de revente au jeu
+   */
+  static async getCollectionMarketValue(userId: string): Promise<CollectionMarketValue> {
+    const [owned, recentSales, lastSales] = await Promise.all([
+      Database.all<{ card_id: string; quantity: number; rarity: string }>(`
+        SELECT uc.card_id, uc.quantity, c.rarity
+        FROM user_collections uc
+        JOIN cards c ON uc.card_id = c.id
+        WHERE uc.user_id = ?
+      `, [userId]),
+      CardPriceHistoryModel.getOwnedCardPricesSince(userId, daysAgo(30)),
+      CardPriceHistoryModel.getOwnedCardLastSales(userId)
+    ]);
+
+    const recentByCard = new Map<string, number[]>();
+    for (const sale of recentSales) {
+      const prices = recentByCard.get(sale.card_id) || [];
+      prices.push(sale.price);
+      recentByCard.set(sale.card_id, prices);
+    }
+    const lastByCard = new Map(lastSales.map(sale => [sale.card_id, sale.price]));
+
+    let marketValue = 0;
+    let tradedCards = 0;
+
+    for (const card of owned) {
+      const marketPrice = median(recentByCard.get(card.card_id) || []) ?? lastByCard.get(card.card_id);
+      if (marketPrice !== undefined) tradedCards++;
+
+      marketValue += (marketPrice ?? CARD_SELL_PRICES[card.rarity] ?? 0) * card.quantity;
+    }
+
+    return { market_value: marketValue, traded_cards: tradedCards };
+  }
+}
@@ -0,0 +1,63 @@
+import { Database } from '../utils/database.js';
+import { BOOSTER_BERRY_PRICE } from '../utils/economy.js';
+import { expectedDrawsToComplete } from '../utils/statistics.js';
+import { BoosterService } from './BoosterService.js';
+
+export interface BoosterCompletion {
+  booster_id: string;
+  code: string;
+  name: string;
+  total_cards: number;
+  owned_cards: number;
+  missing_cards: number;
+  completion_rate: number;
+  // Nombre moyen de boosters à ouvrir pour obtenir toutes les cartes manquantes
+  // (null si une carte manquante ne peut pas sortir d'un booster)
+  expected_packs: number | null;
+  expected_berrys: number | null;
+}
+
+export class CollectionCompletionService {
+  /**
+   * Estimation, pour chaque booster, du nombre de boosters restant à ouvrir pour compléter le set
+   * Problème du collectionneur de coupons restreint aux cartes manquantes,
+   * chaque carte sortant au taux de sa rareté dans la table de drop du booster
+   */
+  static async getCompletion(userId: string, boosterId?: string): Promise<BoosterCompletion[]> {
+    const boosters = await Database.all<{ id: string; code: string; name: string }>(`
+      SELECT b.id, b.code, b.name
+      FROM boosters b
+      WHERE b.is_active = 1${boosterId ? ' AND b.id = ?' : ''}
+        AND EXISTS (SELECT 1 FROM cards c WHERE c.booster_id = b.id AND c.is_active = 1)
+      ORDER BY b.code
+    `, boosterId ? [boosterId] : []);
+
+    const owned = await Database.all<{ card_id: string }>(`
+      SELECT uc.card_id
+      FROM user_collections uc
+      WHERE uc.user_id = ? AND uc.quantity > 0
+    `, [userId]);
+    const ownedIds = new Set(owned.map(row => row.card_id));
+
+    const completions: BoosterCompletion[] = [];
+    for (const booster of boosters) {
+      const cardRates = await BoosterService.getCardPackRates(booster.id);
+      const missing = cardRates.filter(card => !ownedIds.has(card.card_id));
+      const expectedPacks = expectedDrawsToComplete(missing.map(card => card.per_pack));
+
+      completions.push({
+        booster_id: booster.id,
+        code: booster.code,
+        name: booster.name,
+        total_cards: cardRates.length,
+        owned_cards: cardRates.length - missing.length,
+        missing_cards: missing.length,
+        completion_rate: cardRates.length > 0 ? (cardRates.length - missing.length) / cardRates.length : 0,
+        expected_packs: expectedPacks,
+        expected_berrys: expectedPacks !== null ? Math.ceil(expectedPacks) * BOOSTER_BERRY_PRICE : null
+      });
+    }
+
+    return completions;
+  }
+}
@@ -0,0 +1,52 @@
+import { Database } from '../utils/database.js';
+
+export class CollectionTransferService {
+  /**
+   * Ajouter des exemplaires d'une carte à la collection d'un utilisateur
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async addCard(userId: string, cardId: string, quantity: number = 1): Promise<void> {
+    const existing = await Database.get(`
+      SELECT card_id FROM user_collections
+      WHERE user_id = ? AND card_id = ?
+    `, [userId, cardId]);
+
+    if (existing) {
+      await Database.run(`
+        UPDATE user_collections
+        SET quantity = quantity + ?
+        WHERE user_id = ? AND card_id = ?
+      `, [quantity, userId, cardId]);
+    } else {
+      await Database.run(`
+        INSERT INTO user_collections (user_id, card_id, quantity, obtained_at, is_favorite)
+        VALUES (?, ?, ?, ?, 0)
+      `, [userId, cardId, quantity, new Date().toISOString()]);
+    }
+  }
+
+  /**
+   * Retirer des exemplaires disponibles (hors séquestre) en gardant toujours au moins un exemplaire
+   * Retourne false si l'utilisateur n'a pas assez d'exemplaires disponibles
+   */
+  static async removeCard(userId: string, cardId: string, quantity: number = 1): Promise<boolean> {
+    const result = await Database.run(`
+      UPDATE user_collections
+      SET quantity = quantity - ?
+      WHERE user_id = ? AND card_id = ? AND quantity - COALESCE(reserved_quantity, 0) > ?
+    `, [quantity, userId, cardId, quantity]);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Déplacer des exemplaires d'une collection à l'autre
+   */
+  static async transferCard(fromUserId: string, toUserId: string, cardId: string, quantity: number = 1): Promise<boolean> {
+    const removed = await this.removeCard(fromUserId, cardId, quantity);
+    if (!removed) return false;
+
+    await this.addCard(toUserId, cardId, quantity);
+    return true;
+  }
+}
@@ -0,0 +1,341 @@
+import { Database } from '../utils/database.js';
+import { CrewMember, Quest, WorldMapModel } from '../models/WorldMap.js';
+import { RARITIES, Rarity } from './DropTableService.js';
+
+export const CREW_STATS = ['strength', 'navigation', 'intelligence', 'stamina'] as const;
+
+export type CrewStat = typeof CREW_STATS[number];
+
+export type CrewStats = Record<CrewStat, number>;
+
+export const MAX_CREW_LEVEL = 20;
+// Expérience gagnée par chaque membre envoyé, par heure de quête réussie (moitié en cas d'échec)
+export const CREW_XP_PER_QUEST_HOUR = 20;
+// Chaque niveau au-delà du premier ajoute 10% des statistiques de base
+const STAT_GROWTH_PER_LEVEL = 0.1;
+export const MAX_BASE_STAT = 100;
+export const MAX_STAT_REQUIREMENT = 1000;
+// En dessous de la moitié d'une exigence, l'équipe ne peut pas partir
+export const MIN_REQUIREMENT_RATIO = 0.5;
+// Chance de réussite quand l'équipe atteint exactement les exigences
+const SUCCESS_CHANCE_AT_REQUIREMENT = 0.8;
+// Dépasser les exigences aide jusqu'à +25%
+const MAX_REQUIREMENT_COVERAGE = 1.25;
+const MIN_SUCCESS_CHANCE = 0.05;
+const MAX_SUCCESS_CHANCE = 0.95;
+// Bonus d'un membre selon la rareté de sa meilleure carte possédée
+const CARD_BONUS_BY_RARITY: Record<Rarity, { duration_reduction: number; reward_bonus: number }> = {
+  common: { duration_reduction: 0.05, reward_bonus: 0.05 },
+  uncommon: { duration_reduction: 0.05, reward_bonus: 0.1 },
+  rare: { duration_reduction: 0.1, reward_bonus: 0.1 },
+  leader: { duration_reduction: 0.1, reward_bonus: 0.15 },
+  super_rare: { duration_reduction: 0.15, reward_bonus: 0.2 },
+  secret_rare: { duration_reduction: 0.2, reward_bonus: 0.25 }
+};
+// Les bonus des membres envoyés s'additionnent jusqu'à ces plafonds
+export const MAX_CREW_DURATION_REDUCTION = 0.5;
+export const MAX_CREW_REWARD_BONUS = 0.5;
+export const MAX_CARD_CHARACTERS = 10;
+
+export interface CrewProgress {
+  level: number;
+  experience: number;
+  // Expérience totale requise pour le niveau actuel et le suivant (null au niveau maximum)
+  level_experience: number;
+  next_level_experience: number | null;
+}
+
+/**
+ * Bonus d'un membre grâce à la meilleure carte possédée de son personnage
+ */
+export interface CrewCardBonus {
+  card_id: string;
+  card_name: string;
+  rarity: Rarity;
+  // Nombre de cartes différentes possédées du personnage
+  owned_cards: number;
+  duration_reduction: number;
+  reward_bonus: number;
+}
+
+export interface TeamMember extends CrewProgress {
+  crew_member_id: string;
+  name: string;
+  stats: CrewStats;
+  card_bonus: CrewCardBonus | null;
+}
+
+export interface TeamBonus {
+  duration_reduction: number;
+  reward_bonus: number;
+}
+
+export interface StatCheck {
+  stat: CrewStat;
+  required: number;
+  team: number;
+}
+
+export interface QuestOdds {
+  checks: StatCheck[];
+  team_stats: CrewStats;
+  // false si une statistique est sous MIN_REQUIREMENT_RATIO de l'exigence
+  meets_minimum: boolean;
+  success_chance: number;
+}
+
+export interface CrewLevelUp {
+  crew_member_id: string;
+  name: string;
+  level: number;
+}
+
+export const STAT_LABELS: Record<CrewStat, string> = {
+  strength: 'Force',
+  navigation: 'Navigation',
+  intelligence: 'Intelligence',
+  stamina: 'Endurance'
+};
+
+/**
+ * Progression des membres d'équipage: niveaux, statistiques, bonus de cartes et chance de réussite des quêtes
+ */
+export class CrewService {
+  /**
+   * Expérience totale requise pour atteindre un niveau (100, 300, 600, 1000...)
+   */
+  static getLevelExperience(level: number): number {
+    return 50 * level * (level - 1);
+  }
+
+  static getProgress(experience: number): CrewProgress {
+    let level = 1;
+    while (level < MAX_CREW_LEVEL && experience >= this.getLevelExperience(level + 1)) {
+      level++;
+    }
+
+    return {
+      level,
+      experience,
+      level_experience: this.getLevelExperience(level),
+      next_level_experience: level < MAX_CREW_LEVEL ? this.getLevelExperience(level + 1) : null
+    };
+  }
+
+  static getStats(member: CrewMember, level: number): CrewStats {
+    const growth = 1 + STAT_GROWTH_PER_LEVEL * (level - 1);
+    return Object.fromEntries(
+      CREW_STATS.map(stat => [stat, Math.round((member[stat] ?? 0) * growth)])
+    ) as CrewStats;
+  }
+
+  /**
+   * Lire les exigences d'une quête, une valeur illisible est ignorée
+   */
+  static parseRequirements(raw: string | null | undefined): Partial<CrewStats> {
+    try {
+      const requirements = JSON.parse(raw || '{}');
+      return requirements && typeof requirements === 'object' && !Array.isArray(requirements) ? requirements : {};
+    } catch (error) {
+      console.error('Exigences de quête illisibles:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Valider les exigences envoyées par un admin
+   * Retourne un message d'erreur, ou null si les exigences sont valides
+   */
+  static validateRequirements(input: unknown): string | null {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return 'Les exigences doivent être un objet { statistique: valeur }';
+    }
+
+    for (const [stat, value] of Object.entries(input)) {
+      if (!(CREW_STATS as readonly string[]).includes(stat)) {
+        return `Statistique inconnue "${stat}"`;
+      }
+      if (!Number.isInteger(value) || value < 1 || value > MAX_STAT_REQUIREMENT) {
+        return `L'exigence de ${STAT_LABELS[stat as CrewStat]} doit être entre 1 et ${MAX_STAT_REQUIREMENT}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Lire les personnages de cartes d'un membre, une valeur illisible est ignorée
+   */
+  static parseCardCharacters(raw: string | null | undefined): string[] {
+    try {
+      const characters = JSON.parse(raw || '[]');
+      return Array.isArray(characters) ? characters.filter(c => typeof c === 'string') : [];
+    } catch (error) {
+      console.error('Personnages de cartes illisibles:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Valider les personnages de cartes envoyés par un admin
+   * Retourne un message d'erreur, ou null si la liste est valide
+   */
+  static validateCardCharacters(input: unknown): string | null {
+    if (!Array.isArray(input)) {
+      return 'Les personnages de cartes doivent être une liste';
+    }
+
+    if (input.length > MAX_CARD_CHARACTERS) {
+      return `Un membre ne peut pas avoir plus de ${MAX_CARD_CHARACTERS} personnages de cartes`;
+    }
+
+    if (input.some(character => typeof character !== 'string' || character.trim() === '')) {
+      return 'Chaque personnage de carte doit être un texte non vide (valeur de cards.character)';
+    }
+
+    return null;
+  }
+
+  /**
+   * Bonus de cartes de chaque membre, indexés par identifiant (absent si aucune carte possédée)
+   */
+  static async getCardBonuses(userId: string, members: CrewMember[]): Promise<Record<string, CrewCardBonus>> {
+    const charactersByMember = members.map(member => ({
+      id: member.id,
+      characters: this.parseCardCharacters(member.card_characters)
+    }));
+    const characters = [...new Set(charactersByMember.flatMap(member => member.characters))];
+    if (characters.length === 0) {
+      return {};
+    }
+
+    const cards = await Database.all<{ id: string; name: string; rarity: Rarity; character: string }>(`
+      SELECT c.id, c.name, c.rarity, c.character
+      FROM user_collections uc
+      JOIN cards c ON c.id = uc.card_id
+      WHERE uc.user_id = ? AND uc.quantity > 0
+        AND c.character IN (${characters.map(() => '?').join(', ')})
+    `, [userId, ...characters]);
+
+    const bonuses: Record<string, CrewCardBonus> = {};
+    for (const member of charactersByMember) {
+      const owned = cards.filter(card => member.characters.includes(card.character) && card.rarity in CARD_BONUS_BY_RARITY);
+      if (owned.length === 0) continue;
+
+      // La carte la plus rare détermine le bonus
+      const best = owned.reduce((a, b) => RARITIES.indexOf(b.rarity) > RARITIES.indexOf(a.rarity) ? b : a);
+      bonuses[member.id] = {
+        card_id: best.id,
+        card_name: best.name,
+        rarity: best.rarity,
+        owned_cards: owned.length,
+        ...CARD_BONUS_BY_RARITY[best.rarity]
+      };
+    }
+
+    return bonuses;
+  }
+
+  /**
+   * Bonus cumulés des membres envoyés, plafonnés
+   */
+  static getTeamBonus(team: TeamMember[]): TeamBonus {
+    const sum = (key: keyof TeamBonus) => team.reduce((total, member) => total + (member.card_bonus?.[key] ?? 0), 0);
+
+    return {
+      duration_reduction: Math.round(Math.min(sum('duration_reduction'), MAX_CREW_DURATION_REDUCTION) * 100) / 100,
+      reward_bonus: Math.round(Math.min(sum('reward_bonus'), MAX_CREW_REWARD_BONUS) * 100) / 100
+    };
+  }
+
+  /**
+   * Niveau, statistiques et bonus de cartes des membres débloqués par un utilisateur, dans l'ordre demandé
+   * Les membres non débloqués sont ignorés
+   */
+  static async getTeam(userId: string, crewMemberIds: string[]): Promise<TeamMember[]> {
+    if (crewMemberIds.length === 0) {
+      return [];
+    }
+
+    const rows = await Database.all<CrewMember & { experience: number }>(`
+      SELECT cm.*, ucm.experience
+      FROM user_crew_members ucm
+      JOIN crew_members cm ON cm.id = ucm.crew_member_id
+      WHERE ucm.user_id = ? AND ucm.crew_member_id IN (${crewMemberIds.map(() => '?').join(', ')})
+    `, [userId, ...crewMemberIds]);
+
+    const cardBonuses = await this.getCardBonuses(userId, rows);
+
+    return crewMemberIds
+      .map(id => rows.find(row => row.id === id))
+      .filter((row): row is CrewMember & { experience: number } => !!row)
+      .map(row => {
+        const progress = this.getProgress(row.experience);
+        return {
+          crew_member_id: row.id,
+          name: row.name,
+          ...progress,
+          stats: this.getStats(row, progress.level),
+          card_bonus: cardBonuses[row.id] ?? null
+        };
+      });
+  }
+
+  /**
+   * Chance de réussite d'une équipe: moyenne de la couverture de chaque exigence
+   * (plafonnée à MAX_REQUIREMENT_COVERAGE), une quête sans exigence réussit toujours
+   */
+  static evaluateQuest(quest: Quest, team: TeamMember[]): QuestOdds {
+    const teamStats = Object.fromEntries(
+      CREW_STATS.map(stat => [stat, team.reduce((sum, member) => sum + member.stats[stat], 0)])
+    ) as CrewStats;
+
+    const requirements = this.parseRequirements(quest.stat_requirements);
+    const checks: StatCheck[] = CREW_STATS
+      .filter(stat => (requirements[stat] ?? 0) > 0)
+      .map(stat => ({ stat, required: requirements[stat]!, team: teamStats[stat] }));
+
+    if (checks.length === 0) {
+      return { checks, team_stats: teamStats, meets_minimum: true, success_chance: 1 };
+    }
+
+    const coverage = checks.reduce(
+      (sum, check) => sum + Math.min(check.team / check.required, MAX_REQUIREMENT_COVERAGE),
+      0
+    ) / checks.length;
+    const chance = Math.min(MAX_SUCCESS_CHANCE, Math.max(MIN_SUCCESS_CHANCE, coverage * SUCCESS_CHANCE_AT_REQUIREMENT));
+
+    return {
+      checks,
+      team_stats: teamStats,
+      meets_minimum: checks.every(check => check.team >= check.required * MIN_REQUIREMENT_RATIO),
+      success_chance: Math.round(chance * 100) / 100
+    };
+  }
+
+  /**
+   * Donner l'expérience d'une quête à chaque membre envoyé
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async grantQuestExperience(
+    userId: string,
+    crewMemberIds: string[],
+    durationHours: number,
+    success: boolean
+  ): Promise<number> {
+    const amount = Math.floor(durationHours * CREW_XP_PER_QUEST_HOUR * (success ? 1 : 0.5));
+    if (amount > 0) {
+      await WorldMapModel.addCrewExperience(userId, crewMemberIds, amount);
+    }
+    return amount;
+  }
+
+  /**
+   * Membres ayant changé de niveau entre deux relevés de la même équipe
+   */
+  static getLevelUps(before: TeamMember[], after: TeamMember[]): CrewLevelUp[] {
+    return after
+      .filter(member => member.level > (before.find(b => b.crew_member_id === member.crew_member_id)?.level ?? member.level))
+      .map(member => ({ crew_member_id: member.crew_member_id, name: member.name, level: member.level }));
+  }
+}
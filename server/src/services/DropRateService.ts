@@ -0,0 +1,100 @@
+import { Database } from '../utils/database.js';
+import { wilsonInterval } from '../utils/statistics.js';
+import { BoosterService } from './BoosterService.js';
+import { DropTableService, RARITIES } from './DropTableService.js';
+
+export interface RarityDropRate {
+  rarity: string;
+  // Nombre de cartes de cette rareté dans le booster
+  catalog_count: number;
+  // Taux annoncé: part des cartes d'un booster attendue pour cette rareté
+  configured_rate: number;
+  expected_per_pack: number;
+  observed_count: number;
+  observed_rate: number;
+  observed_per_pack: number;
+  // Intervalle de confiance à 95% du taux observé
+  ci_low: number;
+  ci_high: number;
+}
+
+export interface BoosterDropRates {
+  booster_id: string;
+  pack_size: number;
+  alternate_chance: number;
+  is_default_table: boolean;
+  // Ouvertures prises en compte (hors boosters à Super Rare garantie)
+  total_packs: number;
+  total_cards: number;
+  pity_packs: number;
+  rarities: RarityDropRate[];
+}
+
+export class DropRateService {
+  /**
+   * Taux annoncés d'un booster comparés aux tirages réellement effectués par tous les joueurs
+   * Les ouvertures où la protection anti-malchance s'est appliquée sont exclues
+   * pour ne pas fausser le taux des Super Rares
+   */
+  static async getDropRates(boosterId: string): Promise<BoosterDropRates> {
+    const dropTable = await DropTableService.getDropTable(boosterId);
+    const expected = await BoosterService.getExpectedRarityCounts(boosterId);
+    const catalog = await BoosterService.getRarityDistribution(boosterId);
+
+    const packs = await Database.get<{ total: number; pity: number }>(`
+      SELECT
+        COUNT(CASE WHEN COALESCE(pity_applied, 0) = 0 THEN 1 END) as total,
+        COUNT(CASE WHEN pity_applied = 1 THEN 1 END) as pity
+      FROM booster_openings
+      WHERE booster_id = ?
+    `, [boosterId]);
+
+    const observedRows = await Database.all<{ rarity: string; count: number }>(`
+      SELECT c.rarity, COUNT(*) as count
+      FROM booster_openings bo
+      JOIN json_each(bo.cards_obtained) je
+      JOIN cards c ON c.id = je.value
+      WHERE bo.booster_id = ? AND COALESCE(bo.pity_applied, 0) = 0
+      GROUP BY c.rarity
+    `, [boosterId]);
+
+    const observed: Record<string, number> = {};
+    observedRows.forEach(row => {
+      observed[row.rarity] = row.count;
+    });
+
+    const totalPacks = packs?.total || 0;
+    const totalCards = observedRows.reduce((sum, row) => sum + row.count, 0);
+    const expectedCards = Object.values(expected).reduce((sum, count) => sum + count, 0);
+
+    const rarities = RARITIES
+      .filter(rarity => catalog[rarity] || expected[rarity] || observed[rarity])
+      .map(rarity => {
+        const observedCount = observed[rarity] || 0;
+        const interval = wilsonInterval(observedCount, totalCards);
+
+        return {
+          rarity,
+          catalog_count: catalog[rarity] || 0,
+          configured_rate: expectedCards > 0 ? (expected[rarity] || 0) / expectedCards : 0,
+          expected_per_pack: expected[rarity] || 0,
+          observed_count: observedCount,
+          observed_rate: totalCards > 0 ? observedCount / totalCards : 0,
+          observed_per_pack: totalPacks > 0 ? observedCount / totalPacks : 0,
+          ci_low: interval.low,
+          ci_high: interval.high
+        };
+      });
+
+    return {
+      booster_id: boosterId,
+      pack_size: dropTable.pack_size,
+      alternate_chance: dropTable.alternate_chance,
+      is_default_table: dropTable.is_default,
+      total_packs: totalPacks,
+      total_cards: totalCards,
+      pity_packs: packs?.pity || 0,
+      rarities
+    };
+  }
+}
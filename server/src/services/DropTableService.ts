@@ -0,0 +1,182 @@
+import { Database } from '../utils/database.js';
+
+export const RARITIES = ['common', 'uncommon', 'rare', 'leader', 'super_rare', 'secret_rare'] as const;
+
+export type Rarity = typeof RARITIES[number];
+
+export interface DropTable {
+  booster_id: string | null;
+  pack_size: number;
+  alternate_chance: number;
+  // Poids de rareté pour chaque emplacement du booster (en pourcentage relatif)
+  slot_weights: Record<string, number>[];
+  is_default: boolean;
+  updated_at?: string;
+}
+
+interface DropTableRow {
+  booster_id: string;
+  pack_size: number;
+  alternate_chance: number;
+  slot_weights: string;
+  updated_at: string;
+}
+
+export const MIN_PACK_SIZE = 1;
+export const MAX_PACK_SIZE = 12;
+
+// Modèle de booster utilisé sans table configurée: chaque emplacement a une
+// rareté plancher garantie et des chances pondérées d'amélioration
+const DEFAULT_SLOT_TEMPLATE: Record<string, number>[] = [
+  // Emplacements 1-3: communes
+  { 'common': 100 },
+  { 'common': 100 },
+  { 'common': 100 },
+  // Emplacement 4: peu commune ou mieux
+  { 'uncommon': 80, 'rare': 12, 'leader': 4, 'super_rare': 3, 'secret_rare': 1 },
+  // Emplacement 5: rare ou mieux
+  { 'rare': 70, 'leader': 15, 'super_rare': 12, 'secret_rare': 3 }
+];
+
+const DEFAULT_PACK_SIZE = DEFAULT_SLOT_TEMPLATE.length;
+
+// Probabilité qu'une carte soit alternate (10% pour les raretés qui ont des alternates)
+const DEFAULT_ALTERNATE_CHANCE = 0.10;
+
+export class DropTableService {
+  /**
+   * Table de drop par défaut, construite à partir du modèle d'emplacements
+   */
+  static getDefaultDropTable(boosterId: string | null = null): DropTable {
+    return {
+      booster_id: boosterId,
+      pack_size: DEFAULT_PACK_SIZE,
+      alternate_chance: DEFAULT_ALTERNATE_CHANCE,
+      slot_weights: DEFAULT_SLOT_TEMPLATE.map(slot => ({ ...slot })),
+      is_default: true
+    };
+  }
+
+  /**
+   * Récupère la table configurée pour un booster, ou null si aucune
+   */
+  static async getConfiguredDropTable(boosterId: string): Promise<DropTable | null> {
+    const row = await Database.get<DropTableRow>(`
+      SELECT booster_id, pack_size, alternate_chance, slot_weights, updated_at
+      FROM booster_drop_tables
+      WHERE booster_id = ?
+    `, [boosterId]);
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      booster_id: row.booster_id,
+      pack_size: row.pack_size,
+      alternate_chance: row.alternate_chance,
+      slot_weights: JSON.parse(row.slot_weights),
+      is_default: false,
+      updated_at: row.updated_at
+    };
+  }
+
+  /**
+   * Table effectivement utilisée pour générer un booster
+   */
+  static async getDropTable(boosterId?: string | null): Promise<DropTable> {
+    if (boosterId) {
+      const configured = await this.getConfiguredDropTable(boosterId);
+      if (configured) {
+        return configured;
+      }
+    }
+
+    return this.getDefaultDropTable(boosterId || null);
+  }
+
+  /**
+   * Valide une table envoyée par un admin
+   * Retourne un message d'erreur, ou null si la table est valide
+   */
+  static validateDropTable(input: any): string | null {
+    if (!input || typeof input !== 'object') {
+      return 'Table de drop invalide';
+    }
+
+    const { pack_size, alternate_chance, slot_weights } = input;
+
+    if (!Number.isInteger(pack_size) || pack_size < MIN_PACK_SIZE || pack_size > MAX_PACK_SIZE) {
+      return `pack_size doit être un entier entre ${MIN_PACK_SIZE} et ${MAX_PACK_SIZE}`;
+    }
+
+    if (typeof alternate_chance !== 'number' || !Number.isFinite(alternate_chance) || alternate_chance < 0 || alternate_chance > 1) {
+      return 'alternate_chance doit être un nombre entre 0 et 1';
+    }
+
+    if (!Array.isArray(slot_weights) || slot_weights.length !== pack_size) {
+      return `slot_weights doit contenir exactement ${pack_size} emplacements`;
+    }
+
+    for (let i = 0; i < slot_weights.length; i++) {
+      const slot = slot_weights[i];
+      if (!slot || typeof slot !== 'object' || Array.isArray(slot)) {
+        return `Emplacement ${i + 1}: poids invalides`;
+      }
+
+      let total = 0;
+      for (const [rarity, weight] of Object.entries(slot)) {
+        if (!RARITIES.includes(rarity as Rarity)) {
+          return `Emplacement ${i + 1}: rareté inconnue "${rarity}"`;
+        }
+        if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+          return `Emplacement ${i + 1}: le poids de ${rarity} doit être un nombre positif`;
+        }
+        total += weight;
+      }
+
+      if (total <= 0) {
+        return `Emplacement ${i + 1}: au moins une rareté doit avoir un poids positif`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Crée ou remplace la table d'un booster (entrée déjà validée)
+   */
+  static async saveDropTable(
+    boosterId: string,
+    table: Pick<DropTable, 'pack_size' | 'alternate_chance' | 'slot_weights'>,
+    adminId: string
+  ): Promise<DropTable> {
+    const now = new Date().toISOString();
+
+    // Ne garder que les raretés avec un poids non nul
+    const slotWeights = table.slot_weights.map(slot =>
+      Object.fromEntries(Object.entries(slot).filter(([, weight]) => weight > 0))
+    );
+
+    await Database.run(`
+      INSERT INTO booster_drop_tables (booster_id, pack_size, alternate_chance, slot_weights, updated_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(booster_id) DO UPDATE SET
+        pack_size = excluded.pack_size,
+        alternate_chance = excluded.alternate_chance,
+        slot_weights = excluded.slot_weights,
+        updated_by = excluded.updated_by,
+        updated_at = excluded.updated_at
+    `, [boosterId, table.pack_size, table.alternate_chance, JSON.stringify(slotWeights), adminId, now, now]);
+
+    return (await this.getConfiguredDropTable(boosterId))!;
+  }
+
+  /**
+   * Supprime la table d'un booster (retour aux taux par défaut)
+   */
+  static async deleteDropTable(boosterId: string): Promise<boolean> {
+    const result = await Database.run('DELETE FROM booster_drop_tables WHERE booster_id = ?', [boosterId]);
+    return result.changes > 0;
+  }
+}
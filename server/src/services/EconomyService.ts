@@ -0,0 +1,303 @@
+import { Database } from '../utils/database.js';
+import {
+  BASE_LISTING_SLOTS,
+  DEFAULT_MARKETPLACE_TAX_RATE,
+  MAX_MARKETPLACE_TAX_RATE,
+  DEFAULT_LISTING_SLOT_PRICE,
+  DEFAULT_MAX_EXTRA_LISTING_SLOTS
+} from '../utils/economy.js';
+import { BerryLedgerService } from './BerryLedgerService.js';
+
+export const MAX_LISTING_SLOT_PRICE = 1000000;
+export const MAX_EXTRA_LISTING_SLOTS_LIMIT = 20;
+export const MAX_REPORT_DAYS = 365;
+
+export interface EconomySettings {
+  marketplace_tax_rate: number;
+  listing_slot_price: number;
+  max_extra_listing_slots: number;
+  updated_by?: string | null;
+  updated_at?: string | null;
+}
+
+export interface ListingSlots {
+  base: number;
+  extra: number;
+  total: number;
+  max_extra: number;
+  slot_price: number;
+}
+
+export interface EconomyFlow {
+  source: string;
+  amount: number;
+  operations: number;
+}
+
+export interface EconomyReport {
+  days: number;
+  minted: EconomyFlow[];
+  burned: EconomyFlow[];
+  total_minted: number;
+  total_burned: number;
+  net: number;
+  circulation: {
+    balances: number;
+    held: number;
+  };
+}
+
+// Sources de création de Berrys tracées dans le journal d'audit avant l'ouverture du registre: [source, action, champ du montant, condition]
+const AUDIT_MINT_SOURCES: Array<[string, string, string, string]> = [
+  ['daily_reward', 'berrys_daily_reward', '$.berrys_earned', ''],
+  ['notification_reward', 'berrys_earned', '$.berrys_earned', 'AND json_extract(details, \'$.source\') = \'notification_reward\''],
+  ['island_reward', 'island_reward_claimed', '$.reward_value', 'AND json_extract(details, \'$.reward_type\') = \'berrys\''],
+  ['card_sale', 'card_sold', '$.berrysEarned', '']
+];
+
+// Sources de destruction de Berrys tracées dans le journal d'audit
+const AUDIT_BURN_SOURCES: Array<[string, string, string, string]> = [
+  ['booster_purchase', 'booster_purchased', '$.berrysSpent', '']
+];
+
+export class EconomyService {
+  /**
+   * Paramètres courants de l'économie (valeurs par défaut si la ligne est absente)
+   */
+  static async getSettings(): Promise<EconomySettings> {
+    const settings = await Database.get<EconomySettings>(`
+      SELECT marketplace_tax_rate, listing_slot_price, max_extra_listing_slots, updated_by, updated_at
+      FROM economy_settings
+      WHERE id = 1
+    `);
+
+    return settings || {
+      marketplace_tax_rate: DEFAULT_MARKETPLACE_TAX_RATE,
+      listing_slot_price: DEFAULT_LISTING_SLOT_PRICE,
+      max_extra_listing_slots: DEFAULT_MAX_EXTRA_LISTING_SLOTS
+    };
+  }
+
+  /**
+   * Valider des paramètres soumis par un admin
+   * Retourne un message d'erreur, ou null si les paramètres sont valides
+   */
+  static validateSettings(input: any): string | null {
+    if (!input || typeof input !== 'object') {
+      return 'Paramètres invalides';
+    }
+
+    const { marketplace_tax_rate, listing_slot_price, max_extra_listing_slots } = input;
+
+    if (typeof marketplace_tax_rate !== 'number' || isNaN(marketplace_tax_rate)
+      || marketplace_tax_rate < 0 || marketplace_tax_rate > MAX_MARKETPLACE_TAX_RATE) {
+      return `La taxe doit être comprise entre 0 et ${MAX_MARKETPLACE_TAX_RATE * 100}%`;
+    }
+
+    if (!Number.isInteger(listing_slot_price) || listing_slot_price < 1 || listing_slot_price > MAX_LISTING_SLOT_PRICE) {
+      return `Le prix d'un emplacement doit être un entier entre 1 et ${MAX_LISTING_SLOT_PRICE} Berrys`;
+    }
+
+    if (!Number.isInteger(max_extra_listing_slots) || max_extra_listing_slots < 0 || max_extra_listing_slots > MAX_EXTRA_LISTING_SLOTS_LIMIT) {
+      return `Le nombre d'emplacements supplémentaires doit être un entier entre 0 et ${MAX_EXTRA_LISTING_SLOTS_LIMIT}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Enregistrer les paramètres de l'économie
+   */
+  static async saveSettings(settings: EconomySettings, adminId: string): Promise<EconomySettings> {
+    await Database.run(`
+      INSERT INTO economy_settings (id, marketplace_tax_rate, listing_slot_price, max_extra_listing_slots, updated_by, updated_at)
+      VALUES (1, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        marketplace_tax_rate = excluded.marketplace_tax_rate,
+        listing_slot_price = excluded.listing_slot_price,
+        max_extra_listing_slots = excluded.max_extra_listing_slots,
+        updated_by = excluded.updated_by,
+        updated_at = excluded.updated_at
+    `, [
+      settings.marketplace_tax_rate,
+      settings.listing_slot_price,
+      settings.max_extra_listing_slots,
+      adminId,
+      new Date().toISOString()
+    ]);
+
+    return await this.getSettings();
+  }
+
+  /**
+   * Prélever la taxe de vente sur le vendeur, déjà crédité du prix de vente
+   * Retourne le montant prélevé
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async collectSalesTax(sellerId: string, price: number, referenceId: string): Promise<number> {
+    const { marketplace_tax_rate } = await this.getSettings();
+    const tax = Math.floor(price * marketplace_tax_rate);
+    if (tax <= 0) return 0;
+
+    const debit = await BerryLedgerService.debit(sellerId, tax, 'marketplace_tax', referenceId);
+    if (debit === null) {
+      throw new Error('Transaction refusée: taxe de vente impossible à prélever');
+    }
+
+    return tax;
+  }
+
+  /**
+   * Emplacements d'annonces d'un joueur
+   */
+  static async getListingSlots(userId: string): Promise<ListingSlots> {
+    const [settings, user] = await Promise.all([
+      this.getSettings(),
+      Database.get<{ extra_listing_slots: number | null }>('SELECT extra_listing_slots FROM users WHERE id = ?', [userId])
+    ]);
+
+    const extra = user?.extra_listing_slots || 0;
+
+    return {
+      base: BASE_LISTING_SLOTS,
+      extra,
+      total: BASE_LISTING_SLOTS + extra,
+      max_extra: settings.max_extra_listing_slots,
+      slot_price: settings.listing_slot_price
+    };
+  }
+
+  /**
+   * Acheter un emplacement d'annonce supplémentaire (Berrys détruits)
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async purchaseListingSlot(userId: string): Promise<ListingSlots> {
+    const slots = await this.getListingSlots(userId);
+
+    if (slots.extra >= slots.max_extra) {
+      throw new Error(`Vous avez déjà acheté le maximum de ${slots.max_extra} emplacements supplémentaires`);
+    }
+
+    // Garde contre un achat concurrent
+    const update = await Database.run(`
+      UPDATE users
+      SET extra_listing_slots = COALESCE(extra_listing_slots, 0) + 1
+      WHERE id = ? AND COALESCE(extra_listing_slots, 0) = ?
+    `, [userId, slots.extra]);
+
+    if (update.changes === 0) {
+      throw new Error('L\'achat a été modifié entre-temps, veuillez réessayer');
+    }
+
+    const debit = await BerryLedgerService.debit(userId, slots.slot_price, 'listing_slot');
+    if (debit === null) {
+      throw new Error(`Berrys insuffisants. Requis: ${slots.slot_price}`);
+    }
+
+    return { ...slots, extra: slots.extra + 1, total: slots.total + 1 };
+  }
+
+  /**
+   * Berrys créés et détruits par source sur les derniers jours
+   * Source: registre berry_ledger, complété avant son ouverture par le journal d'audit
+   * et l'historique des quêtes et succès
+   */
+  static async getEconomyReport(days: number): Promise<EconomyReport> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const opening = await Database.get<{ started_at: string | null }>(`
+      SELECT MIN(created_at) as started_at FROM berry_ledger WHERE source = 'opening_balance'
+    `);
+    const ledgerStart = opening?.started_at || null;
+    const hasLegacyPeriod = !!ledgerStart && since < ledgerStart;
+
+    const auditFlows = async (sources: Array<[string, string, string, string]>): Promise<EconomyFlow[]> => {
+      if (!hasLegacyPeriod) return [];
+
+      return await Promise.all(sources.map(async ([source, action, field, condition]) => {
+        const row = await Database.get<{ amount: number | null; operations: number }>(`
+          SELECT SUM(CAST(json_extract(details, '${field}') AS INTEGER)) as amount, COUNT(*) as operations
+          FROM audit_logs
+          WHERE action = ? AND severity = 'info'
+            AND datetime(created_at) >= datetime(?) AND datetime(created_at) < datetime(?) ${condition}
+        `, [action, since, ledgerStart]);
+        return { source, amount: row?.amount || 0, operations: row?.operations || 0 };
+      }));
+    };
+
+    const legacyFlow = async (source: string, sql: string): Promise<EconomyFlow[]> => {
+      if (!hasLegacyPeriod) return [];
+
+      const row = await Database.get<{ amount: number | null; operations: number }>(sql, [since, ledgerStart]);
+      return [{ source, amount: row?.amount || 0, operations: row?.operations || 0 }];
+    };
+
+    const [auditMinted, auditBurned, achievements, quests, ledger, balances, heldOrders, heldBids] = await Promise.all([
+      auditFlows(AUDIT_MINT_SOURCES),
+      auditFlows(AUDIT_BURN_SOURCES),
+      legacyFlow('achievement', `
+        SELECT SUM(a.reward_berrys) as amount, COUNT(*) as operations
+        FROM user_achievements ua
+        JOIN achievements a ON a.id = ua.achievement_id
+        WHERE ua.is_claimed = 1 AND datetime(ua.claimed_at) >= datetime(?) AND datetime(ua.claimed_at) < datetime(?)
+      `),
+      legacyFlow('quest', `
+        SELECT SUM(reward_berrys) as amount, COUNT(*) as operations
+        FROM quest_history
+        WHERE datetime(completed_at) >= datetime(?) AND datetime(completed_at) < datetime(?)
+      `),
+      Database.all<{ account: 'mint' | 'burn'; source: string; amount: number; operations: number }>(`
+        SELECT account, source, SUM(amount) as amount, COUNT(*) as operations
+        FROM berry_ledger
+        WHERE account IN ('mint', 'burn') AND created_at >= ?
+        GROUP BY account, source
+      `, [since]),
+      Database.get<{ total: number | null }>('SELECT SUM(berrys) as total FROM users'),
+      Database.get<{ total: number | null }>('SELECT SUM(max_price) as total FROM marketplace_buy_orders WHERE status = \'active\''),
+      Database.get<{ total: number | null }>('SELECT SUM(current_bid) as total FROM marketplace_listings WHERE status = \'active\' AND current_bid IS NOT NULL')
+    ]);
+
+    // Regrouper par source les flux du registre et ceux d'avant son ouverture
+    const mergeFlows = (flows: EconomyFlow[]): EconomyFlow[] => {
+      const bySource = new Map<string, EconomyFlow>();
+      for (const flow of flows) {
+        const existing = bySource.get(flow.source);
+        bySource.set(flow.source, existing
+          ? { source: flow.source, amount: existing.amount + flow.amount, operations: existing.operations + flow.operations }
+          : flow);
+      }
+      return Array.from(bySource.values()).filter(flow => flow.operations > 0);
+    };
+
+    // Écritures de contrepartie: négatives sur le compte mint, positives sur le compte burn
+    const minted = mergeFlows([
+      ...auditMinted,
+      ...achievements,
+      ...quests,
+      ...ledger.filter(row => row.account === 'mint')
+        .map(row => ({ source: row.source, amount: -row.amount, operations: row.operations }))
+    ]);
+
+    const burned = mergeFlows([
+      ...auditBurned,
+      ...ledger.filter(row => row.account === 'burn')
+        .map(row => ({ source: row.source, amount: row.amount, operations: row.operations }))
+    ]);
+
+    const totalMinted = minted.reduce((sum, flow) => sum + flow.amount, 0);
+    const totalBurned = burned.reduce((sum, flow) => sum + flow.amount, 0);
+
+    return {
+      days,
+      minted: minted.sort((a, b) => b.amount - a.amount),
+      burned: burned.sort((a, b) => b.amount - a.amount),
+      total_minted: totalMinted,
+      total_burned: totalBurned,
+      net: totalMinted - totalBurned,
+      circulation: {
+        balances: balances?.total || 0,
+        held: (heldOrders?.total || 0) + (heldBids?.total || 0)
+      }
+    };
+  }
+}
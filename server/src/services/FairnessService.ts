@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import { Database } from '../utils/database.js';
+import { BoosterService, CardPool } from './BoosterService.js';
+import { DropTable, DropTableService } from './DropTableService.js';
+import { PITY_RARITIES } from './PityService.js';
+import {
+  FairRandom,
+  generateClientSeed,
+  generateServerSeed,
+  hashServerSeed
+} from '../utils/provablyFair.js';
+
+export interface SeedPair {
+  user_id: string;
+  server_seed: string;
+  server_seed_hash: string;
+  client_seed: string;
+  nonce: number;
+}
+
+// Seeds utilisés pour une ouverture, révélés au joueur après le tirage
+export interface UsedSeeds {
+  server_seed: string;
+  server_seed_hash: string;
+  client_seed: string;
+  nonce: number;
+  next_server_seed_hash: string;
+}
+
+export interface OpeningVerification {
+  opening_id: string;
+  booster_id: string;
+  opened_at: string;
+  server_seed: string;
+  server_seed_hash: string;
+  client_seed: string;
+  nonce: number;
+  pity_applied: boolean;
+  // false pour les ouvertures antérieures à l'enregistrement de la table (rejouées avec la table actuelle)
+  drop_table_recorded: boolean;
+  // false pour les ouvertures antérieures à l'enregistrement des cartes tirables (rejouées avec le catalogue actuel)
+  card_pool_recorded: boolean;
+  hash_valid: boolean;
+  recorded_cards: string[];
+  derived_cards: string[];
+  matches: boolean;
+}
+
+interface OpeningRow {
+  id: string;
+  booster_id: string;
+  opened_at: string;
+  cards_obtained: string | null;
+  server_seed: string | null;
+  server_seed_hash: string;
+  client_seed: string;
+  nonce: number | null;
+  pity_applied: number | null;
+  drop_table: string | null;
+  card_pool: string | null;
+}
+
+const CLIENT_SEED_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export class FairnessService {
+  /**
+   * Récupère la paire de seeds courante d'un utilisateur (créée au premier appel)
+   */
+  static async getSeedPair(userId: string): Promise<SeedPair> {
+    const existing = await Database.get<SeedPair>(
+      'SELECT user_id, server_seed, server_seed_hash, client_seed, nonce FROM user_seed_pairs WHERE user_id = ?',
+      [userId]
+    );
+
+    if (existing) {
+      return existing;
+    }
+
+    const serverSeed = generateServerSeed();
+    const pair: SeedPair = {
+      user_id: userId,
+      server_seed: serverSeed,
+      server_seed_hash: hashServerSeed(serverSeed),
+      client_seed: generateClientSeed(),
+      nonce: 0
+    };
+
+    await Database.run(`
+      INSERT INTO user_seed_pairs (user_id, server_seed, server_seed_hash, client_seed, nonce)
+      VALUES (?, ?, ?, ?, ?)
+    `, [pair.user_id, pair.server_seed, pair.server_seed_hash, pair.client_seed, pair.nonce]);
+
+    return pair;
+  }
+
+  /**
+   * Valide un seed client choisi par le joueur
+   */
+  static isValidClientSeed(clientSeed: unknown): clientSeed is string {
+    return typeof clientSeed === 'string' && CLIENT_SEED_PATTERN.test(clientSeed);
+  }
+
+  /**
+   * Change le seed client (le seed serveur engagé ne change pas)
+   */
+  static async setClientSeed(userId: string, clientSeed: string): Promise<SeedPair> {
+    if (!this.isValidClientSeed(clientSeed)) {
+      throw new Error('Seed client invalide (1-64 caractères alphanumériques, - ou _)');
+    }
+
+    await this.getSeedPair(userId);
+    await Database.run(`
+      UPDATE user_seed_pairs
+      SET client_seed = ?, updated_at = ?
+      WHERE user_id = ?
+    `, [clientSeed, new Date().toISOString(), userId]);
+
+    return await this.getSeedPair(userId);
+  }
+
+  /**
+   * Consomme la paire de seeds courante pour une ouverture.
+   * Le seed serveur utilisé est ensuite remplacé par un nouveau seed engagé,
+   * ce qui permet de le révéler sans compromettre les ouvertures suivantes.
+   * Doit être appelé à l'intérieur de la transaction d'ouverture.
+   */
+  static async consumeSeedPair(userId: string): Promise<{ rng: FairRandom; seeds: UsedSeeds }> {
+    const pair = await this.getSeedPair(userId);
+    const nextServerSeed = generateServerSeed();
+    const nextServerSeedHash = hashServerSeed(nextServerSeed);
+
+    const result = await Database.run(`
+      UPDATE user_seed_pairs
+      SET server_seed = ?, server_seed_hash = ?, nonce = nonce + 1, updated_at = ?
+      WHERE user_id = ? AND nonce = ?
+    `, [nextServerSeed, nextServerSeedHash, new Date().toISOString(), userId, pair.nonce]);
+
+    if (result.changes === 0) {
+      throw new Error('Seed déjà utilisé, veuillez réessayer');
+    }
+
+    return {
+      rng: new FairRandom(pair.server_seed, pair.client_seed, pair.nonce),
+      seeds: {
+        server_seed: pair.server_seed,
+        server_seed_hash: pair.server_seed_hash,
+        client_seed: pair.client_seed,
+        nonce: pair.nonce,
+        next_server_seed_hash: nextServerSeedHash
+      }
+    };
+  }
+
+  /**
+   * Enregistre les cartes tirables d'une ouverture et retourne leur hash
+   * Un pool identique (booster inchangé depuis une ouverture précédente) n'est stocké qu'une fois.
+   * Doit être appelé à l'intérieur de la transaction d'ouverture.
+   */
+  static async recordCardPool(pool: CardPool): Promise<string> {
+    const cardPool = JSON.stringify(pool);
+    const hash = crypto.createHash('sha256').update(cardPool).digest('hex');
+
+    await Database.run(
+      'INSERT OR IGNORE INTO booster_card_pools (hash, card_pool) VALUES (?, ?)',
+      [hash, cardPool]
+    );
+
+    return hash;
+  }
+
+  /**
+   * Rejoue une ouverture à partir de ses seeds, de la table de drop et des cartes tirables
+   * en vigueur lors du tirage, puis compare avec les cartes enregistrées
+   */
+  static async verifyOpening(openingId: string, userId: string): Promise<OpeningVerification | null> {
+    const opening = await Database.get<OpeningRow>(`
+      SELECT bo.id, bo.booster_id, bo.opened_at, bo.cards_obtained, bo.server_seed, bo.server_seed_hash,
+        bo.client_seed, bo.nonce, bo.pity_applied, bo.drop_table, bcp.card_pool
+      FROM booster_openings bo
+      LEFT JOIN booster_card_pools bcp ON bcp.hash = bo.card_pool_hash
+      WHERE bo.id = ? AND bo.user_id = ?
+    `, [openingId, userId]);
+
+    if (!opening || !opening.server_seed || opening.nonce === null) {
+      return null;
+    }
+    const nonce = opening.nonce;
+
+    const recordedCards: string[] = opening.cards_obtained ? JSON.parse(opening.cards_obtained) : [];
+    const dropTable: DropTable | undefined = opening.drop_table ? JSON.parse(opening.drop_table) : undefined;
+    const cardPool: CardPool | undefined = opening.card_pool ? JSON.parse(opening.card_pool) : undefined;
+    const rng = new FairRandom(opening.server_seed, opening.client_seed, nonce);
+    const guaranteedRarities = opening.pity_applied ? PITY_RARITIES : undefined;
+
+    // Les anciennes ouvertures sont rejouées avec le catalogue actuel
+    const derivedCards = cardPool
+      ? BoosterService.drawCardIds(
+        cardPool,
+        dropTable || await DropTableService.getDropTable(opening.booster_id),
+        rng,
+        guaranteedRarities
+      )
+      : (await BoosterService.generateBoosterCards(opening.booster_id, rng, guaranteedRarities, dropTable))
+        .map(card => card.id);
+
+    return {
+      opening_id: opening.id,
+      booster_id: opening.booster_id,
+      opened_at: opening.opened_at,
+      server_seed: opening.server_seed,
+      server_seed_hash: opening.server_seed_hash,
+      client_seed: opening.client_seed,
+      nonce,
+      pity_applied: !!opening.pity_applied,
+      drop_table_recorded: !!dropTable,
+      card_pool_recorded: !!cardPool,
+      hash_valid: hashServerSeed(opening.server_seed) === opening.server_seed_hash,
+      recorded_cards: recordedCards,
+      derived_cards: derivedCards,
+      matches: derivedCards.length === recordedCards.length &&
+        derivedCards.every((cardId, index) => cardId === recordedCards[index])
+    };
+  }
+}
@@ -0,0 +1,244 @@
+import { Database } from '../utils/database.js';
+import { MarketplaceListing, MarketplaceListingModel } from '../models/MarketplaceListing.js';
+import { CardPriceHistoryModel } from '../models/CardPriceHistory.js';
+import { CollectionTransferService } from './CollectionTransferService.js';
+import { EconomyService } from './EconomyService.js';
+import { BerryLedgerService } from './BerryLedgerService.js';
+import { NotificationService } from './NotificationService.js';
+import { AuditLogger, AuditAction } from '../utils/auditLogger.js';
+
+// Configuration des enchères
+export const MIN_AUCTION_DURATION_HOURS = 1;
+export const MAX_AUCTION_DURATION_HOURS = 168; // 7 jours
+const MIN_BID_INCREMENT_RATE = 0.05; // +5% minimum par rapport à l'enchère actuelle
+const SWEEP_INTERVAL_MS = 30 * 1000;
+
+export interface BidResult {
+  listing: MarketplaceListing;
+  amount: number;
+  settled: boolean;
+}
+
+export interface AuctionSettlement {
+  listingId: string;
+  sellerId: string;
+  cardId: string;
+  winnerId: string | null;
+  finalPrice: number | null;
+  tax: number;
+}
+
+export class MarketplaceAuctionService {
+  private static sweeper: NodeJS.Timeout | null = null;
+
+  /**
+   * Montant minimum de la prochaine enchère
+   */
+  static getMinimumBid(listing: MarketplaceListing): number {
+    if (!listing.current_bid) return listing.price;
+    return listing.current_bid + Math.max(1, Math.ceil(listing.current_bid * MIN_BID_INCREMENT_RATE));
+  }
+
+  /**
+   * Placer une enchère: le montant est retenu sur le solde de l'enchérisseur
+   * et l'enchérisseur précédent est remboursé.
+   * Une enchère atteignant le prix d'achat immédiat clôture la vente.
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async placeBid(listingId: string, bidderId: string, requestedAmount: number): Promise<BidResult> {
+    const listing = await MarketplaceListingModel.findById(listingId);
+
+    if (!listing) {
+      throw new Error('Annonce non trouvée');
+    }
+
+    if (listing.listing_type !== 'auction') {
+      throw new Error('Cette annonce n\'est pas une enchère');
+    }
+
+    if (listing.status !== 'active' || !listing.ends_at || listing.ends_at <= new Date().toISOString()) {
+      throw new Error('Cette enchère est terminée');
+    }
+
+    if (listing.seller_id === bidderId) {
+      throw new Error('Vous ne pouvez pas enchérir sur votre propre annonce');
+    }
+
+    // Une enchère au-delà du prix d'achat immédiat est ramenée à ce prix
+    const reachesBuyout = !!listing.buyout_price && requestedAmount >= listing.buyout_price;
+    const amount = reachesBuyout ? listing.buyout_price! : requestedAmount;
+
+    const minimumBid = this.getMinimumBid(listing);
+    if (amount < minimumBid) {
+      throw new Error(`L'enchère minimum est de ${minimumBid} Berrys`);
+    }
+
+    // 1. Rembourser l'enchérisseur précédent (y compris soi-même en cas de surenchère)
+    if (listing.current_bidder_id && listing.current_bid) {
+      await BerryLedgerService.credit(listing.current_bidder_id, listing.current_bid, 'auction_refund', listingId, 'escrow');
+
+      await Database.run(`
+        UPDATE marketplace_bids
+        SET status = 'outbid'
+        WHERE listing_id = ? AND status = 'active'
+      `, [listingId]);
+    }
+
+    // 2. Retenir le montant de la nouvelle enchère
+    const debit = await BerryLedgerService.debit(bidderId, amount, 'auction_bid', listingId, 'escrow');
+    if (debit === null) {
+      throw new Error(`Berrys insuffisants. Requis: ${amount}`);
+    }
+
+    // 3. Enregistrer l'enchère
+    const bidId = `bid_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    await Database.run(`
+      INSERT INTO marketplace_bids (id, listing_id, bidder_id, amount, status, created_at)
+      VALUES (?, ?, ?, ?, 'active', ?)
+    `, [bidId, listingId, bidderId, amount, new Date().toISOString()]);
+
+    // 4. Mettre à jour l'enchère courante (garde contre une enchère concurrente)
+    const update = await Database.run(`
+      UPDATE marketplace_listings
+      SET current_bid = ?, current_bidder_id = ?
+      WHERE id = ? AND status = 'active' AND COALESCE(current_bid, 0) = ?
+    `, [amount, bidderId, listingId, listing.current_bid || 0]);
+
+    if (update.changes === 0) {
+      throw new Error('L\'enchère a été modifiée entre-temps, veuillez réessayer');
+    }
+
+    // 5. Prix d'achat immédiat atteint: clôturer la vente
+    if (reachesBuyout) {
+      await this.settleAuction(listingId);
+    }
+
+    const updated = await MarketplaceListingModel.findById(listingId);
+    return { listing: updated!, amount, settled: reachesBuyout };
+  }
+
+  /**
+   * Clôturer une enchère: le meilleur enchérisseur reçoit la carte et le vendeur les Berrys retenus (moins la taxe de vente).
+   * Sans enchère, l'exemplaire sous séquestre est rendu au vendeur.
+   * Le vendeur est prévenu par une notification dans les deux cas.
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async settleAuction(listingId: string): Promise<AuctionSettlement | null> {
+    const listing = await MarketplaceListingModel.findById(listingId);
+    if (!listing || listing.listing_type !== 'auction' || listing.status !== 'active') {
+      return null;
+    }
+
+    if (!listing.current_bidder_id || !listing.current_bid) {
+      await MarketplaceListingModel.expire(listingId);
+      await NotificationService.notifyListingExpired(listing.seller_id, listing.card_id);
+      return {
+        listingId,
+        sellerId: listing.seller_id,
+        cardId: listing.card_id,
+        winnerId: null,
+        finalPrice: null,
+        tax: 0
+      };
+    }
+
+    // 1. Verser au vendeur le montant retenu sur le gagnant
+    await BerryLedgerService.credit(listing.seller_id, listing.current_bid, 'auction_sale', listingId, 'escrow');
+
+    // 2. Retirer l'exemplaire sous séquestre de la collection du vendeur
+    const consumed = await MarketplaceListingModel.consumeReservedCard(listing.seller_id, listing.card_id);
+    if (!consumed) {
+      throw new Error('Clôture refusée: exemplaire du vendeur introuvable');
+    }
+
+    // 3. Ajouter la carte à la collection du gagnant
+    await CollectionTransferService.addCard(listing.current_bidder_id, listing.card_id);
+
+    // 4. Marquer l'annonce comme vendue et l'enchère comme gagnante
+    await MarketplaceListingModel.markAsSold(listingId, listing.current_bidder_id);
+    await Database.run(`
+      UPDATE marketplace_bids
+      SET status = 'won'
+      WHERE listing_id = ? AND status = 'active'
+    `, [listingId]);
+
+    // 5. Enregistrer le prix de vente
+    await CardPriceHistoryModel.record({
+      card_id: listing.card_id,
+      price: listing.current_bid,
+      source: 'auction',
+      reference_id: listingId,
+      seller_id: listing.seller_id,
+      buyer_id: listing.current_bidder_id
+    });
+
+    // 6. Prélever la taxe de vente et prévenir le vendeur
+    const tax = await EconomyService.collectSalesTax(listing.seller_id, listing.current_bid, listingId);
+    await NotificationService.notifyListingSold(listing.seller_id, listing.card_id, listing.current_bid, tax);
+
+    return {
+      listingId,
+      sellerId: listing.seller_id,
+      cardId: listing.card_id,
+      winnerId: listing.current_bidder_id,
+      finalPrice: listing.current_bid,
+      tax
+    };
+  }
+
+  /**
+   * Clôturer toutes les enchères arrivées à échéance
+   * Chaque enchère est réglée dans sa propre transaction
+   */
+  static async settleExpiredAuctions(): Promise<number> {
+    const expired = await Database.all<{ id: string }>(`
+      SELECT id FROM marketplace_listings
+      WHERE listing_type = 'auction' AND status = 'active' AND ends_at <= ?
+    `, [new Date().toISOString()]);
+
+    let settledCount = 0;
+
+    for (const { id } of expired) {
+      try {
+        let settlement: AuctionSettlement | null = null;
+        await Database.transaction(async () => {
+          settlement = await this.settleAuction(id);
+        });
+
+        if (settlement) {
+          settledCount++;
+          const { sellerId, ...details } = settlement as AuctionSettlement;
+          await AuditLogger.logSuccess(AuditAction.MARKETPLACE_AUCTION_SETTLED, sellerId, details);
+        }
+      } catch (error) {
+        console.error(`Erreur lors de la clôture de l'enchère ${id}:`, error);
+      }
+    }
+
+    return settledCount;
+  }
+
+  /**
+   * Démarrer la clôture périodique des enchères expirées
+   */
+  static startSweeper(): void {
+    if (this.sweeper) return;
+
+    this.sweeper = setInterval(() => {
+      this.settleExpiredAuctions().catch(error => {
+        console.error('Erreur lors de la clôture des enchères:', error);
+      });
+    }, SWEEP_INTERVAL_MS);
+    this.sweeper.unref();
+  }
+
+  /**
+   * Arrêter la clôture périodique des enchères
+   */
+  static stopSweeper(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
+  }
+}
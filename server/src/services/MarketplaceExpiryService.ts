@@ -0,0 +1,79 @@
+import { Database } from '../utils/database.js';
+import { MarketplaceListingModel } from '../models/MarketplaceListing.js';
+import { NotificationService } from './NotificationService.js';
+import { AuditLogger, AuditAction } from '../utils/auditLogger.js';
+
+// Durées de mise en vente proposées pour les annonces à prix fixe
+export const LISTING_DURATIONS_DAYS = [1, 3, 7];
+export const DEFAULT_LISTING_DURATION_DAYS = 7;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class MarketplaceExpiryService {
+  private static sweeper: NodeJS.Timeout | null = null;
+
+  /**
+   * Date d'expiration d'une annonce à prix fixe mise en vente maintenant
+   */
+  static getExpiryDate(durationDays: number): string {
+    return new Date(Date.now() + durationDays * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  /**
+   * Expirer les annonces à prix fixe échues: l'exemplaire sous séquestre est rendu au vendeur, qui est prévenu
+   * Chaque annonce est clôturée dans sa propre transaction
+   */
+  static async expireListings(): Promise<number> {
+    const expired = await MarketplaceListingModel.findExpiredFixedListings(new Date().toISOString());
+
+    let expiredCount = 0;
+
+    for (const listing of expired) {
+      try {
+        let closed = false;
+        await Database.transaction(async () => {
+          closed = await MarketplaceListingModel.expire(listing.id);
+          if (closed) {
+            await NotificationService.notifyListingExpired(listing.seller_id, listing.card_id);
+          }
+        });
+
+        if (closed) {
+          expiredCount++;
+          await AuditLogger.logSuccess(AuditAction.MARKETPLACE_LISTING_EXPIRED, listing.seller_id, {
+            listingId: listing.id,
+            cardId: listing.card_id,
+            price: listing.price
+          });
+        }
+      } catch (error) {
+        console.error(`Erreur lors de l'expiration de l'annonce ${listing.id}:`, error);
+      }
+    }
+
+    return expiredCount;
+  }
+
+  /**
+   * Démarrer l'expiration périodique des annonces
+   */
+  static startSweeper(): void {
+    if (this.sweeper) return;
+
+    this.sweeper = setInterval(() => {
+      this.expireListings().catch(error => {
+        console.error('Erreur lors de l\'expiration des annonces:', error);
+      });
+    }, SWEEP_INTERVAL_MS);
+    this.sweeper.unref();
+  }
+
+  /**
+   * Arrêter l'expiration périodique des annonces
+   */
+  static stopSweeper(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { Database } from '../utils/database.js';
+import { MarketplaceListing, MarketplaceListingModel } from '../models/MarketplaceListing.js';
+import { MarketplaceBuyOrder, MarketplaceBuyOrderModel } from '../models/MarketplaceBuyOrder.js';
+import { CardPriceHistoryModel } from '../models/CardPriceHistory.js';
+import { CollectionTransferService } from './CollectionTransferService.js';
+import { EconomyService } from './EconomyService.js';
+import { BerryLedgerService } from './BerryLedgerService.js';
+import { NotificationService } from './NotificationService.js';
+
+export interface BuyOrderFill {
+  order: MarketplaceBuyOrder;
+  sellerId: string;
+  price: number;
+  tax: number;
+}
+
+export interface ListingMatch {
+  listing: MarketplaceListing;
+  buyerId: string;
+  price: number;
+  tax: number;
+}
+
+/**
+ * Rapprochement entre annonces à prix fixe (offre) et ordres d'achat (demande).
+ * Une transaction s'exécute toujours au prix de l'ordre déjà présent dans le carnet.
+ * La taxe de vente est prélevée sur le vendeur.
+ * Toutes les méthodes doivent être appelées à l'intérieur d'une transaction.
+ */
+export class MarketplaceOrderBookService {
+  /**
+   * Vendre une annonce à prix fixe à un acheteur
+   * Retourne la taxe prélevée sur le vendeur
+   */
+  static async executeListingPurchase(listing: MarketplaceListing, buyerId: string): Promise<number> {
+    // 1. Transférer les Berrys de l'acheteur au vendeur
+    const paid = await BerryLedgerService.transfer(buyerId, listing.seller_id, listing.price, 'marketplace_purchase', listing.id);
+    if (!paid) {
+      throw new Error('Transaction refusée: Berrys insuffisants');
+    }
+
+    // 2. Retirer l'exemplaire sous séquestre de la collection du vendeur
+    const sellerUpdate = await MarketplaceListingModel.consumeReservedCard(listing.seller_id, listing.card_id);
+    if (!sellerUpdate) {
+      throw new Error('Transaction refusée: exemplaire du vendeur introuvable');
+    }
+
+    // 3. Ajouter la carte à la collection de l'acheteur
+    await CollectionTransferService.addCard(buyerId, listing.card_id);
+
+    // 4. Marquer l'annonce comme vendue et enregistrer le prix
+    await MarketplaceListingModel.markAsSold(listing.id, buyerId);
+    await CardPriceHistoryModel.record({
+      card_id: listing.card_id,
+      price: listing.price,
+      source: 'listing',
+      reference_id: listing.id,
+      seller_id: listing.seller_id,
+      buyer_id: buyerId
+    });
+
+    // 5. Prélever la taxe de vente et prévenir le vendeur
+    const tax = await EconomyService.collectSalesTax(listing.seller_id, listing.price, listing.id);
+    await NotificationService.notifyListingSold(listing.seller_id, listing.card_id, listing.price, tax);
+
+    return tax;
+  }
+
+  /**
+   * Servir un ordre d'achat avec un exemplaire disponible du vendeur
+   * Les Berrys de l'ordre sont déjà retenus: ils sont versés au vendeur
+   */
+  static async fillBuyOrder(orderId: string, sellerId: string): Promise<BuyOrderFill> {
+    const order = await MarketplaceBuyOrderModel.findById(orderId);
+
+    if (!order || order.status !== 'active') {
+      throw new Error('Cet ordre d\'achat n\'est plus disponible');
+    }
+
+    if (order.buyer_id === sellerId) {
+      throw new Error('Vous ne pouvez pas servir votre propre ordre d\'achat');
+    }
+
+    const card = await Database.get<{ is_active: number }>('SELECT is_active FROM cards WHERE id = ?', [order.card_id]);
+    if (!card || !card.is_active) {
+      throw new Error('Cette carte ne peut plus être vendue');
+    }
+
+    // 1. Retirer l'exemplaire du vendeur (il en garde toujours au moins un, hors séquestre)
+    const removed = await CollectionTransferService.removeCard(sellerId, order.card_id);
+    if (!removed) {
+      throw new Error('Vous devez posséder au moins 2 exemplaires disponibles de cette carte pour la vendre');
+    }
+
+    // 2. Clôturer l'ordre (garde contre une exécution concurrente)
+    const closed = await MarketplaceBuyOrderModel.close(orderId, 'filled', sellerId);
+    if (!closed) {
+      throw new Error('Cet ordre d\'achat n\'est plus disponible');
+    }
+
+    // 3. Verser au vendeur les Berrys retenus sur l'acheteur
+    await BerryLedgerService.credit(sellerId, order.max_price, 'buy_order_fill', order.id, 'escrow');
+
+    // 4. Ajouter la carte à la collection de l'acheteur et enregistrer le prix
+    await CollectionTransferService.addCard(order.buyer_id, order.card_id);
+    await CardPriceHistoryModel.record({
+      card_id: order.card_id,
+      price: order.max_price,
+      source: 'buy_order',
+      reference_id: order.id,
+      seller_id: sellerId,
+      buyer_id: order.buyer_id
+    });
+
+    // 5. Prélever la taxe de vente
+    const tax = await EconomyService.collectSalesTax(sellerId, order.max_price, order.id);
+
+    return { order, sellerId, price: order.max_price, tax };
+  }
+
+  /**
+   * Exécuter une nouvelle annonce contre le meilleur ordre d'achat compatible
+   * Retourne null si aucun ordre ne couvre le prix demandé
+   */
+  static async matchIncomingListing(sellerId: string, cardId: string, price: number): Promise<BuyOrderFill | null> {
+    const order = await MarketplaceBuyOrderModel.findBestOpenOrder(cardId, price, sellerId);
+    if (!order) return null;
+
+    return await this.fillBuyOrder(order.id, sellerId);
+  }
+
+  /**
+   * Exécuter un nouvel ordre d'achat contre l'annonce à prix fixe la moins chère compatible
+   * Retourne null si aucune annonce n'est au prix maximum ou en dessous
+   */
+  static async matchIncomingBuyOrder(buyerId: string, cardId: string, maxPrice: number): Promise<ListingMatch | null> {
+    const listing = await Database.get<MarketplaceListing>(`
+      SELECT * FROM marketplace_listings
+      WHERE card_id = ? AND status = 'active' AND listing_type = 'fixed' AND price <= ? AND seller_id != ?
+        AND (ends_at IS NULL OR ends_at > ?)
+      ORDER BY price ASC, created_at ASC
+      LIMIT 1
+    `, [cardId, maxPrice, buyerId, new Date().toISOString()]);
+
+    if (!listing) return null;
+
+    const tax = await this.executeListingPurchase(listing, buyerId);
+    return { listing, buyerId, price: listing.price, tax };
+  }
+}
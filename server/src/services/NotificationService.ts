@@ -0,0 +1,49 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../utils/database.js';
+
+export class NotificationService {
+  /**
+   * Envoyer une notification personnelle à un joueur (sans récompense)
+   * Le joueur en est aussi l'auteur: ces notifications sont émises par le jeu, pas par un admin
+   */
+  static async notifyUser(userId: string, title: string, message: string): Promise<void> {
+    await Database.run(`
+      INSERT INTO notifications (
+        id, title, message, reward_berrys, reward_boosters,
+        is_active, created_by, created_at, user_id
+      ) VALUES (?, ?, ?, 0, 0, 1, ?, ?, ?)
+    `, [uuidv4(), title, message, userId, new Date().toISOString(), userId]);
+  }
+
+  /**
+   * Prévenir le vendeur que son annonce a trouvé preneur
+   */
+  static async notifyListingSold(sellerId: string, cardId: string, price: number, tax: number): Promise<void> {
+    const cardName = await this.getCardName(cardId);
+    const taxDetail = tax > 0 ? ` (taxe de ${tax} Berrys déduite)` : '';
+
+    await this.notifyUser(
+      sellerId,
+      'Annonce vendue',
+      `Votre carte ${cardName} a été vendue pour ${price} Berrys${taxDetail}.`
+    );
+  }
+
+  /**
+   * Prévenir le vendeur que son annonce a expiré et que la carte lui a été rendue
+   */
+  static async notifyListingExpired(sellerId: string, cardId: string): Promise<void> {
+    const cardName = await this.getCardName(cardId);
+
+    await this.notifyUser(
+      sellerId,
+      'Annonce expirée',
+      `Votre annonce pour ${cardName} a expiré sans trouver preneur. La carte est de retour dans votre collection, vous pouvez la remettre en vente depuis vos annonces.`
+    );
+  }
+
+  private static async getCardName(cardId: string): Promise<string> {
+    const card = await Database.get<{ name: string }>('SELECT name FROM cards WHERE id = ?', [cardId]);
+    return card?.name || 'inconnue';
+  }
+}
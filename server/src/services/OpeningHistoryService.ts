@@ -0,0 +1,234 @@
+import { Database } from '../utils/database.js';
+import { BoosterService } from './BoosterService.js';
+import { RARITIES } from './DropTableService.js';
+import { PITY_RARITIES } from './PityService.js';
+
+export interface OpeningFilters {
+  boosterId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface OpeningHistoryEntry {
+  id: string;
+  booster_id: string;
+  booster_name: string | null;
+  booster_code: string | null;
+  opened_at: string;
+  nonce: number | null;
+  pity_applied: boolean;
+  cards: any[];
+}
+
+export interface RarityLuck {
+  rarity: string;
+  count: number;
+  // Part observée parmi les cartes tirées par l'utilisateur
+  observed_rate: number;
+  // Part de la rareté dans le catalogue, ou dans le booster filtré (BoosterService.getRarityDistribution)
+  expected_rate: number;
+}
+
+export interface BestPull {
+  opening_id: string;
+  booster_id: string;
+  opened_at: string;
+  card_id: string;
+  card_name: string;
+  rarity: string;
+}
+
+export interface LuckStats {
+  total_packs: number;
+  total_cards: number;
+  rarities: RarityLuck[];
+  best_pull: BestPull | null;
+  // Plus longue série d'ouvertures consécutives sans Super Rare ni Secret Rare
+  longest_dry_streak: number;
+  current_dry_streak: number;
+}
+
+interface PulledCardRow {
+  opening_id: string;
+  booster_id: string;
+  opened_at: string;
+  card_id: string;
+  card_name: string;
+  rarity: string;
+}
+
+export class OpeningHistoryService {
+  /**
+   * Construit la clause WHERE commune à l'historique et aux statistiques
+   */
+  private static buildWhere(userId: string, filters: OpeningFilters): { where: string; params: any[] } {
+    const conditions = ['bo.user_id = ?'];
+    const params: any[] = [userId];
+
+    if (filters.boosterId) {
+      conditions.push('bo.booster_id = ?');
+      params.push(filters.boosterId);
+    }
+    if (filters.from) {
+      conditions.push('bo.opened_at >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push('bo.opened_at <= ?');
+      params.push(filters.to);
+    }
+
+    return { where: conditions.join(' AND '), params };
+  }
+
+  /**
+   * Historique paginé des ouvertures, du plus récent au plus ancien
+   */
+  static async getOpenings(
+    userId: string,
+    filters: OpeningFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ openings: OpeningHistoryEntry[]; total: number }> {
+    const { where, params } = this.buildWhere(userId, filters);
+
+    const totalRow = await Database.get<{ count: number }>(`
+      SELECT COUNT(*) as count FROM booster_openings bo WHERE ${where}
+    `, params);
+
+    const rows = await Database.all(`
+      SELECT bo.id, bo.booster_id, bo.opened_at, bo.nonce, bo.pity_applied, bo.cards_obtained,
+             b.name as booster_name, b.code as booster_code
+      FROM booster_openings bo
+      LEFT JOIN boosters b ON b.id = bo.booster_id
+      WHERE ${where}
+      ORDER BY bo.opened_at DESC, bo.rowid DESC
+      LIMIT ? OFFSET ?
+    `, [...params, limit, offset]);
+
+    // Charger en une seule requête toutes les cartes de la page
+    const cardIdsByOpening = new Map<string, string[]>();
+    const allCardIds = new Set<string>();
+    for (const row of rows) {
+      const cardIds = this.parseCardIds(row.cards_obtained);
+      cardIdsByOpening.set(row.id, cardIds);
+      cardIds.forEach(id => allCardIds.add(id));
+    }
+
+    const cardsById = new Map<string, any>();
+    if (allCardIds.size > 0) {
+      const ids = Array.from(allCardIds);
+      const cards = await Database.all(`
+        SELECT * FROM cards WHERE id IN (${ids.map(() => '?').join(', ')})
+      `, ids);
+      cards.forEach(card => cardsById.set(card.id, card));
+    }
+
+    const openings = rows.map(row => ({
+      id: row.id,
+      booster_id: row.booster_id,
+      booster_name: row.booster_name || null,
+      booster_code: row.booster_code || null,
+      opened_at: row.opened_at,
+      nonce: row.nonce ?? null,
+      pity_applied: row.pity_applied === 1,
+      cards: cardIdsByOpening.get(row.id)!
+        .map(id => cardsById.get(id))
+        .filter(card => card !== undefined)
+    }));
+
+    return { openings, total: totalRow?.count || 0 };
+  }
+
+  /**
+   * Statistiques de chance calculées sur l'ensemble des ouvertures filtrées
+   */
+  static async getLuckStats(userId: string, filters: OpeningFilters): Promise<LuckStats> {
+    const { where, params } = this.buildWhere(userId, filters);
+
+    const totalPacks = await Database.get<{ count: number }>(`
+      SELECT COUNT(*) as count FROM booster_openings bo WHERE ${where}
+    `, params);
+
+    // Une ligne par carte tirée, dans l'ordre chronologique des ouvertures
+    const pulled = await Database.all<PulledCardRow>(`
+      SELECT bo.id as opening_id, bo.booster_id, bo.opened_at,
+             c.id as card_id, c.name as card_name, c.rarity
+      FROM booster_openings bo
+      JOIN json_each(bo.cards_obtained) je
+      JOIN cards c ON c.id = je.value
+      WHERE ${where}
+      ORDER BY bo.opened_at ASC, bo.rowid ASC, je.key ASC
+    `, params);
+
+    // Taux observés vs part de chaque rareté dans le catalogue (du booster filtré le cas échéant)
+    const distribution = await BoosterService.getRarityDistribution(filters.boosterId);
+    const catalogTotal = Object.values(distribution).reduce((sum, count) => sum + count, 0);
+
+    const counts: Record<string, number> = {};
+    pulled.forEach(row => {
+      counts[row.rarity] = (counts[row.rarity] || 0) + 1;
+    });
+
+    const rarities: RarityLuck[] = RARITIES.map(rarity => ({
+      rarity,
+      count: counts[rarity] || 0,
+      observed_rate: pulled.length > 0 ? (counts[rarity] || 0) / pulled.length : 0,
+      expected_rate: catalogTotal > 0 ? (distribution[rarity] || 0) / catalogTotal : 0
+    }));
+
+    // Meilleur tirage: la carte la plus rare (la première obtenue en cas d'égalité)
+    let bestPull: BestPull | null = null;
+    for (const row of pulled) {
+      if (!bestPull || this.rarityTier(row.rarity) > this.rarityTier(bestPull.rarity)) {
+        bestPull = { ...row };
+      }
+    }
+
+    // Séries sans Super Rare, ouverture par ouverture
+    let longestDryStreak = 0;
+    let currentDryStreak = 0;
+    let openingId: string | null = null;
+    let openingHasSuperRare = false;
+    const closeOpening = () => {
+      if (openingId === null) return;
+      currentDryStreak = openingHasSuperRare ? 0 : currentDryStreak + 1;
+      longestDryStreak = Math.max(longestDryStreak, currentDryStreak);
+    };
+
+    for (const row of pulled) {
+      if (row.opening_id !== openingId) {
+        closeOpening();
+        openingId = row.opening_id;
+        openingHasSuperRare = false;
+      }
+      if (PITY_RARITIES.includes(row.rarity)) {
+        openingHasSuperRare = true;
+      }
+    }
+    closeOpening();
+
+    return {
+      total_packs: totalPacks?.count || 0,
+      total_cards: pulled.length,
+      rarities,
+      best_pull: bestPull,
+      longest_dry_streak: longestDryStreak,
+      current_dry_streak: currentDryStreak
+    };
+  }
+
+  private static rarityTier(rarity: string): number {
+    return RARITIES.indexOf(rarity as typeof RARITIES[number]);
+  }
+
+  private static parseCardIds(cardsObtained: string | null): string[] {
+    if (!cardsObtained) return [];
+    try {
+      const ids = JSON.parse(cardsObtained);
+      return Array.isArray(ids) ? ids.map(String) : [];
+    } catch {
+      return [];
+    }
+  }
+}
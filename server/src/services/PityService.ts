@@ -0,0 +1,82 @@
+import { Database } from '../utils/database.js';
+
+// Après PITY_THRESHOLD ouvertures sans Super Rare ni Secret Rare, le booster suivant en garantit une
+export const PITY_THRESHOLD = 10;
+
+// Raretés qui déclenchent la protection et remettent le compteur à zéro
+export const PITY_RARITIES = ['super_rare', 'secret_rare'];
+
+export interface PityCounter {
+  booster_id: string;
+  packs_since_super_rare: number;
+  packs_until_guarantee: number;
+}
+
+export class PityService {
+  /**
+   * Nombre d'ouvertures consécutives sans Super Rare pour un booster
+   */
+  static async getPacksSinceSuperRare(userId: string, boosterId: string): Promise<number> {
+    const row = await Database.get<{ packs_since_super_rare: number }>(`
+      SELECT packs_since_super_rare FROM user_pity_counters
+      WHERE user_id = ? AND booster_id = ?
+    `, [userId, boosterId]);
+
+    return row?.packs_since_super_rare || 0;
+  }
+
+  /**
+   * Le prochain booster doit-il garantir une Super Rare ?
+   */
+  static async isGuaranteeDue(userId: string, boosterId: string): Promise<boolean> {
+    return (await this.getPacksSinceSuperRare(userId, boosterId)) >= PITY_THRESHOLD;
+  }
+
+  /**
+   * Met à jour le compteur après une ouverture
+   * Une ouverture garantie remet le compteur à zéro, même si la Super Rare n'a pas pu être tirée
+   * Doit être appelé dans la transaction d'ouverture du booster
+   */
+  static async recordOpening(userId: string, boosterId: string, rarities: string[], guaranteeApplied: boolean): Promise<number> {
+    const gotSuperRare = guaranteeApplied || rarities.some(rarity => PITY_RARITIES.includes(rarity));
+    const now = new Date().toISOString();
+
+    await Database.run(`
+      INSERT INTO user_pity_counters (user_id, booster_id, packs_since_super_rare, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(user_id, booster_id) DO UPDATE SET
+        packs_since_super_rare = CASE WHEN ? THEN 0 ELSE packs_since_super_rare + 1 END,
+        updated_at = excluded.updated_at
+    `, [userId, boosterId, gotSuperRare ? 0 : 1, now, gotSuperRare ? 1 : 0]);
+
+    return await this.getPacksSinceSuperRare(userId, boosterId);
+  }
+
+  /**
+   * Compteurs de l'utilisateur, avec le nombre d'ouvertures avant la garantie
+   * (1 = le prochain booster est garanti)
+   * Les boosters sans Super Rare ni Secret Rare n'ont pas de protection
+   */
+  static async getUserCounters(userId: string): Promise<PityCounter[]> {
+    const rows = await Database.all<{ booster_id: string; packs_since_super_rare: number }>(`
+      SELECT upc.booster_id, upc.packs_since_super_rare FROM user_pity_counters upc
+      WHERE upc.user_id = ?
+        AND EXISTS (
+          SELECT 1 FROM cards c
+          WHERE c.booster_id = upc.booster_id AND c.is_active = 1
+            AND c.rarity IN (${PITY_RARITIES.map(() => '?').join(', ')})
+        )
+      ORDER BY upc.booster_id
+    `, [userId, ...PITY_RARITIES]);
+
+    return rows.map(row => ({
+      booster_id: row.booster_id,
+      packs_since_super_rare: row.packs_since_super_rare,
+      packs_until_guarantee: this.packsUntilGuarantee(row.packs_since_super_rare)
+    }));
+  }
+
+  static packsUntilGuarantee(packsSinceSuperRare: number): number {
+    return Math.max(1, PITY_THRESHOLD + 1 - packsSinceSuperRare);
+  }
+}
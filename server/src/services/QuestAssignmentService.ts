@@ -0,0 +1,168 @@
+import { Database } from '../utils/database.js';
+import { ActiveQuest, Quest, WorldMapModel } from '../models/WorldMap.js';
+import { CrewService, MIN_REQUIREMENT_RATIO, QuestOdds, STAT_LABELS, TeamBonus } from './CrewService.js';
+
+/**
+ * Raisons de refus d'un départ en quête, affichées par la carte (src/pages/Map.tsx)
+ */
+export type QuestAssignmentErrorCode =
+  | 'INVALID_REQUEST'
+  | 'QUEST_NOT_FOUND'
+  | 'ISLAND_LOCKED'
+  | 'QUEST_ALREADY_COMPLETED'
+  | 'QUEST_IN_PROGRESS'
+  | 'DUPLICATE_CREW_MEMBER'
+  | 'WRONG_CREW_COUNT'
+  | 'CREW_MEMBER_LOCKED'
+  | 'CREW_MEMBER_BUSY'
+  | 'SPECIFIC_CREW_MEMBER_REQUIRED'
+  | 'CREW_TOO_WEAK';
+
+const STATUS_BY_CODE: Record<QuestAssignmentErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  QUEST_NOT_FOUND: 404,
+  ISLAND_LOCKED: 403,
+  QUEST_ALREADY_COMPLETED: 409,
+  QUEST_IN_PROGRESS: 409,
+  DUPLICATE_CREW_MEMBER: 400,
+  WRONG_CREW_COUNT: 400,
+  CREW_MEMBER_LOCKED: 403,
+  CREW_MEMBER_BUSY: 409,
+  SPECIFIC_CREW_MEMBER_REQUIRED: 400,
+  CREW_TOO_WEAK: 400
+};
+
+export class QuestAssignmentError extends Error {
+  readonly status: number;
+
+  constructor(
+    readonly code: QuestAssignmentErrorCode,
+    message: string,
+    // Informations pour l'affichage: membres concernés, chance de réussite...
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'QuestAssignmentError';
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+export interface QuestAssignment {
+  quest: Quest;
+  activeQuest: ActiveQuest;
+  odds: QuestOdds;
+  bonus: TeamBonus;
+}
+
+/**
+ * Départ en quête: validation et réservation de l'équipage dans une seule transaction,
+ * pour que deux requêtes simultanées ne puissent pas envoyer le même membre
+ */
+export class QuestAssignmentService {
+  static async startQuest(userId: string, questId: unknown, crewMemberIds: unknown): Promise<QuestAssignment> {
+    if (typeof questId !== 'string' || !questId || !Array.isArray(crewMemberIds) || crewMemberIds.length === 0
+      || crewMemberIds.some(id => typeof id !== 'string')) {
+      throw new QuestAssignmentError('INVALID_REQUEST', 'Données invalides');
+    }
+
+    const duplicates = crewMemberIds.filter((id, index) => crewMemberIds.indexOf(id) !== index);
+    if (duplicates.length > 0) {
+      throw new QuestAssignmentError(
+        'DUPLICATE_CREW_MEMBER',
+        'Un membre d\'équipage ne peut être envoyé qu\'une fois',
+        { crew_member_ids: [...new Set(duplicates)] }
+      );
+    }
+
+    const memberIds = crewMemberIds as string[];
+
+    return await Database.transaction(async () => {
+      const quest = await WorldMapModel.getQuestById(questId);
+      if (!quest) {
+        throw new QuestAssignmentError('QUEST_NOT_FOUND', 'Quête introuvable');
+      }
+
+      if (!await WorldMapModel.isIslandUnlocked(userId, quest.island_id)) {
+        throw new QuestAssignmentError('ISLAND_LOCKED', 'Île non débloquée', { island_id: quest.island_id });
+      }
+
+      if (!quest.is_repeatable) {
+        if (await WorldMapModel.hasSucceededQuest(userId, quest.id)) {
+          throw new QuestAssignmentError('QUEST_ALREADY_COMPLETED', 'Cette quête n\'est pas répétable et a déjà été réussie');
+        }
+        if (await WorldMapModel.hasActiveQuest(userId, quest.id)) {
+          throw new QuestAssignmentError('QUEST_IN_PROGRESS', 'Cette quête est déjà en cours');
+        }
+      }
+
+      if (memberIds.length !== quest.required_crew_count) {
+        throw new QuestAssignmentError(
+          'WRONG_CREW_COUNT',
+          `Cette quête nécessite ${quest.required_crew_count} membre(s) d'équipage`,
+          { required: quest.required_crew_count }
+        );
+      }
+
+      const locked: string[] = [];
+      const busy: string[] = [];
+      for (const memberId of memberIds) {
+        if (!await WorldMapModel.hasCrewMember(userId, memberId)) {
+          locked.push(memberId);
+        } else if (await WorldMapModel.isCrewMemberBusy(userId, memberId)) {
+          busy.push(memberId);
+        }
+      }
+
+      if (locked.length > 0) {
+        throw new QuestAssignmentError('CREW_MEMBER_LOCKED', 'Membre d\'équipage non débloqué', { crew_member_ids: locked });
+      }
+
+      if (busy.length > 0) {
+        throw new QuestAssignmentError('CREW_MEMBER_BUSY', 'Un ou plusieurs membres sont déjà en mission', { crew_member_ids: busy });
+      }
+
+      if (quest.specific_crew_member_id && !memberIds.includes(quest.specific_crew_member_id)) {
+        throw new QuestAssignmentError(
+          'SPECIFIC_CREW_MEMBER_REQUIRED',
+          'Cette quête nécessite un membre d\'équipage spécifique',
+          { crew_member_id: quest.specific_crew_member_id }
+        );
+      }
+
+      // Statistiques de l'équipe face aux exigences de la quête
+      const team = await CrewService.getTeam(userId, memberIds);
+      const odds = CrewService.evaluateQuest(quest, team);
+      if (!odds.meets_minimum) {
+        const weakest = odds.checks.find(check => check.team < check.required * MIN_REQUIREMENT_RATIO)!;
+        throw new QuestAssignmentError(
+          'CREW_TOO_WEAK',
+          `Équipage trop faible en ${STAT_LABELS[weakest.stat]} (${weakest.team}/${weakest.required})`,
+          { stat: weakest.stat, team: weakest.team, required: weakest.required, odds }
+        );
+      }
+
+      // Chance de réussite et bonus de cartes figés au départ
+      const bonus = CrewService.getTeamBonus(team);
+      const activeQuest = await WorldMapModel.startQuest(
+        userId,
+        quest.id,
+        memberIds,
+        quest.duration_hours * (1 - bonus.duration_reduction),
+        odds.success_chance,
+        bonus.reward_bonus
+      );
+
+      try {
+        await WorldMapModel.assignCrewMembers(userId, memberIds, activeQuest.id);
+      } catch (error) {
+        // Filet de sécurité: la clé primaire de crew_assignments refuse un membre déjà réservé
+        if (String((error as { code?: string })?.code).startsWith('SQLITE_CONSTRAINT')) {
+          throw new QuestAssignmentError('CREW_MEMBER_BUSY', 'Un ou plusieurs membres sont déjà en mission', { crew_member_ids: memberIds });
+        }
+        throw error;
+      }
+
+      return { quest, activeQuest, odds, bonus };
+    });
+  }
+}
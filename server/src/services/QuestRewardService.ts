@@ -0,0 +1,250 @@
+import { Database } from '../utils/database.js';
+import { Card } from '../models/Card.js';
+import { BoosterModel } from '../models/Booster.js';
+import { Quest, WorldMapModel } from '../models/WorldMap.js';
+import { RARITIES, Rarity } from './DropTableService.js';
+import { BoosterService } from './BoosterService.js';
+import { BoosterOpeningService } from './BoosterOpeningService.js';
+import { BerryLedgerService } from './BerryLedgerService.js';
+import { CollectionTransferService } from './CollectionTransferService.js';
+
+// Nombre maximum de récompenses en plus des Berrys sur une quête
+export const MAX_EXTRA_QUEST_REWARDS = 5;
+// Boosters offerts au maximum par récompense
+export const MAX_QUEST_REWARD_BOOSTERS = 5;
+// Expérience d'équipage au maximum par récompense (donnée à chaque membre envoyé)
+export const MAX_QUEST_REWARD_CREW_XP = 10000;
+// Part des Berrys donnée quand la quête échoue, sans les autres récompenses
+export const FAILED_QUEST_REWARD_RATIO = 0.25;
+
+/**
+ * Récompense définie sur une quête
+ * Les Berrys viennent de quests.reward_berrys, les autres types de quests.extra_rewards
+ */
+export type QuestRewardDefinition =
+  | { type: 'berrys'; amount: number }
+  // N boosters d'un set, ouverts à la réclamation
+  | { type: 'booster'; booster_id: string; count: number }
+  // Une carte tirée parmi des raretés, optionnellement d'un set
+  | { type: 'card'; rarities: Rarity[]; booster_id: string | null }
+  // Expérience donnée à chaque membre d'équipage envoyé en quête
+  | { type: 'crew_xp'; amount: number };
+
+// Définition enrichie du nom du booster pour l'affichage
+export type QuestRewardView = QuestRewardDefinition & { booster_name?: string };
+
+export type RewardCard = Pick<Card, 'id' | 'name' | 'rarity' | 'image_url'>;
+
+/**
+ * Récompense effectivement obtenue, conservée dans quest_history.rewards
+ */
+export type GrantedQuestReward =
+  | { type: 'berrys'; amount: number }
+  | { type: 'booster'; booster_id: string; opening_ids: string[]; cards: RewardCard[]; new_cards: string[] }
+  | { type: 'card'; card: RewardCard; is_new: boolean }
+  | { type: 'crew_xp'; amount: number; crew_member_ids: string[] };
+
+export class QuestRewardService {
+  /**
+   * Lire les récompenses en plus des Berrys, une définition illisible est ignorée
+   */
+  static parseExtraRewards(raw: string | null | undefined): QuestRewardDefinition[] {
+    try {
+      const rewards = JSON.parse(raw || '[]');
+      return Array.isArray(rewards) ? rewards : [];
+    } catch (error) {
+      console.error('Récompenses de quête illisibles:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Toutes les récompenses d'une quête, Berrys en premier
+   */
+  static getRewards(quest: Quest): QuestRewardDefinition[] {
+    const rewards: QuestRewardDefinition[] = [];
+
+    if (quest.reward_berrys > 0) {
+      rewards.push({ type: 'berrys', amount: quest.reward_berrys });
+    }
+
+    return [...rewards, ...this.parseExtraRewards(quest.extra_rewards)];
+  }
+
+  /**
+   * Récompenses d'une quête avec le nom des boosters concernés
+   */
+  static async describeRewards(quest: Quest): Promise<QuestRewardView[]> {
+    return await Promise.all(this.getRewards(quest).map(async (reward) => {
+      if ((reward.type === 'booster' || reward.type === 'card') && reward.booster_id) {
+        const booster = await BoosterModel.findById(reward.booster_id);
+        return { ...reward, booster_name: booster?.name };
+      }
+      return reward;
+    }));
+  }
+
+  /**
+   * Ne garder que les champs connus de chaque récompense envoyée par un admin
+   * Une entrée non reconnue est laissée telle quelle pour être refusée à la validation
+   */
+  static normalizeExtraRewards(input: unknown): unknown {
+    if (!Array.isArray(input)) {
+      return input;
+    }
+
+    return input.map((reward: any) => {
+      switch (reward?.type) {
+        case 'booster':
+          return { type: 'booster', booster_id: String(reward.booster_id ?? ''), count: Number(reward.count ?? 1) };
+        case 'card':
+          return {
+            type: 'card',
+            rarities: Array.isArray(reward.rarities) ? reward.rarities : [],
+            booster_id: reward.booster_id ? String(reward.booster_id) : null
+          };
+        case 'crew_xp':
+          return { type: 'crew_xp', amount: Number(reward.amount) };
+        default:
+          return reward;
+      }
+    });
+  }
+
+  /**
+   * Valider les récompenses en plus des Berrys
+   * Retourne un message d'erreur, ou null si les récompenses sont valides
+   */
+  static async validateExtraRewards(input: unknown): Promise<string | null> {
+    if (!Array.isArray(input)) {
+      return 'Les récompenses doivent être une liste';
+    }
+
+    if (input.length > MAX_EXTRA_QUEST_REWARDS) {
+      return `Une quête ne peut pas avoir plus de ${MAX_EXTRA_QUEST_REWARDS} récompenses en plus des Berrys`;
+    }
+
+    for (let i = 0; i < input.length; i++) {
+      const reward = input[i];
+      const label = `Récompense ${i + 1}`;
+
+      switch (reward?.type) {
+        case 'berrys':
+          return `${label}: les Berrys se règlent avec reward_berrys`;
+
+        case 'booster': {
+          if (!Number.isInteger(reward.count) || reward.count < 1 || reward.count > MAX_QUEST_REWARD_BOOSTERS) {
+            return `${label}: le nombre de boosters doit être entre 1 et ${MAX_QUEST_REWARD_BOOSTERS}`;
+          }
+          const booster = reward.booster_id ? await BoosterModel.findById(reward.booster_id) : undefined;
+          if (!booster || !booster.is_active) {
+            return `${label}: booster introuvable ou inactif`;
+          }
+          break;
+        }
+
+        case 'card': {
+          if (!Array.isArray(reward.rarities) || reward.rarities.length === 0) {
+            return `${label}: au moins une rareté est requise`;
+          }
+          const unknown = reward.rarities.find((rarity: unknown) => !(RARITIES as readonly unknown[]).includes(rarity));
+          if (unknown !== undefined) {
+            return `${label}: rareté inconnue "${unknown}"`;
+          }
+          if (reward.booster_id) {
+            const booster = await BoosterModel.findById(reward.booster_id);
+            if (!booster || !booster.is_active) {
+              return `${label}: booster introuvable ou inactif`;
+            }
+          }
+          const distribution = await BoosterService.getRarityDistribution(reward.booster_id || undefined);
+          if (!reward.rarities.some((rarity: string) => distribution[rarity] > 0)) {
+            return `${label}: aucune carte active pour ces raretés`;
+          }
+          break;
+        }
+
+        case 'crew_xp':
+          if (!Number.isInteger(reward.amount) || reward.amount < 1 || reward.amount > MAX_QUEST_REWARD_CREW_XP) {
+            return `${label}: l'expérience doit être entre 1 et ${MAX_QUEST_REWARD_CREW_XP}`;
+          }
+          break;
+
+        default:
+          return `${label}: type de récompense inconnu`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Donner les récompenses d'une quête terminée
+   * berryBonus: part de Berrys en plus grâce aux cartes de l'équipage (figée au départ)
+   * Une quête échouée ne donne que FAILED_QUEST_REWARD_RATIO de ses Berrys
+   * Doit être appelé à l'intérieur d'une transaction
+   */
+  static async grantRewards(
+    userId: string,
+    quest: Quest,
+    activeQuestId: string,
+    crewMemberIds: string[],
+    success: boolean = true,
+    berryBonus: number = 0
+  ): Promise<GrantedQuestReward[]> {
+    const granted: GrantedQuestReward[] = [];
+    const berrys = Math.floor(quest.reward_berrys * (1 + berryBonus));
+    const failedBerrys = Math.floor(berrys * FAILED_QUEST_REWARD_RATIO);
+    const rewards: QuestRewardDefinition[] = success
+      ? this.getRewards(quest).map(reward => reward.type === 'berrys' ? { type: 'berrys', amount: berrys } : reward)
+      : failedBerrys > 0 ? [{ type: 'berrys', amount: failedBerrys }] : [];
+
+    for (const reward of rewards) {
+      switch (reward.type) {
+        case 'berrys':
+          await BerryLedgerService.grant(userId, reward.amount, 'quest', activeQuestId);
+          granted.push(reward);
+          break;
+
+        case 'booster': {
+          const openingIds: string[] = [];
+          const cards: RewardCard[] = [];
+          const newCards: string[] = [];
+
+          for (let i = 0; i < reward.count; i++) {
+            const opened = await BoosterOpeningService.openPack(userId, reward.booster_id);
+            openingIds.push(opened.opening_id);
+            cards.push(...opened.cards.map(card => this.toRewardCard(card)));
+            newCards.push(...opened.new_cards);
+          }
+
+          granted.push({ type: 'booster', booster_id: reward.booster_id, opening_ids: openingIds, cards, new_cards: newCards });
+          break;
+        }
+
+        case 'card': {
+          const card = await BoosterService.drawCardFromPool(reward.rarities, reward.booster_id || undefined);
+          const owned = await Database.get(`
+            SELECT card_id FROM user_collections
+            WHERE user_id = ? AND card_id = ?
+          `, [userId, card.id]);
+
+          await CollectionTransferService.addCard(userId, card.id);
+          granted.push({ type: 'card', card: this.toRewardCard(card), is_new: !owned });
+          break;
+        }
+
+        case 'crew_xp':
+          await WorldMapModel.addCrewExperience(userId, crewMemberIds, reward.amount);
+          granted.push({ type: 'crew_xp', amount: reward.amount, crew_member_ids: crewMemberIds });
+          break;
+      }
+    }
+
+    return granted;
+  }
+
+  private static toRewardCard(card: Card): RewardCard {
+    return { id: card.id, name: card.name, rarity: card.rarity, image_url: card.image_url };
+  }
+}
@@ -0,0 +1,351 @@
+import { Database } from '../utils/database.js';
+import { WorldMapModel, Island, Quest, CrewMember } from '../models/WorldMap.js';
+import { QuestRewardService } from './QuestRewardService.js';
+import { CrewService, CREW_STATS, MAX_BASE_STAT, STAT_LABELS } from './CrewService.js';
+
+export const MAX_QUEST_DURATION_HOURS = 168;
+export const MAX_QUEST_REWARD_BERRYS = 100000;
+export const MAX_ISLAND_REWARD_BERRYS = 1000000;
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_IMAGE_URL_LENGTH = 500;
+
+export type IslandInput = Omit<Island, 'id' | 'created_at'>;
+export type QuestInput = Omit<Quest, 'id' | 'created_at'>;
+export type CrewMemberInput = Omit<CrewMember, 'id' | 'created_at'>;
+
+// Corps de requête de l'éditeur (src/pages/admin/WorldEditor.tsx): mêmes champs, valeurs non vérifiées
+type Payload<T> = { [K in keyof T]?: unknown };
+export type IslandPayload = Payload<IslandInput>;
+export type QuestPayload = Payload<QuestInput>;
+export type CrewMemberPayload = Payload<CrewMemberInput>;
+
+type WorldTable = 'islands' | 'quests' | 'crew_members';
+
+/**
+ * Édition de la carte du monde par les administrateurs
+ * Les îles forment une chaîne de déblocage unique: une seule île de départ,
+ * chaque île active débloque au plus une île suivante (voir WorldMapController.claimIslandReward)
+ */
+export class WorldAdminService {
+  /**
+   * Normaliser une île reçue du client, les champs absents reprennent la valeur existante
+   */
+  static parseIsland(input: unknown, existing?: Island): IslandInput {
+    const body = this.payload<IslandPayload>(input);
+    const rewardType = this.pick(body, 'final_reward_type', existing?.final_reward_type ?? null);
+
+    return {
+      name: this.text(this.pick(body, 'name', existing?.name)),
+      description: this.text(this.pick(body, 'description', existing?.description)),
+      order_index: Number(this.pick(body, 'order_index', existing?.order_index)),
+      latitude: Number(this.pick(body, 'latitude', existing?.latitude)),
+      longitude: Number(this.pick(body, 'longitude', existing?.longitude)),
+      unlock_requirement_island_id: this.reference(this.pick(body, 'unlock_requirement_island_id', existing?.unlock_requirement_island_id)),
+      // Type vérifié par validateIsland
+      final_reward_type: rewardType === '' ? null : rewardType as Island['final_reward_type'],
+      final_reward_value: this.nullableNumber(this.pick(body, 'final_reward_value', existing?.final_reward_value)),
+      final_reward_crew_member_id: this.reference(this.pick(body, 'final_reward_crew_member_id', existing?.final_reward_crew_member_id)),
+      is_active: this.flag(this.pick(body, 'is_active', existing?.is_active ?? true))
+    };
+  }
+
+  static parseQuest(input: unknown, existing?: Quest): QuestInput {
+    const body = this.payload<QuestPayload>(input);
+
+    return {
+      island_id: this.text(this.pick(body, 'island_id', existing?.island_id)),
+      name: this.text(this.pick(body, 'name', existing?.name)),
+      description: this.text(this.pick(body, 'description', existing?.description)),
+      duration_hours: Number(this.pick(body, 'duration_hours', existing?.duration_hours)),
+      reward_berrys: Number(this.pick(body, 'reward_berrys', existing?.reward_berrys ?? 0)),
+      stat_requirements: body.stat_requirements === undefined
+        ? existing?.stat_requirements ?? '{}'
+        : JSON.stringify(body.stat_requirements),
+      extra_rewards: body.extra_rewards === undefined
+        ? existing?.extra_rewards ?? '[]'
+        : JSON.stringify(QuestRewardService.normalizeExtraRewards(body.extra_rewards)),
+      required_crew_count: Number(this.pick(body, 'required_crew_count', existing?.required_crew_count ?? 1)),
+      specific_crew_member_id: this.reference(this.pick(body, 'specific_crew_member_id', existing?.specific_crew_member_id)),
+      order_index: Number(this.pick(body, 'order_index', existing?.order_index)),
+      is_repeatable: this.flag(this.pick(body, 'is_repeatable', existing?.is_repeatable ?? true)),
+      is_active: this.flag(this.pick(body, 'is_active', existing?.is_active ?? true))
+    };
+  }
+
+  static parseCrewMember(input: unknown, existing?: CrewMember): CrewMemberInput {
+    const body = this.payload<CrewMemberPayload>(input);
+
+    return {
+      name: this.text(this.pick(body, 'name', existing?.name)),
+      description: this.text(this.pick(body, 'description', existing?.description)),
+      image_url: this.text(this.pick(body, 'image_url', existing?.image_url)),
+      unlock_island_id: this.reference(this.pick(body, 'unlock_island_id', existing?.unlock_island_id)),
+      order_index: Number(this.pick(body, 'order_index', existing?.order_index)),
+      strength: Number(this.pick(body, 'strength', existing?.strength ?? 10)),
+      navigation: Number(this.pick(body, 'navigation', existing?.navigation ?? 10)),
+      intelligence: Number(this.pick(body, 'intelligence', existing?.intelligence ?? 10)),
+      stamina: Number(this.pick(body, 'stamina', existing?.stamina ?? 10)),
+      card_characters: body.card_characters === undefined
+        ? existing?.card_characters ?? '[]'
+        : JSON.stringify(Array.isArray(body.card_characters)
+          ? body.card_characters.map((c: unknown) => typeof c === 'string' ? c.trim() : c)
+          : body.card_characters),
+      is_active: this.flag(this.pick(body, 'is_active', existing?.is_active ?? true))
+    };
+  }
+
+  /**
+   * Valider une île et sa place dans la chaîne de déblocage
+   * islandId: null pour une création
+   */
+  static async validateIsland(island: IslandInput, islandId: string | null): Promise<string | null> {
+    const fieldError = this.validateCommon(island);
+    if (fieldError) return fieldError;
+
+    if (!Number.isFinite(island.latitude) || island.latitude < -90 || island.latitude > 90) {
+      return 'La latitude doit être comprise entre -90 et 90';
+    }
+
+    if (!Number.isFinite(island.longitude) || island.longitude < -180 || island.longitude > 180) {
+      return 'La longitude doit être comprise entre -180 et 180';
+    }
+
+    // Récompense finale
+    if (island.final_reward_type === 'berrys') {
+      if (!Number.isInteger(island.final_reward_value) || island.final_reward_value! < 1 || island.final_reward_value! > MAX_ISLAND_REWARD_BERRYS) {
+        return `La récompense finale doit être entre 1 et ${MAX_ISLAND_REWARD_BERRYS} Berrys`;
+      }
+      island.final_reward_crew_member_id = null;
+    } else if (island.final_reward_type === 'crew_member') {
+      if (!island.final_reward_crew_member_id || !await WorldMapModel.getCrewMemberById(island.final_reward_crew_member_id)) {
+        return 'Le membre d\'équipage de la récompense finale est introuvable ou inactif';
+      }
+      island.final_reward_value = null;
+    } else if (island.final_reward_type === null) {
+      island.final_reward_value = null;
+      island.final_reward_crew_member_id = null;
+    } else {
+      return 'Type de récompense finale invalide (berrys ou crew_member)';
+    }
+
+    return await this.validateUnlockChain(islandId, island.unlock_requirement_island_id, island.is_active);
+  }
+
+  /**
+   * Vérifier qu'une île garde la chaîne de déblocage cohérente:
+   * une seule île de départ, un prérequis actif et différent, pas de branche ni de boucle,
+   * et aucune île active ne dépend d'une île désactivée
+   */
+  static async validateUnlockChain(islandId: string | null, requirementId: string | null, isActive: boolean): Promise<string | null> {
+    if (!isActive) {
+      return islandId ? await this.checkIslandDeactivation(islandId) : null;
+    }
+
+    if (!requirementId) {
+      const start = await Database.get<{ name: string }>(`
+        SELECT name FROM islands
+        WHERE is_active = 1 AND unlock_requirement_island_id IS NULL AND id != ?
+      `, [islandId || '']);
+
+      return start ? `L'île de départ est déjà ${start.name}: choisissez une île prérequise` : null;
+    }
+
+    if (requirementId === islandId) {
+      return 'Une île ne peut pas être son propre prérequis';
+    }
+
+    const requirement = await WorldMapModel.getIslandById(requirementId);
+    if (!requirement) {
+      return 'L\'île prérequise est introuvable ou inactive';
+    }
+
+    const sibling = await Database.get<{ name: string }>(`
+      SELECT name FROM islands
+      WHERE is_active = 1 AND unlock_requirement_island_id = ? AND id != ?
+    `, [requirementId, islandId || '']);
+
+    if (sibling) {
+      return `${requirement.name} débloque déjà ${sibling.name}`;
+    }
+
+    // Remonter la chaîne depuis le prérequis: retomber sur l'île elle-même formerait une boucle
+    if (islandId) {
+      const visited = new Set<string>();
+      let current: string | null = requirementId;
+
+      while (current && !visited.has(current)) {
+        if (current === islandId) {
+          return 'Ce prérequis créerait une boucle dans la chaîne de déblocage';
+        }
+        visited.add(current);
+
+        const island: { unlock_requirement_island_id: string | null } | undefined = await Database.get(
+          'SELECT unlock_requirement_island_id FROM islands WHERE id = ?',
+          [current]
+        );
+        current = island?.unlock_requirement_island_id || null;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Une île ne peut être désactivée tant qu'une île active en dépend
+   */
+  static async checkIslandDeactivation(islandId: string): Promise<string | null> {
+    const dependent = await Database.get<{ name: string }>(`
+      SELECT name FROM islands
+      WHERE is_active = 1 AND unlock_requirement_island_id = ? AND id != ?
+    `, [islandId, islandId]);
+
+    return dependent ? `${dependent.name} dépend de cette île: changez d'abord son prérequis` : null;
+  }
+
+  static async validateQuest(quest: QuestInput): Promise<string | null> {
+    const fieldError = this.validateCommon(quest);
+    if (fieldError) return fieldError;
+
+    if (!quest.island_id || !await WorldMapModel.getIslandById(quest.island_id, true)) {
+      return 'Île introuvable';
+    }
+
+    if (!Number.isInteger(quest.duration_hours) || quest.duration_hours < 1 || quest.duration_hours > MAX_QUEST_DURATION_HOURS) {
+      return `La durée doit être entre 1 et ${MAX_QUEST_DURATION_HOURS} heures`;
+    }
+
+    if (!Number.isInteger(quest.reward_berrys) || quest.reward_berrys < 0 || quest.reward_berrys > MAX_QUEST_REWARD_BERRYS) {
+      return `La récompense doit être entre 0 et ${MAX_QUEST_REWARD_BERRYS} Berrys`;
+    }
+
+    if (!Number.isInteger(quest.required_crew_count) || quest.required_crew_count < 1 || quest.required_crew_count > 10) {
+      return 'Le nombre de membres requis doit être entre 1 et 10';
+    }
+
+    if (quest.specific_crew_member_id && !await WorldMapModel.getCrewMemberById(quest.specific_crew_member_id)) {
+      return 'Le membre d\'équipage requis est introuvable ou inactif';
+    }
+
+    const requirementsError = CrewService.validateRequirements(JSON.parse(quest.stat_requirements));
+    if (requirementsError) return requirementsError;
+
+    return await QuestRewardService.validateExtraRewards(JSON.parse(quest.extra_rewards));
+  }
+
+  static async validateCrewMember(member: CrewMemberInput, crewMemberId: string | null): Promise<string | null> {
+    const fieldError = this.validateCommon(member);
+    if (fieldError) return fieldError;
+
+    if (member.image_url.length > MAX_IMAGE_URL_LENGTH) {
+      return `L'URL de l'image ne doit pas dépasser ${MAX_IMAGE_URL_LENGTH} caractères`;
+    }
+
+    if (member.unlock_island_id && !await WorldMapModel.getIslandById(member.unlock_island_id, true)) {
+      return 'Île de déblocage introuvable';
+    }
+
+    for (const stat of CREW_STATS) {
+      if (!Number.isInteger(member[stat]) || member[stat] < 1 || member[stat] > MAX_BASE_STAT) {
+        return `${STAT_LABELS[stat]} doit être entre 1 et ${MAX_BASE_STAT}`;
+      }
+    }
+
+    const charactersError = CrewService.validateCardCharacters(JSON.parse(member.card_characters));
+    if (charactersError) return charactersError;
+
+    if (!member.is_active && crewMemberId) {
+      return await this.checkCrewMemberDeactivation(crewMemberId);
+    }
+
+    return null;
+  }
+
+  /**
+   * Un membre d'équipage ne peut être désactivé tant qu'une quête ou une récompense d'île active le requiert
+   */
+  static async checkCrewMemberDeactivation(crewMemberId: string): Promise<string | null> {
+    const quest = await Database.get<{ name: string }>(
+      'SELECT name FROM quests WHERE is_active = 1 AND specific_crew_member_id = ?',
+      [crewMemberId]
+    );
+    if (quest) {
+      return `La quête ${quest.name} requiert ce membre d'équipage`;
+    }
+
+    const island = await Database.get<{ name: string }>(`
+      SELECT name FROM islands
+      WHERE is_active = 1 AND final_reward_type = 'crew_member' AND final_reward_crew_member_id = ?
+    `, [crewMemberId]);
+
+    return island ? `L'île ${island.name} donne ce membre d'équipage en récompense` : null;
+  }
+
+  /**
+   * Vérifier qu'un nouvel ordre contient exactement les éléments existants, sans doublon
+   */
+  static validateOrder(ids: unknown, existingIds: string[]): string | null {
+    if (!Array.isArray(ids) || ids.length !== existingIds.length || new Set(ids).size !== ids.length) {
+      return 'L\'ordre doit contenir chaque élément exactement une fois';
+    }
+
+    const existing = new Set(existingIds);
+    if (ids.some(id => typeof id !== 'string' || !existing.has(id))) {
+      return 'L\'ordre contient un élément inconnu';
+    }
+
+    return null;
+  }
+
+  /**
+   * Index placé après le dernier élément (d'une île pour les quêtes)
+   */
+  static async getNextOrderIndex(table: WorldTable, islandId?: string): Promise<number> {
+    const row = await Database.get<{ max_index: number | null }>(
+      `SELECT MAX(order_index) as max_index FROM ${table}${islandId ? ' WHERE island_id = ?' : ''}`,
+      islandId ? [islandId] : []
+    );
+
+    return (row?.max_index ?? 0) + 1;
+  }
+
+  private static validateCommon(entity: { name: string; description: string; order_index: number }): string | null {
+    if (entity.name.length < 2 || entity.name.length > MAX_NAME_LENGTH) {
+      return `Nom invalide (2-${MAX_NAME_LENGTH} caractères)`;
+    }
+
+    if (entity.description.length > MAX_DESCRIPTION_LENGTH) {
+      return `La description ne doit pas dépasser ${MAX_DESCRIPTION_LENGTH} caractères`;
+    }
+
+    if (!Number.isInteger(entity.order_index) || entity.order_index < 0) {
+      return 'L\'ordre doit être un entier positif';
+    }
+
+    return null;
+  }
+
+  private static payload<T>(input: unknown): T {
+    return (input && typeof input === 'object' && !Array.isArray(input) ? input : {}) as T;
+  }
+
+  private static pick<T, K extends keyof T>(body: Payload<T>, key: K, fallback: unknown): unknown {
+    return body[key] === undefined ? fallback : body[key];
+  }
+
+  private static text(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+  }
+
+  private static reference(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+  }
+
+  private static nullableNumber(value: unknown): number | null {
+    return value === null || value === undefined || value === '' ? null : Number(value);
+  }
+
+  private static flag(value: unknown): boolean {
+    return value === true || value === 1 || value === '1' || value === 'true';
+  }
+}
@@ -16,11 +16,14 @@ export enum AuditAction {
   // Cartes
   CARD_SOLD = 'card_sold',
   CARD_FAVORITE_TOGGLE = 'card_favorite_toggle',
+  CARD_CRAFTED = 'card_crafted',
+  CARD_DISENCHANTED = 'card_disenchanted',
   
   // Berrys
   BERRYS_EARNED = 'berrys_earned',
   BERRYS_SPENT = 'berrys_spent',
   BERRYS_DAILY_REWARD = 'berrys_daily_reward',
+  BERRYS_LEDGER_MISMATCH = 'berrys_ledger_mismatch',
   
   // Achievements
   ACHIEVEMENT_COMPLETED = 'achievement_completed',
@@ -33,7 +36,22 @@ export enum AuditAction {
   // Marketplace
   MARKETPLACE_LISTING_CREATED = 'marketplace_listing_created',
   MARKETPLACE_LISTING_CANCELLED = 'marketplace_listing_cancelled',
+  MARKETPLACE_LISTING_EXPIRED = 'marketplace_listing_expired',
+  MARKETPLACE_LISTING_RELISTED = 'marketplace_listing_relisted',
   MARKETPLACE_PURCHASE = 'marketplace_purchase',
+  MARKETPLACE_BID_PLACED = 'marketplace_bid_placed',
+  MARKETPLACE_AUCTION_SETTLED = 'marketplace_auction_settled',
+  MARKETPLACE_BUY_ORDER_CREATED = 'marketplace_buy_order_created',
+  MARKETPLACE_BUY_ORDER_FILLED = 'marketplace_buy_order_filled',
+  MARKETPLACE_BUY_ORDER_CANCELLED = 'marketplace_buy_order_cancelled',
+  MARKETPLACE_LISTING_SLOT_PURCHASED = 'marketplace_listing_slot_purchased',
+
+  // Échanges
+  TRADE_OFFER_CREATED = 'trade_offer_created',
+  TRADE_OFFER_ACCEPTED = 'trade_offer_accepted',
+  TRADE_OFFER_DECLINED = 'trade_offer_declined',
+  TRADE_OFFER_CANCELLED = 'trade_offer_cancelled',
+  TRADE_OFFER_COUNTERED = 'trade_offer_countered',
 
   // Sécurité
   FAILED_LOGIN_ATTEMPT = 'failed_login_attempt',
@@ -0,0 +1,54 @@
+// Paramètres de l'économie des Berrys partagés par les contrôleurs et services
+
+// Prix de vente des cartes en Berrys selon la rareté
+// Leader est plus rare que Rare mais moins rare que Super Rare
+export const CARD_SELL_PRICES: Record<string, number> = {
+  common: 10,
+  uncommon: 25,
+  rare: 50,
+  leader: 100,
+  super_rare: 150,
+  secret_rare: 500,
+};
+
+// Prix d'un booster en Berrys
+export const BOOSTER_BERRY_PRICE = 100;
+
+// Poussière obtenue en désenchantant une carte, selon la rareté
+export const CARD_DUST_VALUES: Record<string, number> = {
+  common: 5,
+  uncommon: 10,
+  rare: 25,
+  leader: 50,
+  super_rare: 100,
+  secret_rare: 400,
+};
+
+// Coût en poussière pour fabriquer une carte manquante, selon la rareté
+export const CARD_CRAFT_COSTS: Record<string, number> = {
+  common: 40,
+  uncommon: 100,
+  rare: 250,
+  leader: 500,
+  super_rare: 1000,
+  secret_rare: 4000,
+};
+
+// Nombre maximum de Secret Rare fabriquées par période glissante
+export const SECRET_RARE_CRAFT_LIMIT = 1;
+export const SECRET_RARE_CRAFT_PERIOD_DAYS = 7;
+
+// Solde maximum de poussière
+export const MAX_DUST = 999999999;
+
+// Annonces actives simultanées sur le marketplace, avant achat d'emplacements supplémentaires
+export const BASE_LISTING_SLOTS = 3;
+
+// Valeurs par défaut des paramètres réglables depuis l'administration (table economy_settings)
+export const DEFAULT_MARKETPLACE_TAX_RATE = 0.05;
+export const MAX_MARKETPLACE_TAX_RATE = 0.5;
+export const DEFAULT_LISTING_SLOT_PRICE = 2500;
+export const DEFAULT_MAX_EXTRA_LISTING_SLOTS = 3;
+
+// Solde maximum de Berrys (contrainte CHECK de la table users)
+export const MAX_BERRYS = 999999999;
@@ -933,6 +933,950 @@ export class MigrationManager {
       }
     });
 
+    // Migration 18: Ouvertures de boosters vérifiables (commit/reveal)
+    this.migrations.push({
+      version: 18,
+      name: 'add_provably_fair_seeds',
+      up: async () => {
+        console.log('📦 Migration 18: Ajout des seeds vérifiables pour les boosters...');
+
+        // Paire de seeds courante par utilisateur: le hash du seed serveur est publié
+        // avant l'ouverture, le seed lui-même est révélé une fois l'ouverture faite
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS user_seed_pairs (
+            user_id TEXT PRIMARY KEY,
+            server_seed TEXT NOT NULL,
+            server_seed_hash TEXT NOT NULL,
+            client_seed TEXT NOT NULL,
+            nonce INTEGER NOT NULL DEFAULT 0 CHECK(nonce >= 0),
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+          )
+        `);
+        console.log('  ✅ Table user_seed_pairs créée');
+
+        const columns = [
+          { name: 'server_seed', type: 'TEXT' },
+          { name: 'server_seed_hash', type: 'TEXT' },
+          { name: 'client_seed', type: 'TEXT' },
+          { name: 'nonce', type: 'INTEGER' }
+        ];
+
+        for (const column of columns) {
+          try {
+            await Database.run(`ALTER TABLE booster_openings ADD COLUMN ${column.name} ${column.type}`);
+          } catch (error) {
+            console.log(`  ℹ️ Colonne ${column.name} déjà présente`);
+          }
+        }
+        console.log('  ✅ Colonnes de vérification ajoutées à booster_openings');
+
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_booster_openings_booster_id ON booster_openings(booster_id)');
+
+        console.log('✅ Seeds vérifiables ajoutés');
+      },
+      down: async () => {
+        await Database.run('DROP TABLE IF EXISTS user_seed_pairs');
+        console.log('⚠️ Rollback partiel: les colonnes de booster_openings sont conservées (SQLite limitation)');
+      }
+    });
+
+    // Migration 19: Tables de drop configurables par booster
+    this.migrations.push({
+      version: 19,
+      name: 'create_booster_drop_tables',
+      up: async () => {
+        console.log('📦 Migration 19: Création des tables de drop par booster...');
+
+        // slot_weights: tableau JSON de pack_size entrées { rareté: poids }
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS booster_drop_tables (
+            booster_id TEXT PRIMARY KEY,
+            pack_size INTEGER NOT NULL DEFAULT 5 CHECK(pack_size >= 1 AND pack_size <= 12),
+            alternate_chance REAL NOT NULL DEFAULT 0.1 CHECK(alternate_chance >= 0 AND alternate_chance <= 1),
+            slot_weights TEXT NOT NULL,
+            updated_by TEXT,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (booster_id) REFERENCES boosters(id) ON DELETE CASCADE,
+            FOREIGN KEY (updated_by) REFERENCES users(id) ON DELETE SET NULL
+          )
+        `);
+        console.log('  ✅ Table booster_drop_tables créée');
+
+        // Les starter decks ne partagent pas les taux des booster packs (pas de Secret Rare)
+        const starterSlot = { common: 50, uncommon: 22, rare: 15, leader: 10, super_rare: 3 };
+        const starterWeights = JSON.stringify(Array.from({ length: 5 }, () => starterSlot));
+        const result = await Database.run(`
+          INSERT OR IGNORE INTO booster_drop_tables (booster_id, pack_size, alternate_chance, slot_weights)
+          SELECT id, 5, 0.05, ? FROM boosters WHERE code LIKE 'ST-%'
+        `, [starterWeights]);
+        console.log(`  ✅ ${result.changes} tables de drop starter deck créées`);
+
+        console.log('✅ Tables de drop créées');
+      },
+      down: async () => {
+        await Database.run('DROP TABLE IF EXISTS booster_drop_tables');
+      }
+    });
+
+    // Migration 20: Emplacements garantis pour les starter decks
+    this.migrations.push({
+      version: 20,
+      name: 'apply_slot_templates_to_starter_drop_tables',
+      up: async () => {
+        console.log('📦 Migration 20: Emplacements garantis pour les starter decks...');
+
+        // Uniquement les tables créées par la migration 19 et jamais modifiées par un admin
+        const starterSlot = { common: 50, uncommon: 22, rare: 15, leader: 10, super_rare: 3 };
+        const previousWeights = JSON.stringify(Array.from({ length: 5 }, () => starterSlot));
+        const slotWeights = JSON.stringify([
+          { common: 100 },
+          { common: 100 },
+          { common: 100 },
+          { uncommon: 70, rare: 30 },
+          { rare: 55, leader: 30, super_rare: 15 }
+        ]);
+
+        const result = await Database.run(`
+          UPDATE booster_drop_tables
+          SET slot_weights = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE slot_weights = ? AND updated_by IS NULL
+        `, [slotWeights, previousWeights]);
+        console.log(`  ✅ ${result.changes} tables de drop starter deck mises à jour`);
+
+        console.log('✅ Emplacements garantis appliqués');
+      },
+      down: async () => {
+        console.log('⚠️ Rollback: les tables de drop starter deck sont conservées');
+      }
+    });
+
+    // Migration 21: Compteurs de malchance (pity) par utilisateur et booster
+    this.migrations.push({
+      version: 21,
+      name: 'create_user_pity_counters',
+      up: async () => {
+        console.log('📦 Migration 21: Création des compteurs de malchance...');
+
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS user_pity_counters (
+            user_id TEXT NOT NULL,
+            booster_id TEXT NOT NULL,
+            packs_since_super_rare INTEGER NOT NULL DEFAULT 0 CHECK(packs_since_super_rare >= 0),
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (user_id, booster_id),
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+            FOREIGN KEY (booster_id) REFERENCES boosters(id) ON DELETE CASCADE
+          )
+        `);
+        console.log('  ✅ Table user_pity_counters créée');
+
+        // Garder la trace des ouvertures garanties pour pouvoir les rejouer à la vérification
+        try {
+          await Database.run('ALTER TABLE booster_openings ADD COLUMN pity_applied INTEGER DEFAULT 0');
+        } catch (error) {
+          console.log('  ℹ️ Colonne pity_applied déjà présente');
+        }
+
+        console.log('✅ Compteurs de malchance créés');
+      },
+      down: async () => {
+        await Database.run('DROP TABLE IF EXISTS user_pity_counters');
+      }
+    });
+
+    // Migration 22: Poussière de craft et historique du craft/désenchantement
+    this.migrations.push({
+      version: 22,
+      name: 'add_crafting_dust',
+      up: async () => {
+        console.log('📦 Migration 22: Ajout de la poussière de craft...');
+
+        try {
+          await Database.run('ALTER TABLE users ADD COLUMN dust INTEGER DEFAULT 0 CHECK(dust >= 0)');
+          console.log('  ✅ Colonne dust ajoutée à la table users');
+        } catch (error) {
+          console.log('  ℹ️ Colonne dust déjà présente');
+        }
+
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS card_crafting_history (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            card_id TEXT NOT NULL,
+            action TEXT NOT NULL CHECK(action IN ('craft', 'disenchant')),
+            rarity TEXT NOT NULL,
+            quantity INTEGER NOT NULL CHECK(quantity > 0),
+            dust_amount INTEGER NOT NULL CHECK(dust_amount >= 0),
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+            FOREIGN KEY (card_id) REFERENCES cards(id) ON DELETE CASCADE
+          )
+        `);
+        await Database.run(`
+          CREATE INDEX IF NOT EXISTS idx_card_crafting_history_user
+          ON card_crafting_history(user_id, action, rarity, created_at)
+        `);
+        console.log('  ✅ Table card_crafting_history créée');
+
+        console.log('✅ Poussière de craft ajoutée');
+      },
+      down: async () => {
+        await Database.run('DROP TABLE IF EXISTS card_crafting_history');
+      }
+    });
+
+    // Migration 23: Séquestre des cartes mises en vente sur le marketplace
+    this.migrations.push({
+      version: 23,
+      name: 'add_marketplace_escrow',
+      up: async () => {
+        console.log('📦 Migration 23: Séquestre des cartes en vente...');
+
+        try {
+          await Database.run('ALTER TABLE user_collections ADD COLUMN reserved_quantity INTEGER DEFAULT 0 CHECK(reserved_quantity >= 0)');
+          console.log('  ✅ Colonne reserved_quantity ajoutée à user_collections');
+        } catch (error) {
+          console.log('  ℹ️ Colonne reserved_quantity déjà présente');
+        }
+
+        // Annonces dont le vendeur n'a plus d'exemplaire à mettre sous séquestre
+        const cancelled = await Database.run(`
+          UPDATE marketplace_listings
+          SET status = 'cancelled'
+          WHERE status = 'active'
+            AND NOT EXISTS (
+              SELECT 1 FROM user_collections uc
+              WHERE uc.user_id = marketplace_listings.seller_id
+                AND uc.card_id = marketplace_listings.card_id
+                AND uc.quantity >= 2
+            )
+        `);
+        console.log(`  ✅ ${cancelled.changes} annonces sans exemplaire disponible annulées`);
+
+        // Réserver un exemplaire pour chaque annonce active restante
+        await Database.run(`
+          UPDATE user_collections
+          SET reserved_quantity = (
+            SELECT COUNT(*) FROM marketplace_listings ml
+            WHERE ml.seller_id = user_collections.user_id
+              AND ml.card_id = user_collections.card_id
+              AND ml.status = 'active'
+          )
+        `);
+        console.log('  ✅ Exemplaires des annonces actives mis sous séquestre');
+
+        console.log('✅ Séquestre du marketplace créé');
+      },
+      down: async () => {
+        console.log('⚠️ Rollback: la colonne reserved_quantity est conservée');
+      }
+    });
+
+    // Migration 24: Offres d'échange directes entre joueurs
+    this.migrations.push({
+      version: 24,
+      name: 'create_trade_offers',
+      up: async () => {
+        console.log('📦 Migration 24: Création des offres d\'échange...');
+
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS trade_offers (
+            id TEXT PRIMARY KEY,
+            proposer_id TEXT NOT NULL,
+            recipient_id TEXT NOT NULL,
+            offered_berrys INTEGER NOT NULL DEFAULT 0 CHECK(offered_berrys >= 0),
+            requested_berrys INTEGER NOT NULL DEFAULT 0 CHECK(requested_berrys >= 0),
+            status TEXT NOT NULL CHECK(status IN ('pending', 'accepted', 'declined', 'cancelled', 'countered')) DEFAULT 'pending',
+            parent_offer_id TEXT,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            responded_at DATETIME,
+            FOREIGN KEY (proposer_id) REFERENCES users(id) ON DELETE CASCADE,
+            FOREIGN KEY (recipient_id) REFERENCES users(id) ON DELETE CASCADE,
+            FOREIGN KEY (parent_offer_id) REFERENCES trade_offers(id) ON DELETE SET NULL
+          )
+        `);
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_trade_offers_proposer ON trade_offers(proposer_id, status)');
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_trade_offers_recipient ON trade_offers(recipient_id, status)');
+        console.log('  ✅ Table trade_offers créée');
+
+        // Cartes de chaque côté de l'échange: 'offered' par le proposant, 'requested' au destinataire
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS trade_offer_items (
+            offer_id TEXT NOT NULL,
+            side TEXT NOT NULL CHECK(side IN ('offered', 'requested')),
+            card_id TEXT NOT NULL,
+            quantity INTEGER NOT NULL CHECK(quantity > 0),
+            PRIMARY KEY (offer_id, side, card_id),
+            FOREIGN KEY (offer_id) REFERENCES trade_offers(id) ON DELETE CASCADE,
+            FOREIGN KEY (card_id) REFERENCES cards(id) ON DELETE CASCADE
+          )
+        `);
+        console.log('  ✅ Table trade_offer_items créée');
+
+        console.log('✅ Offres d\'échange créées');
+      },
+      down: async () => {
+        await Database.run('DROP TABLE IF EXISTS trade_offer_items');
+        await Database.run('DROP TABLE IF EXISTS trade_offers');
+      }
+    });
+
+    // Migration 25: Enchères sur le marketplace
+    this.migrations.push({
+      version: 25,
+      name: 'add_marketplace_auctions',
+      up: async () => {
+        console.log('📦 Migration 25: Ajout des enchères au marketplace...');
+
+        // Le statut 'expired' (enchère terminée sans offre) nécessite de reconstruire la table (limitation SQLite sur CHECK)
+        const table = await Database.get<{ sql: string }>(
+          'SELECT sql FROM sqlite_master WHERE type = \'table\' AND name = \'marketplace_listings\''
+        );
+        if (table && !table.sql.includes('listing_type')) {
+          await Database.run(`
+            CREATE TABLE marketplace_listings_new (
+              id TEXT PRIMARY KEY,
+              seller_id TEXT NOT NULL,
+              card_id TEXT NOT NULL,
+              price INTEGER NOT NULL CHECK(price > 0),
+              status TEXT NOT NULL CHECK(status IN ('active', 'sold', 'cancelled', 'expired')) DEFAULT 'active',
+              buyer_id TEXT,
+              created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+              sold_at DATETIME,
+              listing_type TEXT NOT NULL CHECK(listing_type IN ('fixed', 'auction')) DEFAULT 'fixed',
+              buyout_price INTEGER CHECK(buyout_price IS NULL OR buyout_price > 0),
+              ends_at DATETIME,
+              current_bid INTEGER,
+              current_bidder_id TEXT,
+              FOREIGN KEY (seller_id) REFERENCES users(id) ON DELETE CASCADE,
+              FOREIGN KEY (buyer_id) REFERENCES users(id) ON DELETE SET NULL,
+              FOREIGN KEY (card_id) REFERENCES cards(id) ON DELETE CASCADE,
+              FOREIGN KEY (current_bidder_id) REFERENCES users(id) ON DELETE SET NULL
+            )
+          `);
+
+          await Database.run(`
+            INSERT INTO marketplace_listings_new (id, seller_id, card_id, price, status, buyer_id, created_at, sold_at)
+            SELECT id, seller_id, card_id, price, status, buyer_id, created_at, sold_at
+            FROM marketplace_listings
+          `);
+
+          await Database.run('DROP TABLE marketplace_listings');
+          await Database.run('ALTER TABLE marketplace_listings_new RENAME TO marketplace_listings');
+
+          await Database.run('CREATE INDEX IF NOT EXISTS idx_marketplace_seller_id ON marketplace_listings(seller_id)');
+          await Database.run('CREATE INDEX IF NOT EXISTS idx_marketplace_buyer_id ON marketplace_listings(buyer_id)');
+          await Database.run('CREATE INDEX IF NOT EXISTS idx_marketplace_card_id ON marketplace_listings(card_id)');
+          await Database.run('CREATE INDEX IF NOT EXISTS idx_marketplace_status ON marketplace_listings(status)');
+          await Database.run('CREATE INDEX IF NOT EXISTS idx_marketplace_created_at ON marketplace_listings(created_at)');
+          await Database.run('CREATE INDEX IF NOT EXISTS idx_marketplace_ends_at ON marketplace_listings(status, ends_at)');
+          console.log('  ✅ Table marketplace_listings reconstruite avec les colonnes d\'enchère');
+        } else {
+          console.log('  ℹ️ Colonnes d\'enchère déjà présentes');
+        }
+
+        // Historique des enchères: le montant de l'enchère la plus haute est retenu sur le solde de l'enchérisseur
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS marketplace_bids (
+            id TEXT PRIMARY KEY,
+            listing_id TEXT NOT NULL,
+            bidder_id TEXT NOT NULL,
+            amount INTEGER NOT NULL CHECK(amount > 0),
+            status TEXT NOT NULL CHECK(status IN ('active', 'outbid', 'won')) DEFAULT 'active',
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (listing_id) REFERENCES marketplace_listings(id) ON DELETE CASCADE,
+            FOREIGN KEY (bidder_id) REFERENCES users(id) ON DELETE CASCADE
+          )
+        `);
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_marketplace_bids_listing ON marketplace_bids(listing_id, amount)');
+        console.log('  ✅ Table marketplace_bids créée');
+
+        console.log('✅ Enchères ajoutées au marketplace');
+      },
+      down: async () => {
+        await Database.run('DROP TABLE IF EXISTS marketplace_bids');
+      }
+    });
+
+    // Migration 26: Ordres d'achat sur le marketplace
+    this.migrations.push({
+      version: 26,
+      name: 'create_marketplace_buy_orders',
+      up: async () => {
+        console.log('📦 Migration 26: Création des ordres d\'achat...');
+
+        // Le prix maximum est retenu sur le solde de l'acheteur tant que l'ordre est ouvert
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS marketplace_buy_orders (
+            id TEXT PRIMARY KEY,
+            buyer_id TEXT NOT NULL,
+            card_id TEXT NOT NULL,
+            max_price INTEGER NOT NULL CHECK(max_price > 0),
+            status TEXT NOT NULL CHECK(status IN ('active', 'filled', 'cancelled')) DEFAULT 'active',
+            seller_id TEXT,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            filled_at DATETIME,
+            FOREIGN KEY (buyer_id) REFERENCES users(id) ON DELETE CASCADE,
+            FOREIGN KEY (card_id) REFERENCES cards(id) ON DELETE CASCADE,
+            FOREIGN KEY (seller_id) REFERENCES users(id) ON DELETE SET NULL
+          )
+        `);
+
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_buy_orders_card ON marketplace_buy_orders(card_id, status, max_price)');
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_buy_orders_buyer ON marketplace_buy_orders(buyer_id, status)');
+
+        console.log('✅ Table marketplace_buy_orders créée');
+      },
+      down: async () => {
+        await Database.run('DROP TABLE IF EXISTS marketplace_buy_orders');
+      }
+    });
+
+    // Migration 27: Index pour la recherche du marketplace
+    this.migrations.push({
+      version: 27,
+      name: 'add_marketplace_search_indexes',
+      up: async () => {
+        console.log('📦 Migration 27: Index de recherche du marketplace...');
+
+        // Tri par date et pagination par curseur (created_at, id)
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_marketplace_status_created ON marketplace_listings(status, created_at, id)');
+        // Tri et filtre par prix affiché (même expression que MarketplaceListingModel)
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_marketplace_status_price ON marketplace_listings(status, COALESCE(current_bid, price), id)');
+        // Filtre par carte (annonces d'une carte, rapprochement avec les ordres d'achat)
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_marketplace_card_status ON marketplace_listings(card_id, status)');
+
+        console.log('✅ Index de recherche du marketplace créés');
+      },
+      down: async () => {
+        await Database.run('DROP INDEX IF EXISTS idx_marketplace_status_created');
+        await Database.run('DROP INDEX IF EXISTS idx_marketplace_status_price');
+        await Database.run('DROP INDEX IF EXISTS idx_marketplace_card_status');
+      }
+    });
+
+    // Migration 28: Historique des prix de vente des cartes
+    this.migrations.push({
+      version: 28,
+      name: 'create_card_price_history',
+      up: async () => {
+        console.log('📦 Migration 28: Création de l\'historique des prix...');
+
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS card_price_history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            card_id TEXT NOT NULL,
+            price INTEGER NOT NULL CHECK(price > 0),
+            source TEXT NOT NULL CHECK(source IN ('listing', 'auction', 'buy_order')),
+            reference_id TEXT,
+            seller_id TEXT,
+            buyer_id TEXT,
+            sold_at DATETIME NOT NULL,
+            FOREIGN KEY (card_id) REFERENCES cards(id) ON DELETE CASCADE,
+            FOREIGN KEY (seller_id) REFERENCES users(id) ON DELETE SET NULL,
+            FOREIGN KEY (buyer_id) REFERENCES users(id) ON DELETE SET NULL
+          )
+        `);
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_price_history_card ON card_price_history(card_id, sold_at)');
+
+        // Reprendre les ventes déjà conclues
+        await Database.run(`
+          INSERT INTO card_price_history (card_id, price, source, reference_id, seller_id, buyer_id, sold_at)
+          SELECT card_id, COALESCE(current_bid, price), CASE listing_type WHEN 'auction' THEN 'auction' ELSE 'listing' END,
+            id, seller_id, buyer_id, COALESCE(sold_at, created_at)
+          FROM marketplace_listings
+          WHERE status = 'sold'
+        `);
+        await Database.run(`
+          INSERT INTO card_price_history (card_id, price, source, reference_id, seller_id, buyer_id, sold_at)
+          SELECT card_id, max_price, 'buy_order', id, seller_id, buyer_id, COALESCE(filled_at, created_at)
+          FROM marketplace_buy_orders
+          WHERE status = 'filled'
+        `);
+
+        console.log('✅ Historique des prix créé');
+      },
+      down: async () => {
+        await Database.run('DROP TABLE IF EXISTS card_price_history');
+      }
+    });
+
+    // Migration 29: Taxe du marketplace et emplacements d'annonces payants
+    this.migrations.push({
+      version: 29,
+      name: 'create_economy_settings',
+      up: async () => {
+        console.log('📦 Migration 29: Paramètres de l\'économie...');
+
+        // Ligne unique, modifiable depuis l'administration
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS economy_settings (
+            id INTEGER PRIMARY KEY CHECK(id = 1),
+            marketplace_tax_rate REAL NOT NULL DEFAULT 0.05 CHECK(marketplace_tax_rate >= 0 AND marketplace_tax_rate <= 0.5),
+            listing_slot_price INTEGER NOT NULL DEFAULT 2500 CHECK(listing_slot_price > 0),
+            max_extra_listing_slots INTEGER NOT NULL DEFAULT 3 CHECK(max_extra_listing_slots >= 0),
+            updated_by TEXT,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            FOREIGN KEY (updated_by) REFERENCES users(id) ON DELETE SET NULL
+          )
+        `);
+        await Database.run('INSERT OR IGNORE INTO economy_settings (id) VALUES (1)');
+        console.log('  ✅ Table economy_settings créée');
+
+        try {
+          await Database.run('ALTER TABLE users ADD COLUMN extra_listing_slots INTEGER DEFAULT 0 CHECK(extra_listing_slots >= 0)');
+          console.log('  ✅ Colonne extra_listing_slots ajoutée à users');
+        } catch (error) {
+          console.log('  ℹ️ Colonne extra_listing_slots déjà présente');
+        }
+
+        console.log('✅ Paramètres de l\'économie créés');
+      },
+      down: async () => {
+        await Database.run('DROP TABLE IF EXISTS economy_settings');
+        console.log('⚠️ Rollback: la colonne extra_listing_slots est conservée');
+      }
+    });
+
+    // Migration 30: Registre en partie double de tous les mouvements de Berrys
+    this.migrations.push({
+      version: 30,
+      name: 'create_berry_ledger',
+      up: async () => {
+        console.log('📦 Migration 30: Registre des Berrys...');
+
+        // Chaque mouvement est une transaction dont les écritures s'annulent (somme nulle).
+        // account: 'user' (solde d'un joueur) ou compte système: mint, burn, escrow, adjustment, opening
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS berry_ledger (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            transaction_id TEXT NOT NULL,
+            account TEXT NOT NULL CHECK(account IN ('user', 'mint', 'burn', 'escrow', 'adjustment', 'opening')),
+            user_id TEXT,
+            amount INTEGER NOT NULL CHECK(amount != 0),
+            balance_after INTEGER,
+            source TEXT NOT NULL,
+            reference_id TEXT,
+            created_at DATETIME NOT NULL,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+          )
+        `);
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_berry_ledger_user ON berry_ledger(user_id, id)');
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_berry_ledger_transaction ON berry_ledger(transaction_id)');
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_berry_ledger_account ON berry_ledger(account, source, created_at)');
+        console.log('  ✅ Table berry_ledger créée');
+
+        const now = new Date().toISOString();
+
+        // Solde d'ouverture: la somme des écritures de chaque joueur égale son solde actuel
+        await Database.run(`
+          INSERT INTO berry_ledger (transaction_id, account, user_id, amount, balance_after, source, created_at)
+          SELECT 'opening_' || id, 'user', id, berrys, berrys, 'opening_balance', ?
+          FROM users
+          WHERE COALESCE(berrys, 0) != 0
+        `, [now]);
+        await Database.run(`
+          INSERT INTO berry_ledger (transaction_id, account, user_id, amount, source, created_at)
+          SELECT transaction_id, 'opening', NULL, -amount, source, created_at
+          FROM berry_ledger
+          WHERE source = 'opening_balance' AND account = 'user'
+        `);
+
+        // Berrys déjà retenus par les ordres d'achat et enchères en cours
+        const held = await Database.get<{ total: number | null }>(`
+          SELECT
+            (SELECT COALESCE(SUM(max_price), 0) FROM marketplace_buy_orders WHERE status = 'active')
+            + (SELECT COALESCE(SUM(current_bid), 0) FROM marketplace_listings WHERE status = 'active' AND current_bid IS NOT NULL) as total
+        `);
+        if (held?.total) {
+          await Database.run(`
+            INSERT INTO berry_ledger (transaction_id, account, amount, source, created_at)
+            VALUES ('opening_escrow', 'escrow', ?, 'opening_balance', ?), ('opening_escrow', 'opening', ?, 'opening_balance', ?)
+          `, [held.total, now, -held.total, now]);
+        }
+        console.log('  ✅ Soldes d\'ouverture enregistrés');
+
+        console.log('✅ Registre des Berrys créé');
+      },
+      down: async () => {
+        await Database.run('DROP TABLE IF EXISTS berry_ledger');
+      }
+    });
+
+    // Migration 31: Expiration des annonces à prix fixe et notifications personnelles
+    this.migrations.push({
+      version: 31,
+      name: 'add_listing_expiry',
+      up: async () => {
+        console.log('📦 Migration 31: Expiration des annonces...');
+
+        // Destinataire d'une notification personnelle (NULL = notification globale)
+        try {
+          await Database.run('ALTER TABLE notifications ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE CASCADE');
+          console.log('  ✅ Colonne user_id ajoutée à notifications');
+        } catch (error) {
+          console.log('  ℹ️ Colonne user_id déjà présente');
+        }
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id)');
+
+        // Les annonces à prix fixe déjà en ligne expirent dans 7 jours
+        const endsAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+        const result = await Database.run(`
+          UPDATE marketplace_listings
+          SET ends_at = ?
+          WHERE status = 'active' AND listing_type = 'fixed' AND ends_at IS NULL
+        `, [endsAt]);
+        console.log(`  ✅ ${result.changes} annonce(s) à prix fixe avec une date d'expiration`);
+
+        console.log('✅ Expiration des annonces ajoutée');
+      },
+      down: async () => {
+        await Database.run('DROP INDEX IF EXISTS idx_notifications_user_id');
+        await Database.run(`
+          UPDATE marketplace_listings
+          SET ends_at = NULL
+          WHERE listing_type = 'fixed'
+        `);
+        console.log('⚠️ Rollback: la colonne notifications.user_id est conservée');
+      }
+    });
+
+    // Migration 32: Récompenses de quêtes typées (boosters, cartes, expérience d'équipage)
+    this.migrations.push({
+      version: 32,
+      name: 'add_quest_reward_definitions',
+      up: async () => {
+        console.log('📦 Migration 32: Récompenses de quêtes typées...');
+
+        // extra_rewards: définitions JSON en plus de reward_berrys (booster, card, crew_xp)
+        // quest_history.rewards: récompenses réellement obtenues (cartes tirées, expérience)
+        const columns = [
+          { table: 'quests', name: 'extra_rewards', type: "TEXT NOT NULL DEFAULT '[]'" },
+          { table: 'quest_history', name: 'rewards', type: 'TEXT' },
+          { table: 'user_crew_members', name: 'experience', type: 'INTEGER NOT NULL DEFAULT 0' }
+        ];
+
+        for (const column of columns) {
+          try {
+            await Database.run(`ALTER TABLE ${column.table} ADD COLUMN ${column.name} ${column.type}`);
+            console.log(`  ✅ Colonne ${column.name} ajoutée à ${column.table}`);
+          } catch (error) {
+            console.log(`  ℹ️ Colonne ${column.table}.${column.name} déjà présente`);
+          }
+        }
+
+        console.log('✅ Récompenses de quêtes typées ajoutées');
+      },
+      down: async () => {
+        console.log('⚠️ Rollback: les colonnes extra_rewards, rewards et experience sont conservées');
+      }
+    });
+
+    // Exigences des quêtes existantes posées par la migration 33, calibrées sur l'équipage disponible à chaque île
+    const crewProgressionQuestRequirements: Record<string, Record<string, number>> = {
+      quest_fuchsia_1: { stamina: 20 },
+      quest_fuchsia_2: { strength: 20 },
+      quest_fuchsia_3: { stamina: 20 },
+      quest_shells_1: { strength: 20 },
+      quest_shells_2: { strength: 20 },
+      quest_shells_3: { stamina: 20 },
+      quest_orange_1: { strength: 20 },
+      quest_orange_2: { strength: 40 },
+      quest_orange_3: { intelligence: 5 },
+      quest_syrup_1: { stamina: 20 },
+      quest_syrup_2: { strength: 50, intelligence: 25 },
+      quest_syrup_3: { navigation: 25 },
+      quest_baratie_1: { stamina: 25 },
+      quest_baratie_2: { strength: 55, stamina: 40 },
+      quest_baratie_3: { strength: 25 },
+      quest_arlong_1: { strength: 50, intelligence: 30 },
+      quest_arlong_2: { strength: 85 },
+      quest_arlong_3: { strength: 25 },
+      quest_logue_1: { intelligence: 20 },
+      quest_logue_2: { intelligence: 40, navigation: 30 },
+      quest_logue_3: { stamina: 65, navigation: 35 },
+      quest_drum_1: { stamina: 50, navigation: 35 },
+      quest_drum_2: { strength: 80 },
+      quest_drum_3: { intelligence: 20 },
+      quest_alabasta_1: { stamina: 75, navigation: 45 },
+      quest_alabasta_2: { intelligence: 85, strength: 75 },
+      quest_alabasta_3: { strength: 30 },
+      quest_water7_1: { intelligence: 65, navigation: 40 },
+      quest_water7_2: { strength: 115, stamina: 90 },
+      quest_water7_3: { intelligence: 65 },
+      quest_thriller_1: { navigation: 70, intelligence: 75 },
+      quest_thriller_2: { strength: 140, stamina: 100 },
+      quest_thriller_3: { strength: 150, stamina: 115 },
+      quest_sabaody_1: { navigation: 55 },
+      quest_sabaody_2: { stamina: 145, navigation: 80 },
+      quest_sabaody_3: { strength: 160, stamina: 125, intelligence: 125 }
+    };
+
+    // Migration 33: Niveaux, statistiques d'équipage et chance de réussite des quêtes
+    this.migrations.push({
+      version: 33,
+      name: 'add_crew_progression',
+      up: async () => {
+        console.log('📦 Migration 33: Progression de l\'équipage...');
+
+        const columns = [
+          { table: 'crew_members', name: 'strength', type: 'INTEGER NOT NULL DEFAULT 10' },
+          { table: 'crew_members', name: 'navigation', type: 'INTEGER NOT NULL DEFAULT 10' },
+          { table: 'crew_members', name: 'intelligence', type: 'INTEGER NOT NULL DEFAULT 10' },
+          { table: 'crew_members', name: 'stamina', type: 'INTEGER NOT NULL DEFAULT 10' },
+          // Total de statistiques de l'équipe attendu par statistique (JSON), vide = réussite assurée
+          { table: 'quests', name: 'stat_requirements', type: "TEXT NOT NULL DEFAULT '{}'" },
+          // Chance figée au départ de la quête, le tirage a lieu à la réclamation
+          { table: 'active_quests', name: 'success_chance', type: 'REAL NOT NULL DEFAULT 1' },
+          { table: 'quest_history', name: 'success', type: 'BOOLEAN NOT NULL DEFAULT 1' }
+        ];
+
+        for (const column of columns) {
+          try {
+            await Database.run(`ALTER TABLE ${column.table} ADD COLUMN ${column.name} ${column.type}`);
+            console.log(`  ✅ Colonne ${column.name} ajoutée à ${column.table}`);
+          } catch (error) {
+            console.log(`  ℹ️ Colonne ${column.table}.${column.name} déjà présente`);
+          }
+        }
+
+        // Statistiques de base de l'équipage (niveau 1), reprises dans config/world-map-quests.json
+        const crewStats: Record<string, [number, number, number, number]> = {
+          crew_luffy: [20, 4, 6, 20],
+          crew_zoro: [20, 2, 6, 18],
+          crew_nami: [6, 22, 16, 8],
+          crew_usopp: [8, 10, 14, 8],
+          crew_sanji: [18, 6, 10, 14],
+          crew_chopper: [8, 6, 20, 12],
+          crew_robin: [10, 10, 22, 10],
+          crew_franky: [18, 12, 16, 16],
+          crew_brook: [12, 8, 10, 20]
+        };
+
+        for (const [crewMemberId, [strength, navigation, intelligence, stamina]] of Object.entries(crewStats)) {
+          await Database.run(`
+            UPDATE crew_members
+            SET strength = ?, navigation = ?, intelligence = ?, stamina = ?
+            WHERE id = ?
+          `, [strength, navigation, intelligence, stamina, crewMemberId]);
+        }
+        console.log('  ✅ Statistiques de l\'équipage initialisées');
+
+        for (const [questId, requirements] of Object.entries(crewProgressionQuestRequirements)) {
+          await Database.run(`
+            UPDATE quests SET stat_requirements = ?
+            WHERE id = ? AND stat_requirements = '{}'
+          `, [JSON.stringify(requirements), questId]);
+        }
+        console.log('  ✅ Exigences des quêtes initialisées');
+
+        // Expérience des quêtes déjà terminées: 20 points par heure de quête pour chaque membre envoyé
+        // (CrewService.CREW_XP_PER_QUEST_HOUR), recalculée et non ajoutée pour que la migration puisse être rejouée
+        await Database.run(`
+          UPDATE user_crew_members
+          SET experience = COALESCE((
+            SELECT SUM(q.duration_hours) * 20
+            FROM quest_history qh
+            JOIN quests q ON q.id = qh.quest_id
+            JOIN json_each(qh.crew_member_ids) member
+            WHERE qh.user_id = user_crew_members.user_id
+              AND member.value = user_crew_members.crew_member_id
+          ), 0)
+        `);
+        console.log('  ✅ Expérience reprise de l\'historique des quêtes');
+
+        console.log('✅ Progression de l\'équipage ajoutée');
+      },
+      down: async () => {
+        // Seules les exigences posées par la migration sont retirées, pas celles modifiées depuis l'éditeur
+        for (const [questId, requirements] of Object.entries(crewProgressionQuestRequirements)) {
+          await Database.run(`
+            UPDATE quests SET stat_requirements = '{}'
+            WHERE id = ? AND stat_requirements = ?
+          `, [questId, JSON.stringify(requirements)]);
+        }
+        await Database.run('UPDATE active_quests SET success_chance = 1');
+        console.log('⚠️ Rollback: les colonnes de statistiques et d\'expérience sont conservées');
+      }
+    });
+
+    // Migration 34: Bonus d'équipage liés aux cartes possédées
+    this.migrations.push({
+      version: 34,
+      name: 'add_crew_card_bonuses',
+      up: async () => {
+        console.log('📦 Migration 34: Bonus de cartes de l\'équipage...');
+
+        const columns = [
+          // Valeurs de cards.character représentant le membre (JSON)
+          { table: 'crew_members', name: 'card_characters', type: "TEXT NOT NULL DEFAULT '[]'" },
+          // Bonus de Berrys figé au départ de la quête, la réduction de durée est déjà dans completes_at
+          { table: 'active_quests', name: 'reward_bonus', type: 'REAL NOT NULL DEFAULT 0' }
+        ];
+
+        for (const column of columns) {
+          try {
+            await Database.run(`ALTER TABLE ${column.table} ADD COLUMN ${column.name} ${column.type}`);
+            console.log(`  ✅ Colonne ${column.name} ajoutée à ${column.table}`);
+          } catch (error) {
+            console.log(`  ℹ️ Colonne ${column.table}.${column.name} déjà présente`);
+          }
+        }
+
+        // Personnages des cartes de chaque membre, repris dans config/world-map-quests.json
+        const cardCharacters: Record<string, string[]> = {
+          crew_luffy: ['Monkey.D.Luffy'],
+          crew_zoro: ['Roronoa Zoro'],
+          crew_nami: ['Nami'],
+          crew_usopp: ['Usopp'],
+          crew_sanji: ['Sanji'],
+          crew_chopper: ['Tony Tony.Chopper'],
+          crew_robin: ['Nico Robin'],
+          crew_franky: ['Franky'],
+          crew_brook: ['Brook']
+        };
+
+        for (const [crewMemberId, characters] of Object.entries(cardCharacters)) {
+          await Database.run(`
+            UPDATE crew_members SET card_characters = ?
+            WHERE id = ? AND card_characters = '[]'
+          `, [JSON.stringify(characters), crewMemberId]);
+        }
+        console.log('  ✅ Personnages des cartes de l\'équipage initialisés');
+
+        console.log('✅ Bonus de cartes de l\'équipage ajoutés');
+      },
+      down: async () => {
+        await Database.run('UPDATE active_quests SET reward_bonus = 0');
+        console.log('⚠️ Rollback: les colonnes de bonus de cartes sont conservées');
+      }
+    });
+
+    // Migration 35: Réservation des membres d'équipage envoyés en quête
+    this.migrations.push({
+      version: 35,
+      name: 'add_crew_assignments',
+      up: async () => {
+        console.log('📦 Migration 35: Réservation de l\'équipage...');
+
+        // Un membre ne peut être réservé que par une seule quête en cours (clé primaire)
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS crew_assignments (
+            user_id TEXT NOT NULL,
+            crew_member_id TEXT NOT NULL,
+            active_quest_id TEXT NOT NULL,
+            assigned_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (user_id, crew_member_id),
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+            FOREIGN KEY (crew_member_id) REFERENCES crew_members(id) ON DELETE CASCADE,
+            FOREIGN KEY (active_quest_id) REFERENCES active_quests(id) ON DELETE CASCADE
+          )
+        `);
+        await Database.run('CREATE INDEX IF NOT EXISTS idx_crew_assignments_quest ON crew_assignments(active_quest_id)');
+        console.log('  ✅ Table crew_assignments créée');
+
+        // Reprendre les membres des quêtes en cours
+        await Database.run(`
+          INSERT OR IGNORE INTO crew_assignments (user_id, crew_member_id, active_quest_id, assigned_at)
+          SELECT aq.user_id, member.value, aq.id, aq.started_at
+          FROM active_quests aq
+          JOIN json_each(aq.crew_member_ids) member
+          WHERE aq.completed = 0
+        `);
+        console.log('  ✅ Membres des quêtes en cours réservés');
+
+        console.log('✅ Réservation de l\'équipage ajoutée');
+      },
+      down: async () => {
+        await Database.run('DROP TABLE IF EXISTS crew_assignments');
+        console.log('✅ Table crew_assignments supprimée');
+      }
+    });
+
+    // Migration 36: Table de drop figée avec chaque ouverture
+    this.migrations.push({
+      version: 36,
+      name: 'add_opening_drop_tables',
+      up: async () => {
+        console.log('📦 Migration 36: Enregistrement de la table de drop des ouvertures...');
+
+        // La vérification rejoue le tirage avec la table en vigueur lors de l'ouverture,
+        // et non avec la table actuelle (modifiée par un admin ou par la migration 20)
+        try {
+          await Database.run('ALTER TABLE booster_openings ADD COLUMN drop_table TEXT');
+          console.log('  ✅ Colonne drop_table ajoutée à booster_openings');
+        } catch (error) {
+          console.log('  ℹ️ Colonne drop_table déjà présente');
+        }
+
+        console.log('✅ Table de drop des ouvertures enregistrée');
+      },
+      down: async () => {
+        console.log('⚠️ Rollback: la colonne drop_table est conservée (SQLite limitation)');
+      }
+    });
+
+    // Migration 37: Cartes tirables figées avec chaque ouverture
+    this.migrations.push({
+      version: 37,
+      name: 'add_opening_card_pools',
+      up: async () => {
+        console.log('📦 Migration 37: Enregistrement des cartes tirables des ouvertures...');
+
+        // Le tirage indexe les cartes actives du booster: une synchronisation du catalogue
+        // ne doit pas fausser la vérification des ouvertures passées.
+        // Un même contenu de booster est partagé par toutes ses ouvertures via son hash.
+        await Database.run(`
+          CREATE TABLE IF NOT EXISTS booster_card_pools (
+            hash TEXT PRIMARY KEY,
+            card_pool TEXT NOT NULL,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+          )
+        `);
+        console.log('  ✅ Table booster_card_pools créée');
+
+        try {
+          await Database.run('ALTER TABLE booster_openings ADD COLUMN card_pool_hash TEXT');
+          console.log('  ✅ Colonne card_pool_hash ajoutée à booster_openings');
+        } catch (error) {
+          console.log('  ℹ️ Colonne card_pool_hash déjà présente');
+        }
+
+        console.log('✅ Cartes tirables des ouvertures enregistrées');
+      },
+      down: async () => {
+        console.log('🔄 Rollback Migration 37...');
+        await Database.run('DROP TABLE IF EXISTS booster_card_pools');
+        // Les hashes ne pointeraient plus vers rien
+        await Database.run('UPDATE booster_openings SET card_pool_hash = NULL');
+        console.log('⚠️ La colonne card_pool_hash est conservée (SQLite limitation)');
+      }
+    });
+
+    // Migration 38: Remise en vente unique des annonces expirées
+    this.migrations.push({
+      version: 38,
+      name: 'add_listing_relisted_at',
+      up: async () => {
+        console.log('📦 Migration 38: Suivi des remises en vente...');
+
+        try {
+          await Database.run('ALTER TABLE marketplace_listings ADD COLUMN relisted_at DATETIME');
+          console.log('  ✅ Colonne relisted_at ajoutée à marketplace_listings');
+        } catch (error) {
+          console.log('  ℹ️ Colonne relisted_at déjà présente');
+        }
+
+        console.log('✅ Suivi des remises en vente ajouté');
+      },
+      down: async () => {
+        console.log('⚠️ Rollback: la colonne relisted_at est conservée (SQLite limitation)');
+      }
+    });
+
     // Trier les migrations par version
     this.migrations.sort((a, b) => a.version - b.version);
   }
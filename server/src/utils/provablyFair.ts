@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+
+/**
+ * Source de hasard utilisée par le tirage des boosters
+ */
+export interface RandomSource {
+  next(): number;
+}
+
+// Hasard non vérifiable, pour les simulations
+export const defaultRandom: RandomSource = {
+  next: () => Math.random()
+};
+
+/**
+ * Génère un seed serveur secret (64 caractères hexadécimaux)
+ */
+export function generateServerSeed(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Génère un seed client par défaut
+ */
+export function generateClientSeed(): string {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+/**
+ * Engagement publié avant l'ouverture: SHA-256 du seed serveur
+ */
+export function hashServerSeed(serverSeed: string): string {
+  return crypto.createHash('sha256').update(serverSeed).digest('hex');
+}
+
+/**
+ * Générateur déterministe basé sur HMAC-SHA256(serverSeed, "clientSeed:nonce:round")
+ * Chaque bloc HMAC fournit 8 nombres (4 octets chacun) avant de passer au round suivant.
+ * Avec les mêmes seeds et le même nonce, la suite de nombres est toujours identique.
+ */
+export class FairRandom implements RandomSource {
+  private round = 0;
+  private buffer: Buffer = Buffer.alloc(0);
+  private offset = 0;
+
+  constructor(
+    private readonly serverSeed: string,
+    private readonly clientSeed: string,
+    private readonly nonce: number
+  ) {}
+
+  // Générer un nombre entre 0 (inclus) et 1 (exclu)
+  next(): number {
+    if (this.offset + 4 > this.buffer.length) {
+      this.buffer = crypto
+        .createHmac('sha256', this.serverSeed)
+        .update(`${this.clientSeed}:${this.nonce}:${this.round}`)
+        .digest();
+      this.round++;
+      this.offset = 0;
+    }
+
+    const value = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value / 4294967296; // 2^32
+  }
+}
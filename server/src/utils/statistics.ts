@@ -0,0 +1,61 @@
+// Quantile de la loi normale pour un intervalle de confiance à 95%
+export const Z_95 = 1.96;
+
+/**
+ * Intervalle de confiance de Wilson pour une proportion observée
+ * Reste fiable pour les petits échantillons et les proportions proches de 0
+ * (raretés très faibles), contrairement à l'approximation normale
+ */
+export function wilsonInterval(successes: number, trials: number, z: number = Z_95): { low: number; high: number } {
+  if (trials <= 0) {
+    return { low: 0, high: 1 };
+  }
+
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator;
+
+  return {
+    low: Math.max(0, center - margin),
+    high: Math.min(1, center + margin)
+  };
+}
+
+// Au-delà, l'estimation de complétion est considérée comme hors de portée
+const MAX_COMPLETION_DRAWS = 1_000_000;
+
+/**
+ * Nombre moyen de tirages pour obtenir au moins une fois chaque élément
+ * (problème du collectionneur de coupons à probabilités inégales)
+ * `rates[i]` est le nombre moyen d'exemplaires de l'élément i par tirage;
+ * on approxime chaque tirage par un processus de Poisson:
+ *   E[T] = Σ_t (1 - Π_i (1 - e^(-rate_i × t)))
+ * Retourne null si un élément ne peut jamais être obtenu
+ */
+export function expectedDrawsToComplete(rates: number[]): number | null {
+  if (rates.length === 0) {
+    return 0;
+  }
+  if (rates.some(rate => !(rate > 0))) {
+    return null;
+  }
+
+  let expected = 0;
+  for (let t = 0; t < MAX_COMPLETION_DRAWS; t++) {
+    let allCollected = 1;
+    for (const rate of rates) {
+      allCollected *= 1 - Math.exp(-rate * t);
+    }
+
+    const notComplete = 1 - allCollected;
+    expected += notComplete;
+
+    if (notComplete < 1e-6 && t > 0) {
+      return expected;
+    }
+  }
+
+  return null;
+}
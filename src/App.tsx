@@ -14,7 +14,10 @@ import Login from './pages/Login';
 import Register from './pages/Register';
 import Admin from './pages/Admin';
 import Marketplace from './pages/Marketplace';
+import Trades from './pages/Trades';
 import Map from './pages/Map';
+import OpeningHistory from './pages/OpeningHistory';
+import DropRates from './pages/DropRates';
 
 function App() {
   return (
@@ -71,10 +74,13 @@ function App() {
           >
             <Route index element={<Home />} />
             <Route path="boosters" element={<Boosters />} />
+            <Route path="boosters/history" element={<OpeningHistory />} />
+            <Route path="boosters/:id/drop-rates" element={<DropRates />} />
             <Route path="collection" element={<Collection />} />
             <Route path="achievements" element={<Achievements />} />
             <Route path="leaderboard" element={<Leaderboard />} />
             <Route path="marketplace" element={<Marketplace />} />
+            <Route path="trades" element={<Trades />} />
             <Route path="map" element={<Map />} />
           </Route>
         </Routes>
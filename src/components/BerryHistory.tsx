@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Coins } from 'lucide-react';
+import { apiService } from '../services/api';
+import { BerryLedgerEntry } from '../types';
+
+const SOURCE_LABELS: Record<string, string> = {
+  opening_balance: 'Solde d\'ouverture',
+  daily_reward: 'Récompense quotidienne',
+  notification_reward: 'Récompense de notification',
+  island_reward: 'Récompense d\'île',
+  card_sale: 'Revente de cartes',
+  achievement: 'Succès',
+  quest: 'Quête',
+  booster_purchase: 'Achat de booster',
+  marketplace_tax: 'Taxe du marketplace',
+  listing_slot: 'Emplacement d\'annonce',
+  marketplace_purchase: 'Vente / achat marketplace',
+  trade: 'Échange',
+  auction_bid: 'Enchère placée',
+  auction_refund: 'Enchère remboursée',
+  auction_sale: 'Vente aux enchères',
+  buy_order_hold: 'Ordre d\'achat (retenue)',
+  buy_order_refund: 'Ordre d\'achat annulé',
+  buy_order_fill: 'Ordre d\'achat servi',
+  balance_correction: 'Correction de solde'
+};
+
+const BerryHistory: React.FC = () => {
+  const [entries, setEntries] = useState<BerryLedgerEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadHistory = async (before?: number | null) => {
+    try {
+      setLoading(true);
+      const response = await apiService.getBerrysHistory(before);
+      if (response.success) {
+        setEntries(prev => before ? [...prev, ...response.data.entries] : response.data.entries);
+        setNextCursor(response.data.next_cursor);
+      }
+    } catch (error) {
+      console.error('Erreur lors du chargement de l\'historique des Berrys:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-lg rounded-xl border border-white/10 p-6 mt-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Coins className="text-yellow-400" size={24} />
+        <h2 className="text-xl font-bold text-white">Historique des Berrys</h2>
+      </div>
+
+      {entries.length === 0 && !loading ? (
+        <p className="text-gray-400 text-sm">Aucun mouvement de Berrys pour le moment</p>
+      ) : (
+        <div className="divide-y divide-white/5">
+          {entries.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <p className="text-white">{SOURCE_LABELS[entry.source] || entry.source}</p>
+                <p className="text-gray-500 text-xs">{new Date(entry.created_at).toLocaleString('fr-FR')}</p>
+              </div>
+              <div className="text-right">
+                <p className={`font-bold ${entry.amount > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {entry.amount > 0 ? '+' : ''}{entry.amount.toLocaleString('fr-FR')} ฿
+                </p>
+                {entry.balance_after !== null && (
+                  <p className="text-gray-500 text-xs">Solde: {entry.balance_after.toLocaleString('fr-FR')} ฿</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {nextCursor && (
+        <button
+          onClick={() => loadHistory(nextCursor)}
+          disabled={loading}
+          className="mt-4 w-full py-2 bg-slate-700/50 hover:bg-slate-700 text-white text-sm font-semibold rounded-lg transition-all disabled:opacity-50"
+        >
+          {loading ? 'Chargement...' : 'Voir plus'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BerryHistory;
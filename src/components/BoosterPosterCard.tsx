@@ -1,5 +1,6 @@
 import React from 'react';
-import { Sparkles, Coins, Lock } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Sparkles, Coins, Lock, BarChart3 } from 'lucide-react';
 import { BoosterPack } from '../data/onePieceCards';
 import { BOOSTER_BERRY_PRICE } from '../types';
 
@@ -9,6 +10,7 @@ interface BoosterPosterCardProps {
   berrysBalance: number;
   isDisabled: boolean;
   isNew?: boolean;
+  packsUntilGuarantee?: number;
   onClick: (booster: BoosterPack) => void;
 }
 
@@ -18,6 +20,7 @@ const BoosterPosterCard: React.FC<BoosterPosterCardProps> = ({
   berrysBalance,
   isDisabled,
   isNew = false,
+  packsUntilGuarantee,
   onClick,
 }) => {
   const canBuy = berrysBalance >= BOOSTER_BERRY_PRICE;
@@ -174,6 +177,28 @@ const BoosterPosterCard: React.FC<BoosterPosterCardProps> = ({
           </div>
         )}
 
+        {/* Protection anti-malchance: Super Rare garantie */}
+        {packsUntilGuarantee !== undefined && !isNew && (
+          <div
+            className={`absolute top-2 right-2 text-[10px] px-2 py-0.5 rounded-full font-bold shadow-lg z-30 ${
+              packsUntilGuarantee === 1 ? 'bg-purple-600 text-white animate-pulse' : 'bg-black/70 text-purple-200'
+            }`}
+            title="Super Rare garantie après une série de boosters sans Super Rare"
+          >
+            {packsUntilGuarantee === 1 ? 'SR garantie !' : `SR garantie dans ${packsUntilGuarantee}`}
+          </div>
+        )}
+
+        {/* Lien vers les taux de drop publics */}
+        <Link
+          to={`/boosters/${booster.id}/drop-rates`}
+          onClick={(e) => e.stopPropagation()}
+          className="absolute bottom-2 right-2 z-30 p-1 rounded-full bg-black/60 text-white hover:bg-black/80 transition-colors"
+          title="Voir les taux de drop"
+        >
+          <BarChart3 size={12} />
+        </Link>
+
         {/* Glow effect pour les boosters gratuits */}
         {canOpenFree && !isDisabled && (
           <div className="absolute -inset-1 bg-gradient-to-r from-yellow-400 via-yellow-300 to-yellow-400 rounded-lg blur-md opacity-50 group-hover:opacity-75 transition-opacity -z-10 animate-pulse" />
@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Filter, Package } from 'lucide-react';
 import { BoosterPack } from '../data/onePieceCards';
 import BoosterPosterCard from './BoosterPosterCard';
+import { PityCounter } from '../types';
 
 interface BoosterWallProps {
   boosters: BoosterPack[];
@@ -10,6 +11,7 @@ interface BoosterWallProps {
   isDisabled: boolean;
   onBoosterSelect: (booster: BoosterPack) => void;
   selectedBoosterId?: string;
+  pityCounters?: PityCounter[];
 }
 
 type FilterType = 'all' | 'starter' | 'booster';
@@ -21,6 +23,7 @@ const BoosterWall: React.FC<BoosterWallProps> = ({
   isDisabled,
   onBoosterSelect,
   selectedBoosterId,
+  pityCounters = [],
 }) => {
   const [filter, setFilter] = useState<FilterType>('all');
   const boosterRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
@@ -135,6 +138,7 @@ const BoosterWall: React.FC<BoosterWallProps> = ({
                 canOpenFree={canOpenFree}
                 berrysBalance={berrysBalance}
                 isDisabled={isDisabled}
+                packsUntilGuarantee={pityCounters.find(c => c.booster_id === booster.id)?.packs_until_guarantee}
                 onClick={onBoosterSelect}
               />
             </div>
@@ -0,0 +1,311 @@
+import React, { useMemo, useState } from 'react';
+import { Coins, Store, X } from 'lucide-react';
+import { GameService } from '../services/gameService';
+import { Card as CardType, UserCard, Rarity, CARD_SELL_PRICES, BulkSellResult, BulkListingPlan } from '../types';
+import { RARITY_LABELS } from '../data/cards';
+import { useToast } from '../contexts/ToastContext';
+
+const RARITY_ORDER: Rarity[] = ['common', 'uncommon', 'rare', 'leader', 'super_rare', 'secret_rare'];
+const LISTING_DURATIONS = [1, 3, 7];
+const MAX_BULK_LISTING_CARDS = 50;
+
+interface BulkDuplicatesDialogProps {
+  userCards: UserCard[];
+  allCards: CardType[];
+  onClose: () => void;
+  // Appelé après une vente ou une mise en vente réussie, avec le nouveau solde de Berrys
+  onDone: (newBalance: number) => void;
+}
+
+const BulkDuplicatesDialog: React.FC<BulkDuplicatesDialogProps> = ({ userCards, allCards, onClose, onDone }) => {
+  const toast = useToast();
+  const [tab, setTab] = useState<'sell' | 'list'>('sell');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Vente au jeu
+  const [maxRarity, setMaxRarity] = useState<Rarity>('uncommon');
+  const [keepQuantity, setKeepQuantity] = useState(1);
+  const [sellPreview, setSellPreview] = useState<BulkSellResult | null>(null);
+
+  // Mise en vente sur le marketplace
+  const [selectedCardIds, setSelectedCardIds] = useState<string[]>([]);
+  const [prices, setPrices] = useState<Record<Rarity, number>>({ ...CARD_SELL_PRICES });
+  const [durationDays, setDurationDays] = useState(7);
+  const [listingPreview, setListingPreview] = useState<BulkListingPlan | null>(null);
+
+  // Doublons disponibles (hors exemplaires déjà en vente), des plus communs aux plus rares
+  const duplicates = useMemo(() => {
+    return userCards
+      .filter(uc => uc.quantity - (uc.reserved_quantity || 0) >= 2)
+      .map(uc => ({ userCard: uc, card: allCards.find(card => card.id === uc.card_id) }))
+      .filter((entry): entry is { userCard: UserCard; card: CardType } => !!entry.card)
+      .sort((a, b) => RARITY_ORDER.indexOf(a.card.rarity) - RARITY_ORDER.indexOf(b.card.rarity)
+        || a.card.name.localeCompare(b.card.name));
+  }, [userCards, allCards]);
+
+  const selectedRarities = useMemo(() => {
+    const rarities = new Set(duplicates
+      .filter(entry => selectedCardIds.includes(entry.card.id))
+      .map(entry => entry.card.rarity));
+    return RARITY_ORDER.filter(rarity => rarities.has(rarity));
+  }, [duplicates, selectedCardIds]);
+
+  const toggleCard = (cardId: string) => {
+    setListingPreview(null);
+    setSelectedCardIds(prev => prev.includes(cardId)
+      ? prev.filter(id => id !== cardId)
+      : prev.length >= MAX_BULK_LISTING_CARDS ? prev : [...prev, cardId]);
+  };
+
+  const selectedPrices = () => Object.fromEntries(selectedRarities.map(rarity => [rarity, prices[rarity]]));
+
+  const handlePreviewSell = async () => {
+    setSubmitting(true);
+    try {
+      setSellPreview(await GameService.sellBulk(maxRarity, keepQuantity, true));
+    } catch (error: any) {
+      toast.error(error.message || 'Impossible de calculer l\'aperçu');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSell = async () => {
+    setSubmitting(true);
+    try {
+      const result = await GameService.sellBulk(maxRarity, keepQuantity);
+      toast.success(`${result.total_cards} cartes vendues pour ${result.total_berrys} Berrys !`);
+      onDone(result.new_balance);
+    } catch (error: any) {
+      toast.error(error.message || 'Impossible de vendre ces doublons');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePreviewListings = async () => {
+    setSubmitting(true);
+    try {
+      setListingPreview(await GameService.previewBulkListings(selectedCardIds, selectedPrices(), durationDays));
+    } catch (error: any) {
+      toast.error(error.message || 'Impossible de calculer l\'aperçu');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCreateListings = async () => {
+    setSubmitting(true);
+    try {
+      const result = await GameService.createBulkListings(selectedCardIds, selectedPrices(), durationDays);
+      const filled = result.filled_buy_orders.length;
+      toast.success(`${result.listings.length} annonce(s) créée(s)${filled > 0 ? `, ${filled} carte(s) vendue(s) à des ordres d'achat` : ''}`);
+      onDone(result.new_balance);
+    } catch (error: any) {
+      toast.error(error.message || 'Impossible de mettre ces cartes en vente');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const cardName = (cardId: string) => allCards.find(card => card.id === cardId)?.name || cardId;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 rounded-2xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto border-2 border-yellow-500/30">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-white">Doublons par lot</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => setTab('sell')}
+            className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold transition-colors ${
+              tab === 'sell' ? 'bg-yellow-500 text-black' : 'bg-gray-800 text-white hover:bg-gray-700'
+            }`}
+          >
+            <Coins size={16} />
+            Vendre au jeu
+          </button>
+          <button
+            onClick={() => setTab('list')}
+            className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold transition-colors ${
+              tab === 'list' ? 'bg-yellow-500 text-black' : 'bg-gray-800 text-white hover:bg-gray-700'
+            }`}
+          >
+            <Store size={16} />
+            Mettre en vente
+          </button>
+        </div>
+
+        {tab === 'sell' ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Rareté maximale</label>
+                <select
+                  value={maxRarity}
+                  onChange={(e) => { setMaxRarity(e.target.value as Rarity); setSellPreview(null); }}
+                  className="w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                >
+                  {RARITY_ORDER.map(rarity => (
+                    <option key={rarity} value={rarity}>{RARITY_LABELS[rarity]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Exemplaires conservés</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="1000"
+                  value={keepQuantity}
+                  onChange={(e) => { setKeepQuantity(Math.max(1, parseInt(e.target.value) || 1)); setSellPreview(null); }}
+                  className="w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-400">
+              Les cartes favorites et les exemplaires en vente sur le marketplace ne sont jamais vendus.
+            </p>
+
+            {sellPreview && (
+              sellPreview.items.length === 0 ? (
+                <p className="text-sm text-gray-400">Aucun doublon à vendre avec ces critères</p>
+              ) : (
+                <div className="space-y-3">
+                  <div className="max-h-48 overflow-y-auto divide-y divide-white/5 bg-gray-800/50 rounded-lg px-3">
+                    {sellPreview.items.map(item => (
+                      <div key={item.card_id} className="flex justify-between py-2 text-sm">
+                        <span className="text-white">{item.quantity}x {item.card_name}</span>
+                        <span className="text-yellow-400">{item.berrys} Berrys</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="bg-green-900/30 border border-green-600/30 rounded-lg p-4">
+                    <div className="text-sm text-green-300 mb-1">{sellPreview.total_cards} cartes - total à recevoir</div>
+                    <div className="text-3xl font-bold text-green-400">{sellPreview.total_berrys} Berrys</div>
+                  </div>
+                </div>
+              )
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={handlePreviewSell}
+                disabled={submitting}
+                className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 text-white rounded-lg font-semibold transition-colors disabled:opacity-50"
+              >
+                Aperçu
+              </button>
+              <button
+                onClick={handleSell}
+                disabled={submitting || !sellPreview || sellPreview.items.length === 0}
+                className="flex-1 px-4 py-3 bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 text-black rounded-lg font-bold transition-all shadow-lg disabled:opacity-50"
+              >
+                Vendre
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {duplicates.length === 0 ? (
+              <p className="text-sm text-gray-400">Aucun doublon disponible à mettre en vente</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto divide-y divide-white/5 bg-gray-800/50 rounded-lg px-3">
+                {duplicates.map(({ userCard, card }) => (
+                  <label key={card.id} className="flex items-center gap-3 py-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedCardIds.includes(card.id)}
+                      onChange={() => toggleCard(card.id)}
+                      className="accent-yellow-500"
+                    />
+                    <span className="flex-1 text-white">{card.name}</span>
+                    <span className="text-gray-400">{RARITY_LABELS[card.rarity]} - x{userCard.quantity - (userCard.reserved_quantity || 0)}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {selectedRarities.length > 0 && (
+              <div className="grid grid-cols-2 gap-3">
+                {selectedRarities.map(rarity => (
+                  <div key={rarity}>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Prix {RARITY_LABELS[rarity]}</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="999999"
+                      value={prices[rarity]}
+                      onChange={(e) => {
+                        setPrices(prev => ({ ...prev, [rarity]: Math.max(1, parseInt(e.target.value) || 1) }));
+                        setListingPreview(null);
+                      }}
+                      className="w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    />
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Durée de mise en vente</label>
+                  <select
+                    value={durationDays}
+                    onChange={(e) => setDurationDays(parseInt(e.target.value))}
+                    className="w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                  >
+                    {LISTING_DURATIONS.map(days => (
+                      <option key={days} value={days}>{days} jour{days > 1 ? 's' : ''}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {listingPreview && (
+              <div className="space-y-2 text-sm">
+                {listingPreview.items.map(item => (
+                  <div key={item.card_id} className="flex justify-between">
+                    <span className="text-white">{item.card_name}</span>
+                    {item.buy_order_id ? (
+                      <span className="text-green-400">Vendue à un ordre d'achat: {item.buy_order_price} Berrys</span>
+                    ) : (
+                      <span className="text-yellow-400">Annonce à {item.price} Berrys</span>
+                    )}
+                  </div>
+                ))}
+                {listingPreview.skipped.map(skip => (
+                  <div key={skip.card_id} className="flex justify-between text-gray-500">
+                    <span>{cardName(skip.card_id)}</span>
+                    <span>{skip.reason}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={handlePreviewListings}
+                disabled={submitting || selectedCardIds.length === 0}
+                className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 text-white rounded-lg font-semibold transition-colors disabled:opacity-50"
+              >
+                Aperçu
+              </button>
+              <button
+                onClick={handleCreateListings}
+                disabled={submitting || !listingPreview || listingPreview.items.length === 0}
+                className="flex-1 px-4 py-3 bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 text-black rounded-lg font-bold transition-all shadow-lg disabled:opacity-50"
+              >
+                Mettre en vente
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BulkDuplicatesDialog;
@@ -1,7 +1,14 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { X, Heart, RotateCcw } from 'lucide-react';
-import { Card as CardType } from '../types';
+import { X, Heart, RotateCcw, Hammer, Sparkles, HandCoins, TrendingUp } from 'lucide-react';
+import { Card as CardType, CARD_CRAFT_COSTS, CARD_DUST_VALUES, MarketplaceBuyOrder, CardMarketSummary } from '../types';
 import { RARITY_COLORS, RARITY_LABELS } from '../data/cards';
+import { GameService } from '../services/gameService';
+
+const SALE_SOURCE_LABELS: Record<string, string> = {
+  listing: 'annonce',
+  auction: 'enchère',
+  buy_order: 'ordre d\'achat'
+};
 
 interface CardModalProps {
   card: CardType;
@@ -10,6 +17,16 @@ interface CardModalProps {
   isFavorite?: boolean;
   onToggleFavorite?: () => void;
   quantity?: number;
+  // Craft: affiché uniquement si les callbacks sont fournis
+  dust?: number;
+  onCraft?: () => void;
+  onDisenchant?: () => void;
+  // Doublons désenchantables (par défaut tous les exemplaires sauf un)
+  duplicates?: number;
+  crafting?: boolean;
+  // Meilleur ordre d'achat ouvert pour cette carte (vente directe)
+  buyOrder?: MarketplaceBuyOrder | null;
+  onFillBuyOrder?: () => void;
 }
 
 const CardModal: React.FC<CardModalProps> = ({
@@ -18,13 +35,21 @@ const CardModal: React.FC<CardModalProps> = ({
   onClose,
   isFavorite = false,
   onToggleFavorite,
-  quantity = 1
+  quantity = 1,
+  dust = 0,
+  onCraft,
+  onDisenchant,
+  duplicates = quantity - 1,
+  crafting = false,
+  buyOrder,
+  onFillBuyOrder
 }) => {
   const [tiltX, setTiltX] = useState(0);
   const [tiltY, setTiltY] = useState(0);
   const [glareX, setGlareX] = useState(50);
   const [glareY, setGlareY] = useState(50);
   const [isHovering, setIsHovering] = useState(false);
+  const [market, setMarket] = useState<CardMarketSummary | null>(null);
   const cardRef = useRef<HTMLDivElement>(null);
   const scrollPositionRef = useRef(0);
 
@@ -57,8 +82,25 @@ const CardModal: React.FC<CardModalProps> = ({
     }
   }, [isOpen]);
 
+  // Historique des prix du marketplace
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setMarket(null);
+    GameService.getCardMarket(card.id).then(summary => {
+      if (!cancelled) setMarket(summary);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, card.id]);
+
   if (!isOpen) return null;
 
+  const maxSeriesPrice = market ? Math.max(1, ...market.series.map(point => point.max)) : 1;
+
   const handleInteraction = (clientX: number, clientY: number) => {
     if (!cardRef.current) return;
 
@@ -400,6 +442,114 @@ const CardModal: React.FC<CardModalProps> = ({
               </div>
             )}
 
+            {buyOrder && onFillBuyOrder && (
+              <div className="bg-emerald-900/30 border border-emerald-500/30 rounded-lg p-4 space-y-3">
+                <h3 className="text-emerald-300 font-semibold flex items-center gap-2">
+                  <HandCoins size={18} />
+                  Ordre d'achat
+                </h3>
+                <p className="text-white/80 text-sm">
+                  {buyOrder.buyer_username} achète cette carte pour {buyOrder.max_price} ฿
+                </p>
+                <button
+                  onClick={onFillBuyOrder}
+                  disabled={crafting}
+                  className="w-full px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700 disabled:text-white/50 disabled:cursor-not-allowed text-white font-semibold transition-colors"
+                >
+                  Vendre 1 exemplaire ({buyOrder.max_price} ฿)
+                </button>
+              </div>
+            )}
+
+            {market && (
+              <div className="bg-gray-800/50 rounded-lg p-4 space-y-3">
+                <h3 className="text-white font-semibold flex items-center gap-2">
+                  <TrendingUp size={18} className="text-green-400" />
+                  Marché
+                </h3>
+
+                <div className="grid grid-cols-3 gap-3 text-center">
+                  <div>
+                    <div className="text-white/60 text-xs">Dernière vente</div>
+                    <div className="text-white font-bold">
+                      {market.last_sale ? `${market.last_sale.price} ฿` : '—'}
+                    </div>
+                    {market.last_sale && (
+                      <div className="text-white/40 text-xs">
+                        {SALE_SOURCE_LABELS[market.last_sale.source]} · {new Date(market.last_sale.sold_at).toLocaleDateString('fr-FR')}
+                      </div>
+                    )}
+                  </div>
+                  <div>
+                    <div className="text-white/60 text-xs">Médiane 7j</div>
+                    <div className="text-white font-bold">
+                      {market.median_7d !== null ? `${market.median_7d} ฿` : '—'}
+                    </div>
+                    <div className="text-white/40 text-xs">{market.volume_7d} vente(s)</div>
+                  </div>
+                  <div>
+                    <div className="text-white/60 text-xs">Médiane 30j</div>
+                    <div className="text-white font-bold">
+                      {market.median_30d !== null ? `${market.median_30d} ฿` : '—'}
+                    </div>
+                    <div className="text-white/40 text-xs">{market.volume_30d} vente(s)</div>
+                  </div>
+                </div>
+
+                {market.series.length > 0 ? (
+                  <div className="flex items-end gap-1 h-24 pt-2 border-b border-white/10">
+                    {market.series.map(point => (
+                      <div
+                        key={point.date}
+                        className="flex-1 bg-green-500/70 hover:bg-green-400 rounded-t transition-colors"
+                        style={{ height: `${Math.max(4, (point.average / maxSeriesPrice) * 100)}%` }}
+                        title={`${new Date(point.date).toLocaleDateString('fr-FR')} : ${point.average} ฿ en moyenne (${point.min}-${point.max} ฿, ${point.volume} vente(s))`}
+                      />
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-white/50 text-sm">Aucune vente sur les 30 derniers jours</p>
+                )}
+
+                <p className="text-white/40 text-xs">Prix de revente au jeu : {market.sell_price} ฿</p>
+              </div>
+            )}
+
+            {(onCraft || onDisenchant) && (
+              <div className="bg-indigo-900/30 border border-indigo-500/30 rounded-lg p-4 space-y-3">
+                <h3 className="text-indigo-300 font-semibold flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2">
+                    <Hammer size={18} />
+                    Atelier
+                  </span>
+                  <span className="text-sm text-white/80 flex items-center gap-1">
+                    <Sparkles size={14} className="text-indigo-300" />
+                    {dust} poussière
+                  </span>
+                </h3>
+
+                {onCraft && (
+                  <button
+                    onClick={onCraft}
+                    disabled={crafting || dust < CARD_CRAFT_COSTS[card.rarity]}
+                    className="w-full px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-white/50 disabled:cursor-not-allowed text-white font-semibold transition-colors"
+                  >
+                    Fabriquer ({CARD_CRAFT_COSTS[card.rarity]} poussière)
+                  </button>
+                )}
+
+                {onDisenchant && (
+                  <button
+                    onClick={onDisenchant}
+                    disabled={crafting}
+                    className="w-full px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 disabled:cursor-not-allowed text-white/90 font-medium transition-colors"
+                  >
+                    Désenchanter {duplicates} doublon(s) (+{CARD_DUST_VALUES[card.rarity] * duplicates} poussière)
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Indication pour les utilisateurs desktop */}
             {hasHolographicEffect && (
               <div className="hidden md:block bg-blue-900/30 border border-blue-600/30 rounded-lg p-3">
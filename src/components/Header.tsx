@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { Link, useLocation } from 'react-router-dom';
-import { Home, Package, BookOpen, Trophy, User, LogIn, UserPlus, Medal, Shield, ShoppingCart, Menu, X, Map as MapIcon } from 'lucide-react';
+import { Home, Package, BookOpen, Trophy, User, LogIn, UserPlus, Medal, Shield, ShoppingCart, ArrowLeftRight, Menu, X, Map as MapIcon } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import UserProfile from './UserProfile';
 import NotificationBell from './NotificationBell';
@@ -59,6 +59,7 @@ const Header: React.FC = () => {
     { to: '/achievements', icon: Trophy, label: 'Achievements' },
     { to: '/leaderboard', icon: Medal, label: 'Leaderboard' },
     { to: '/marketplace', icon: ShoppingCart, label: 'Marketplace' },
+    { to: '/trades', icon: ArrowLeftRight, label: 'Échanges' },
   ];
 
   return (
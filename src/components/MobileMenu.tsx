@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Home, Package, BookOpen, Trophy, Medal, Shield, ShoppingCart, LogIn, UserPlus, X, Map as MapIcon } from 'lucide-react';
+import { Home, Package, BookOpen, Trophy, Medal, Shield, ShoppingCart, ArrowLeftRight, LogIn, UserPlus, X, Map as MapIcon } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 
 interface MobileMenuProps {
@@ -21,6 +21,7 @@ const MobileMenu: React.FC<MobileMenuProps> = ({ onClose }) => {
     { to: '/achievements', icon: Trophy, label: 'Achievements' },
     { to: '/leaderboard', icon: Medal, label: 'Leaderboard' },
     { to: '/marketplace', icon: ShoppingCart, label: 'Marketplace' },
+    { to: '/trades', icon: ArrowLeftRight, label: 'Échanges' },
   ];
 
   return (
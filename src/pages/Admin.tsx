@@ -2,9 +2,12 @@ import React, { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { apiService } from '../services/api';
-import { Users, Activity, Bell, TrendingUp, Coins, Package, Shield, Calendar } from 'lucide-react';
+import { Users, Activity, Bell, TrendingUp, Coins, Package, Shield, Calendar, FlaskConical, Map as MapIcon } from 'lucide-react';
 import { useDialog } from '../hooks/useDialog';
 import Dialog from '../components/ui/Dialog';
+import { BoosterSimulator } from './admin/BoosterSimulator';
+import { EconomyPanel } from './admin/EconomyPanel';
+import { WorldEditor } from './admin/WorldEditor';
 
 interface DashboardStats {
   users: {
@@ -90,7 +93,7 @@ const Admin: React.FC = () => {
   const { dialogState, showAlert, showConfirm, handleClose, handleConfirm } = useDialog();
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<'stats' | 'notifications' | 'activity'>('stats');
+  const [activeTab, setActiveTab] = useState<'stats' | 'notifications' | 'activity' | 'simulator' | 'economy' | 'world'>('stats');
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [activities, setActivities] = useState<Activity[]>([]);
@@ -269,6 +272,39 @@ const Admin: React.FC = () => {
             <Activity className="inline mr-2" size={20} />
             Activité
           </button>
+          <button
+            onClick={() => setActiveTab('simulator')}
+            className={`px-6 py-3 font-semibold transition-all ${
+              activeTab === 'simulator'
+                ? 'text-blue-400 border-b-2 border-blue-400'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <FlaskConical className="inline mr-2" size={20} />
+            Simulateur
+          </button>
+          <button
+            onClick={() => setActiveTab('economy')}
+            className={`px-6 py-3 font-semibold transition-all ${
+              activeTab === 'economy'
+                ? 'text-blue-400 border-b-2 border-blue-400'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <Coins className="inline mr-2" size={20} />
+            Économie
+          </button>
+          <button
+            onClick={() => setActiveTab('world')}
+            className={`px-6 py-3 font-semibold transition-all ${
+              activeTab === 'world'
+                ? 'text-blue-400 border-b-2 border-blue-400'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <MapIcon className="inline mr-2" size={20} />
+            Carte du monde
+          </button>
         </div>
 
         {/* Stats Tab */}
@@ -521,6 +557,13 @@ const Admin: React.FC = () => {
             </div>
           </div>
         )}
+
+        {/* Simulator Tab */}
+        {activeTab === 'simulator' && <BoosterSimulator />}
+
+        {activeTab === 'economy' && <EconomyPanel />}
+
+        {activeTab === 'world' && <WorldEditor />}
       </div>
     </div>
   );
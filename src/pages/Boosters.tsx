@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { ArrowLeft, Sparkles, ChevronLeft, ChevronRight, Coins } from 'lucide-react';
 import { GameService } from '../services/gameService';
-import { BoosterResult, Card as CardType, BOOSTER_BERRY_PRICE } from '../types';
+import { BoosterResult, BoosterBatchResult, BoosterPityResult, Card as CardType, PityCounter, BOOSTER_BERRY_PRICE } from '../types';
 import { BoosterPack } from '../data/onePieceCards';
 import Card from '../components/Card';
 import CardModal from '../components/CardModal';
@@ -12,7 +12,10 @@ import Dialog from '../components/ui/Dialog';
 import { useDialog } from '../hooks/useDialog';
 import BoosterWall from '../components/BoosterWall';
 
-type AnimationPhase = 'idle' | 'opening' | 'deck' | 'revealing' | 'complete';
+type AnimationPhase = 'idle' | 'opening' | 'deck' | 'revealing' | 'complete' | 'batch';
+
+// Nombre de boosters achetés d'un coup en mode x10
+const BATCH_SIZE = 10;
 
 const Boosters: React.FC = () => {
   const [animationPhase, setAnimationPhase] = useState<AnimationPhase>('idle');
@@ -28,6 +31,8 @@ const Boosters: React.FC = () => {
   const [selectedCard, setSelectedCard] = useState<CardType | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [berrysBalance, setBerrysBalance] = useState<number>(0);
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchResult, setBatchResult] = useState<BoosterBatchResult | null>(null);
   const { dialogState, showDialog, handleClose, handleConfirm } = useDialog();
 
   useEffect(() => {
@@ -104,6 +109,28 @@ const Boosters: React.FC = () => {
     return () => clearInterval(interval);
   }, [boosterStatus?.next_booster_time]);
 
+  // Mettre à jour le compteur de malchance du booster qui vient d'être ouvert
+  const applyPityResult = (boosterId: string, pity?: BoosterPityResult) => {
+    if (!pity?.enabled) return;
+
+    const counter: PityCounter = {
+      booster_id: boosterId,
+      packs_since_super_rare: pity.packs_since_super_rare,
+      packs_until_guarantee: pity.packs_until_guarantee
+    };
+
+    setBoosterStatus((prev: any) => prev?.pity ? {
+      ...prev,
+      pity: {
+        ...prev.pity,
+        counters: [
+          ...prev.pity.counters.filter((c: PityCounter) => c.booster_id !== boosterId),
+          counter
+        ]
+      }
+    } : prev);
+  };
+
   const handleOpenBooster = async () => {
     if (!canOpen || animationPhase !== 'idle' || !selectedBooster) return;
 
@@ -113,6 +140,7 @@ const Boosters: React.FC = () => {
     const result = await GameService.openBooster(selectedBooster.id);
     if (result) {
       setBoosterResult(result);
+      applyPityResult(selectedBooster.id, result.pity);
 
       // Attendre la fin de l'animation de déchirement du poster
       // 1000ms (déchirement du poster en deux moitiés)
@@ -152,6 +180,7 @@ const Boosters: React.FC = () => {
   const resetAnimation = () => {
     setAnimationPhase('idle');
     setBoosterResult(null);
+    setBatchResult(null);
     setRevealedCards(0);
     // Le statut a déjà été mis à jour par handleOpenBooster, pas besoin de refaire un appel API
   };
@@ -178,6 +207,36 @@ const Boosters: React.FC = () => {
     setSelectedCard(null);
   };
 
+  const handleVerifyOpening = async () => {
+    if (!boosterResult?.fairness) return;
+
+    try {
+      const verification = await GameService.verifyOpening(boosterResult.fairness.opening_id);
+      const valid = verification.hash_valid && verification.matches;
+      showDialog({
+        title: valid ? 'Ouverture vérifiée' : 'Vérification échouée',
+        message: valid
+          ? `Le hash du seed serveur correspond à l'engagement et les ${verification.derived_cards.length} cartes ont été recalculées à l'identique.`
+          : !verification.hash_valid
+            ? 'Le seed serveur révélé ne correspond pas au hash publié avant l\'ouverture.'
+            : 'Les cartes recalculées ne correspondent pas aux cartes obtenues (le contenu du booster a peut-être changé depuis).',
+        type: valid ? 'success' : 'warning',
+        confirmText: 'OK',
+        showCancel: false,
+        onConfirm: handleClose
+      });
+    } catch (error: any) {
+      showDialog({
+        title: 'Erreur',
+        message: error.message || 'Erreur lors de la vérification',
+        type: 'error',
+        confirmText: 'OK',
+        showCancel: false,
+        onConfirm: handleClose
+      });
+    }
+  };
+
   const handleBuyWithBerrys = async () => {
     if (animationPhase !== 'idle' || !selectedBooster || berrysBalance < BOOSTER_BERRY_PRICE) return;
 
@@ -196,6 +255,7 @@ const Boosters: React.FC = () => {
           const result = await GameService.buyBoosterWithBerrys(selectedBooster.id);
           if (result) {
             setBoosterResult(result);
+            applyPityResult(selectedBooster.id, result.pity);
 
             // Attendre la fin de l'animation de déchirement du poster
             // 1000ms (déchirement du poster en deux moitiés)
@@ -239,8 +299,12 @@ const Boosters: React.FC = () => {
     // Mettre à jour le booster sélectionné
     setSelectedBooster(booster);
 
+    // En mode x10, on achète toujours un lot avec des Berrys
+    if (batchMode && animationPhase === 'idle') {
+      handleOpenBatchWithBooster(booster);
+    }
     // Si on peut ouvrir gratuitement, on ouvre directement
-    if (canOpen && animationPhase === 'idle') {
+    else if (canOpen && animationPhase === 'idle') {
       handleOpenBoosterWithBooster(booster);
     }
     // Sinon, on propose d'acheter avec des Berrys
@@ -258,6 +322,7 @@ const Boosters: React.FC = () => {
     const result = await GameService.openBooster(booster.id);
     if (result) {
       setBoosterResult(result);
+      applyPityResult(booster.id, result.pity);
 
       // Attendre la fin de l'animation de déchirement du poster
       // 1000ms (déchirement du poster en deux moitiés)
@@ -296,6 +361,7 @@ const Boosters: React.FC = () => {
           const result = await GameService.buyBoosterWithBerrys(booster.id);
           if (result) {
             setBoosterResult(result);
+            applyPityResult(booster.id, result.pity);
 
             // Attendre la fin de l'animation de déchirement du poster
             // 1000ms (déchirement du poster en deux moitiés)
@@ -335,6 +401,48 @@ const Boosters: React.FC = () => {
     });
   };
 
+  const handleOpenBatchWithBooster = async (booster: BoosterPack) => {
+    const totalPrice = BOOSTER_BERRY_PRICE * BATCH_SIZE;
+    if (animationPhase !== 'idle' || berrysBalance < totalPrice) return;
+
+    showDialog({
+      title: `Acheter ${BATCH_SIZE} boosters`,
+      message: `Voulez-vous acheter ${BATCH_SIZE} boosters "${booster.name}" pour ${totalPrice} Berrys ?`,
+      type: 'confirm',
+      confirmText: 'Acheter',
+      cancelText: 'Annuler',
+      showCancel: true,
+      onConfirm: async () => {
+        handleClose();
+        setAnimationPhase('opening');
+
+        try {
+          const result = await GameService.openBoosters(booster.id, BATCH_SIZE);
+          if (result) {
+            // Pas d'animation de coffre en mode x10: on passe directement au résumé
+            setBatchResult(result);
+            setBerrysBalance(result.new_balance);
+            applyPityResult(booster.id, result.pity);
+            setAnimationPhase('batch');
+          } else {
+            setAnimationPhase('idle');
+          }
+        } catch (error: any) {
+          showDialog({
+            title: 'Erreur',
+            message: error.message || 'Erreur lors de l\'achat des boosters',
+            type: 'error',
+            confirmText: 'OK',
+            showCancel: false,
+            onConfirm: () => {
+              handleClose();
+              setAnimationPhase('idle');
+            }
+          });
+        }
+      }
+    });
+  };
 
   if (loading) {
     return (
@@ -372,6 +480,12 @@ const Boosters: React.FC = () => {
               className="sm:justify-end text-xs sm:text-sm"
             />
           )}
+          <Link
+            to="/boosters/history"
+            className="inline-block mt-1 text-ocean-300 hover:text-ocean-200 text-xs sm:text-sm underline"
+          >
+            📜 Historique des ouvertures
+          </Link>
         </div>
       </div>
 
@@ -391,10 +505,22 @@ const Boosters: React.FC = () => {
                 <Timer targetTime={boosterStatus.next_booster_time || null} />
               </div>
             )}
+            <button
+              onClick={() => setBatchMode(prev => !prev)}
+              disabled={!batchMode && berrysBalance < BOOSTER_BERRY_PRICE * BATCH_SIZE}
+              className={`mt-4 px-4 py-2 rounded-xl text-xs sm:text-sm font-semibold border transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                batchMode
+                  ? 'bg-yellow-500/30 border-yellow-400/60 text-yellow-200'
+                  : 'bg-white/10 border-white/20 text-white hover:bg-white/20'
+              }`}
+            >
+              ⚡ Mode x{BATCH_SIZE} ({BOOSTER_BERRY_PRICE * BATCH_SIZE} Berrys) : {batchMode ? 'activé' : 'désactivé'}
+            </button>
           </div>
 
           <BoosterWall
             boosters={availableBoosters}
+            pityCounters={boosterStatus?.pity?.counters}
             canOpenFree={canOpen}
             berrysBalance={berrysBalance}
             isDisabled={animationPhase !== 'idle'}
@@ -404,7 +530,14 @@ const Boosters: React.FC = () => {
         </div>
       )}
 
-      {animationPhase === 'opening' && (
+      {animationPhase === 'opening' && batchMode && (
+        <div className="text-center py-16">
+          <div className="text-4xl mb-4">⏳</div>
+          <div className="text-white text-xl">Ouverture de {BATCH_SIZE} boosters...</div>
+        </div>
+      )}
+
+      {animationPhase === 'opening' && !batchMode && (
         <div className="text-center space-y-8">
           <WantedPosterAnimation
             isOpening={true}
@@ -451,6 +584,11 @@ const Boosters: React.FC = () => {
                 {boosterResult.new_cards.length} nouvelle(s) carte(s) ajoutée(s) !
               </div>
             )}
+            {boosterResult.pity?.guarantee_applied && (
+              <div className="text-purple-300 font-semibold text-sm sm:text-base mt-1">
+                🛡️ Protection anti-malchance : Super Rare garantie !
+              </div>
+            )}
           </div>
 
           {/* Affichage des 5 cartes obtenues */}
@@ -507,6 +645,29 @@ const Boosters: React.FC = () => {
                 ))}
               </div>
             </div>
+
+            {/* Seeds révélés pour vérifier l'ouverture */}
+            {boosterResult.fairness && (
+              <div className="mt-6 border-t border-white/10 pt-4">
+                <h4 className="text-sm sm:text-base font-semibold text-white mb-3 text-center">
+                  🔐 Tirage vérifiable
+                </h4>
+                <div className="space-y-1 text-xs text-slate-300 font-mono break-all">
+                  <div><span className="text-slate-400">Hash engagé :</span> {boosterResult.fairness.server_seed_hash}</div>
+                  <div><span className="text-slate-400">Seed serveur :</span> {boosterResult.fairness.server_seed}</div>
+                  <div><span className="text-slate-400">Seed client :</span> {boosterResult.fairness.client_seed}</div>
+                  <div><span className="text-slate-400">Nonce :</span> {boosterResult.fairness.nonce}</div>
+                </div>
+                <div className="text-center mt-3">
+                  <button
+                    onClick={handleVerifyOpening}
+                    className="px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 text-white text-xs sm:text-sm font-semibold border border-white/20 transition-all"
+                  >
+                    ✅ Vérifier ce tirage
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="text-center space-y-3 sm:space-y-4">
@@ -533,6 +694,132 @@ const Boosters: React.FC = () => {
         </div>
       )}
 
+      {animationPhase === 'batch' && batchResult && (
+        <div className="space-y-6 sm:space-y-8 px-2">
+          <div className="text-center">
+            <div className="text-4xl sm:text-6xl mb-3 sm:mb-4">🎉</div>
+            <h2 className="text-2xl sm:text-3xl font-bold text-white mb-3 sm:mb-4">
+              {batchResult.packs.length} boosters ouverts !
+            </h2>
+            <div className="text-slate-300 text-base sm:text-lg mb-2">
+              {batchResult.packs.reduce((total, pack) => total + pack.cards.length, 0)} cartes pour {batchResult.berrys_spent} Berrys
+            </div>
+            {batchResult.new_cards.length > 0 && (
+              <div className="text-emerald-400 font-semibold text-sm sm:text-base">
+                {batchResult.new_cards.length} nouvelle(s) carte(s) ajoutée(s) !
+              </div>
+            )}
+            {batchResult.packs.some(pack => pack.pity.guarantee_applied) && (
+              <div className="text-purple-300 font-semibold text-sm sm:text-base mt-1">
+                🛡️ Protection anti-malchance : Super Rare garantie !
+              </div>
+            )}
+          </div>
+
+          {/* Cartes obtenues, regroupées par carte */}
+          <div className="bg-white/5 backdrop-blur-xl rounded-3xl p-4 sm:p-6 border-2 border-white/10 max-w-5xl mx-auto shadow-2xl">
+            <h3 className="text-base sm:text-lg font-semibold text-white mb-4 sm:mb-6 text-center">
+              🃏 Vos cartes obtenues
+            </h3>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-3 sm:gap-4">
+              {batchResult.grouped_cards.map(({ card, quantity, is_new }) => (
+                <div key={`batch-${card.id}`} className="relative group">
+                  <Card
+                    card={card}
+                    showStats={false}
+                    onCardClick={handleCardClick}
+                    className="cursor-pointer hover:scale-105 transition-transform"
+                  />
+                  {is_new && (
+                    <div className="absolute top-1 right-1 bg-green-500 text-white text-xs px-1.5 py-0.5 rounded-full font-bold shadow-lg">
+                      NEW
+                    </div>
+                  )}
+                  {quantity > 1 && (
+                    <div className="absolute top-1 left-1 bg-black/70 text-white text-xs px-1.5 py-0.5 rounded-full font-bold shadow-lg">
+                      x{quantity}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Résumé des raretés */}
+            <div className="mt-6 border-t border-white/10 pt-4">
+              <h4 className="text-sm sm:text-base font-semibold text-white mb-3 text-center">
+                📊 Résumé des raretés
+              </h4>
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-2 sm:gap-3 text-center text-xs sm:text-sm">
+                {Object.entries(batchResult.rarity_summary)
+                  .filter(([, count]) => count > 0)
+                  .map(([rarity, count]) => (
+                    <div key={rarity} className="p-2 bg-white/5 backdrop-blur-md rounded-xl border border-white/10">
+                      <div className="text-white font-bold">{count}x</div>
+                      <div className={`${
+                        rarity === 'secret_rare' ? 'text-yellow-300' :
+                        rarity === 'super_rare' ? 'text-purple-300' :
+                        rarity === 'leader' ? 'text-red-300' :
+                        rarity === 'rare' ? 'text-blue-300' :
+                        rarity === 'uncommon' ? 'text-green-300' :
+                        'text-gray-300'
+                      }`}>
+                        {rarity === 'secret_rare' ? 'Secrète' :
+                         rarity === 'super_rare' ? 'Super' :
+                         rarity === 'leader' ? 'Leader' :
+                         rarity === 'rare' ? 'Rare' :
+                         rarity === 'uncommon' ? 'Peu Com.' :
+                         'Commune'}
+                      </div>
+                    </div>
+                  ))}
+              </div>
+            </div>
+
+            {/* Progression des achievements */}
+            {batchResult.achievement_deltas.length > 0 && (
+              <div className="mt-6 border-t border-white/10 pt-4">
+                <h4 className="text-sm sm:text-base font-semibold text-white mb-3 text-center">
+                  🏆 Progression des achievements
+                </h4>
+                <div className="space-y-2 text-xs sm:text-sm">
+                  {batchResult.achievement_deltas.map(delta => (
+                    <div
+                      key={delta.achievement_id}
+                      className="flex items-center justify-between p-2 bg-white/5 rounded-xl border border-white/10"
+                    >
+                      <span className="text-white">
+                        {delta.icon} {delta.name}
+                      </span>
+                      <span className={delta.newly_completed ? 'text-emerald-400 font-semibold' : 'text-slate-300'}>
+                        {Math.min(delta.progress_before, delta.threshold)} → {Math.min(delta.progress_after, delta.threshold)} / {delta.threshold}
+                        {delta.newly_completed && ' ✓'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="text-center space-y-3 sm:space-y-4">
+            <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 justify-center px-4">
+              <button
+                onClick={resetAnimation}
+                className="btn-primary text-sm sm:text-lg px-6 sm:px-8 py-3 sm:py-4"
+              >
+                ← Retour
+              </button>
+
+              <Link
+                to="/collection"
+                className="inline-block bg-gradient-to-r from-emerald-500/90 to-emerald-600/90 hover:from-emerald-600 hover:to-emerald-700 text-white font-bold py-3 sm:py-4 px-6 sm:px-8 rounded-xl transition-all duration-300 text-sm sm:text-lg shadow-lg hover:shadow-emerald-500/40 hover:scale-105 border border-emerald-400/30 backdrop-blur-xl"
+              >
+                📚 Voir collection
+              </Link>
+            </div>
+          </div>
+        </div>
+      )}
 
       {isModalOpen && selectedCard && (
         <CardModal
@@ -1,19 +1,25 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { Link } from 'react-router-dom';
-import { ArrowLeft, Search, Filter, Heart, X, Star, Coins, DollarSign } from 'lucide-react';
+import { ArrowLeft, Search, Filter, Heart, X, Star, Coins, DollarSign, Layers } from 'lucide-react';
 import { GameService } from '../services/gameService';
-import { Card as CardType, UserCard, Rarity, CARD_SELL_PRICES } from '../types';
+import { Card as CardType, UserCard, Rarity, CARD_SELL_PRICES, BoosterCompletion, MarketplaceBuyOrder } from '../types';
 import Card from '../components/Card';
 import CardModal from '../components/CardModal';
+import BulkDuplicatesDialog from '../components/BulkDuplicatesDialog';
 import { RARITY_LABELS } from '../data/cards';
 import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
 
 type FilterType = 'all' | 'favorites' | Rarity | string; // string pour les IDs de boosters
 
 const CARDS_PER_PAGE = 30; // Augmenté pour réduire la fréquence de chargement
 
+// Exemplaires utilisables (hors exemplaires en vente sur le marketplace)
+const availableQuantity = (userCard: UserCard) => userCard.quantity - (userCard.reserved_quantity || 0);
+
 const Collection: React.FC = () => {
   const toast = useToast();
+  const { user } = useAuth();
   const [userCards, setUserCards] = useState<UserCard[]>([]);
   const [allCards, setAllCards] = useState<CardType[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
@@ -21,10 +27,14 @@ const Collection: React.FC = () => {
   const [showFilters, setShowFilters] = useState(false);
   const [stats, setStats] = useState<any>(null);
   const [availableBoosters, setAvailableBoosters] = useState<any[]>([]);
+  const [completion, setCompletion] = useState<BoosterCompletion[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedCard, setSelectedCard] = useState<CardType | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [berrysBalance, setBerrysBalance] = useState<number>(0);
+  const [dustBalance, setDustBalance] = useState<number>(0);
+  const [crafting, setCrafting] = useState(false);
+  const [buyOrder, setBuyOrder] = useState<MarketplaceBuyOrder | null>(null);
   const [sellMode, setSellMode] = useState(false);
   const [displayedCards, setDisplayedCards] = useState(CARDS_PER_PAGE);
   const observerTarget = useRef<HTMLDivElement>(null);
@@ -37,16 +47,20 @@ const Collection: React.FC = () => {
   const [cardToSell, setCardToSell] = useState<{ card: CardType; maxQuantity: number } | null>(null);
   const [sellQuantity, setSellQuantity] = useState(1);
 
+  // Vente et mise en vente des doublons par lot
+  const [showBulkDialog, setShowBulkDialog] = useState(false);
+
   useEffect(() => {
     const loadData = async () => {
       setLoading(true);
       try {
-        const [userCardsData, allCardsData, statsData, boostersData, berrys] = await Promise.all([
+        const [userCardsData, allCardsData, statsData, boostersData, berrys, dust] = await Promise.all([
           GameService.getUserCards(),
           GameService.getAllCards(),
           GameService.getCollectionStats(),
           GameService.getAllBoosters(),
-          GameService.getBerrysBalance()
+          GameService.getBerrysBalance(),
+          GameService.getDustBalance()
         ]);
 
         setUserCards(userCardsData);
@@ -54,6 +68,7 @@ const Collection: React.FC = () => {
         setStats(statsData);
         setAvailableBoosters(boostersData);
         setBerrysBalance(berrys);
+        setDustBalance(dust);
       } catch (error) {
         console.error('Error loading collection data:', error);
       } finally {
@@ -62,8 +77,13 @@ const Collection: React.FC = () => {
     };
 
     loadData();
+
+    // Estimation plus coûteuse côté serveur: chargée sans bloquer l'affichage de la collection
+    GameService.getCollectionCompletion().then(setCompletion);
   }, []);
 
+  const selectedCompletion = completion.find(c => c.booster_id === selectedFilter);
+
   const filteredCards = useMemo(() => {
     const ownedCardIds = userCards.map(uc => uc.card_id);
     let filtered = allCards;
@@ -106,8 +126,8 @@ const Collection: React.FC = () => {
 
       // En mode vente, afficher d'abord les cartes vendables (quantité > 1)
       if (sellMode && isOwnedA && isOwnedB) {
-        const canSellA = userCardA.quantity > 1;
-        const canSellB = userCardB.quantity > 1;
+        const canSellA = availableQuantity(userCardA) > 1;
+        const canSellB = availableQuantity(userCardB) > 1;
 
         // Les cartes vendables viennent en premier
         if (canSellA && !canSellB) return -1;
@@ -150,7 +170,7 @@ const Collection: React.FC = () => {
       if (sellMode) {
         const sellableCount = filteredCards.filter(card => {
           const userCard = userCards.find(uc => uc.card_id === card.id);
-          return userCard && userCard.quantity > 1;
+          return userCard && availableQuantity(userCard) > 1;
         }).length;
 
         // Afficher au minimum toutes les cartes vendables + une page normale
@@ -226,8 +246,29 @@ const Collection: React.FC = () => {
   const closeModal = useCallback(() => {
     setIsModalOpen(false);
     setSelectedCard(null);
+    setBuyOrder(null);
   }, []);
 
+  // Meilleur ordre d'achat pour la carte ouverte, si un doublon peut être vendu
+  useEffect(() => {
+    if (!selectedCard) return;
+
+    const userCard = userCards.find(uc => uc.card_id === selectedCard.id);
+    if (!userCard || availableQuantity(userCard) < 2) {
+      setBuyOrder(null);
+      return;
+    }
+
+    let cancelled = false;
+    GameService.getBestBuyOrder(selectedCard.id, user?.id).then(order => {
+      if (!cancelled) setBuyOrder(order);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCard, userCards, user?.id]);
+
   const openSellDialog = useCallback((card: CardType, maxQuantity: number) => {
     setCardToSell({ card, maxQuantity });
     setSellQuantity(1);
@@ -262,6 +303,72 @@ const Collection: React.FC = () => {
     }
   }, [cardToSell, sellQuantity, toast, closeSellDialog]);
 
+  const handleBulkDone = useCallback(async (newBalance: number) => {
+    setBerrysBalance(newBalance);
+    setShowBulkDialog(false);
+
+    const updatedCards = await GameService.getUserCards();
+    setUserCards(updatedCards);
+  }, []);
+
+  const handleCraftCard = useCallback(async (card: CardType) => {
+    setCrafting(true);
+    try {
+      const result = await GameService.craftCard(card.id);
+      setDustBalance(result.new_dust);
+
+      const [updatedCards, updatedStats] = await Promise.all([
+        GameService.getUserCards(),
+        GameService.getCollectionStats()
+      ]);
+      setUserCards(updatedCards);
+      setStats(updatedStats);
+
+      toast.success(`${card.name} fabriquée pour ${result.dust_spent} poussière !`);
+    } catch (error: any) {
+      console.error('Erreur lors de la fabrication de la carte:', error);
+      toast.error(error.message || 'Impossible de fabriquer cette carte');
+    } finally {
+      setCrafting(false);
+    }
+  }, [toast]);
+
+  const handleDisenchantCard = useCallback(async (card: CardType, quantity: number) => {
+    setCrafting(true);
+    try {
+      const result = await GameService.disenchantCard(card.id, quantity);
+      setDustBalance(result.new_dust);
+
+      const updatedCards = await GameService.getUserCards();
+      setUserCards(updatedCards);
+
+      toast.success(`${quantity}x ${card.name} désenchantées pour ${result.dust_earned} poussière !`);
+    } catch (error: any) {
+      console.error('Erreur lors du désenchantement de la carte:', error);
+      toast.error(error.message || 'Impossible de désenchanter cette carte');
+    } finally {
+      setCrafting(false);
+    }
+  }, [toast]);
+
+  const handleFillBuyOrder = useCallback(async (card: CardType, order: MarketplaceBuyOrder) => {
+    setCrafting(true);
+    try {
+      const result = await GameService.fillBuyOrder(order.id);
+      setBerrysBalance(result.new_balance);
+
+      const updatedCards = await GameService.getUserCards();
+      setUserCards(updatedCards);
+
+      toast.success(`${card.name} vendue à ${order.buyer_username} pour ${result.price} Berrys (taxe : ${result.tax}) !`);
+    } catch (error: any) {
+      console.error('Erreur lors de l\'exécution de l\'ordre d\'achat:', error);
+      toast.error(error.message || 'Impossible de servir cet ordre d\'achat');
+    } finally {
+      setCrafting(false);
+    }
+  }, [toast]);
+
   const clearFilters = () => {
     setSearchQuery('');
     setSelectedFilter('all');
@@ -331,6 +438,7 @@ const Collection: React.FC = () => {
               {berrysBalance}
             </div>
             <div className="text-blue-200 text-xs sm:text-sm">Berrys</div>
+            <div className="text-indigo-300 text-xs mt-1">✨ {dustBalance} poussière</div>
           </div>
         </div>
       </div>
@@ -359,6 +467,16 @@ const Collection: React.FC = () => {
           <span className="whitespace-nowrap">{sellMode ? 'Annuler' : 'Vendre'}</span>
         </button>
 
+        {sellMode && (
+          <button
+            onClick={() => setShowBulkDialog(true)}
+            className="flex items-center justify-center space-x-2 px-3 sm:px-4 py-2 sm:py-3 text-sm sm:text-base bg-white/5 text-white hover:bg-white/10 border-2 border-white/10 hover:border-white/20 rounded-xl transition-all duration-300 backdrop-blur-xl font-semibold shadow-lg"
+          >
+            <Layers size={18} />
+            <span className="whitespace-nowrap">Par lot</span>
+          </button>
+        )}
+
         <div className="relative">
           <button
             onClick={() => setShowFilters(!showFilters)}
@@ -459,6 +577,30 @@ const Collection: React.FC = () => {
         </div>
       </div>
 
+      {/* Estimation de complétion du booster filtré */}
+      {selectedCompletion && (
+        <div className="bg-white/5 backdrop-blur-xl rounded-2xl p-3 sm:p-4 border border-white/10 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm">
+          <div className="text-white">
+            <span className="font-semibold">{selectedCompletion.code}</span>
+            {' · '}
+            {selectedCompletion.owned_cards}/{selectedCompletion.total_cards} cartes
+            <span className="text-blue-200"> ({Math.round(selectedCompletion.completion_rate * 100)}%)</span>
+          </div>
+          <div className="text-blue-200">
+            {selectedCompletion.missing_cards === 0 ? (
+              <span className="text-emerald-300 font-semibold">Set complet !</span>
+            ) : selectedCompletion.expected_packs === null ? (
+              <span>Certaines cartes manquantes ne sortent pas de ce booster</span>
+            ) : (
+              <>
+                Encore ≈ <span className="text-white font-semibold">{Math.ceil(selectedCompletion.expected_packs)}</span> boosters
+                {' '}(≈ <span className="text-yellow-400 font-semibold">{selectedCompletion.expected_berrys}</span> Berrys) en moyenne pour compléter
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
       {filteredCards.length === 0 ? (
         <div className="text-center py-8 sm:py-12 px-4">
           <div className="text-4xl sm:text-6xl mb-3 sm:mb-4">🔍</div>
@@ -499,7 +641,7 @@ const Collection: React.FC = () => {
             {visibleCards.map((card) => {
               const userCard = userCards.find(uc => uc.card_id === card.id);
               const isOwned = !!userCard;
-              const canSell = isOwned && userCard.quantity > 1;
+              const canSell = isOwned && availableQuantity(userCard) > 1;
               const sellPrice = CARD_SELL_PRICES[card.rarity];
 
               return (
@@ -521,7 +663,7 @@ const Collection: React.FC = () => {
                       {sellMode && canSell && (
                         <div className="absolute bottom-2 left-1/2 transform -translate-x-1/2 w-11/12">
                           <button
-                            onClick={() => openSellDialog(card, userCard.quantity - 1)}
+                            onClick={() => openSellDialog(card, availableQuantity(userCard) - 1)}
                             className="w-full bg-yellow-500 hover:bg-yellow-600 text-black font-bold py-2 px-3 rounded-lg shadow-lg transition-colors flex items-center justify-center gap-2"
                           >
                             <Coins size={16} />
@@ -529,7 +671,12 @@ const Collection: React.FC = () => {
                           </button>
                         </div>
                       )}
-                      {sellMode && !canSell && userCard.quantity === 1 && (
+                      {!!userCard.reserved_quantity && (
+                        <div className="absolute top-10 sm:top-12 left-2 sm:left-3 bg-orange-500/90 text-white text-xs px-2 py-1 rounded-full font-bold z-10">
+                          {userCard.reserved_quantity} en vente
+                        </div>
+                      )}
+                      {sellMode && !canSell && availableQuantity(userCard) === 1 && (
                         <div className="absolute inset-0 bg-black/50 rounded-xl flex items-center justify-center backdrop-blur-sm">
                           <div className="text-center text-white p-2 sm:p-4">
                             <div className="text-xl sm:text-2xl mb-1 sm:mb-2">⚠️</div>
@@ -583,11 +730,34 @@ const Collection: React.FC = () => {
         </div>
       )}
 
-      {isModalOpen && selectedCard && (
-        <CardModal
-          card={selectedCard}
-          isOpen={isModalOpen}
-          onClose={closeModal}
+      {isModalOpen && selectedCard && (() => {
+        const selectedUserCard = userCards.find(uc => uc.card_id === selectedCard.id);
+        const selectedQuantity = selectedUserCard?.quantity || 0;
+        const selectedAvailable = selectedUserCard ? availableQuantity(selectedUserCard) : 0;
+
+        return (
+          <CardModal
+            card={selectedCard}
+            isOpen={isModalOpen}
+            onClose={closeModal}
+            quantity={Math.max(selectedQuantity, 1)}
+            dust={dustBalance}
+            onCraft={selectedQuantity === 0 ? () => handleCraftCard(selectedCard) : undefined}
+            onDisenchant={selectedAvailable > 1 ? () => handleDisenchantCard(selectedCard, selectedAvailable - 1) : undefined}
+            duplicates={selectedAvailable - 1}
+            crafting={crafting}
+            buyOrder={buyOrder}
+            onFillBuyOrder={buyOrder ? () => handleFillBuyOrder(selectedCard, buyOrder) : undefined}
+          />
+        );
+      })()}
+
+      {showBulkDialog && (
+        <BulkDuplicatesDialog
+          userCards={userCards}
+          allCards={allCards}
+          onClose={() => setShowBulkDialog(false)}
+          onDone={handleBulkDone}
         />
       )}
 
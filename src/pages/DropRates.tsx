@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { GameService } from '../services/gameService';
+import { BoosterDropRates } from '../types';
+import { GameCard } from '../components/ui';
+
+const RARITY_LABELS: Record<string, string> = {
+  secret_rare: 'Secret Rare',
+  super_rare: 'Super Rare',
+  leader: 'Leader',
+  rare: 'Rare',
+  uncommon: 'Peu Commune',
+  common: 'Commune'
+};
+
+const RARITY_COLORS: Record<string, string> = {
+  secret_rare: 'text-orange-300',
+  super_rare: 'text-purple-300',
+  leader: 'text-red-300',
+  rare: 'text-blue-300',
+  uncommon: 'text-emerald-300',
+  common: 'text-slate-300'
+};
+
+const RARITY_BARS: Record<string, string> = {
+  secret_rare: 'bg-orange-400',
+  super_rare: 'bg-purple-400',
+  leader: 'bg-red-400',
+  rare: 'bg-blue-400',
+  uncommon: 'bg-emerald-400',
+  common: 'bg-slate-400'
+};
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(rate < 0.01 ? 2 : 1)}%`;
+
+const DropRates: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [dropRates, setDropRates] = useState<BoosterDropRates | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadDropRates = async () => {
+      setLoading(true);
+      try {
+        setDropRates(await GameService.getBoosterDropRates(id));
+      } catch (err: any) {
+        setError(err.message || 'Erreur lors du chargement des taux de drop');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDropRates();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="text-center">
+          <div className="text-4xl mb-4">⏳</div>
+          <div className="text-white text-xl">Chargement des taux de drop...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !dropRates) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <GameCard variant="default" className="p-6 max-w-md">
+          <div className="text-center">
+            <div className="text-4xl mb-4">❌</div>
+            <div className="text-xl text-red-400">{error || 'Booster non trouvé'}</div>
+          </div>
+        </GameCard>
+      </div>
+    );
+  }
+
+  // Échelle commune aux barres: le plus grand taux (annoncé ou borne haute observée)
+  const maxRate = Math.max(
+    ...dropRates.rarities.map(rate => Math.max(rate.configured_rate, rate.ci_high)),
+    0.01
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-6 sm:py-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link
+          to="/boosters"
+          className="inline-flex items-center space-x-2 px-3 py-2 rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-white/80 hover:text-white transition-all duration-300 backdrop-blur-xl text-sm sm:text-base"
+        >
+          <ArrowLeft size={18} />
+          <span>Retour aux boosters</span>
+        </Link>
+
+        {/* Header */}
+        <div className="text-center mb-6 sm:mb-8">
+          <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-treasure-300 via-ocean-300 to-treasure-300 bg-clip-text text-transparent mb-3">
+            📊 Taux de drop
+          </h1>
+          <p className="text-white text-lg font-semibold">
+            {dropRates.booster.code} - {dropRates.booster.name}
+          </p>
+          <p className="text-slate-300 text-sm sm:text-base mt-2">
+            {dropRates.pack_size} cartes par booster, {formatPercent(dropRates.alternate_chance)} de chance de version alternative
+            {dropRates.is_default_table ? ' (taux standards)' : ' (taux spécifiques à ce booster)'}
+          </p>
+        </div>
+
+        <GameCard variant="ocean" className="p-4 sm:p-6">
+          <div className="flex flex-wrap justify-between gap-2 mb-4 text-sm">
+            <span className="text-white font-semibold">
+              {dropRates.total_packs} booster(s) ouvert(s) par les joueurs, {dropRates.total_cards} cartes
+            </span>
+            <span className="text-slate-400">
+              Intervalle de confiance à 95%
+            </span>
+          </div>
+
+          <div className="space-y-4">
+            {dropRates.rarities.map(rate => {
+              const outsideInterval = dropRates.total_cards > 0
+                && (rate.configured_rate < rate.ci_low || rate.configured_rate > rate.ci_high);
+
+              return (
+                <div key={rate.rarity}>
+                  <div className="flex flex-wrap items-baseline justify-between gap-2 text-xs sm:text-sm mb-1">
+                    <span className={`font-semibold ${RARITY_COLORS[rate.rarity]}`}>
+                      {RARITY_LABELS[rate.rarity]}
+                      <span className="text-slate-400 font-normal"> ({rate.catalog_count} cartes)</span>
+                    </span>
+                    <span className="text-slate-300">
+                      Annoncé <span className="text-white font-semibold">{formatPercent(rate.configured_rate)}</span>
+                      {' · '}
+                      Observé{' '}
+                      <span className={`font-semibold ${outsideInterval ? 'text-yellow-300' : 'text-white'}`}>
+                        {formatPercent(rate.observed_rate)}
+                      </span>
+                      {dropRates.total_cards > 0 && (
+                        <span className="text-slate-400"> [{formatPercent(rate.ci_low)} – {formatPercent(rate.ci_high)}]</span>
+                      )}
+                    </span>
+                  </div>
+
+                  {/* Barre: taux annoncé, avec l'intervalle observé superposé */}
+                  <div className="relative h-3 rounded-full bg-white/10 overflow-hidden">
+                    <div
+                      className={`absolute inset-y-0 left-0 ${RARITY_BARS[rate.rarity]} opacity-60`}
+                      style={{ width: `${(rate.configured_rate / maxRate) * 100}%` }}
+                    />
+                    {dropRates.total_cards > 0 && (
+                      <div
+                        className="absolute inset-y-0 border-x-2 border-white bg-white/20"
+                        style={{
+                          left: `${(rate.ci_low / maxRate) * 100}%`,
+                          width: `${((rate.ci_high - rate.ci_low) / maxRate) * 100}%`
+                        }}
+                      />
+                    )}
+                  </div>
+
+                  <div className="text-[11px] text-slate-400 mt-1">
+                    {rate.expected_per_pack.toFixed(2)} attendue(s) par booster · {rate.observed_per_pack.toFixed(2)} observée(s)
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </GameCard>
+
+        <GameCard variant="default" className="p-4 text-xs sm:text-sm text-slate-300 space-y-1">
+          <p>
+            Le taux annoncé est la part moyenne de chaque rareté dans un booster, calculée à partir de la table de drop.
+            Le taux observé agrège toutes les ouvertures de ce booster par l'ensemble des joueurs.
+          </p>
+          <p>
+            Les {dropRates.pity_packs} ouverture(s) avec Super Rare garantie (protection anti-malchance) sont exclues du calcul.
+          </p>
+        </GameCard>
+      </div>
+    </div>
+  );
+};
+
+export default DropRates;
@@ -2,8 +2,11 @@ import React, { useEffect, useState, useMemo, useCallback, memo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
-import worldMapService, { Island, CrewMember, ActiveQuest, Quest, MapData } from '../services/worldMapService';
-import { Map as MapIcon, Users, Trophy, Clock, CheckCircle2, Lock, Star, Gift, X } from 'lucide-react';
+import worldMapService, { Island, CrewMember, ActiveQuest, Quest, QuestReward, GrantedQuestReward, MapData, CrewStat, CrewStats, QuestOdds, CrewCardBonus, TeamBonus, QuestStartErrorCode } from '../services/worldMapService';
+import { ApiError } from '../services/api';
+import { Map as MapIcon, Users, Trophy, Clock, CheckCircle2, Lock, Star, Gift, X, Package, Sparkles, AlertTriangle } from 'lucide-react';
+import { RARITY_LABELS } from '../data/cards';
+import { Rarity } from '../types';
 import GameCard from '../components/ui/GameCard';
 import Button from '../components/ui/Button';
 import ProgressBar from '../components/ui/ProgressBar';
@@ -152,6 +155,134 @@ const WorldMapSVG = memo(({ islands, onIslandClick }: {
 
 WorldMapSVG.displayName = 'WorldMapSVG';
 
+const rarityLabel = (rarity: string) => RARITY_LABELS[rarity as Rarity] || rarity;
+
+// Badges des récompenses d'une quête (Berrys, boosters, carte, expérience d'équipage)
+const QuestRewardBadges = memo(({ rewards }: { rewards: QuestReward[] }) => {
+  return (
+    <>
+      {rewards.map((reward, index) => {
+        switch (reward.type) {
+          case 'berrys':
+            return (
+              <div key={index} className="flex items-center gap-1 text-treasure-400 font-medium">
+                <span>{reward.amount}</span>
+                <img src="/icons/berry.svg" alt="Berry" className="w-3 h-3 sm:w-4 sm:h-4" onError={(e) => {
+                  e.currentTarget.style.display = 'none';
+                }} />
+              </div>
+            );
+          case 'booster':
+            return (
+              <div key={index} className="flex items-center gap-1 text-ocean-300 font-medium">
+                <Package className="w-3 h-3 sm:w-4 sm:h-4" />
+                <span>{reward.count}× {reward.booster_name || 'Booster'}</span>
+              </div>
+            );
+          case 'card':
+            return (
+              <div key={index} className="flex items-center gap-1 text-purple-300 font-medium">
+                <Sparkles className="w-3 h-3 sm:w-4 sm:h-4" />
+                <span>
+                  Carte {reward.rarities.map(rarityLabel).join(' / ')}
+                  {reward.booster_name && ` (${reward.booster_name})`}
+                </span>
+              </div>
+            );
+          case 'crew_xp':
+            return (
+              <div key={index} className="flex items-center gap-1 text-emerald-300 font-medium">
+                <Star className="w-3 h-3 sm:w-4 sm:h-4" />
+                <span>+{reward.amount} XP équipage</span>
+              </div>
+            );
+          default:
+            return null;
+        }
+      })}
+    </>
+  );
+});
+
+QuestRewardBadges.displayName = 'QuestRewardBadges';
+
+const STAT_LABELS: Record<CrewStat, string> = {
+  strength: 'Force',
+  navigation: 'Navigation',
+  intelligence: 'Intelligence',
+  stamina: 'Endurance'
+};
+
+// Statistiques d'un membre ou exigences d'une quête, sous forme de petits badges
+const StatBadges = memo(({ stats, className = '' }: { stats: Partial<CrewStats>; className?: string }) => {
+  const entries = (Object.keys(STAT_LABELS) as CrewStat[]).filter(stat => (stats[stat] ?? 0) > 0);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {entries.map(stat => (
+        <span key={stat} className="px-1.5 py-0.5 rounded-md bg-white/10 text-[10px] sm:text-xs text-white/70">
+          {STAT_LABELS[stat].slice(0, 3)}. {stats[stat]}
+        </span>
+      ))}
+    </div>
+  );
+});
+
+StatBadges.displayName = 'StatBadges';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatHours = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${Math.floor(minutes / 60)}h ${minutes % 60}min`;
+};
+
+// Bonus d'un membre grâce à la meilleure carte possédée de son personnage
+const CardBonusBadge = memo(({ bonus }: { bonus: CrewCardBonus }) => {
+  return (
+    <div
+      className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-purple-500/20 border border-purple-400/30 text-[10px] sm:text-xs text-purple-200"
+      title={`${bonus.card_name} (${rarityLabel(bonus.rarity)}), ${bonus.owned_cards} carte${bonus.owned_cards > 1 ? 's' : ''} possédée${bonus.owned_cards > 1 ? 's' : ''}`}
+    >
+      <Sparkles className="w-3 h-3 flex-shrink-0" />
+      <span>-{percent(bonus.duration_reduction)} durée · +{percent(bonus.reward_bonus)} Berrys</span>
+    </div>
+  );
+});
+
+CardBonusBadge.displayName = 'CardBonusBadge';
+
+// Titre affiché pour chaque refus de départ en quête, le message du serveur donne le détail
+const QUEST_START_ERROR_TITLES: Record<QuestStartErrorCode, string> = {
+  INVALID_REQUEST: 'Demande invalide',
+  QUEST_NOT_FOUND: 'Quête introuvable',
+  ISLAND_LOCKED: 'Île verrouillée',
+  QUEST_ALREADY_COMPLETED: 'Quête déjà réussie',
+  QUEST_IN_PROGRESS: 'Quête déjà en cours',
+  DUPLICATE_CREW_MEMBER: 'Membre en double',
+  WRONG_CREW_COUNT: 'Nombre de membres incorrect',
+  CREW_MEMBER_LOCKED: 'Membre non débloqué',
+  CREW_MEMBER_BUSY: 'Membre déjà en mission',
+  SPECIFIC_CREW_MEMBER_REQUIRED: 'Membre requis manquant',
+  CREW_TOO_WEAK: 'Équipage trop faible'
+};
+
+// Refus dus à une carte plus à jour: les données sont rechargées
+const STALE_MAP_ERRORS: QuestStartErrorCode[] = ['QUEST_NOT_FOUND', 'ISLAND_LOCKED', 'QUEST_ALREADY_COMPLETED', 'QUEST_IN_PROGRESS', 'CREW_MEMBER_LOCKED', 'CREW_MEMBER_BUSY'];
+
+interface QuestStartError {
+  code: QuestStartErrorCode | null;
+  message: string;
+  // Membres à mettre en évidence dans la sélection
+  crewMemberIds: string[];
+}
+
+// Expérience gagnée dans le niveau actuel
+const levelProgress = (crew: CrewMember) => crew.next_level_experience === null
+  ? { value: 1, max: 1 }
+  : { value: crew.experience - crew.level_experience, max: crew.next_level_experience - crew.level_experience };
+
 const Map: React.FC = () => {
   const { user } = useAuth();
   const { showToast } = useToast();
@@ -166,6 +297,10 @@ const Map: React.FC = () => {
   const [showCrewModal, setShowCrewModal] = useState(false);
   const [actionLoading, setActionLoading] = useState(false);
   const [currentTime, setCurrentTime] = useState(Date.now());
+  const [questRewards, setQuestRewards] = useState<GrantedQuestReward[] | null>(null);
+  const [questOdds, setQuestOdds] = useState<QuestOdds | null>(null);
+  const [questBonus, setQuestBonus] = useState<TeamBonus | null>(null);
+  const [questStartError, setQuestStartError] = useState<QuestStartError | null>(null);
 
   useEffect(() => {
     if (!user) {
@@ -188,6 +323,33 @@ const Map: React.FC = () => {
     }
   }, [mapData?.activeQuests.length]);
 
+  // Chance de réussite attendue de l'équipe sélectionnée
+  useEffect(() => {
+    setQuestStartError(null);
+
+    if (!selectedQuest || selectedCrew.length === 0) {
+      setQuestOdds(null);
+      setQuestBonus(null);
+      return;
+    }
+
+    let cancelled = false;
+    worldMapService.getQuestOdds(selectedQuest.id, selectedCrew)
+      .then(({ odds, bonus }) => {
+        if (cancelled) return;
+        setQuestOdds(odds);
+        setQuestBonus(bonus);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setQuestOdds(null);
+        setQuestBonus(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedQuest, selectedCrew]);
+
   const loadMapData = useCallback(async () => {
     try {
       const data = await worldMapService.getMapData();
@@ -265,17 +427,41 @@ const Map: React.FC = () => {
       setSelectedCrew([]);
       await loadMapData();
     } catch (error: any) {
-      showToast('error', error.response?.data?.error || 'Erreur lors du démarrage de la quête');
+      if (error instanceof ApiError && error.code) {
+        const code = error.code as QuestStartErrorCode;
+        const crewMemberIds = error.details?.crew_member_ids;
+        setQuestStartError({
+          code,
+          message: error.message,
+          crewMemberIds: Array.isArray(crewMemberIds) ? crewMemberIds : []
+        });
+        if (STALE_MAP_ERRORS.includes(code)) {
+          await loadMapData();
+        }
+      } else {
+        setQuestStartError({ code: null, message: error.message || 'Erreur lors du démarrage de la quête', crewMemberIds: [] });
+      }
     } finally {
       setActionLoading(false);
     }
-  }, [selectedQuest, selectedCrew, showToast, loadMapData]);
+  }, [selectedQuest, selectedCrew, loadMapData, showToast]);
 
   const handleCompleteQuest = useCallback(async (activeQuestId: string) => {
     setActionLoading(true);
     try {
       const result = await worldMapService.completeQuest(activeQuestId);
-      showToast('success', `Quête terminée ! +${result.reward.berrys} Berrys`);
+      if (result.quest_succeeded) {
+        showToast('success', `Quête terminée ! +${result.reward.berrys} Berrys, +${result.experience} XP`);
+      } else {
+        showToast('error', `Quête échouée (${Math.round(result.success_chance * 100)}% de réussite)... +${result.reward.berrys} Berrys, +${result.experience} XP`);
+      }
+      result.level_ups?.forEach(levelUp => {
+        showToast('success', `${levelUp.name} passe au niveau ${levelUp.level} !`);
+      });
+      // Détailler les récompenses au-delà des Berrys (cartes obtenues, expérience)
+      if (result.rewards?.some(reward => reward.type !== 'berrys')) {
+        setQuestRewards(result.rewards);
+      }
       await loadMapData();
     } catch (error: any) {
       showToast('error', error.response?.data?.error || 'Erreur lors de la complétion de la quête');
@@ -454,6 +640,15 @@ const Map: React.FC = () => {
                       <>
                         <div className="text-2xl mb-1">👤</div>
                         <p className="text-xs sm:text-sm font-semibold text-white truncate">{crew.name}</p>
+                        <p className="text-xs text-white/60 mt-0.5">Niv. {crew.level}</p>
+                        <div className="mt-1">
+                          <ProgressBar {...levelProgress(crew)} size="sm" variant="success" animated={false} />
+                        </div>
+                        {crew.card_bonus && (
+                          <div className="mt-1.5">
+                            <CardBonusBadge bonus={crew.card_bonus} />
+                          </div>
+                        )}
                         {isBusy && (
                           <p className="text-xs text-ocean-300 mt-1 font-medium">En mission</p>
                         )}
@@ -666,13 +861,9 @@ const Map: React.FC = () => {
                                   <Users className="w-3 h-3 sm:w-4 sm:h-4 text-ocean-400" />
                                   <span>{quest.required_crew_count} membre{quest.required_crew_count > 1 ? 's' : ''}</span>
                                 </div>
-                                <div className="flex items-center gap-1 text-treasure-400 font-medium">
-                                  <span>{quest.reward_berrys}</span>
-                                  <img src="/icons/berry.svg" alt="Berry" className="w-3 h-3 sm:w-4 sm:h-4" onError={(e) => {
-                                    e.currentTarget.style.display = 'none';
-                                  }} />
-                                </div>
+                                <QuestRewardBadges rewards={quest.rewards || []} />
                               </div>
+                              <StatBadges stats={quest.stat_requirements || {}} className="mt-2" />
                               {quest.specific_crew_member_id && (
                                 <div className="mt-2 flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg backdrop-blur-xl bg-gradient-to-r from-ocean-500/20 to-ocean-600/20 border border-ocean-400/30 w-fit shadow-lg shadow-ocean-500/10">
                                   <Lock className="w-3 h-3 sm:w-4 sm:h-4 text-ocean-400 flex-shrink-0" />
@@ -755,6 +946,7 @@ const Map: React.FC = () => {
                           JSON.parse(aq.crew_member_ids).includes(crew.id)
                         );
                         const isRequired = selectedQuest.specific_crew_member_id === crew.id;
+                        const isFlagged = !!questStartError?.crewMemberIds.includes(crew.id);
 
                         return (
                           <button
@@ -762,6 +954,8 @@ const Map: React.FC = () => {
                             onClick={() => !isBusy && handleCrewSelect(crew.id)}
                             disabled={isBusy}
                             className={`p-2.5 sm:p-3 rounded-xl backdrop-blur-xl border text-left transition-all ${
+                              isFlagged ? 'ring-2 ring-danger-400/70 ' : ''
+                            }${
                               isRequired
                                 ? 'bg-gradient-to-br from-ocean-500/30 to-ocean-600/30 border-ocean-400 ring-2 ring-ocean-400/50 shadow-lg shadow-ocean-500/20'
                                 : isSelected
@@ -776,7 +970,14 @@ const Map: React.FC = () => {
                               {isBusy && <Clock className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-white/40 flex-shrink-0" />}
                               {isRequired && !isSelected && <Star className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-ocean-400 flex-shrink-0 animate-pulse" />}
                               <span className="font-semibold text-white text-xs sm:text-sm truncate">{crew.name}</span>
+                              <span className="ml-auto text-xs text-white/60 flex-shrink-0">Niv. {crew.level}</span>
                             </div>
+                            <StatBadges stats={crew.stats} className="mb-1" />
+                            {crew.card_bonus && (
+                              <div className="mb-1">
+                                <CardBonusBadge bonus={crew.card_bonus} />
+                              </div>
+                            )}
                             {isRequired && (
                               <div className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md backdrop-blur-sm bg-ocean-400/20 border border-ocean-400/40">
                                 <p className="text-xs text-ocean-300 font-medium">REQUIS</p>
@@ -789,12 +990,69 @@ const Map: React.FC = () => {
                   </div>
                 </div>
 
+                {questStartError && (
+                  <div className="mb-4 p-3 rounded-xl bg-danger-500/10 border border-danger-400/30 flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 sm:w-5 sm:h-5 text-danger-400 flex-shrink-0 mt-0.5" />
+                    <div className="min-w-0">
+                      {questStartError.code && (
+                        <p className="text-sm font-semibold text-danger-300">{QUEST_START_ERROR_TITLES[questStartError.code] || 'Départ impossible'}</p>
+                      )}
+                      <p className="text-xs sm:text-sm text-white/70">{questStartError.message}</p>
+                    </div>
+                  </div>
+                )}
+
+                {questBonus && (questBonus.duration_reduction > 0 || questBonus.reward_bonus > 0) && (
+                  <div className="mb-4 p-3 rounded-xl bg-purple-500/10 border border-purple-400/30 text-xs sm:text-sm text-purple-200 flex flex-wrap items-center gap-x-4 gap-y-1">
+                    <span className="flex items-center gap-1.5 font-semibold">
+                      <Sparkles className="w-4 h-4" />
+                      Bonus de cartes
+                    </span>
+                    <span>Durée: {formatHours(selectedQuest.duration_hours * (1 - questBonus.duration_reduction))} (-{percent(questBonus.duration_reduction)})</span>
+                    <span>Berrys: +{percent(questBonus.reward_bonus)}</span>
+                  </div>
+                )}
+
+                {questOdds && questOdds.checks.length > 0 && (
+                  <div className={`mb-4 sm:mb-6 p-3 sm:p-4 rounded-xl border ${
+                    questOdds.meets_minimum ? 'bg-white/5 border-white/10' : 'bg-danger-500/10 border-danger-400/30'
+                  }`}>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-semibold text-white">Chance de réussite</span>
+                      <span className={`text-lg font-bold ${
+                        !questOdds.meets_minimum ? 'text-danger-400' : questOdds.success_chance >= 0.8 ? 'text-emerald-400' : 'text-treasure-400'
+                      }`}>
+                        {questOdds.meets_minimum ? `${Math.round(questOdds.success_chance * 100)}%` : '—'}
+                      </span>
+                    </div>
+                    <div className="space-y-1">
+                      {questOdds.checks.map(check => (
+                        <div key={check.stat} className="flex items-center justify-between text-xs sm:text-sm">
+                          <span className="text-white/70">{STAT_LABELS[check.stat]}</span>
+                          <span className={check.team >= check.required ? 'text-emerald-400' : 'text-treasure-400'}>
+                            {check.team} / {check.required}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    {!questOdds.meets_minimum && (
+                      <p className="mt-2 flex items-center gap-1.5 text-xs sm:text-sm text-danger-300">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        Équipage trop faible: chaque statistique doit atteindre la moitié de l'exigence
+                      </p>
+                    )}
+                    <p className="mt-2 text-xs text-white/50">
+                      En cas d'échec, seule une partie des Berrys est gagnée et l'équipage reçoit moitié moins d'expérience.
+                    </p>
+                  </div>
+                )}
+
                 <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
                   <Button
                     variant="primary"
                     className="flex-1 w-full"
                     onClick={handleStartQuest}
-                    disabled={selectedCrew.length !== selectedQuest.required_crew_count}
+                    disabled={selectedCrew.length !== selectedQuest.required_crew_count || questOdds?.meets_minimum === false}
                     isLoading={actionLoading}
                   >
                     Démarrer la Quête
@@ -815,6 +1073,69 @@ const Map: React.FC = () => {
             </GameCard>
           </div>
         )}
+
+        {/* Quest Rewards Modal */}
+        {questRewards && (
+          <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-3 sm:p-4">
+            <GameCard className="max-w-lg w-full max-h-[85vh] sm:max-h-[80vh] overflow-y-auto">
+              <div className="p-4 sm:p-6">
+                <div className="flex items-start justify-between mb-4 gap-3">
+                  <h2 className="text-xl sm:text-2xl font-bold text-white flex items-center gap-2">
+                    <Gift className="w-5 h-5 sm:w-6 sm:h-6 text-treasure-400" />
+                    Récompenses de quête
+                  </h2>
+                  <button
+                    onClick={() => setQuestRewards(null)}
+                    className="text-white/60 hover:text-white transition-colors flex-shrink-0"
+                  >
+                    <X className="w-5 h-5 sm:w-6 sm:h-6" />
+                  </button>
+                </div>
+
+                <div className="space-y-3">
+                  {questRewards.map((reward, index) => (
+                    <div key={index} className="p-3 rounded-xl bg-white/5 border border-white/10 text-sm text-white/80">
+                      {reward.type === 'berrys' && (
+                        <p className="text-treasure-400 font-semibold">+{reward.amount} Berrys</p>
+                      )}
+                      {reward.type === 'crew_xp' && (
+                        <p className="text-emerald-300 font-semibold">
+                          +{reward.amount} XP pour {reward.crew_member_ids.map(id => mapData?.crewMembers.find(c => c.id === id)?.name || id).join(', ')}
+                        </p>
+                      )}
+                      {reward.type === 'card' && (
+                        <p>
+                          <span className="text-purple-300 font-semibold">{reward.card.name}</span>
+                          {' '}({rarityLabel(reward.card.rarity)})
+                          {reward.is_new && <span className="ml-2 text-xs font-bold text-emerald-400">Nouvelle !</span>}
+                        </p>
+                      )}
+                      {reward.type === 'booster' && (
+                        <>
+                          <p className="text-ocean-300 font-semibold mb-1">
+                            {reward.opening_ids.length} booster{reward.opening_ids.length > 1 ? 's' : ''} ouvert{reward.opening_ids.length > 1 ? 's' : ''}
+                          </p>
+                          <ul className="space-y-0.5">
+                            {reward.cards.map((card, cardIndex) => (
+                              <li key={cardIndex}>
+                                {card.name} ({rarityLabel(card.rarity)})
+                                {reward.new_cards.includes(card.id) && <span className="ml-2 text-xs font-bold text-emerald-400">Nouvelle !</span>}
+                              </li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <Button variant="primary" className="w-full mt-4 sm:mt-6" onClick={() => setQuestRewards(null)}>
+                  Continuer
+                </Button>
+              </div>
+            </GameCard>
+          </div>
+        )}
       </div>
     </div>
   );
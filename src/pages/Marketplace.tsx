@@ -4,21 +4,57 @@ import { useToast } from '../contexts/ToastContext';
 import { apiService } from '../services/api';
 import { useDialog } from '../hooks/useDialog';
 import { Dialog } from '../components/ui';
+import { Card as CardType, MarketplaceBid, MarketplaceBuyOrder, MarketplaceFees, MarketplaceListing } from '../types';
 
-interface MarketplaceListing {
-  id: string;
-  seller_id: string;
-  seller_username: string;
-  card_id: string;
-  card_name: string;
-  card_rarity: string;
-  card_character: string;
-  card_image_url?: string;
-  price: number;
-  created_at: string;
-  status: 'active' | 'sold' | 'cancelled';
+interface ListingFilters {
+  search: string;
+  character: string;
+  rarity: string;
+  boosterId: string;
+  color: string;
+  minPrice: string;
+  maxPrice: string;
+  seller: string;
+  sort: 'recent' | 'price_asc' | 'price_desc' | 'rarity';
 }
 
+const DEFAULT_FILTERS: ListingFilters = {
+  search: '',
+  character: '',
+  rarity: '',
+  boosterId: '',
+  color: '',
+  minPrice: '',
+  maxPrice: '',
+  seller: '',
+  sort: 'recent'
+};
+
+const RARITY_OPTIONS = ['common', 'uncommon', 'rare', 'leader', 'super_rare', 'secret_rare'];
+const COLOR_OPTIONS = ['Red', 'Green', 'Blue', 'Purple', 'Black', 'Yellow'];
+
+// Durées d'enchère proposées (en heures)
+const AUCTION_DURATIONS = [1, 6, 12, 24, 72, 168];
+const LISTING_DURATIONS = [1, 3, 7];
+
+// Montant minimum de la prochaine enchère (+5% de l'enchère actuelle)
+const getMinimumBid = (listing: MarketplaceListing) =>
+  listing.current_bid
+    ? listing.current_bid + Math.max(1, Math.ceil(listing.current_bid * 0.05))
+    : listing.price;
+
+const formatCountdown = (endsAt: string, now: number) => {
+  const remaining = Math.max(0, Math.floor((new Date(endsAt).getTime() - now) / 1000));
+  const days = Math.floor(remaining / 86400);
+  const hours = Math.floor((remaining % 86400) / 3600);
+  const minutes = Math.floor((remaining % 3600) / 60);
+  const seconds = remaining % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return days > 0
+    ? `${days}j ${pad(hours)}h ${pad(minutes)}m`
+    : `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
 interface UserCard {
   card_id: string;
   id: string;
@@ -40,34 +76,101 @@ const Marketplace: React.FC = () => {
   const { showToast } = useToast();
   const { dialogState, showDialog, hideDialog, handleConfirm, handleClose } = useDialog();
 
-  const [activeTab, setActiveTab] = useState<'browse' | 'myListings' | 'sell'>('browse');
+  const [activeTab, setActiveTab] = useState<'browse' | 'myListings' | 'sell' | 'buyOrders'>('browse');
   const [listings, setListings] = useState<MarketplaceListing[]>([]);
+  const [filters, setFilters] = useState<ListingFilters>(DEFAULT_FILTERS);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [boosters, setBoosters] = useState<{ id: string; name: string }[]>([]);
   const [myListings, setMyListings] = useState<MarketplaceListing[]>([]);
   const [myCards, setMyCards] = useState<UserCard[]>([]);
   const [loading, setLoading] = useState(false);
   const [berrysBalance, setBerrysBalance] = useState(0);
+  const [fees, setFees] = useState<MarketplaceFees | null>(null);
 
   // Pour le formulaire de vente
   const [selectedCard, setSelectedCard] = useState<string>('');
   const [sellPrice, setSellPrice] = useState<number>(10);
+  const [listingType, setListingType] = useState<'fixed' | 'auction'>('fixed');
+  const [buyoutPrice, setBuyoutPrice] = useState<string>('');
+  const [auctionDuration, setAuctionDuration] = useState<number>(24);
+  const [listingDuration, setListingDuration] = useState<number>(7);
+  const [relistPrices, setRelistPrices] = useState<Record<string, number>>({});
+
+  // Pour les ordres d'achat
+  const [buyOrders, setBuyOrders] = useState<MarketplaceBuyOrder[]>([]);
+  const [myBuyOrders, setMyBuyOrders] = useState<MarketplaceBuyOrder[]>([]);
+  const [orderSearch, setOrderSearch] = useState('');
+  const [orderSearchResults, setOrderSearchResults] = useState<CardType[]>([]);
+  const [orderCard, setOrderCard] = useState<CardType | null>(null);
+  const [orderMaxPrice, setOrderMaxPrice] = useState<number>(10);
+
+  // Pour les enchères
+  const [now, setNow] = useState(Date.now());
+  const [bidAmounts, setBidAmounts] = useState<Record<string, number>>({});
+  const [bidHistory, setBidHistory] = useState<Record<string, MarketplaceBid[]>>({});
+
+  const isAuctionOver = (listing: MarketplaceListing) =>
+    !!listing.ends_at && new Date(listing.ends_at).getTime() <= now;
 
-  // Charger les annonces actives
-  const loadListings = async () => {
+  const resetSellForm = () => {
+    setSelectedCard('');
+    setSellPrice(10);
+    setListingType('fixed');
+    setBuyoutPrice('');
+    setAuctionDuration(24);
+    setListingDuration(7);
+  };
+
+  // Charger les annonces actives (filtres, tri et pagination côté serveur)
+  const loadListings = async (cursor?: string, activeFilters: ListingFilters = filters) => {
     try {
-      setLoading(true);
-      const response = await apiService.getMarketplaceListings();
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+
+      const response = await apiService.getMarketplaceListings({
+        search: activeFilters.search.trim(),
+        character: activeFilters.character.trim(),
+        rarity: activeFilters.rarity,
+        boosterId: activeFilters.boosterId,
+        color: activeFilters.color,
+        minPrice: activeFilters.minPrice ? parseInt(activeFilters.minPrice) : undefined,
+        maxPrice: activeFilters.maxPrice ? parseInt(activeFilters.maxPrice) : undefined,
+        seller: activeFilters.seller.trim(),
+        sort: activeFilters.sort,
+        cursor
+      });
 
       if (response.success) {
-        setListings(response.data);
+        setListings(prev => cursor ? [...prev, ...response.data] : response.data);
+        setNextCursor(response.pagination?.next_cursor || null);
       }
     } catch (error: any) {
       console.error('Erreur chargement annonces:', error);
       showToast('error', error.message || 'Erreur lors du chargement des annonces');
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadListings();
+  };
+
+  const handleResetFilters = () => {
+    setFilters(DEFAULT_FILTERS);
+    loadListings(undefined, DEFAULT_FILTERS);
+  };
+
+  const updateFilter = <K extends keyof ListingFilters>(key: K, value: ListingFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
   // Charger mes annonces
   const loadMyListings = async () => {
     try {
@@ -85,6 +188,29 @@ const Marketplace: React.FC = () => {
     }
   };
 
+  // Charger le carnet d'ordres d'achat et mes ordres
+  const loadBuyOrders = async () => {
+    try {
+      setLoading(true);
+      const [ordersResponse, myOrdersResponse] = await Promise.all([
+        apiService.getBuyOrders(),
+        apiService.getMyBuyOrders()
+      ]);
+
+      if (ordersResponse.success) {
+        setBuyOrders(ordersResponse.data);
+      }
+      if (myOrdersResponse.success) {
+        setMyBuyOrders(myOrdersResponse.data);
+      }
+    } catch (error: any) {
+      console.error('Erreur chargement ordres d\'achat:', error);
+      showToast('error', error.message || 'Erreur lors du chargement des ordres d\'achat');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Charger ma collection pour vendre
   const loadMyCollection = async () => {
     try {
@@ -95,11 +221,11 @@ const Marketplace: React.FC = () => {
         console.log('Collection complète reçue:', response.data.length, 'cartes');
         console.log('Exemple de carte:', response.data[0]);
 
-        // Filtrer uniquement les cartes avec quantity >= 2
+        // Filtrer uniquement les cartes avec au moins 2 exemplaires hors séquestre
         const sellableCards = response.data
           .filter((card: any) => {
             console.log(`Carte ${card.name}: quantity = ${card.quantity}, type = ${typeof card.quantity}`);
-            return card.quantity >= 2;
+            return card.quantity - (card.reserved_quantity || 0) >= 2;
           })
           .map((card: any) => ({
             card_id: card.card_id || card.id,
@@ -139,6 +265,55 @@ const Marketplace: React.FC = () => {
     }
   };
 
+  // Charger la taxe de vente et mes emplacements d'annonces
+  const loadFees = async () => {
+    try {
+      const response = await apiService.getMarketplaceFees();
+
+      if (response.success) {
+        setFees(response.data);
+      }
+    } catch (error) {
+      console.error('Erreur chargement frais du marketplace:', error);
+    }
+  };
+
+  // Acheter un emplacement d'annonce supplémentaire
+  const handlePurchaseListingSlot = () => {
+    if (!fees) return;
+    const { slot_price } = fees.listing_slots;
+
+    if (berrysBalance < slot_price) {
+      showToast('error', `Berrys insuffisants! Un emplacement coûte ${slot_price} ฿.`);
+      return;
+    }
+
+    showDialog({
+      title: 'Emplacement supplémentaire',
+      message: `Acheter définitivement un emplacement d'annonce supplémentaire pour ${slot_price} ฿ ?`,
+      type: 'confirm',
+      confirmText: 'Acheter',
+      cancelText: 'Annuler',
+      showCancel: true,
+      onConfirm: async () => {
+        hideDialog();
+        try {
+          const response = await apiService.purchaseListingSlot();
+
+          if (response.success) {
+            showToast('success', `Emplacement acheté ! Vous pouvez maintenant avoir ${response.data.listing_slots.total} annonces actives.`);
+            setBerrysBalance(response.data.new_balance);
+            loadFees();
+            refreshUser();
+          }
+        } catch (error: any) {
+          console.error('Erreur achat emplacement:', error);
+          showToast('error', error.message || 'Erreur lors de l\'achat de l\'emplacement');
+        }
+      }
+    });
+  };
+
   // Acheter une carte
   const handlePurchase = async (listingId: string, price: number) => {
     if (berrysBalance < price) {
@@ -177,6 +352,84 @@ const Marketplace: React.FC = () => {
     });
   };
 
+  // Enchérir (ou acheter immédiatement avec le prix d'achat immédiat)
+  const handleBid = async (listing: MarketplaceListing, amount: number) => {
+    if (amount < getMinimumBid(listing)) {
+      showToast('error', `L'enchère minimum est de ${getMinimumBid(listing)} ฿`);
+      return;
+    }
+
+    // Le montant retenu pour une surenchère personnelle est rendu avant la nouvelle retenue
+    const available = berrysBalance + (listing.current_bidder_id === user?.id ? listing.current_bid || 0 : 0);
+    if (available < amount) {
+      showToast('error', `Berrys insuffisants! Vous avez ${berrysBalance} ฿, mais ${amount} ฿ sont nécessaires.`);
+      return;
+    }
+
+    const isBuyout = !!listing.buyout_price && amount >= listing.buyout_price;
+
+    showDialog({
+      title: isBuyout ? 'Confirmer l\'achat immédiat' : 'Confirmer l\'enchère',
+      message: isBuyout
+        ? `Acheter immédiatement cette carte pour ${listing.buyout_price} ฿ ?`
+        : `Enchérir ${amount} ฿ sur cette carte ? Le montant sera retenu jusqu'à ce que vous soyez surenchéri ou que l'enchère se termine.`,
+      type: 'confirm',
+      confirmText: isBuyout ? 'Acheter' : 'Enchérir',
+      cancelText: 'Annuler',
+      showCancel: true,
+      onConfirm: async () => {
+        hideDialog();
+        try {
+          setLoading(true);
+          const response = await apiService.placeMarketplaceBid(listing.id, amount);
+
+          if (response.success) {
+            showToast('success', response.data.settled
+              ? `Carte remportée pour ${response.data.amount} ฿ !`
+              : `Enchère de ${response.data.amount} ฿ placée !`);
+            setBerrysBalance(response.data.new_balance);
+            setBidHistory(prev => {
+              const next = { ...prev };
+              delete next[listing.id];
+              return next;
+            });
+            loadListings();
+            refreshUser();
+          } else {
+            showToast('error', response.error || 'Erreur lors de l\'enchère');
+          }
+        } catch (error: any) {
+          console.error('Erreur enchère:', error);
+          showToast('error', error.message || 'Erreur lors de l\'enchère');
+        } finally {
+          setLoading(false);
+        }
+      }
+    });
+  };
+
+  // Afficher / masquer l'historique des enchères
+  const toggleBidHistory = async (listingId: string) => {
+    if (bidHistory[listingId]) {
+      setBidHistory(prev => {
+        const next = { ...prev };
+        delete next[listingId];
+        return next;
+      });
+      return;
+    }
+
+    try {
+      const response = await apiService.getMarketplaceBids(listingId);
+      if (response.success) {
+        setBidHistory(prev => ({ ...prev, [listingId]: response.data.bids }));
+      }
+    } catch (error: any) {
+      console.error('Erreur historique enchères:', error);
+      showToast('error', error.message || 'Erreur lors du chargement des enchères');
+    }
+  };
+
   // Créer une annonce
   const handleCreateListing = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -191,16 +444,33 @@ const Marketplace: React.FC = () => {
       return;
     }
 
+    const parsedBuyout = buyoutPrice ? parseInt(buyoutPrice, 10) : undefined;
+    if (listingType === 'auction' && parsedBuyout !== undefined && (isNaN(parsedBuyout) || parsedBuyout <= sellPrice)) {
+      showToast('error', 'Le prix d\'achat immédiat doit être supérieur à la mise de départ');
+      return;
+    }
+
     try {
       setLoading(true);
-      const response = await apiService.createMarketplaceListing(selectedCard, sellPrice);
+      const response = await apiService.createMarketplaceListing(
+        selectedCard,
+        sellPrice,
+        listingType === 'auction' ? { buyoutPrice: parsedBuyout, durationHours: auctionDuration } : undefined,
+        listingType === 'fixed' ? listingDuration : undefined
+      );
 
-      if (response.success) {
-        showToast('success', 'Annonce créée avec succès!');
-        setSelectedCard('');
-        setSellPrice(10);
+      if (response.success && 'filled_buy_order' in response.data) {
+        showToast('success', `Vendue immédiatement à un ordre d'achat pour ${response.data.price} ฿ (taxe: ${response.data.tax} ฿) !`);
+        setBerrysBalance(response.data.new_balance);
+        resetSellForm();
+        loadMyCollection();
+        refreshUser();
+      } else if (response.success) {
+        showToast('success', listingType === 'auction' ? 'Enchère créée avec succès!' : 'Annonce créée avec succès!');
+        resetSellForm();
         setActiveTab('myListings');
         loadMyListings();
+        loadFees();
       } else {
         showToast('error', response.error || 'Erreur lors de la création de l\'annonce');
       }
@@ -212,7 +482,149 @@ const Marketplace: React.FC = () => {
     }
   };
 
+  // Rechercher une carte pour un ordre d'achat
+  const handleOrderSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orderSearch.trim()) return;
+
+    try {
+      const response = await apiService.getCards({ search: orderSearch.trim(), limit: 8 });
+      setOrderSearchResults(response.data || []);
+    } catch (error: any) {
+      console.error('Erreur recherche cartes:', error);
+      showToast('error', error.message || 'Erreur lors de la recherche');
+    }
+  };
+
+  // Créer un ordre d'achat
+  const handleCreateBuyOrder = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!orderCard) {
+      showToast('error', 'Veuillez sélectionner une carte');
+      return;
+    }
+
+    if (orderMaxPrice < 1 || orderMaxPrice > 999999) {
+      showToast('error', 'Le prix doit être entre 1 et 999999 Berrys');
+      return;
+    }
+
+    if (berrysBalance < orderMaxPrice) {
+      showToast('error', `Berrys insuffisants! Vous avez ${berrysBalance} ฿, mais ${orderMaxPrice} ฿ sont nécessaires.`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const response = await apiService.createBuyOrder(orderCard.id, orderMaxPrice);
+
+      if (response.success) {
+        showToast('success', 'matched_listing' in response.data
+          ? `Carte achetée immédiatement pour ${response.data.price} ฿ !`
+          : `Ordre d'achat créé: ${orderMaxPrice} ฿ retenus jusqu'à son exécution`);
+        setBerrysBalance(response.data.new_balance);
+        setOrderCard(null);
+        setOrderSearch('');
+        setOrderSearchResults([]);
+        setOrderMaxPrice(10);
+        loadBuyOrders();
+        refreshUser();
+      } else {
+        showToast('error', response.error || 'Erreur lors de la création de l\'ordre d\'achat');
+      }
+    } catch (error: any) {
+      console.error('Erreur création ordre d\'achat:', error);
+      showToast('error', error.message || 'Erreur lors de la création de l\'ordre d\'achat');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Servir un ordre d'achat avec un exemplaire de ma collection
+  const handleFillBuyOrder = async (order: MarketplaceBuyOrder) => {
+    showDialog({
+      title: 'Vendre à cet ordre',
+      message: `Vendre 1 exemplaire de ${order.card_name} à ${order.buyer_username} pour ${order.max_price} ฿ ?`,
+      type: 'confirm',
+      confirmText: 'Vendre',
+      cancelText: 'Annuler',
+      showCancel: true,
+      onConfirm: async () => {
+        hideDialog();
+        try {
+          setLoading(true);
+          const response = await apiService.fillBuyOrder(order.id);
+
+          if (response.success) {
+            showToast('success', `Carte vendue pour ${response.data.price} ฿ !`);
+            setBerrysBalance(response.data.new_balance);
+            loadBuyOrders();
+            refreshUser();
+          } else {
+            showToast('error', response.error || 'Erreur lors de la vente');
+          }
+        } catch (error: any) {
+          console.error('Erreur exécution ordre d\'achat:', error);
+          showToast('error', error.message || 'Erreur lors de la vente');
+        } finally {
+          setLoading(false);
+        }
+      }
+    });
+  };
+
+  // Annuler un ordre d'achat
+  const handleCancelBuyOrder = async (orderId: string) => {
+    try {
+      setLoading(true);
+      const response = await apiService.cancelBuyOrder(orderId);
+
+      if (response.success) {
+        showToast('success', `Ordre d'achat annulé, ${response.data.refunded} ฿ rendus`);
+        setBerrysBalance(response.data.new_balance);
+        loadBuyOrders();
+      } else {
+        showToast('error', response.error || 'Erreur lors de l\'annulation');
+      }
+    } catch (error: any) {
+      console.error('Erreur annulation ordre d\'achat:', error);
+      showToast('error', error.message || 'Erreur lors de l\'annulation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Annuler une annonce
+  // Remettre en vente une annonce expirée avec un nouveau prix
+  const handleRelistListing = async (listing: MarketplaceListing) => {
+    const price = relistPrices[listing.id] ?? listing.price;
+    if (price < 1 || price > 999999) {
+      showToast('error', 'Le prix doit être entre 1 et 999999 Berrys');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const response = await apiService.relistMarketplaceListing(listing.id, price, listingDuration);
+
+      if (response.success && 'filled_buy_order' in response.data) {
+        showToast('success', `Vendue immédiatement à un ordre d'achat pour ${response.data.price} ฿ (taxe: ${response.data.tax} ฿) !`);
+        setBerrysBalance(response.data.new_balance);
+        refreshUser();
+      } else if (response.success) {
+        showToast('success', 'Annonce remise en vente !');
+      }
+      loadMyListings();
+      loadFees();
+    } catch (error: any) {
+      console.error('Erreur remise en vente:', error);
+      showToast('error', error.message || 'Erreur lors de la remise en vente');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleCancelListing = async (listingId: string) => {
     showDialog({
       title: 'Annuler l\'annonce',
@@ -246,6 +658,7 @@ const Marketplace: React.FC = () => {
   // Charger les données selon l'onglet actif
   useEffect(() => {
     loadBerrysBalance();
+    loadFees();
 
     if (activeTab === 'browse') {
       loadListings();
@@ -253,9 +666,26 @@ const Marketplace: React.FC = () => {
       loadMyListings();
     } else if (activeTab === 'sell') {
       loadMyCollection();
+    } else if (activeTab === 'buyOrders') {
+      loadBuyOrders();
     }
   }, [activeTab]);
 
+  // Boosters pour le filtre par extension
+  useEffect(() => {
+    apiService.getBoosters({ limit: 100 })
+      .then(response => setBoosters(response.data || []))
+      .catch(error => console.error('Erreur chargement boosters:', error));
+  }, []);
+
+  // Rafraîchir les comptes à rebours chaque seconde
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const listingLimitReached = !!fees && fees.listing_slots.used >= fees.listing_slots.total;
+
   const getRarityColor = (rarity: string) => {
     const colors: Record<string, string> = {
       common: 'text-gray-400',
@@ -294,8 +724,21 @@ const Marketplace: React.FC = () => {
               <p className="text-2xl sm:text-3xl font-bold text-treasure-300">{berrysBalance} ฿</p>
             </div>
             <div className="text-xs sm:text-sm text-slate-300 space-y-1">
-              <p>• Maximum 3 annonces actives</p>
+              {fees && (
+                <>
+                  <p>• Annonces actives : {fees.listing_slots.used}/{fees.listing_slots.total}</p>
+                  <p>• Taxe de vente : {Math.round(fees.tax_rate * 1000) / 10}% (payée par le vendeur)</p>
+                </>
+              )}
               <p>• Minimum 2 exemplaires pour vendre</p>
+              {fees && fees.listing_slots.extra < fees.listing_slots.max_extra && (
+                <button
+                  onClick={handlePurchaseListingSlot}
+                  className="mt-1 px-3 py-1 rounded-lg bg-treasure-500/20 hover:bg-treasure-500/30 border border-treasure-400/40 text-treasure-200 font-semibold transition-all"
+                >
+                  + 1 emplacement ({fees.listing_slots.slot_price} ฿)
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -332,6 +775,16 @@ const Marketplace: React.FC = () => {
           >
             Vendre
           </button>
+          <button
+            onClick={() => setActiveTab('buyOrders')}
+            className={`px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-semibold transition-all duration-300 backdrop-blur-xl ${
+              activeTab === 'buyOrders'
+                ? 'bg-gradient-to-r from-ocean-500/90 to-ocean-600/90 text-white shadow-lg shadow-ocean-500/30 scale-105 border-2 border-ocean-400/30'
+                : 'bg-white/5 text-white/80 hover:bg-white/10 border-2 border-white/10 hover:border-white/20'
+            }`}
+          >
+            Ordres d'achat
+          </button>
         </div>
 
         {/* Contenu selon l'onglet */}
@@ -342,8 +795,110 @@ const Marketplace: React.FC = () => {
           </div>
         )}
 
+        {/* Filtres du marketplace */}
+        {activeTab === 'browse' && (
+          <form
+            onSubmit={handleApplyFilters}
+            className="bg-white/5 backdrop-blur-xl rounded-3xl p-4 border-2 border-white/10 shadow-lg grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-3"
+          >
+            <input
+              type="text"
+              value={filters.search}
+              onChange={(e) => updateFilter('search', e.target.value)}
+              placeholder="Nom de la carte"
+              className="col-span-2 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            />
+            <input
+              type="text"
+              value={filters.character}
+              onChange={(e) => updateFilter('character', e.target.value)}
+              placeholder="Personnage"
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            />
+            <input
+              type="text"
+              value={filters.seller}
+              onChange={(e) => updateFilter('seller', e.target.value)}
+              placeholder="Vendeur"
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            />
+            <select
+              value={filters.sort}
+              onChange={(e) => updateFilter('sort', e.target.value as ListingFilters['sort'])}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            >
+              <option value="recent">Plus récentes</option>
+              <option value="price_asc">Prix croissant</option>
+              <option value="price_desc">Prix décroissant</option>
+              <option value="rarity">Rareté</option>
+            </select>
+            <select
+              value={filters.rarity}
+              onChange={(e) => updateFilter('rarity', e.target.value)}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            >
+              <option value="">Toutes raretés</option>
+              {RARITY_OPTIONS.map((rarity) => (
+                <option key={rarity} value={rarity}>{rarity}</option>
+              ))}
+            </select>
+            <select
+              value={filters.color}
+              onChange={(e) => updateFilter('color', e.target.value)}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            >
+              <option value="">Toutes couleurs</option>
+              {COLOR_OPTIONS.map((color) => (
+                <option key={color} value={color}>{color}</option>
+              ))}
+            </select>
+            <select
+              value={filters.boosterId}
+              onChange={(e) => updateFilter('boosterId', e.target.value)}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            >
+              <option value="">Tous boosters</option>
+              {boosters.map((booster) => (
+                <option key={booster.id} value={booster.id}>{booster.name}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={filters.minPrice}
+              onChange={(e) => updateFilter('minPrice', e.target.value)}
+              placeholder="Prix min"
+              min="0"
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            />
+            <input
+              type="number"
+              value={filters.maxPrice}
+              onChange={(e) => updateFilter('maxPrice', e.target.value)}
+              placeholder="Prix max"
+              min="0"
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            />
+            <div className="col-span-2 md:col-span-4 lg:col-span-5 flex gap-2 justify-end">
+              <button
+                type="button"
+                onClick={handleResetFilters}
+                className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-semibold transition-all"
+              >
+                Réinitialiser
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-ocean-600 hover:bg-ocean-700 text-white rounded-lg font-semibold transition-all"
+              >
+                Rechercher
+              </button>
+            </div>
+          </form>
+        )}
+
         {/* Onglet Parcourir */}
         {!loading && activeTab === 'browse' && (
+          <>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
             {listings.length === 0 ? (
               <div className="col-span-full text-center py-12">
@@ -370,6 +925,79 @@ const Marketplace: React.FC = () => {
                   </p>
                   <div className="border-t border-gray-700 pt-3 mt-3">
                     <p className="text-xs text-gray-400 mb-2">Vendeur: {listing.seller_username}</p>
+                    {listing.listing_type === 'auction' ? (
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs px-2 py-1 rounded bg-purple-600 text-white">Enchère</span>
+                          <span className={`text-sm font-mono ${isAuctionOver(listing) ? 'text-red-400' : 'text-ocean-300'}`}>
+                            {isAuctionOver(listing) ? 'Terminée' : `⏱ ${formatCountdown(listing.ends_at!, now)}`}
+                          </span>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-400">
+                            {listing.current_bid ? `Enchère actuelle (${listing.bid_count || 0})` : 'Mise de départ'}
+                          </p>
+                          <span className="text-2xl font-bold text-yellow-400">{listing.current_bid || listing.price} ฿</span>
+                          {listing.current_bidder_username && (
+                            <p className="text-xs text-gray-400">
+                              par {listing.current_bidder_id === user?.id ? 'vous' : listing.current_bidder_username}
+                            </p>
+                          )}
+                        </div>
+                        {listing.seller_id !== user?.id && !isAuctionOver(listing) && (
+                          <>
+                            <div className="flex gap-2">
+                              <input
+                                type="number"
+                                value={bidAmounts[listing.id] ?? getMinimumBid(listing)}
+                                onChange={(e) => setBidAmounts(prev => ({ ...prev, [listing.id]: parseInt(e.target.value) || 0 }))}
+                                min={getMinimumBid(listing)}
+                                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                              />
+                              <button
+                                onClick={() => handleBid(listing, bidAmounts[listing.id] ?? getMinimumBid(listing))}
+                                disabled={loading}
+                                className="px-4 py-2 rounded-lg font-semibold transition-all bg-purple-600 hover:bg-purple-700 text-white"
+                              >
+                                Enchérir
+                              </button>
+                            </div>
+                            {listing.buyout_price && (
+                              <button
+                                onClick={() => handleBid(listing, listing.buyout_price!)}
+                                disabled={loading}
+                                className="w-full px-4 py-2 rounded-lg font-semibold transition-all bg-green-600 hover:bg-green-700 text-white"
+                              >
+                                Achat immédiat · {listing.buyout_price} ฿
+                              </button>
+                            )}
+                          </>
+                        )}
+                        {listing.seller_id === user?.id && (
+                          <span className="text-xs text-gray-500 italic">Votre annonce</span>
+                        )}
+                        {!!listing.bid_count && (
+                          <button
+                            onClick={() => toggleBidHistory(listing.id)}
+                            className="text-xs text-ocean-300 hover:text-ocean-200 underline"
+                          >
+                            {bidHistory[listing.id] ? 'Masquer l\'historique' : 'Voir l\'historique des enchères'}
+                          </button>
+                        )}
+                        {bidHistory[listing.id] && (
+                          <ul className="text-xs text-gray-300 space-y-1 max-h-32 overflow-y-auto">
+                            {bidHistory[listing.id].map((bid) => (
+                              <li key={bid.id} className="flex justify-between">
+                                <span>{bid.bidder_username}</span>
+                                <span className={bid.status === 'outbid' ? 'text-gray-500 line-through' : 'text-yellow-400'}>
+                                  {bid.amount} ฿
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ) : (
                     <div className="flex items-center justify-between">
                       <span className="text-2xl font-bold text-yellow-400">{listing.price} ฿</span>
                       {listing.seller_id !== user?.id && (
@@ -389,11 +1017,24 @@ const Marketplace: React.FC = () => {
                         <span className="text-xs text-gray-500 italic">Votre annonce</span>
                       )}
                     </div>
+                    )}
                   </div>
                 </div>
               ))
             )}
           </div>
+          {nextCursor && (
+            <div className="text-center">
+              <button
+                onClick={() => loadListings(nextCursor)}
+                disabled={loadingMore}
+                className="px-6 py-3 bg-white/5 hover:bg-white/10 border-2 border-white/10 text-white rounded-xl font-semibold transition-all"
+              >
+                {loadingMore ? 'Chargement...' : 'Charger plus'}
+              </button>
+            </div>
+          )}
+          </>
         )}
 
         {/* Onglet Mes annonces */}
@@ -424,7 +1065,7 @@ const Marketplace: React.FC = () => {
                   </p>
                   <div className="border-t border-gray-700 pt-3 mt-3">
                     <div className="flex items-center justify-between mb-3">
-                      <span className="text-2xl font-bold text-yellow-400">{listing.price} ฿</span>
+                      <span className="text-2xl font-bold text-yellow-400">{listing.current_bid || listing.price} ฿</span>
                       <span className={`text-xs px-2 py-1 rounded ${
                         listing.status === 'active'
                           ? 'bg-green-600 text-white'
@@ -432,10 +1073,55 @@ const Marketplace: React.FC = () => {
                           ? 'bg-blue-600 text-white'
                           : 'bg-gray-600 text-gray-300'
                       }`}>
-                        {listing.status === 'active' ? 'Active' : listing.status === 'sold' ? 'Vendue' : 'Annulée'}
+                        {listing.status === 'active'
+                          ? 'Active'
+                          : listing.status === 'sold'
+                          ? 'Vendue'
+                          : listing.status === 'expired'
+                          ? 'Expirée'
+                          : 'Annulée'}
                       </span>
                     </div>
-                    {listing.status === 'active' && (
+                    {listing.listing_type === 'auction' && listing.status === 'active' && (
+                      <div className="flex items-center justify-between text-xs text-gray-400 mb-3">
+                        <span>
+                          {listing.current_bid
+                            ? `${listing.bid_count || 0} enchère(s), meilleure: ${listing.current_bidder_username}`
+                            : `Mise de départ${listing.buyout_price ? ` · achat immédiat ${listing.buyout_price} ฿` : ''}`}
+                        </span>
+                        <span className="font-mono text-ocean-300">
+                          {isAuctionOver(listing) ? 'Terminée' : formatCountdown(listing.ends_at!, now)}
+                        </span>
+                      </div>
+                    )}
+                    {listing.listing_type === 'fixed' && listing.status === 'active' && listing.ends_at && (
+                      <div className="flex items-center justify-between text-xs text-gray-400 mb-3">
+                        <span>Expire dans</span>
+                        <span className="font-mono text-ocean-300">
+                          {isAuctionOver(listing) ? 'Expirée' : formatCountdown(listing.ends_at, now)}
+                        </span>
+                      </div>
+                    )}
+                    {listing.status === 'expired' && !listing.relisted_at && (
+                      <div className="flex gap-2">
+                        <input
+                          type="number"
+                          value={relistPrices[listing.id] ?? listing.price}
+                          onChange={(e) => setRelistPrices({ ...relistPrices, [listing.id]: parseInt(e.target.value) || 0 })}
+                          min="1"
+                          max="999999"
+                          className="w-28 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                        />
+                        <button
+                          onClick={() => handleRelistListing(listing)}
+                          disabled={loading || listingLimitReached}
+                          className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:text-gray-400 text-white rounded-lg font-semibold transition-all"
+                        >
+                          Remettre en vente
+                        </button>
+                      </div>
+                    )}
+                    {listing.status === 'active' && !(listing.listing_type === 'auction' && listing.current_bidder_id) && (
                       <button
                         onClick={() => handleCancelListing(listing.id)}
                         disabled={loading}
@@ -451,6 +1137,152 @@ const Marketplace: React.FC = () => {
           </div>
         )}
 
+        {/* Onglet Ordres d'achat */}
+        {!loading && activeTab === 'buyOrders' && (
+          <div className="space-y-6">
+            <div className="bg-white/5 backdrop-blur-xl rounded-3xl p-6 max-w-2xl mx-auto border-2 border-white/10 shadow-lg">
+              <h2 className="text-2xl font-bold mb-2">Créer un ordre d'achat</h2>
+              <p className="text-sm text-gray-400 mb-4">
+                Le prix maximum est retenu sur votre solde. L'ordre est exécuté dès qu'une annonce à ce prix ou moins est publiée.
+              </p>
+              <form onSubmit={handleOrderSearch} className="flex gap-2 mb-3">
+                <input
+                  type="text"
+                  value={orderSearch}
+                  onChange={(e) => setOrderSearch(e.target.value)}
+                  placeholder="Rechercher une carte..."
+                  className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-ocean-600 hover:bg-ocean-700 text-white rounded-lg font-semibold transition-all"
+                >
+                  Rechercher
+                </button>
+              </form>
+              {orderSearchResults.length > 0 && !orderCard && (
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-3">
+                  {orderSearchResults.map((card) => (
+                    <button
+                      key={card.id}
+                      type="button"
+                      onClick={() => setOrderCard(card)}
+                      className="bg-gray-800/60 hover:bg-gray-700 rounded-lg p-2 text-left transition-all"
+                    >
+                      <p className="text-sm font-semibold truncate">{card.name}</p>
+                      <p className={`text-xs ${getRarityColor(card.rarity)}`}>{card.rarity}</p>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {orderCard && (
+                <form onSubmit={handleCreateBuyOrder} className="space-y-3">
+                  <div className="flex items-center justify-between bg-gray-800/60 rounded-lg p-3">
+                    <div>
+                      <p className="font-semibold">{orderCard.name}</p>
+                      <p className={`text-xs ${getRarityColor(orderCard.rarity)}`}>{orderCard.rarity}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setOrderCard(null)}
+                      className="text-xs text-gray-400 hover:text-white"
+                    >
+                      Changer
+                    </button>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold mb-2">Prix maximum (Berrys)</label>
+                    <input
+                      type="number"
+                      value={orderMaxPrice}
+                      onChange={(e) => setOrderMaxPrice(parseInt(e.target.value) || 0)}
+                      min="1"
+                      max="999999"
+                      className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                      required
+                    />
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full px-6 py-3 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold transition-all"
+                  >
+                    Placer l'ordre
+                  </button>
+                </form>
+              )}
+            </div>
+
+            {myBuyOrders.length > 0 && (
+              <div>
+                <h2 className="text-xl font-bold mb-3">Mes ordres</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {myBuyOrders.map((order) => (
+                    <div key={order.id} className="bg-white/5 backdrop-blur-xl rounded-2xl p-4 border-2 border-white/10">
+                      <div className="flex items-center justify-between mb-2">
+                        <h3 className="font-bold truncate">{order.card_name}</h3>
+                        <span className={`text-xs px-2 py-1 rounded ${
+                          order.status === 'active'
+                            ? 'bg-green-600 text-white'
+                            : order.status === 'filled'
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-600 text-gray-300'
+                        }`}>
+                          {order.status === 'active' ? 'Ouvert' : order.status === 'filled' ? 'Exécuté' : 'Annulé'}
+                        </span>
+                      </div>
+                      <p className="text-xl font-bold text-yellow-400 mb-2">{order.max_price} ฿</p>
+                      {order.status === 'active' && (
+                        <button
+                          onClick={() => handleCancelBuyOrder(order.id)}
+                          disabled={loading}
+                          className="w-full px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-semibold transition-all"
+                        >
+                          Annuler l'ordre
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h2 className="text-xl font-bold mb-3">Carnet d'ordres</h2>
+              {buyOrders.length === 0 ? (
+                <div className="text-center py-12">
+                  <p className="text-gray-400 text-lg">Aucun ordre d'achat ouvert</p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                  {buyOrders.map((order) => (
+                    <div key={order.id} className="bg-white/5 backdrop-blur-xl rounded-2xl p-4 border-2 border-white/10 hover:border-ocean-400/40 transition-all">
+                      <h3 className="font-bold truncate">{order.card_name}</h3>
+                      <p className="text-sm text-gray-400 truncate">{order.card_character}</p>
+                      <p className={`text-sm font-semibold mb-2 ${getRarityColor(order.card_rarity)}`}>{order.card_rarity}</p>
+                      <p className="text-xs text-gray-400 mb-2">Acheteur: {order.buyer_username}</p>
+                      <div className="flex items-center justify-between">
+                        <span className="text-xl font-bold text-yellow-400">{order.max_price} ฿</span>
+                        {order.buyer_id !== user?.id ? (
+                          <button
+                            onClick={() => handleFillBuyOrder(order)}
+                            disabled={loading}
+                            className="px-4 py-2 rounded-lg font-semibold transition-all bg-green-600 hover:bg-green-700 text-white"
+                          >
+                            Vendre
+                          </button>
+                        ) : (
+                          <span className="text-xs text-gray-500 italic">Votre ordre</span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Onglet Vendre */}
         {!loading && activeTab === 'sell' && (
           <div>
@@ -484,8 +1316,26 @@ const Marketplace: React.FC = () => {
                   })()}
                 </div>
                 <form onSubmit={handleCreateListing} className="space-y-4">
+                  <div className="flex gap-2">
+                    {(['fixed', 'auction'] as const).map((type) => (
+                      <button
+                        key={type}
+                        type="button"
+                        onClick={() => setListingType(type)}
+                        className={`flex-1 px-4 py-2 rounded-lg font-semibold transition-all ${
+                          listingType === type
+                            ? 'bg-ocean-600 text-white'
+                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        }`}
+                      >
+                        {type === 'fixed' ? 'Prix fixe' : 'Enchère'}
+                      </button>
+                    ))}
+                  </div>
                   <div>
-                    <label className="block text-sm font-semibold mb-2">Prix de vente (Berrys)</label>
+                    <label className="block text-sm font-semibold mb-2">
+                      {listingType === 'auction' ? 'Mise de départ (Berrys)' : 'Prix de vente (Berrys)'}
+                    </label>
                     <input
                       type="number"
                       value={sellPrice}
@@ -496,31 +1346,80 @@ const Marketplace: React.FC = () => {
                       required
                       autoFocus
                     />
-                    <p className="text-xs text-gray-400 mt-1">Entre 1 et 999,999 Berrys</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Entre 1 et 999,999 Berrys
+                      {fees && fees.tax_rate > 0 && ` · Vous recevrez ${sellPrice - Math.floor(sellPrice * fees.tax_rate)} ฿ après la taxe de vente`}
+                    </p>
                   </div>
 
+                  {listingType === 'fixed' && (
+                    <div>
+                      <label className="block text-sm font-semibold mb-2">Durée de mise en vente</label>
+                      <select
+                        value={listingDuration}
+                        onChange={(e) => setListingDuration(parseInt(e.target.value))}
+                        className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                      >
+                        {LISTING_DURATIONS.map((days) => (
+                          <option key={days} value={days}>
+                            {days} jour{days > 1 ? 's' : ''}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-400 mt-1">Sans acheteur, la carte revient dans votre collection à l'expiration</p>
+                    </div>
+                  )}
+
+                  {listingType === 'auction' && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-semibold mb-2">Prix d'achat immédiat (optionnel)</label>
+                        <input
+                          type="number"
+                          value={buyoutPrice}
+                          onChange={(e) => setBuyoutPrice(e.target.value)}
+                          min={sellPrice + 1}
+                          max="999999"
+                          placeholder="Aucun"
+                          className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold mb-2">Durée</label>
+                        <select
+                          value={auctionDuration}
+                          onChange={(e) => setAuctionDuration(parseInt(e.target.value))}
+                          className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                        >
+                          {AUCTION_DURATIONS.map((hours) => (
+                            <option key={hours} value={hours}>
+                              {hours < 24 ? `${hours} heure${hours > 1 ? 's' : ''}` : `${hours / 24} jour${hours > 24 ? 's' : ''}`}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </>
+                  )}
+
                   <div className="flex gap-3">
                     <button
                       type="button"
-                      onClick={() => {
-                        setSelectedCard('');
-                        setSellPrice(10);
-                      }}
+                      onClick={resetSellForm}
                       className="flex-1 px-6 py-3 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-semibold transition-all"
                     >
                       Annuler
                     </button>
                     <button
                       type="submit"
-                      disabled={loading || myListings.filter(l => l.status === 'active').length >= 3}
+                      disabled={loading || listingLimitReached}
                       className={`flex-1 px-6 py-3 rounded-lg font-semibold transition-all ${
-                        loading || myListings.filter(l => l.status === 'active').length >= 3
+                        loading || listingLimitReached
                           ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
                           : 'bg-green-600 hover:bg-green-700 text-white'
                       }`}
                     >
-                      {myListings.filter(l => l.status === 'active').length >= 3
-                        ? 'Limite de 3 annonces atteinte'
+                      {listingLimitReached
+                        ? `Limite de ${fees?.listing_slots.total} annonces atteinte`
                         : 'Mettre en vente'}
                     </button>
                   </div>
@@ -542,7 +1441,7 @@ const Marketplace: React.FC = () => {
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="text-blue-400">ℹ</span>
-                    <span>Maximum 3 annonces actives</span>
+                    <span>Maximum {fees?.listing_slots.total ?? 3} annonces actives</span>
                   </div>
                 </div>
               </div>
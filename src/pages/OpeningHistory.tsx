@@ -0,0 +1,347 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ChevronLeft, ChevronRight } from 'lucide-react';
+import { GameService } from '../services/gameService';
+import { Card as CardType, OpeningFilters, OpeningHistoryEntry, OpeningLuckStats } from '../types';
+import { BoosterPack } from '../data/onePieceCards';
+import { GameCard } from '../components/ui';
+import Card from '../components/Card';
+import CardModal from '../components/CardModal';
+import Dialog from '../components/ui/Dialog';
+import { useDialog } from '../hooks/useDialog';
+
+const OPENINGS_PER_PAGE = 10;
+
+const RARITY_LABELS: Record<string, string> = {
+  secret_rare: 'Secret Rare',
+  super_rare: 'Super Rare',
+  leader: 'Leader',
+  rare: 'Rare',
+  uncommon: 'Peu Commune',
+  common: 'Commune'
+};
+
+const RARITY_COLORS: Record<string, string> = {
+  secret_rare: 'text-orange-300',
+  super_rare: 'text-purple-300',
+  leader: 'text-red-300',
+  rare: 'text-blue-300',
+  uncommon: 'text-emerald-300',
+  common: 'text-slate-300'
+};
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const OpeningHistory: React.FC = () => {
+  const [openings, setOpenings] = useState<OpeningHistoryEntry[]>([]);
+  const [stats, setStats] = useState<OpeningLuckStats | null>(null);
+  const [boosters, setBoosters] = useState<BoosterPack[]>([]);
+  const [filters, setFilters] = useState<OpeningFilters>({});
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedCard, setSelectedCard] = useState<CardType | null>(null);
+  const { dialogState, showDialog, handleClose, handleConfirm } = useDialog();
+
+  useEffect(() => {
+    GameService.getAllBoosters().then(setBoosters);
+  }, []);
+
+  // Les statistiques ne dépendent que des filtres, l'historique aussi de la page
+  useEffect(() => {
+    GameService.getOpeningStats(filters)
+      .then(setStats)
+      .catch((err: any) => setError(err.message || 'Erreur lors du chargement des statistiques'));
+  }, [filters]);
+
+  useEffect(() => {
+    const loadOpenings = async () => {
+      setLoading(true);
+      try {
+        const result = await GameService.getOpenings(filters, page, OPENINGS_PER_PAGE);
+        setOpenings(result.openings);
+        setPages(result.pages);
+        setTotal(result.total);
+        setError(null);
+      } catch (err: any) {
+        setError(err.message || 'Erreur lors du chargement de l\'historique');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadOpenings();
+  }, [filters, page]);
+
+  const updateFilter = (key: keyof OpeningFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+    setPage(1);
+  };
+
+  const handleVerifyOpening = async (openingId: string) => {
+    try {
+      const verification = await GameService.verifyOpening(openingId);
+      const valid = verification.hash_valid && verification.matches;
+      showDialog({
+        title: valid ? 'Ouverture vérifiée' : 'Vérification échouée',
+        message: valid
+          ? `Le hash du seed serveur correspond à l'engagement et les ${verification.derived_cards.length} cartes ont été recalculées à l'identique.`
+          : !verification.hash_valid
+            ? 'Le seed serveur révélé ne correspond pas au hash publié avant l\'ouverture.'
+            : verification.card_pool_recorded
+              ? 'Les cartes recalculées ne correspondent pas aux cartes obtenues.'
+              : verification.drop_table_recorded
+                ? 'Les cartes recalculées ne correspondent pas aux cartes obtenues (ouverture antérieure à l\'enregistrement du contenu des boosters, rejouée avec le catalogue actuel qui a peut-être changé depuis).'
+                : 'Les cartes recalculées ne correspondent pas aux cartes obtenues (ouverture antérieure à l\'enregistrement des tables de drop, rejouée avec la table et le catalogue actuels).',
+        type: valid ? 'success' : 'warning',
+        confirmText: 'OK',
+        showCancel: false,
+        onConfirm: handleClose
+      });
+    } catch (err: any) {
+      showDialog({
+        title: 'Erreur',
+        message: err.message || 'Cette ouverture ne peut pas être vérifiée',
+        type: 'error',
+        confirmText: 'OK',
+        showCancel: false,
+        onConfirm: handleClose
+      });
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6 sm:py-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <Link
+          to="/boosters"
+          className="inline-flex items-center space-x-2 px-3 py-2 rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-white/80 hover:text-white transition-all duration-300 backdrop-blur-xl text-sm sm:text-base"
+        >
+          <ArrowLeft size={18} />
+          <span>Retour aux boosters</span>
+        </Link>
+
+        {/* Header */}
+        <div className="text-center mb-6 sm:mb-8">
+          <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-treasure-300 via-ocean-300 to-treasure-300 bg-clip-text text-transparent mb-3">
+            📜 Historique des ouvertures
+          </h1>
+          <p className="text-slate-300 text-base sm:text-lg">
+            Tous vos boosters ouverts et vos statistiques de chance
+          </p>
+        </div>
+
+        {/* Filtres */}
+        <GameCard variant="default" className="p-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+            <label className="flex flex-col gap-1 text-slate-300">
+              Booster
+              <select
+                value={filters.booster_id || ''}
+                onChange={(e) => updateFilter('booster_id', e.target.value)}
+                className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-white"
+              >
+                <option value="">Tous les boosters</option>
+                {boosters.map(booster => (
+                  <option key={booster.id} value={booster.id}>
+                    {booster.code} - {booster.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-slate-300">
+              Du
+              <input
+                type="date"
+                value={filters.from || ''}
+                onChange={(e) => updateFilter('from', e.target.value)}
+                className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-white"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-300">
+              Au
+              <input
+                type="date"
+                value={filters.to || ''}
+                onChange={(e) => updateFilter('to', e.target.value)}
+                className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-white"
+              />
+            </label>
+          </div>
+        </GameCard>
+
+        {/* Statistiques de chance */}
+        {stats && stats.total_packs > 0 && (
+          <div className="grid grid-cols-1 lg:grid-cols-[2fr_1fr] gap-4">
+            <GameCard variant="ocean" className="p-4 sm:p-6">
+              <h2 className="text-lg font-semibold text-white mb-3">
+                🍀 Taux observés ({stats.total_packs} boosters, {stats.total_cards} cartes)
+              </h2>
+              <table className="w-full text-xs sm:text-sm">
+                <thead>
+                  <tr className="text-slate-400 text-left">
+                    <th className="py-1">Rareté</th>
+                    <th className="py-1 text-right">Obtenues</th>
+                    <th className="py-1 text-right">Votre taux</th>
+                    <th className="py-1 text-right">Part du catalogue</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.rarities.map(luck => (
+                    <tr key={luck.rarity} className="border-t border-white/10">
+                      <td className={`py-1.5 font-medium ${RARITY_COLORS[luck.rarity]}`}>
+                        {RARITY_LABELS[luck.rarity]}
+                      </td>
+                      <td className="py-1.5 text-right text-white">{luck.count}</td>
+                      <td className={`py-1.5 text-right font-semibold ${
+                        luck.observed_rate >= luck.expected_rate ? 'text-emerald-400' : 'text-red-300'
+                      }`}>
+                        {formatPercent(luck.observed_rate)}
+                      </td>
+                      <td className="py-1.5 text-right text-slate-300">{formatPercent(luck.expected_rate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </GameCard>
+
+            <div className="space-y-4">
+              <GameCard variant="treasure" className="p-4">
+                <h3 className="text-sm font-semibold text-slate-300 mb-1">🌟 Meilleur tirage</h3>
+                {stats.best_pull ? (
+                  <>
+                    <div className="text-lg font-bold text-white">{stats.best_pull.card_name}</div>
+                    <div className={`text-sm ${RARITY_COLORS[stats.best_pull.rarity]}`}>
+                      {RARITY_LABELS[stats.best_pull.rarity]}
+                    </div>
+                    <div className="text-xs text-slate-400 mt-1">
+                      {new Date(stats.best_pull.opened_at).toLocaleString('fr-FR')}
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-slate-400 text-sm">Aucun tirage</div>
+                )}
+              </GameCard>
+              <GameCard variant="default" className="p-4">
+                <h3 className="text-sm font-semibold text-slate-300 mb-1">🌵 Plus longue série sans Super Rare</h3>
+                <div className="text-2xl font-bold text-white">{stats.longest_dry_streak} boosters</div>
+                <div className="text-xs text-slate-400 mt-1">
+                  Série en cours : {stats.current_dry_streak} booster(s)
+                </div>
+              </GameCard>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <GameCard variant="default" className="p-4">
+            <div className="text-center text-red-400">{error}</div>
+          </GameCard>
+        )}
+
+        {/* Liste des ouvertures */}
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="text-4xl mb-4">⏳</div>
+            <div className="text-white text-xl">Chargement de l'historique...</div>
+          </div>
+        ) : openings.length === 0 ? (
+          <GameCard variant="default" className="p-8">
+            <div className="text-center">
+              <div className="text-5xl mb-4">📦</div>
+              <p className="text-slate-300 text-xl">Aucune ouverture pour ces critères.</p>
+            </div>
+          </GameCard>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-slate-400 text-sm">{total} ouverture(s)</div>
+            {openings.map(opening => (
+              <GameCard key={opening.id} variant="default" className="p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <div>
+                    <div className="text-white font-semibold">
+                      {opening.booster_code ? `${opening.booster_code} - ` : ''}{opening.booster_name || 'Booster inconnu'}
+                    </div>
+                    <div className="text-xs text-slate-400">
+                      {new Date(opening.opened_at).toLocaleString('fr-FR')}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {opening.pity_applied && (
+                      <span className="text-xs px-2 py-1 rounded-full bg-purple-500/20 text-purple-300 border border-purple-400/30">
+                        🛡️ Garantie
+                      </span>
+                    )}
+                    {opening.nonce !== null && (
+                      <button
+                        onClick={() => handleVerifyOpening(opening.id)}
+                        className="text-xs px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 transition-all"
+                      >
+                        ✅ Vérifier
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 sm:grid-cols-5 gap-2 sm:gap-3">
+                  {opening.cards.map((card, index) => (
+                    <Card
+                      key={`${opening.id}-${card.id}-${index}`}
+                      card={card}
+                      showStats={false}
+                      onCardClick={setSelectedCard}
+                      className="cursor-pointer hover:scale-105 transition-transform"
+                    />
+                  ))}
+                </div>
+              </GameCard>
+            ))}
+
+            {pages > 1 && (
+              <div className="flex items-center justify-center gap-4">
+                <button
+                  onClick={() => setPage(prev => prev - 1)}
+                  disabled={page <= 1}
+                  className="p-2 rounded-xl bg-white/10 hover:bg-white/20 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft size={20} />
+                </button>
+                <span className="text-white text-sm">Page {page} / {pages}</span>
+                <button
+                  onClick={() => setPage(prev => prev + 1)}
+                  disabled={page >= pages}
+                  className="p-2 rounded-xl bg-white/10 hover:bg-white/20 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight size={20} />
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {selectedCard && (
+        <CardModal
+          card={selectedCard}
+          isOpen={true}
+          onClose={() => setSelectedCard(null)}
+        />
+      )}
+
+      <Dialog
+        isOpen={dialogState.isOpen}
+        onClose={handleClose}
+        onConfirm={handleConfirm}
+        title={dialogState.title}
+        message={dialogState.message}
+        type={dialogState.type}
+        confirmText={dialogState.confirmText}
+        cancelText={dialogState.cancelText}
+        showCancel={dialogState.showCancel}
+      />
+    </div>
+  );
+};
+
+export default OpeningHistory;
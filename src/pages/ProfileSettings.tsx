@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { ArrowLeft, Star, Lock, Save, Eye, EyeOff, Search } from 'lucide-react';
+import { ArrowLeft, Star, Lock, Save, Eye, EyeOff, Search, TrendingUp } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { GameService } from '../services/gameService';
 import { UserCard } from '../types';
 import { useToast } from '../contexts/ToastContext';
 import { apiService } from '../services/api';
+import BerryHistory from '../components/BerryHistory';
 
 const ProfileSettings: React.FC = () => {
   const { user, refreshUser } = useAuth();
@@ -14,6 +15,7 @@ const ProfileSettings: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [marketValue, setMarketValue] = useState<{ value: number; pricedCards: number } | null>(null);
 
   // DEBUG: Afficher les infos utilisateur
   useEffect(() => {
@@ -38,8 +40,19 @@ const ProfileSettings: React.FC = () => {
 
   useEffect(() => {
     loadUserCards();
+    loadMarketValue();
   }, []);
 
+  const loadMarketValue = async () => {
+    const stats = await GameService.getCollectionStats();
+    if (stats.collection_market_value !== undefined) {
+      setMarketValue({
+        value: stats.collection_market_value,
+        pricedCards: stats.market_priced_cards || 0
+      });
+    }
+  };
+
   const loadUserCards = async () => {
     try {
       setLoading(true);
@@ -140,6 +153,24 @@ const ProfileSettings: React.FC = () => {
           <div className="w-32"></div> {/* Spacer pour centrer le titre */}
         </div>
 
+        {/* Valeur marchande de la collection */}
+        {marketValue && (
+          <div className="bg-slate-800/50 backdrop-blur-lg rounded-xl border border-white/10 p-6 mb-6 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <TrendingUp className="text-green-400" size={24} />
+              <div>
+                <h2 className="text-xl font-bold text-white">Valeur de la collection</h2>
+                <p className="text-gray-400 text-sm">
+                  Estimée à partir des ventes du marketplace sur 30 jours ({marketValue.pricedCards} carte(s) cotée(s), prix de revente pour les autres)
+                </p>
+              </div>
+            </div>
+            <div className="text-2xl font-bold text-green-400 whitespace-nowrap">
+              {marketValue.value.toLocaleString('fr-FR')} ฿
+            </div>
+          </div>
+        )}
+
         <div className="grid md:grid-cols-2 gap-6">
           {/* Section Carte de profil */}
           <div className="bg-slate-800/50 backdrop-blur-lg rounded-xl border border-white/10 p-6">
@@ -377,6 +408,9 @@ const ProfileSettings: React.FC = () => {
             )}
           </div>
         </div>
+
+        {/* Historique des Berrys */}
+        <BerryHistory />
       </div>
     </div>
   );
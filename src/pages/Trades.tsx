@@ -0,0 +1,549 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowLeftRight, Plus, Minus, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { apiService } from '../services/api';
+import { GameService } from '../services/gameService';
+import { useDialog } from '../hooks/useDialog';
+import { Dialog } from '../components/ui';
+import { Card, TradeOffer, TradeOfferCard, TradeTerms } from '../types';
+import { RARITY_LABELS } from '../data/cards';
+
+// Carte disponible pour un échange (au moins un exemplaire doit être conservé)
+interface TradableCard {
+  id: string;
+  name: string;
+  rarity: Card['rarity'];
+  available: number;
+}
+
+interface SelectedCard {
+  cardId: string;
+  name: string;
+  quantity: number;
+}
+
+interface TradeForm {
+  recipientUsername: string;
+  // Offre à laquelle on répond par une contre-proposition
+  counterOf: string | null;
+  offered: SelectedCard[];
+  requested: SelectedCard[];
+  offeredBerrys: number;
+  requestedBerrys: number;
+}
+
+const EMPTY_FORM: TradeForm = {
+  recipientUsername: '',
+  counterOf: null,
+  offered: [],
+  requested: [],
+  offeredBerrys: 0,
+  requestedBerrys: 0
+};
+
+const STATUS_LABELS: Record<TradeOffer['status'], { label: string; className: string }> = {
+  pending: { label: 'En attente', className: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30' },
+  accepted: { label: 'Acceptée', className: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30' },
+  declined: { label: 'Refusée', className: 'bg-red-500/20 text-red-300 border-red-500/30' },
+  cancelled: { label: 'Annulée', className: 'bg-slate-500/20 text-slate-300 border-slate-500/30' },
+  countered: { label: 'Contre-proposée', className: 'bg-ocean-500/20 text-ocean-300 border-ocean-500/30' }
+};
+
+const MAX_SEARCH_RESULTS = 20;
+
+const toSelected = (cards: TradeOfferCard[]): SelectedCard[] =>
+  cards.map(card => ({ cardId: card.card_id, name: card.card_name, quantity: card.quantity }));
+
+const Trades: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const { showToast } = useToast();
+  const { dialogState, showDialog, hideDialog, handleConfirm, handleClose } = useDialog();
+
+  const [activeTab, setActiveTab] = useState<'received' | 'sent' | 'propose'>('received');
+  const [trades, setTrades] = useState<TradeOffer[]>([]);
+  const [myCards, setMyCards] = useState<TradableCard[]>([]);
+  const [catalog, setCatalog] = useState<Card[]>([]);
+  const [catalogQuery, setCatalogQuery] = useState('');
+  const [form, setForm] = useState<TradeForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(false);
+  const [berrysBalance, setBerrysBalance] = useState(0);
+
+  const loadTrades = async () => {
+    try {
+      setLoading(true);
+      const response = await apiService.getTrades();
+
+      if (response.success) {
+        setTrades(response.data);
+      }
+    } catch (error: any) {
+      console.error('Erreur chargement échanges:', error);
+      showToast('error', error.message || 'Erreur lors du chargement des échanges');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadBerrysBalance = async () => {
+    setBerrysBalance(await GameService.getBerrysBalance());
+  };
+
+  // Cartes de ma collection et catalogue complet pour le formulaire
+  const loadFormData = async () => {
+    try {
+      const [collection, cards] = await Promise.all([
+        apiService.getUserCollection(),
+        GameService.getAllCards()
+      ]);
+
+      if (collection.success) {
+        setMyCards(collection.data
+          .map((card: any) => ({
+            id: card.card_id || card.id,
+            name: card.name,
+            rarity: card.rarity,
+            available: card.quantity - (card.reserved_quantity || 0) - 1
+          }))
+          .filter((card: TradableCard) => card.available > 0));
+      }
+      setCatalog(cards);
+    } catch (error: any) {
+      console.error('Erreur chargement collection:', error);
+      showToast('error', error.message || 'Erreur lors du chargement de votre collection');
+    }
+  };
+
+  useEffect(() => {
+    loadBerrysBalance();
+
+    if (activeTab === 'propose') {
+      loadFormData();
+    } else {
+      loadTrades();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeTab]);
+
+  const receivedTrades = trades.filter(trade => trade.recipient_id === user?.id);
+  const sentTrades = trades.filter(trade => trade.proposer_id === user?.id);
+  const pendingReceived = receivedTrades.filter(trade => trade.status === 'pending').length;
+
+  const catalogResults = useMemo(() => {
+    const query = catalogQuery.trim().toLowerCase();
+    if (!query) return [];
+
+    return catalog
+      .filter(card => card.name.toLowerCase().includes(query) || card.character.toLowerCase().includes(query))
+      .slice(0, MAX_SEARCH_RESULTS);
+  }, [catalog, catalogQuery]);
+
+  const addCard = (side: 'offered' | 'requested', cardId: string, name: string) => {
+    setForm(prev => {
+      if (prev[side].some(card => card.cardId === cardId)) return prev;
+      return { ...prev, [side]: [...prev[side], { cardId, name, quantity: 1 }] };
+    });
+  };
+
+  const changeQuantity = (side: 'offered' | 'requested', cardId: string, delta: number, max?: number) => {
+    setForm(prev => ({
+      ...prev,
+      [side]: prev[side]
+        .map(card => card.cardId === cardId
+          ? { ...card, quantity: Math.min(card.quantity + delta, max ?? Infinity) }
+          : card)
+        .filter(card => card.quantity > 0)
+    }));
+  };
+
+  const startCounter = (trade: TradeOffer) => {
+    // Les côtés sont inversés: ce que l'autre joueur demandait devient ce que je propose
+    setForm({
+      recipientUsername: trade.proposer_username,
+      counterOf: trade.id,
+      offered: toSelected(trade.requested_cards),
+      requested: toSelected(trade.offered_cards),
+      offeredBerrys: trade.requested_berrys,
+      requestedBerrys: trade.offered_berrys
+    });
+    setActiveTab('propose');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.counterOf && !form.recipientUsername.trim()) {
+      showToast('error', 'Veuillez indiquer le joueur avec qui échanger');
+      return;
+    }
+
+    const terms: TradeTerms = {
+      offeredCards: form.offered.map(({ cardId, quantity }) => ({ cardId, quantity })),
+      requestedCards: form.requested.map(({ cardId, quantity }) => ({ cardId, quantity })),
+      offeredBerrys: form.offeredBerrys,
+      requestedBerrys: form.requestedBerrys
+    };
+
+    try {
+      setLoading(true);
+      const response = form.counterOf
+        ? await apiService.counterTrade(form.counterOf, terms)
+        : await apiService.createTrade(form.recipientUsername.trim(), terms);
+
+      if (response.success) {
+        showToast('success', form.counterOf ? 'Contre-proposition envoyée !' : 'Offre d\'échange envoyée !');
+        setForm(EMPTY_FORM);
+        setCatalogQuery('');
+        setActiveTab('sent');
+      } else {
+        showToast('error', response.error || 'Erreur lors de l\'envoi de l\'offre');
+      }
+    } catch (error: any) {
+      console.error('Erreur envoi offre:', error);
+      showToast('error', error.message || 'Erreur lors de l\'envoi de l\'offre');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAccept = (trade: TradeOffer) => {
+    showDialog({
+      title: 'Accepter l\'échange',
+      message: `Confirmer l'échange avec ${trade.proposer_username} ? Les cartes et les Berrys seront échangés immédiatement.`,
+      type: 'confirm',
+      confirmText: 'Accepter',
+      cancelText: 'Annuler',
+      showCancel: true,
+      onConfirm: async () => {
+        hideDialog();
+        try {
+          setLoading(true);
+          const response = await apiService.acceptTrade(trade.id);
+
+          if (response.success) {
+            showToast('success', 'Échange réalisé !');
+            setBerrysBalance(response.data.new_balance);
+            refreshUser();
+          }
+        } catch (error: any) {
+          console.error('Erreur acceptation échange:', error);
+          showToast('error', error.message || 'Erreur lors de l\'échange');
+        } finally {
+          setLoading(false);
+          loadTrades();
+        }
+      }
+    });
+  };
+
+  const handleCloseTrade = async (trade: TradeOffer, action: 'decline' | 'cancel') => {
+    try {
+      setLoading(true);
+      const response = action === 'decline'
+        ? await apiService.declineTrade(trade.id)
+        : await apiService.cancelTrade(trade.id);
+
+      if (response.success) {
+        showToast('success', response.message);
+      }
+    } catch (error: any) {
+      console.error('Erreur clôture échange:', error);
+      showToast('error', error.message || 'Erreur lors de la mise à jour de l\'offre');
+    } finally {
+      setLoading(false);
+      loadTrades();
+    }
+  };
+
+  const renderSide = (title: string, cards: TradeOfferCard[], berrys: number) => (
+    <div className="flex-1 bg-white/5 rounded-xl p-3 border border-white/10">
+      <div className="text-xs text-slate-400 font-semibold uppercase tracking-wide mb-2">{title}</div>
+      {cards.length === 0 && berrys === 0 && <p className="text-sm text-slate-400">Rien</p>}
+      <ul className="space-y-1 text-sm">
+        {cards.map(card => (
+          <li key={card.card_id} className="flex justify-between gap-2">
+            <span className="text-white truncate">{card.card_name}</span>
+            <span className="text-slate-400 whitespace-nowrap">
+              {RARITY_LABELS[card.card_rarity]} x{card.quantity}
+            </span>
+          </li>
+        ))}
+        {berrys > 0 && <li className="text-treasure-300 font-semibold">{berrys} ฿</li>}
+      </ul>
+    </div>
+  );
+
+  const renderTrade = (trade: TradeOffer, received: boolean) => {
+    const status = STATUS_LABELS[trade.status];
+    const other = received ? trade.proposer_username : trade.recipient_username;
+
+    return (
+      <div key={trade.id} className="bg-white/5 backdrop-blur-xl rounded-2xl p-4 border-2 border-white/10 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="font-semibold">
+            {received ? `De ${other}` : `À ${other}`}
+            {trade.parent_offer_id && <span className="text-xs text-slate-400 font-normal"> (contre-proposition)</span>}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-400">{new Date(trade.created_at).toLocaleString('fr-FR')}</span>
+            <span className={`text-xs px-2 py-1 rounded-full border ${status.className}`}>{status.label}</span>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row items-stretch gap-2">
+          {renderSide(received ? 'Vous recevez' : 'Vous donnez', trade.offered_cards, trade.offered_berrys)}
+          <div className="flex items-center justify-center text-slate-400">
+            <ArrowLeftRight size={20} />
+          </div>
+          {renderSide(received ? 'Vous donnez' : 'Vous recevez', trade.requested_cards, trade.requested_berrys)}
+        </div>
+
+        {trade.status === 'pending' && (
+          <div className="flex flex-wrap gap-2 justify-end">
+            {received ? (
+              <>
+                <button
+                  onClick={() => handleCloseTrade(trade, 'decline')}
+                  disabled={loading}
+                  className="px-4 py-2 rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 text-red-300 text-sm font-semibold transition-colors disabled:opacity-50"
+                >
+                  Refuser
+                </button>
+                <button
+                  onClick={() => startCounter(trade)}
+                  disabled={loading}
+                  className="px-4 py-2 rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 text-ocean-300 text-sm font-semibold transition-colors disabled:opacity-50"
+                >
+                  Contre-proposer
+                </button>
+                <button
+                  onClick={() => handleAccept(trade)}
+                  disabled={loading}
+                  className="px-4 py-2 rounded-xl bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700 text-white text-sm font-semibold transition-colors disabled:opacity-50"
+                >
+                  Accepter
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => handleCloseTrade(trade, 'cancel')}
+                disabled={loading}
+                className="px-4 py-2 rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 text-red-300 text-sm font-semibold transition-colors disabled:opacity-50"
+              >
+                Annuler l'offre
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderSelected = (side: 'offered' | 'requested') => (
+    <ul className="space-y-2">
+      {form[side].map(card => {
+        const max = side === 'offered' ? myCards.find(c => c.id === card.cardId)?.available : undefined;
+        return (
+          <li key={card.cardId} className="flex items-center justify-between gap-2 bg-white/5 rounded-lg px-3 py-2 text-sm">
+            <span className="truncate">{card.name}</span>
+            <span className="flex items-center gap-1">
+              <button type="button" onClick={() => changeQuantity(side, card.cardId, -1)} className="p-1 rounded hover:bg-white/10">
+                {card.quantity === 1 ? <X size={14} /> : <Minus size={14} />}
+              </button>
+              <span className="w-6 text-center">{card.quantity}</span>
+              <button type="button" onClick={() => changeQuantity(side, card.cardId, 1, max)} className="p-1 rounded hover:bg-white/10">
+                <Plus size={14} />
+              </button>
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  const tabClass = (tab: typeof activeTab) => `px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-semibold transition-all duration-300 backdrop-blur-xl ${
+    activeTab === tab
+      ? 'bg-gradient-to-r from-ocean-500/90 to-ocean-600/90 text-white shadow-lg shadow-ocean-500/30 scale-105 border-2 border-ocean-400/30'
+      : 'bg-white/5 text-white/80 hover:bg-white/10 border-2 border-white/10 hover:border-white/20'
+  }`;
+
+  return (
+    <>
+      <Dialog
+        isOpen={dialogState.isOpen}
+        onClose={handleClose}
+        onConfirm={handleConfirm}
+        title={dialogState.title}
+        message={dialogState.message}
+        type={dialogState.type}
+        confirmText={dialogState.confirmText}
+        cancelText={dialogState.cancelText}
+        showCancel={dialogState.showCancel}
+      />
+
+      <div className="min-h-screen text-white p-4 sm:p-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {/* En-tête */}
+          <div className="text-center sm:text-left">
+            <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-treasure-300 via-ocean-300 to-treasure-300 bg-clip-text text-transparent mb-4">
+              Échanges
+            </h1>
+            <div className="bg-white/5 backdrop-blur-xl rounded-3xl p-4 sm:p-6 border-2 border-white/10 shadow-2xl flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+              <div>
+                <p className="text-slate-300 text-sm">Votre solde</p>
+                <p className="text-2xl sm:text-3xl font-bold text-treasure-300">{berrysBalance} ฿</p>
+              </div>
+              <div className="text-xs sm:text-sm text-slate-300 space-y-1">
+                <p>• Échangez cartes et Berrys directement avec un autre joueur</p>
+                <p>• Un exemplaire de chaque carte est toujours conservé</p>
+              </div>
+            </div>
+          </div>
+
+          {/* Onglets */}
+          <div className="flex flex-col sm:flex-row gap-2 sm:gap-4">
+            <button onClick={() => setActiveTab('received')} className={tabClass('received')}>
+              Reçues{pendingReceived > 0 ? ` (${pendingReceived})` : ''}
+            </button>
+            <button onClick={() => setActiveTab('sent')} className={tabClass('sent')}>
+              Envoyées
+            </button>
+            <button onClick={() => setActiveTab('propose')} className={tabClass('propose')}>
+              {form.counterOf ? 'Contre-proposition' : 'Proposer un échange'}
+            </button>
+          </div>
+
+          {activeTab === 'received' && (
+            <div className="space-y-4">
+              {receivedTrades.length === 0 && !loading && (
+                <p className="text-center text-slate-400 py-8">Aucune offre reçue</p>
+              )}
+              {receivedTrades.map(trade => renderTrade(trade, true))}
+            </div>
+          )}
+
+          {activeTab === 'sent' && (
+            <div className="space-y-4">
+              {sentTrades.length === 0 && !loading && (
+                <p className="text-center text-slate-400 py-8">Aucune offre envoyée</p>
+              )}
+              {sentTrades.map(trade => renderTrade(trade, false))}
+            </div>
+          )}
+
+          {activeTab === 'propose' && (
+            <form onSubmit={handleSubmit} className="bg-white/5 backdrop-blur-xl rounded-3xl p-4 sm:p-6 border-2 border-white/10 space-y-6">
+              <div>
+                <label className="block text-sm text-slate-300 mb-2">Joueur</label>
+                <input
+                  type="text"
+                  value={form.recipientUsername}
+                  onChange={(e) => setForm(prev => ({ ...prev, recipientUsername: e.target.value }))}
+                  disabled={!!form.counterOf}
+                  placeholder="Pseudo du joueur"
+                  className="w-full px-4 py-2 rounded-xl bg-white/10 border border-white/20 text-white placeholder-slate-400 disabled:opacity-60"
+                />
+                {form.counterOf && (
+                  <button
+                    type="button"
+                    onClick={() => setForm(EMPTY_FORM)}
+                    className="mt-2 text-xs text-slate-400 hover:text-white"
+                  >
+                    Abandonner la contre-proposition
+                  </button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Ce que je donne */}
+                <div className="space-y-3">
+                  <h2 className="font-semibold text-lg">Vous donnez</h2>
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const card = myCards.find(c => c.id === e.target.value);
+                      if (card) addCard('offered', card.id, card.name);
+                    }}
+                    className="w-full px-4 py-2 rounded-xl bg-white/10 border border-white/20 text-white"
+                  >
+                    <option value="" className="bg-gray-900">Ajouter une carte de ma collection...</option>
+                    {myCards.map(card => (
+                      <option key={card.id} value={card.id} className="bg-gray-900">
+                        {card.name} ({RARITY_LABELS[card.rarity]}) - {card.available} disponible(s)
+                      </option>
+                    ))}
+                  </select>
+                  {renderSelected('offered')}
+                  <label className="block text-sm text-slate-300">
+                    Berrys
+                    <input
+                      type="number"
+                      min={0}
+                      max={999999}
+                      value={form.offeredBerrys}
+                      onChange={(e) => setForm(prev => ({ ...prev, offeredBerrys: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                      className="mt-1 w-full px-4 py-2 rounded-xl bg-white/10 border border-white/20 text-white"
+                    />
+                  </label>
+                </div>
+
+                {/* Ce que je demande */}
+                <div className="space-y-3">
+                  <h2 className="font-semibold text-lg">Vous demandez</h2>
+                  <input
+                    type="text"
+                    value={catalogQuery}
+                    onChange={(e) => setCatalogQuery(e.target.value)}
+                    placeholder="Rechercher une carte..."
+                    className="w-full px-4 py-2 rounded-xl bg-white/10 border border-white/20 text-white placeholder-slate-400"
+                  />
+                  {catalogResults.length > 0 && (
+                    <ul className="max-h-48 overflow-y-auto bg-gray-900/80 rounded-xl border border-white/10 divide-y divide-white/5">
+                      {catalogResults.map(card => (
+                        <li key={card.id}>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              addCard('requested', card.id, card.name);
+                              setCatalogQuery('');
+                            }}
+                            className="w-full text-left px-3 py-2 text-sm hover:bg-white/10 flex justify-between gap-2"
+                          >
+                            <span className="truncate">{card.name}</span>
+                            <span className="text-slate-400 whitespace-nowrap">{RARITY_LABELS[card.rarity]}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {renderSelected('requested')}
+                  <label className="block text-sm text-slate-300">
+                    Berrys
+                    <input
+                      type="number"
+                      min={0}
+                      max={999999}
+                      value={form.requestedBerrys}
+                      onChange={(e) => setForm(prev => ({ ...prev, requestedBerrys: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                      className="mt-1 w-full px-4 py-2 rounded-xl bg-white/10 border border-white/20 text-white"
+                    />
+                  </label>
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full px-6 py-3 rounded-xl bg-gradient-to-r from-ocean-500 to-ocean-600 hover:from-ocean-600 hover:to-ocean-700 text-white font-semibold transition-all disabled:opacity-50"
+              >
+                {form.counterOf ? 'Envoyer la contre-proposition' : 'Envoyer l\'offre'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default Trades;
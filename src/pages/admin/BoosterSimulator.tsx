@@ -0,0 +1,348 @@
+import { useEffect, useState } from 'react';
+import { FlaskConical } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { GameService } from '../../services/gameService';
+import { BoosterPack } from '../../data/onePieceCards';
+
+const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+// Doit correspondre à MAX_SIMULATION_PACKS côté serveur
+const MAX_SIMULATION_PACKS = 2000;
+
+interface SimulationReport {
+  booster_id: string;
+  pack_count: number;
+  drop_table: {
+    pack_size: number;
+    alternate_chance: number;
+    slot_weights: Record<string, number>[];
+    is_default: boolean;
+  };
+  rarity_histogram: Array<{
+    rarity: string;
+    count: number;
+    rate: number;
+    per_pack: number;
+    expected_per_pack: number;
+  }>;
+  completion: {
+    set_size: number;
+    base_set_size: number;
+    unique_collected: number;
+    milestones: Array<{ percent: number; packs: number | null }>;
+    expected_packs_full_set: number | null;
+    expected_packs_base_set: number | null;
+  };
+  berrys: {
+    outflow: number;
+    inflow: number;
+    net: number;
+    net_per_pack: number;
+  };
+  duplicates: {
+    total_cards: number;
+    duplicate_cards: number;
+    duplicate_rate: number;
+    copies_distribution: Array<{ copies: string; cards: number }>;
+  };
+}
+
+const RARITY_LABELS: Record<string, string> = {
+  secret_rare: 'Secret Rare',
+  super_rare: 'Super Rare',
+  leader: 'Leader',
+  rare: 'Rare',
+  uncommon: 'Peu Commune',
+  common: 'Commune'
+};
+
+const RARITY_BARS: Record<string, string> = {
+  secret_rare: 'bg-orange-400',
+  super_rare: 'bg-purple-400',
+  leader: 'bg-red-400',
+  rare: 'bg-blue-400',
+  uncommon: 'bg-emerald-400',
+  common: 'bg-slate-400'
+};
+
+export function BoosterSimulator() {
+  const [boosters, setBoosters] = useState<BoosterPack[]>([]);
+  const [boosterId, setBoosterId] = useState('');
+  const [packCount, setPackCount] = useState('500');
+  const [useCustomTable, setUseCustomTable] = useState(false);
+  const [customTable, setCustomTable] = useState('');
+  const [report, setReport] = useState<SimulationReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    GameService.getAllBoosters().then(list => {
+      setBoosters(list);
+      if (list.length > 0) {
+        setBoosterId(list[0].id);
+      }
+    });
+  }, []);
+
+  // Pré-remplir la table candidate avec la table actuelle du booster
+  useEffect(() => {
+    if (!useCustomTable || !boosterId) return;
+
+    const loadCurrentTable = async () => {
+      try {
+        const response = await fetch(`${API_URL}/admin/boosters/${boosterId}/drop-table`, {
+          credentials: 'include',
+          headers: { 'Authorization': `Bearer ${apiService.getAccessToken()}` }
+        });
+        const data = await response.json();
+        if (data.success) {
+          const { pack_size, alternate_chance, slot_weights } = data.data;
+          setCustomTable(JSON.stringify({ pack_size, alternate_chance, slot_weights }, null, 2));
+        }
+      } catch (err) {
+        console.error('Erreur chargement table de drop:', err);
+      }
+    };
+
+    loadCurrentTable();
+  }, [useCustomTable, boosterId]);
+
+  const runSimulation = async () => {
+    setError(null);
+
+    let dropTable: unknown = undefined;
+    if (useCustomTable) {
+      try {
+        dropTable = JSON.parse(customTable);
+      } catch {
+        setError('La table candidate n\'est pas un JSON valide');
+        return;
+      }
+    }
+
+    try {
+      setRunning(true);
+      const response = await fetch(`${API_URL}/admin/boosters/${boosterId}/simulate`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiService.getAccessToken()}`
+        },
+        body: JSON.stringify({ count: parseInt(packCount), drop_table: dropTable })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Erreur lors de la simulation');
+      }
+
+      setReport(data.data);
+    } catch (err: any) {
+      console.error('Erreur simulation:', err);
+      setError(err.message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const maxRate = report ? Math.max(...report.rarity_histogram.map(r => Math.max(r.per_pack, r.expected_per_pack)), 0.01) : 1;
+  const maxCopies = report ? Math.max(...report.duplicates.copies_distribution.map(d => d.cards), 1) : 1;
+
+  return (
+    <div className="space-y-6">
+      {/* Paramètres */}
+      <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+        <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+          <FlaskConical className="text-purple-400" />
+          Simulateur d'ouvertures
+        </h3>
+        <p className="text-sm text-slate-400 mb-4">
+          Simule des ouvertures sans rien enregistrer, pour régler les taux avant la mise en ligne d'un set.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-semibold mb-2">Booster</label>
+            <select
+              value={boosterId}
+              onChange={(e) => setBoosterId(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:border-blue-400 focus:outline-none"
+            >
+              {boosters.map(booster => (
+                <option key={booster.id} value={booster.id}>
+                  {booster.code} - {booster.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-2">Nombre de boosters (max {MAX_SIMULATION_PACKS})</label>
+            <input
+              type="number"
+              value={packCount}
+              onChange={(e) => setPackCount(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:border-blue-400 focus:outline-none"
+              min="1"
+              max={MAX_SIMULATION_PACKS}
+            />
+          </div>
+          <div className="flex items-end">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={useCustomTable}
+                onChange={(e) => setUseCustomTable(e.target.checked)}
+              />
+              Tester une table candidate
+            </label>
+          </div>
+        </div>
+
+        {useCustomTable && (
+          <div className="mt-4">
+            <label className="block text-sm font-semibold mb-2">Table candidate (JSON)</label>
+            <textarea
+              value={customTable}
+              onChange={(e) => setCustomTable(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white font-mono text-xs focus:border-blue-400 focus:outline-none"
+              rows={12}
+            />
+          </div>
+        )}
+
+        {error && <p className="mt-4 text-red-400 text-sm">❌ {error}</p>}
+
+        <button
+          onClick={runSimulation}
+          disabled={running || !boosterId}
+          className="mt-4 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-3 rounded-lg font-semibold transition-all"
+        >
+          {running ? 'Simulation en cours...' : 'Lancer la simulation'}
+        </button>
+      </div>
+
+      {report && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Histogramme des raretés */}
+          <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+            <h3 className="text-lg font-bold mb-4">Raretés ({report.pack_count} boosters)</h3>
+            <div className="space-y-3">
+              {report.rarity_histogram.map(rarity => (
+                <div key={rarity.rarity}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span>{RARITY_LABELS[rarity.rarity] || rarity.rarity}</span>
+                    <span className="text-slate-400">
+                      {rarity.count} cartes · {rarity.per_pack.toFixed(3)}/booster (attendu {rarity.expected_per_pack.toFixed(3)})
+                    </span>
+                  </div>
+                  <div className="relative h-3 bg-slate-900 rounded">
+                    <div
+                      className={`absolute inset-y-0 left-0 rounded ${RARITY_BARS[rarity.rarity] || 'bg-slate-400'}`}
+                      style={{ width: `${(rarity.per_pack / maxRate) * 100}%` }}
+                    />
+                    <div
+                      className="absolute inset-y-0 w-0.5 bg-white"
+                      style={{ left: `${(rarity.expected_per_pack / maxRate) * 100}%` }}
+                      title="Valeur attendue"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Complétion du set */}
+          <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+            <h3 className="text-lg font-bold mb-4">Complétion du set</h3>
+            <div className="space-y-2 text-sm">
+              <p>
+                <span className="text-slate-400">Cartes obtenues :</span>{' '}
+                {report.completion.unique_collected} / {report.completion.set_size}
+                <span className="text-slate-400"> ({report.completion.base_set_size} hors alternates)</span>
+              </p>
+              <p>
+                <span className="text-slate-400">Boosters attendus pour le set complet :</span>{' '}
+                {report.completion.expected_packs_full_set !== null
+                  ? Math.round(report.completion.expected_packs_full_set).toLocaleString()
+                  : 'impossible'}
+              </p>
+              <p>
+                <span className="text-slate-400">Boosters attendus hors alternates :</span>{' '}
+                {report.completion.expected_packs_base_set !== null
+                  ? Math.round(report.completion.expected_packs_base_set).toLocaleString()
+                  : 'impossible'}
+              </p>
+              <table className="w-full mt-3">
+                <thead>
+                  <tr className="border-b border-slate-700 text-left">
+                    <th className="pb-2 font-semibold text-slate-300">Palier</th>
+                    <th className="pb-2 font-semibold text-slate-300">Atteint après</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.completion.milestones.map(milestone => (
+                    <tr key={milestone.percent} className="border-b border-slate-700/50">
+                      <td className="py-2">{milestone.percent}%</td>
+                      <td className="py-2">
+                        {milestone.packs !== null ? `${milestone.packs} boosters` : <span className="text-slate-500">non atteint</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Économie */}
+          <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+            <h3 className="text-lg font-bold mb-4">Flux de Berrys</h3>
+            <div className="space-y-2 text-sm">
+              <p>
+                <span className="text-slate-400">Dépensés (achat des boosters) :</span>{' '}
+                <span className="text-red-400">-{report.berrys.outflow.toLocaleString()}</span>
+              </p>
+              <p>
+                <span className="text-slate-400">Récupérés (vente des doublons) :</span>{' '}
+                <span className="text-green-400">+{report.berrys.inflow.toLocaleString()}</span>
+              </p>
+              <p className="text-lg font-bold">
+                Solde : <span className={report.berrys.net >= 0 ? 'text-green-400' : 'text-red-400'}>
+                  {report.berrys.net.toLocaleString()}
+                </span>
+                <span className="text-sm text-slate-400 font-normal"> ({report.berrys.net_per_pack.toFixed(1)} / booster)</span>
+              </p>
+              {report.berrys.net > 0 && (
+                <p className="text-yellow-400">
+                  ⚠️ Revendre les doublons rapporte plus que le prix des boosters : création nette de Berrys.
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Doublons */}
+          <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+            <h3 className="text-lg font-bold mb-4">Doublons</h3>
+            <p className="text-sm mb-4">
+              <span className="text-slate-400">Cartes en double :</span>{' '}
+              {report.duplicates.duplicate_cards.toLocaleString()} / {report.duplicates.total_cards.toLocaleString()}
+              {' '}({(report.duplicates.duplicate_rate * 100).toFixed(1)}%)
+            </p>
+            <div className="flex items-end gap-2 h-32">
+              {report.duplicates.copies_distribution.map(bucket => (
+                <div key={bucket.copies} className="flex-1 flex flex-col items-center justify-end h-full">
+                  <span className="text-xs text-slate-300 mb-1">{bucket.cards}</span>
+                  <div
+                    className="w-full bg-blue-500 rounded-t"
+                    style={{ height: `${(bucket.cards / maxCopies) * 100}%` }}
+                  />
+                  <span className="text-xs text-slate-400 mt-1">{bucket.copies}x</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-2 text-center">Nombre de cartes différentes obtenues N fois</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+import { useEffect, useState } from 'react';
+import { Coins, Flame, Save, ShieldCheck, AlertTriangle } from 'lucide-react';
+import { apiService } from '../../services/api';
+
+const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+const REPORT_PERIODS = [1, 7, 30, 90, 365];
+
+interface EconomyFlow {
+  source: string;
+  amount: number;
+  operations: number;
+}
+
+interface EconomySettings {
+  marketplace_tax_rate: number;
+  listing_slot_price: number;
+  max_extra_listing_slots: number;
+  updated_at?: string | null;
+}
+
+interface EconomyReport {
+  days: number;
+  minted: EconomyFlow[];
+  burned: EconomyFlow[];
+  total_minted: number;
+  total_burned: number;
+  net: number;
+  circulation: {
+    balances: number;
+    held: number;
+  };
+  settings: EconomySettings;
+}
+
+interface BerryReconciliation {
+  checked_at: string;
+  users_checked: number;
+  mismatches: Array<{
+    user_id: string;
+    username: string;
+    balance: number;
+    ledger_balance: number;
+    difference: number;
+  }>;
+  unbalanced_transactions: string[];
+  escrow: {
+    ledger: number;
+    held: number;
+    difference: number;
+  };
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  daily_reward: 'Récompense quotidienne',
+  notification_reward: 'Récompenses de notifications',
+  island_reward: 'Récompenses d\'îles',
+  card_sale: 'Revente de cartes au jeu',
+  achievement: 'Succès',
+  quest: 'Quêtes',
+  booster_purchase: 'Achat de boosters',
+  marketplace_tax: 'Taxe du marketplace',
+  listing_slot: 'Emplacements d\'annonces'
+};
+
+function FlowTable({ title, icon, flows, total, barClass }: {
+  title: string;
+  icon: React.ReactNode;
+  flows: EconomyFlow[];
+  total: number;
+  barClass: string;
+}) {
+  const max = Math.max(1, ...flows.map(flow => flow.amount));
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+      <h3 className="text-xl font-bold mb-4 flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2">
+          {icon}
+          {title}
+        </span>
+        <span className="text-lg">{total.toLocaleString()} ฿</span>
+      </h3>
+      <div className="space-y-3">
+        {flows.map(flow => (
+          <div key={flow.source}>
+            <div className="flex justify-between text-sm mb-1">
+              <span>{SOURCE_LABELS[flow.source] || flow.source}</span>
+              <span className="text-slate-400">
+                {flow.amount.toLocaleString()} ฿ · {flow.operations} op.
+              </span>
+            </div>
+            <div className="h-2 bg-slate-900 rounded">
+              <div className={`h-2 rounded ${barClass}`} style={{ width: `${(flow.amount / max) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function EconomyPanel() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<EconomyReport | null>(null);
+  const [form, setForm] = useState({ taxPercent: '', slotPrice: '', maxExtraSlots: '' });
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [reconciliation, setReconciliation] = useState<BerryReconciliation | null>(null);
+  const [reconciling, setReconciling] = useState(false);
+
+  const authHeaders = () => ({ 'Authorization': `Bearer ${apiService.getAccessToken()}` });
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        const response = await fetch(`${API_URL}/admin/economy?days=${days}`, {
+          credentials: 'include',
+          headers: authHeaders()
+        });
+        const data = await response.json();
+        if (data.success) {
+          setReport(data.data);
+          setForm({
+            taxPercent: String(Math.round(data.data.settings.marketplace_tax_rate * 1000) / 10),
+            slotPrice: String(data.data.settings.listing_slot_price),
+            maxExtraSlots: String(data.data.settings.max_extra_listing_slots)
+          });
+        }
+      } catch (err) {
+        console.error('Erreur chargement rapport économie:', err);
+      }
+    };
+
+    loadReport();
+  }, [days]);
+
+  const saveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    try {
+      setSaving(true);
+      const response = await fetch(`${API_URL}/admin/economy/settings`, {
+        method: 'PUT',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders()
+        },
+        body: JSON.stringify({
+          marketplace_tax_rate: Math.round(parseFloat(form.taxPercent) * 10) / 1000,
+          listing_slot_price: parseInt(form.slotPrice),
+          max_extra_listing_slots: parseInt(form.maxExtraSlots)
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Erreur lors de l\'enregistrement');
+      }
+
+      setReport(prev => prev ? { ...prev, settings: data.data } : prev);
+      setMessage({ type: 'success', text: 'Paramètres enregistrés' });
+    } catch (err: any) {
+      console.error('Erreur enregistrement paramètres économie:', err);
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runReconciliation = async () => {
+    try {
+      setReconciling(true);
+      const response = await fetch(`${API_URL}/admin/economy/reconciliation`, {
+        credentials: 'include',
+        headers: authHeaders()
+      });
+      const data = await response.json();
+      if (data.success) {
+        setReconciliation(data.data);
+      }
+    } catch (err) {
+      console.error('Erreur réconciliation des Berrys:', err);
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  const reconciliationOk = reconciliation
+    && reconciliation.mismatches.length === 0
+    && reconciliation.unbalanced_transactions.length === 0
+    && reconciliation.escrow.difference === 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Paramètres */}
+      <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+        <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+          <Coins className="text-yellow-400" />
+          Leviers économiques
+        </h3>
+        <form onSubmit={saveSettings} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-semibold mb-2">Taxe de vente du marketplace (%)</label>
+            <input
+              type="number"
+              value={form.taxPercent}
+              onChange={(e) => setForm({ ...form, taxPercent: e.target.value })}
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:border-blue-400 focus:outline-none"
+              min="0"
+              max="50"
+              step="0.1"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-2">Prix d'un emplacement d'annonce</label>
+            <input
+              type="number"
+              value={form.slotPrice}
+              onChange={(e) => setForm({ ...form, slotPrice: e.target.value })}
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:border-blue-400 focus:outline-none"
+              min="1"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-2">Emplacements achetables (max)</label>
+            <input
+              type="number"
+              value={form.maxExtraSlots}
+              onChange={(e) => setForm({ ...form, maxExtraSlots: e.target.value })}
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:border-blue-400 focus:outline-none"
+              min="0"
+              max="20"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-semibold py-3 px-6 rounded-lg transition-all flex items-center justify-center gap-2"
+          >
+            <Save size={18} />
+            Enregistrer
+          </button>
+        </form>
+        {message && (
+          <p className={`text-sm mt-3 ${message.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+
+      {/* Réconciliation du registre */}
+      <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <ShieldCheck className="text-blue-400" />
+            Registre des Berrys
+          </h3>
+          <button
+            onClick={runReconciliation}
+            disabled={reconciling}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-semibold py-2 px-4 rounded-lg transition-all"
+          >
+            {reconciling ? 'Vérification...' : 'Lancer la réconciliation'}
+          </button>
+        </div>
+
+        {reconciliation && (
+          <div className="space-y-3 text-sm">
+            <p className={`flex items-center gap-2 font-semibold ${reconciliationOk ? 'text-green-400' : 'text-red-400'}`}>
+              {reconciliationOk ? <ShieldCheck size={18} /> : <AlertTriangle size={18} />}
+              {reconciliationOk
+                ? `${reconciliation.users_checked} soldes conformes au registre`
+                : `${reconciliation.mismatches.length} solde(s) en écart sur ${reconciliation.users_checked}`}
+            </p>
+            <p className="text-slate-400">
+              Séquestre: {reconciliation.escrow.ledger.toLocaleString()} ฿ au registre, {reconciliation.escrow.held.toLocaleString()} ฿ retenus
+              {reconciliation.unbalanced_transactions.length > 0 && ` · ${reconciliation.unbalanced_transactions.length} transaction(s) déséquilibrée(s)`}
+            </p>
+            {reconciliation.mismatches.length > 0 && (
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-slate-400">
+                    <th className="py-1">Joueur</th>
+                    <th className="py-1 text-right">Solde</th>
+                    <th className="py-1 text-right">Registre</th>
+                    <th className="py-1 text-right">Écart</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reconciliation.mismatches.map(mismatch => (
+                    <tr key={mismatch.user_id} className="border-t border-slate-700">
+                      <td className="py-1">{mismatch.username}</td>
+                      <td className="py-1 text-right">{mismatch.balance.toLocaleString()} ฿</td>
+                      <td className="py-1 text-right">{mismatch.ledger_balance.toLocaleString()} ฿</td>
+                      <td className="py-1 text-right text-red-400">{mismatch.difference > 0 ? '+' : ''}{mismatch.difference.toLocaleString()} ฿</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Période */}
+      <div className="flex gap-2">
+        {REPORT_PERIODS.map(period => (
+          <button
+            key={period}
+            onClick={() => setDays(period)}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+              days === period ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'
+            }`}
+          >
+            {period === 1 ? '24 h' : `${period} j`}
+          </button>
+        ))}
+      </div>
+
+      {report && (
+        <>
+          {/* Totaux */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+              <p className="text-slate-400 text-sm">Berrys créés</p>
+              <p className="text-2xl font-bold text-green-400">{report.total_minted.toLocaleString()} ฿</p>
+            </div>
+            <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+              <p className="text-slate-400 text-sm">Berrys détruits</p>
+              <p className="text-2xl font-bold text-red-400">{report.total_burned.toLocaleString()} ฿</p>
+            </div>
+            <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+              <p className="text-slate-400 text-sm">Inflation nette</p>
+              <p className={`text-2xl font-bold ${report.net > 0 ? 'text-orange-400' : 'text-blue-400'}`}>
+                {report.net > 0 ? '+' : ''}{report.net.toLocaleString()} ฿
+              </p>
+            </div>
+            <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+              <p className="text-slate-400 text-sm">En circulation</p>
+              <p className="text-2xl font-bold text-yellow-400">{report.circulation.balances.toLocaleString()} ฿</p>
+              <p className="text-xs text-slate-400">+ {report.circulation.held.toLocaleString()} ฿ retenus (enchères, ordres d'achat)</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <FlowTable
+              title="Création par source"
+              icon={<Coins className="text-green-400" />}
+              flows={report.minted}
+              total={report.total_minted}
+              barClass="bg-green-500"
+            />
+            <FlowTable
+              title="Destruction par source"
+              icon={<Flame className="text-red-400" />}
+              flows={report.burned}
+              total={report.total_burned}
+              barClass="bg-red-500"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,484 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Map as MapIcon, Swords, Users, ArrowUp, ArrowDown, Pencil, Plus, Save, X } from 'lucide-react';
+import { apiService } from '../../services/api';
+
+const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+interface Island {
+  id: string;
+  name: string;
+  order_index: number;
+  description: string;
+  latitude: number;
+  longitude: number;
+  unlock_requirement_island_id: string | null;
+  final_reward_type: 'berrys' | 'crew_member' | null;
+  final_reward_value: number | null;
+  final_reward_crew_member_id: string | null;
+  is_active: number;
+}
+
+interface Quest {
+  id: string;
+  island_id: string;
+  name: string;
+  description: string;
+  duration_hours: number;
+  reward_berrys: number;
+  extra_rewards: string;
+  required_crew_count: number;
+  stat_requirements: string;
+  specific_crew_member_id: string | null;
+  order_index: number;
+  is_repeatable: number;
+  is_active: number;
+}
+
+interface CrewMember {
+  id: string;
+  name: string;
+  description: string;
+  image_url: string;
+  unlock_island_id: string | null;
+  order_index: number;
+  strength: number;
+  navigation: number;
+  intelligence: number;
+  stamina: number;
+  card_characters: string;
+  is_active: number;
+}
+
+interface WorldData {
+  islands: Island[];
+  quests: Quest[];
+  crew_members: CrewMember[];
+}
+
+type EntityKind = 'islands' | 'quests' | 'crew';
+
+interface FieldConfig {
+  key: string;
+  label: string;
+  // json: texte JSON envoyé tel quel après lecture (récompenses de quêtes)
+  type: 'text' | 'textarea' | 'json' | 'number' | 'select' | 'checkbox';
+  options?: Array<{ value: string; label: string }>;
+}
+
+// Valeurs du formulaire par champ (les champs json sont édités en texte)
+type FormValues = Record<string, string | number | boolean>;
+
+// Formulaire en cours d'édition: id null pour une création
+interface EditorState {
+  kind: EntityKind;
+  id: string | null;
+  values: FormValues;
+}
+
+const ENDPOINTS: Record<EntityKind, string> = {
+  islands: 'islands',
+  quests: 'quests',
+  crew: 'crew'
+};
+
+function EntityForm({ fields, editor, onChange, onSubmit, onCancel, saving }: {
+  fields: FieldConfig[];
+  editor: EditorState;
+  onChange: (key: string, value: string | number | boolean) => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+  saving: boolean;
+}) {
+  return (
+    <div className="bg-slate-900 rounded-lg p-4 border border-blue-500/40 mt-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {fields.map(field => (
+          <div key={field.key} className={field.type === 'textarea' || field.type === 'json' ? 'md:col-span-2' : ''}>
+            {field.type === 'checkbox' ? (
+              <label className="flex items-center gap-2 text-sm mt-6">
+                <input
+                  type="checkbox"
+                  checked={!!editor.values[field.key]}
+                  onChange={(e) => onChange(field.key, e.target.checked)}
+                />
+                {field.label}
+              </label>
+            ) : (
+              <>
+                <label className="block text-sm font-semibold mb-1">{field.label}</label>
+                {field.type === 'textarea' || field.type === 'json' ? (
+                  <textarea
+                    value={String(editor.values[field.key] ?? '')}
+                    onChange={(e) => onChange(field.key, e.target.value)}
+                    className={`w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-blue-400 focus:outline-none ${field.type === 'json' ? 'font-mono text-xs' : ''}`}
+                    rows={field.type === 'json' ? 4 : 2}
+                  />
+                ) : field.type === 'select' ? (
+                  <select
+                    value={String(editor.values[field.key] ?? '')}
+                    onChange={(e) => onChange(field.key, e.target.value)}
+                    className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-blue-400 focus:outline-none"
+                  >
+                    {field.options!.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type={field.type}
+                    value={String(editor.values[field.key] ?? '')}
+                    onChange={(e) => onChange(field.key, field.type === 'number' && e.target.value !== '' ? Number(e.target.value) : e.target.value)}
+                    className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-blue-400 focus:outline-none"
+                    step="any"
+                  />
+                )}
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={onSubmit}
+          disabled={saving}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-semibold py-2 px-4 rounded-lg transition-all flex items-center gap-2"
+        >
+          <Save size={16} />
+          {editor.id ? 'Enregistrer' : 'Créer'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="bg-slate-700 hover:bg-slate-600 text-white font-semibold py-2 px-4 rounded-lg transition-all flex items-center gap-2"
+        >
+          <X size={16} />
+          Annuler
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function EntityRow({ name, details, active, onUp, onDown, onEdit, onToggle }: {
+  name: string;
+  details: string;
+  active: boolean;
+  onUp?: () => void;
+  onDown?: () => void;
+  onEdit: () => void;
+  onToggle: () => void;
+}) {
+  return (
+    <div className={`flex items-center gap-3 py-2 border-t border-slate-700 ${active ? '' : 'opacity-50'}`}>
+      <div className="flex flex-col">
+        <button onClick={onUp} disabled={!onUp} className="text-slate-400 hover:text-white disabled:opacity-20">
+          <ArrowUp size={14} />
+        </button>
+        <button onClick={onDown} disabled={!onDown} className="text-slate-400 hover:text-white disabled:opacity-20">
+          <ArrowDown size={14} />
+        </button>
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-semibold truncate">{name}{!active && ' (inactif)'}</p>
+        <p className="text-xs text-slate-400 truncate">{details}</p>
+      </div>
+      <button onClick={onEdit} className="text-blue-400 hover:text-blue-300">
+        <Pencil size={16} />
+      </button>
+      <button
+        onClick={onToggle}
+        className={`text-xs font-semibold px-2 py-1 rounded ${active ? 'bg-red-600/20 text-red-400 hover:bg-red-600/40' : 'bg-green-600/20 text-green-400 hover:bg-green-600/40'}`}
+      >
+        {active ? 'Désactiver' : 'Réactiver'}
+      </button>
+    </div>
+  );
+}
+
+const authHeaders = () => ({ 'Authorization': `Bearer ${apiService.getAccessToken()}` });
+
+const request = async (method: string, path: string, body?: unknown) => {
+  const response = await fetch(`${API_URL}/admin/world${path}`, {
+    method,
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders()
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Erreur lors de l\'enregistrement');
+  }
+
+  return data;
+};
+
+export function WorldEditor() {
+  const [world, setWorld] = useState<WorldData | null>(null);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadWorld = useCallback(async () => {
+    try {
+      const data = await request('GET', '');
+      setWorld(data.data);
+    } catch (err) {
+      console.error('Erreur chargement carte du monde:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWorld();
+  }, [loadWorld]);
+
+  // Exécuter une modification puis recharger la carte, l'erreur du serveur est affichée telle quelle
+  const mutate = async (action: () => Promise<unknown>, successText: string) => {
+    setMessage(null);
+    try {
+      setSaving(true);
+      await action();
+      await loadWorld();
+      setMessage({ type: 'success', text: successText });
+      return true;
+    } catch (err: any) {
+      console.error('Erreur édition carte du monde:', err);
+      setMessage({ type: 'error', text: err.message });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!world) {
+    return <p className="text-slate-400">Chargement de la carte du monde...</p>;
+  }
+
+  const islandName = (id: string | null) => world.islands.find(island => island.id === id)?.name || '—';
+  const crewName = (id: string | null) => world.crew_members.find(member => member.id === id)?.name || '—';
+
+  const islandOptions = world.islands.map(island => ({ value: island.id, label: island.name }));
+  const crewOptions = world.crew_members.map(member => ({ value: member.id, label: member.name }));
+
+  const FIELDS: Record<EntityKind, FieldConfig[]> = {
+    islands: [
+      { key: 'name', label: 'Nom', type: 'text' },
+      { key: 'unlock_requirement_island_id', label: 'Débloquée par', type: 'select', options: [{ value: '', label: 'Île de départ' }, ...islandOptions] },
+      { key: 'description', label: 'Description', type: 'textarea' },
+      { key: 'latitude', label: 'Latitude', type: 'number' },
+      { key: 'longitude', label: 'Longitude', type: 'number' },
+      { key: 'final_reward_type', label: 'Récompense finale', type: 'select', options: [{ value: '', label: 'Aucune' }, { value: 'berrys', label: 'Berrys' }, { value: 'crew_member', label: 'Membre d\'équipage' }] },
+      { key: 'final_reward_value', label: 'Berrys (récompense finale)', type: 'number' },
+      { key: 'final_reward_crew_member_id', label: 'Membre d\'équipage (récompense finale)', type: 'select', options: [{ value: '', label: '—' }, ...crewOptions] },
+      { key: 'is_active', label: 'Active', type: 'checkbox' }
+    ],
+    quests: [
+      { key: 'name', label: 'Nom', type: 'text' },
+      { key: 'island_id', label: 'Île', type: 'select', options: islandOptions },
+      { key: 'description', label: 'Description', type: 'textarea' },
+      { key: 'duration_hours', label: 'Durée (heures)', type: 'number' },
+      { key: 'reward_berrys', label: 'Récompense (Berrys)', type: 'number' },
+      { key: 'extra_rewards', label: 'Autres récompenses (JSON: booster, card, crew_xp)', type: 'json' },
+      { key: 'required_crew_count', label: 'Membres requis', type: 'number' },
+      { key: 'stat_requirements', label: 'Exigences (JSON: strength, navigation, intelligence, stamina)', type: 'json' },
+      { key: 'specific_crew_member_id', label: 'Membre imposé', type: 'select', options: [{ value: '', label: 'Aucun' }, ...crewOptions] },
+      { key: 'is_repeatable', label: 'Répétable', type: 'checkbox' },
+      { key: 'is_active', label: 'Active', type: 'checkbox' }
+    ],
+    crew: [
+      { key: 'name', label: 'Nom', type: 'text' },
+      { key: 'image_url', label: 'Image (URL)', type: 'text' },
+      { key: 'description', label: 'Description', type: 'textarea' },
+      { key: 'unlock_island_id', label: 'Débloqué sur l\'île', type: 'select', options: [{ value: '', label: '—' }, ...islandOptions] },
+      { key: 'strength', label: 'Force (niveau 1)', type: 'number' },
+      { key: 'navigation', label: 'Navigation (niveau 1)', type: 'number' },
+      { key: 'intelligence', label: 'Intelligence (niveau 1)', type: 'number' },
+      { key: 'stamina', label: 'Endurance (niveau 1)', type: 'number' },
+      { key: 'card_characters', label: 'Personnages des cartes bonus (JSON: valeurs de cards.character)', type: 'json' },
+      { key: 'is_active', label: 'Actif', type: 'checkbox' }
+    ]
+  };
+
+  const DEFAULTS: Record<EntityKind, FormValues> = {
+    islands: { name: '', description: '', latitude: 0, longitude: 0, unlock_requirement_island_id: world.islands[world.islands.length - 1]?.id || '', final_reward_type: '', final_reward_value: '', final_reward_crew_member_id: '', is_active: true },
+    quests: { name: '', description: '', island_id: world.islands[0]?.id || '', duration_hours: 1, reward_berrys: 0, extra_rewards: '[]', required_crew_count: 1, stat_requirements: '{}', specific_crew_member_id: '', is_repeatable: true, is_active: true },
+    crew: { name: '', description: '', image_url: '', unlock_island_id: '', strength: 10, navigation: 10, intelligence: 10, stamina: 10, card_characters: '[]', is_active: true }
+  };
+
+  const openEditor = (kind: EntityKind, entity?: Island | Quest | CrewMember) => {
+    const values: FormValues = { ...DEFAULTS[kind] };
+    if (entity) {
+      const current: Record<string, unknown> = { ...entity };
+      for (const field of FIELDS[kind]) {
+        const value = current[field.key];
+        values[field.key] = field.type === 'checkbox'
+          ? !!value
+          : field.type === 'json'
+            ? JSON.stringify(JSON.parse(String(value || DEFAULTS[kind][field.key])), null, 2)
+            : typeof value === 'number' ? value : String(value ?? '');
+      }
+    }
+    setEditor({ kind, id: entity?.id || null, values });
+  };
+
+  const submitEditor = async () => {
+    if (!editor) return;
+    const path = `/${ENDPOINTS[editor.kind]}${editor.id ? `/${editor.id}` : ''}`;
+    const saved = await mutate(
+      () => {
+        const body: Record<string, unknown> = { ...editor.values };
+        for (const field of FIELDS[editor.kind].filter(f => f.type === 'json')) {
+          try {
+            body[field.key] = JSON.parse(String(editor.values[field.key] || DEFAULTS[editor.kind][field.key]));
+          } catch {
+            throw new Error(`${field.label}: JSON invalide`);
+          }
+        }
+        return request(editor.id ? 'PUT' : 'POST', path, body);
+      },
+      editor.id ? 'Modifications enregistrées' : 'Élément créé'
+    );
+    if (saved) setEditor(null);
+  };
+
+  const toggleActive = (kind: EntityKind, entity: { id: string; is_active: number }) => mutate(
+    () => entity.is_active
+      ? request('DELETE', `/${ENDPOINTS[kind]}/${entity.id}`)
+      : request('PUT', `/${ENDPOINTS[kind]}/${entity.id}`, { is_active: true }),
+    entity.is_active ? 'Élément désactivé' : 'Élément réactivé'
+  );
+
+  // Échanger un élément avec son voisin puis envoyer l'ordre complet
+  const move = (ids: string[], index: number, delta: number, path: string) => {
+    const order = [...ids];
+    [order[index], order[index + delta]] = [order[index + delta], order[index]];
+    return mutate(() => request('PUT', path, { ids: order }), 'Ordre enregistré');
+  };
+
+  const renderEditor = (kind: EntityKind, id: string | null) => editor && editor.kind === kind && editor.id === id && (
+    <EntityForm
+      fields={FIELDS[kind]}
+      editor={editor}
+      onChange={(key, value) => setEditor({ ...editor, values: { ...editor.values, [key]: value } })}
+      onSubmit={submitEditor}
+      onCancel={() => setEditor(null)}
+      saving={saving}
+    />
+  );
+
+  const islandIds = world.islands.map(island => island.id);
+  const crewIds = world.crew_members.map(member => member.id);
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {/* Îles et quêtes */}
+      <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <MapIcon className="text-blue-400" />
+            Îles et quêtes
+          </h3>
+          <button
+            onClick={() => openEditor('islands')}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg transition-all flex items-center gap-2"
+          >
+            <Plus size={16} />
+            Île
+          </button>
+        </div>
+        {renderEditor('islands', null)}
+
+        {world.islands.map((island, index) => {
+          const quests = world.quests.filter(quest => quest.island_id === island.id);
+          const questIds = quests.map(quest => quest.id);
+          const reward = island.final_reward_type === 'berrys'
+            ? `${island.final_reward_value} ฿`
+            : island.final_reward_type === 'crew_member' ? crewName(island.final_reward_crew_member_id) : 'aucune';
+
+          return (
+            <div key={island.id} className="mt-2">
+              <EntityRow
+                name={island.name}
+                details={`Débloquée par: ${island.unlock_requirement_island_id ? islandName(island.unlock_requirement_island_id) : 'île de départ'} · Récompense: ${reward}`}
+                active={!!island.is_active}
+                onUp={index > 0 ? () => move(islandIds, index, -1, '/islands/order') : undefined}
+                onDown={index < islandIds.length - 1 ? () => move(islandIds, index, 1, '/islands/order') : undefined}
+                onEdit={() => openEditor('islands', island)}
+                onToggle={() => toggleActive('islands', island)}
+              />
+              {renderEditor('islands', island.id)}
+
+              <div className="ml-8 mb-2">
+                <div className="flex items-center justify-between text-sm text-slate-400 mt-1">
+                  <span className="flex items-center gap-1"><Swords size={14} /> {quests.length} quête(s)</span>
+                  <button
+                    onClick={() => setEditor({ kind: 'quests', id: null, values: { ...DEFAULTS.quests, island_id: island.id } })}
+                    className="text-blue-400 hover:text-blue-300 flex items-center gap-1"
+                  >
+                    <Plus size={14} /> Quête
+                  </button>
+                </div>
+                {editor?.kind === 'quests' && editor.id === null && editor.values.island_id === island.id && renderEditor('quests', null)}
+                {quests.map((quest, questIndex) => (
+                  <div key={quest.id}>
+                    <EntityRow
+                      name={quest.name}
+                      details={`${quest.duration_hours} h · ${quest.required_crew_count} membre(s) · ${quest.reward_berrys} ฿${quest.specific_crew_member_id ? ` · avec ${crewName(quest.specific_crew_member_id)}` : ''}`}
+                      active={!!quest.is_active}
+                      onUp={questIndex > 0 ? () => move(questIds, questIndex, -1, `/islands/${island.id}/quests/order`) : undefined}
+                      onDown={questIndex < questIds.length - 1 ? () => move(questIds, questIndex, 1, `/islands/${island.id}/quests/order`) : undefined}
+                      onEdit={() => openEditor('quests', quest)}
+                      onToggle={() => toggleActive('quests', quest)}
+                    />
+                    {renderEditor('quests', quest.id)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Équipage */}
+      <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Users className="text-yellow-400" />
+            Membres d'équipage
+          </h3>
+          <button
+            onClick={() => openEditor('crew')}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg transition-all flex items-center gap-2"
+          >
+            <Plus size={16} />
+            Membre
+          </button>
+        </div>
+        {renderEditor('crew', null)}
+
+        {world.crew_members.map((member, index) => (
+          <div key={member.id}>
+            <EntityRow
+              name={member.name}
+              details={`Île: ${islandName(member.unlock_island_id)}`}
+              active={!!member.is_active}
+              onUp={index > 0 ? () => move(crewIds, index, -1, '/crew/order') : undefined}
+              onDown={index < crewIds.length - 1 ? () => move(crewIds, index, 1, '/crew/order') : undefined}
+              onEdit={() => openEditor('crew', member)}
+              onToggle={() => toggleActive('crew', member)}
+            />
+            {renderEditor('crew', member.id)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
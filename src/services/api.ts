@@ -1,3 +1,34 @@
+import {
+  BerryHistoryPage,
+  BoosterBatchResult,
+  BoosterCompletion,
+  BoosterDropRates,
+  BulkListingPlan,
+  BulkListingResult,
+  BulkSellResult,
+  BuyOrderCancellation,
+  BuyOrderCreation,
+  BuyOrderFill,
+  BuyOrderFillSale,
+  CardMarketSummary,
+  CraftResult,
+  DisenchantResult,
+  FairnessSeeds,
+  ListingSlotPurchase,
+  MarketplaceBidHistory,
+  MarketplaceBidResult,
+  MarketplaceBuyOrder,
+  MarketplaceFees,
+  MarketplaceListing,
+  OpeningHistoryEntry,
+  OpeningLuckStats,
+  OpeningVerification,
+  Pagination,
+  TradeAcceptance,
+  TradeOffer,
+  TradeTerms
+} from '../types';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || import.meta.env.VITE_API_BASE_URL || '/api';
 
 interface ApiResponse<T = any> {
@@ -7,6 +38,18 @@ interface ApiResponse<T = any> {
   message?: string;
 }
 
+// Réponse d'une route qui renvoie ses données en cas de succès
+interface ApiDataResponse<T> extends ApiResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+// Réponse d'une route qui confirme l'action par un message
+interface ApiMessageResponse extends ApiResponse<never> {
+  success: boolean;
+  message: string;
+}
+
 interface LoginCredentials {
   username: string;
   password: string;
@@ -45,6 +88,21 @@ interface User {
   favorite_card?: FavoriteCard | null;
 }
 
+// Erreur renvoyée par l'API, avec son code et ses détails quand le serveur en fournit
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  details?: Record<string, unknown>;
+
+  constructor(message: string, status: number, code?: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
 class ApiService {
   private accessToken: string | null = null;
   private refreshToken: string | null = null;
@@ -101,7 +159,12 @@ class ApiService {
           }
         }
 
-        throw new Error(errorData?.error || `HTTP error! status: ${response.status}`);
+        throw new ApiError(
+          errorData?.error || `HTTP error! status: ${response.status}`,
+          response.status,
+          errorData?.code,
+          errorData?.details
+        );
       }
 
       return await response.json();
@@ -239,6 +302,10 @@ class ApiService {
     return await this.request(`/cards/${id}`);
   }
 
+  async getCardMarket(id: string): Promise<ApiDataResponse<CardMarketSummary>> {
+    return await this.request(`/cards/${id}/market`);
+  }
+
   async getBoosters(params?: {
     page?: number;
     limit?: number;
@@ -259,6 +326,10 @@ class ApiService {
     return await this.request(`/boosters/${id}`);
   }
 
+  async getBoosterDropRates(id: string): Promise<ApiDataResponse<BoosterDropRates>> {
+    return await this.request(`/boosters/${id}/drop-rates`);
+  }
+
   async getStats(): Promise<any> {
     return await this.request('/users/stats');
   }
@@ -268,6 +339,12 @@ class ApiService {
     return await this.request('/users/collection');
   }
 
+  // Estimation du nombre de boosters restant pour compléter chaque set
+  async getCollectionCompletion(boosterId?: string): Promise<ApiDataResponse<BoosterCompletion[]>> {
+    const query = boosterId ? `?booster_id=${encodeURIComponent(boosterId)}` : '';
+    return await this.request(`/users/collection/completion${query}`);
+  }
+
   async addCardsToCollection(cardIds: string[]): Promise<any> {
     return await this.request('/users/collection', {
       method: 'POST',
@@ -293,6 +370,58 @@ class ApiService {
     });
   }
 
+  // Obtenir l'engagement courant des seeds (provably fair)
+  async getFairnessSeeds(): Promise<ApiDataResponse<FairnessSeeds>> {
+    return await this.request('/users/fairness');
+  }
+
+  // Changer le seed client
+  async setClientSeed(clientSeed: string): Promise<ApiDataResponse<FairnessSeeds>> {
+    return await this.request('/users/fairness/client-seed', {
+      method: 'PUT',
+      body: JSON.stringify({ clientSeed }),
+    });
+  }
+
+  // Vérifier une ouverture de booster
+  async verifyOpening(openingId: string): Promise<ApiDataResponse<OpeningVerification>> {
+    return await this.request(`/users/openings/${openingId}/verify`);
+  }
+
+  // Historique paginé des ouvertures de boosters
+  async getOpenings(params?: {
+    page?: number;
+    limit?: number;
+    booster_id?: string;
+    from?: string;
+    to?: string;
+  }): Promise<ApiDataResponse<OpeningHistoryEntry[]> & { pagination: Pagination }> {
+    const queryParams = new URLSearchParams();
+    if (params?.page) queryParams.append('page', params.page.toString());
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
+    if (params?.booster_id) queryParams.append('booster_id', params.booster_id);
+    if (params?.from) queryParams.append('from', params.from);
+    if (params?.to) queryParams.append('to', params.to);
+
+    const query = queryParams.toString();
+    return await this.request(`/users/openings${query ? `?${query}` : ''}`);
+  }
+
+  // Statistiques de chance sur les ouvertures (mêmes filtres que l'historique)
+  async getOpeningStats(params?: {
+    booster_id?: string;
+    from?: string;
+    to?: string;
+  }): Promise<ApiDataResponse<OpeningLuckStats>> {
+    const queryParams = new URLSearchParams();
+    if (params?.booster_id) queryParams.append('booster_id', params.booster_id);
+    if (params?.from) queryParams.append('from', params.from);
+    if (params?.to) queryParams.append('to', params.to);
+
+    const query = queryParams.toString();
+    return await this.request(`/users/openings/stats${query ? `?${query}` : ''}`);
+  }
+
   // Acheter un booster avec des Berrys
   async buyBoosterWithBerrys(boosterId?: string): Promise<any> {
     return await this.request('/users/buy-booster', {
@@ -301,6 +430,14 @@ class ApiService {
     });
   }
 
+  // Acheter et ouvrir plusieurs boosters d'un coup
+  async openBoosters(boosterId: string, count: number): Promise<ApiDataResponse<BoosterBatchResult>> {
+    return await this.request('/users/open-boosters', {
+      method: 'POST',
+      body: JSON.stringify({ boosterId, count }),
+    });
+  }
+
   // Vendre une carte
   async sellCard(cardId: string, quantity: number = 1): Promise<any> {
     return await this.request('/users/sell-card', {
@@ -309,11 +446,41 @@ class ApiService {
     });
   }
 
+  // Vendre les doublons désignés par une règle (dryRun: aperçu sans vente)
+  async sellBulk(maxRarity: string, keepQuantity: number, dryRun: boolean = false): Promise<ApiDataResponse<BulkSellResult>> {
+    return await this.request('/users/sell-bulk', {
+      method: 'POST',
+      body: JSON.stringify({ maxRarity, keepQuantity, dryRun }),
+    });
+  }
+
+  // Désenchanter des doublons en poussière de craft
+  async disenchantCard(cardId: string, quantity: number = 1): Promise<ApiDataResponse<DisenchantResult>> {
+    return await this.request('/users/disenchant', {
+      method: 'POST',
+      body: JSON.stringify({ cardId, quantity }),
+    });
+  }
+
+  // Fabriquer une carte manquante avec de la poussière
+  async craftCard(cardId: string): Promise<ApiDataResponse<CraftResult>> {
+    return await this.request('/users/craft', {
+      method: 'POST',
+      body: JSON.stringify({ cardId }),
+    });
+  }
+
   // Obtenir le solde de Berrys
   async getBerrysBalance(): Promise<any> {
     return await this.request('/users/berrys');
   }
 
+  // Obtenir l'historique des mouvements de Berrys
+  async getBerrysHistory(before?: number | null): Promise<ApiDataResponse<BerryHistoryPage>> {
+    const query = before ? `?before=${before}` : '';
+    return await this.request(`/users/berrys/history${query}`);
+  }
+
   // Définir la carte favorite de profil
   async setProfileFavoriteCard(cardId: string | null): Promise<any> {
     return await this.request('/users/profile-favorite-card', {
@@ -373,18 +540,86 @@ class ApiService {
   }
 
   // Méthodes pour le marketplace
-  async getMarketplaceListings(): Promise<any> {
-    return await this.request('/marketplace/listings');
+  async getMarketplaceListings(params?: {
+    search?: string;
+    character?: string;
+    rarity?: string;
+    boosterId?: string;
+    color?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    seller?: string;
+    sort?: 'recent' | 'price_asc' | 'price_desc' | 'rarity';
+    cursor?: string;
+    limit?: number;
+  }): Promise<any> {
+    const queryParams = new URLSearchParams();
+    Object.entries(params || {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') queryParams.append(key, value.toString());
+    });
+
+    const query = queryParams.toString();
+    return await this.request(`/marketplace/listings${query ? `?${query}` : ''}`);
   }
 
   async getMyMarketplaceListings(): Promise<any> {
     return await this.request('/marketplace/my-listings');
   }
 
-  async createMarketplaceListing(cardId: string, price: number): Promise<any> {
+  async createMarketplaceListing(
+    cardId: string,
+    price: number,
+    auction?: { buyoutPrice?: number; durationHours: number },
+    durationDays?: number
+  ): Promise<ApiDataResponse<MarketplaceListing | BuyOrderFillSale>> {
     return await this.request('/marketplace/listings', {
       method: 'POST',
-      body: JSON.stringify({ cardId, price }),
+      body: JSON.stringify(auction
+        ? { cardId, price, listingType: 'auction', buyoutPrice: auction.buyoutPrice, durationHours: auction.durationHours }
+        : { cardId, price, durationDays }),
+    });
+  }
+
+  // Mettre en vente plusieurs cartes au prix fixé pour leur rareté (dryRun: aperçu sans mise en vente)
+  async createBulkMarketplaceListings(
+    cardIds: string[],
+    prices: Record<string, number>,
+    durationDays: number | undefined,
+    dryRun: true
+  ): Promise<ApiDataResponse<BulkListingPlan>>;
+  async createBulkMarketplaceListings(
+    cardIds: string[],
+    prices: Record<string, number>,
+    durationDays?: number,
+    dryRun?: false
+  ): Promise<ApiDataResponse<BulkListingResult>>;
+  async createBulkMarketplaceListings(
+    cardIds: string[],
+    prices: Record<string, number>,
+    durationDays?: number,
+    dryRun: boolean = false
+  ): Promise<ApiDataResponse<BulkListingPlan | BulkListingResult>> {
+    return await this.request('/marketplace/listings/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ cardIds, prices, durationDays, dryRun }),
+    });
+  }
+
+  async relistMarketplaceListing(listingId: string, price: number, durationDays?: number): Promise<ApiDataResponse<MarketplaceListing | BuyOrderFillSale>> {
+    return await this.request(`/marketplace/listings/${listingId}/relist`, {
+      method: 'POST',
+      body: JSON.stringify({ price, durationDays }),
+    });
+  }
+
+  async getMarketplaceBids(listingId: string): Promise<ApiDataResponse<MarketplaceBidHistory>> {
+    return await this.request(`/marketplace/listings/${listingId}/bids`);
+  }
+
+  async placeMarketplaceBid(listingId: string, amount: number): Promise<ApiDataResponse<MarketplaceBidResult>> {
+    return await this.request(`/marketplace/listings/${listingId}/bids`, {
+      method: 'POST',
+      body: JSON.stringify({ amount }),
     });
   }
 
@@ -401,6 +636,87 @@ class ApiService {
     });
   }
 
+  // Ordres d'achat du marketplace
+  async getBuyOrders(cardId?: string): Promise<ApiDataResponse<MarketplaceBuyOrder[]>> {
+    const query = cardId ? `?cardId=${encodeURIComponent(cardId)}` : '';
+    return await this.request(`/marketplace/buy-orders${query}`);
+  }
+
+  async getMyBuyOrders(): Promise<ApiDataResponse<MarketplaceBuyOrder[]>> {
+    return await this.request('/marketplace/my-buy-orders');
+  }
+
+  async createBuyOrder(cardId: string, maxPrice: number): Promise<ApiDataResponse<BuyOrderCreation>> {
+    return await this.request('/marketplace/buy-orders', {
+      method: 'POST',
+      body: JSON.stringify({ cardId, maxPrice }),
+    });
+  }
+
+  async fillBuyOrder(orderId: string): Promise<ApiDataResponse<BuyOrderFill>> {
+    return await this.request(`/marketplace/buy-orders/${orderId}/fill`, {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  async cancelBuyOrder(orderId: string): Promise<ApiDataResponse<BuyOrderCancellation>> {
+    return await this.request(`/marketplace/buy-orders/${orderId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getMarketplaceFees(): Promise<ApiDataResponse<MarketplaceFees>> {
+    return await this.request('/marketplace/fees');
+  }
+
+  async purchaseListingSlot(): Promise<ApiDataResponse<ListingSlotPurchase>> {
+    return await this.request('/marketplace/listing-slots', {
+      method: 'POST',
+    });
+  }
+
+  // Méthodes pour les échanges entre joueurs
+  async getTrades(status?: string): Promise<ApiDataResponse<TradeOffer[]>> {
+    const query = status ? `?status=${encodeURIComponent(status)}` : '';
+    return await this.request(`/trades${query}`);
+  }
+
+  async createTrade(recipientUsername: string, terms: TradeTerms): Promise<ApiDataResponse<TradeOffer>> {
+    return await this.request('/trades', {
+      method: 'POST',
+      body: JSON.stringify({ recipientUsername, ...terms }),
+    });
+  }
+
+  async acceptTrade(tradeId: string): Promise<ApiDataResponse<TradeAcceptance>> {
+    return await this.request(`/trades/${tradeId}/accept`, {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  async declineTrade(tradeId: string): Promise<ApiMessageResponse> {
+    return await this.request(`/trades/${tradeId}/decline`, {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  async cancelTrade(tradeId: string): Promise<ApiMessageResponse> {
+    return await this.request(`/trades/${tradeId}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  async counterTrade(tradeId: string, terms: TradeTerms): Promise<ApiDataResponse<TradeOffer>> {
+    return await this.request(`/trades/${tradeId}/counter`, {
+      method: 'POST',
+      body: JSON.stringify(terms),
+    });
+  }
+
   // Vérifier si l'utilisateur est connecté
   isAuthenticated(): boolean {
     return !!this.accessToken;
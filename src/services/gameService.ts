@@ -1,4 +1,4 @@
-import { Card, UserCard, BoosterResult, BoosterStatus } from '../types';
+import { Card, UserCard, BoosterResult, BoosterBatchResult, BoosterStatus, OpeningVerification, OpeningHistoryEntry, OpeningFilters, OpeningLuckStats, BoosterDropRates, BoosterCompletion, MarketplaceBuyOrder, CardMarketSummary, Rarity, BulkSellResult, BulkListingPlan, BulkListingResult, DisenchantResult, CraftResult, BuyOrderFill } from '../types';
 import { BoosterPack } from '../data/onePieceCards';
 import { apiService } from './api';
 
@@ -24,6 +24,26 @@ export class GameService {
     }
   }
 
+  static async getCollectionCompletion(): Promise<BoosterCompletion[]> {
+    try {
+      const response = await apiService.getCollectionCompletion();
+      return response.data || [];
+    } catch (error) {
+      console.error('Erreur lors de l\'estimation de complétion:', error);
+      return [];
+    }
+  }
+
+  static async getBoosterDropRates(boosterId: string): Promise<BoosterDropRates> {
+    try {
+      const response = await apiService.getBoosterDropRates(boosterId);
+      return response.data;
+    } catch (error) {
+      console.error('Erreur lors de la récupération des taux de drop:', error);
+      throw error;
+    }
+  }
+
   static async getUserCards(): Promise<UserCard[]> {
     try {
       const response = await apiService.getUserCollection();
@@ -78,7 +98,8 @@ export class GameService {
           new_cards: response.data.new_cards || [],
           available_boosters: response.data.available_boosters,
           next_booster_time: response.data.next_booster_time,
-          session_info: response.data.session_info
+          fairness: response.data.fairness,
+          pity: response.data.pity
         };
       }
       return null;
@@ -185,7 +206,8 @@ export class GameService {
           new_cards: response.data.new_cards || [],
           available_boosters: response.data.available_boosters,
           next_booster_time: response.data.next_booster_time,
-          session_info: response.data.session_info
+          fairness: response.data.fairness,
+          pity: response.data.pity
         };
       }
       return null;
@@ -205,6 +227,135 @@ export class GameService {
     }
   }
 
+  static async sellBulk(maxRarity: Rarity, keepQuantity: number, dryRun: boolean = false): Promise<BulkSellResult> {
+    try {
+      const response = await apiService.sellBulk(maxRarity, keepQuantity, dryRun);
+      return response.data;
+    } catch (error) {
+      console.error('Erreur lors de la vente par lot:', error);
+      throw error;
+    }
+  }
+
+  static async disenchantCard(cardId: string, quantity: number = 1): Promise<DisenchantResult> {
+    try {
+      const response = await apiService.disenchantCard(cardId, quantity);
+      return response.data;
+    } catch (error) {
+      console.error('Erreur lors du désenchantement de la carte:', error);
+      throw error;
+    }
+  }
+
+  static async craftCard(cardId: string): Promise<CraftResult> {
+    try {
+      const response = await apiService.craftCard(cardId);
+      return response.data;
+    } catch (error) {
+      console.error('Erreur lors de la fabrication de la carte:', error);
+      throw error;
+    }
+  }
+
+  static async getBestBuyOrder(cardId: string, excludeBuyerId?: string): Promise<MarketplaceBuyOrder | null> {
+    try {
+      const response = await apiService.getBuyOrders(cardId);
+      const orders: MarketplaceBuyOrder[] = response.data || [];
+      return orders.find(order => order.buyer_id !== excludeBuyerId) || null;
+    } catch (error) {
+      console.error('Erreur lors de la récupération des ordres d\'achat:', error);
+      return null;
+    }
+  }
+
+  static async getCardMarket(cardId: string): Promise<CardMarketSummary | null> {
+    try {
+      const response = await apiService.getCardMarket(cardId);
+      return response.data || null;
+    } catch (error) {
+      console.error('Erreur lors de la récupération du marché de la carte:', error);
+      return null;
+    }
+  }
+
+  static async fillBuyOrder(orderId: string): Promise<BuyOrderFill> {
+    try {
+      const response = await apiService.fillBuyOrder(orderId);
+      return response.data;
+    } catch (error) {
+      console.error('Erreur lors de l\'exécution de l\'ordre d\'achat:', error);
+      throw error;
+    }
+  }
+
+  static async previewBulkListings(cardIds: string[], prices: Record<string, number>, durationDays: number): Promise<BulkListingPlan> {
+    try {
+      const response = await apiService.createBulkMarketplaceListings(cardIds, prices, durationDays, true);
+      return response.data;
+    } catch (error) {
+      console.error('Erreur lors de l\'aperçu de la mise en vente par lot:', error);
+      throw error;
+    }
+  }
+
+  static async createBulkListings(cardIds: string[], prices: Record<string, number>, durationDays: number): Promise<BulkListingResult> {
+    try {
+      const response = await apiService.createBulkMarketplaceListings(cardIds, prices, durationDays);
+      return response.data;
+    } catch (error) {
+      console.error('Erreur lors de la mise en vente par lot:', error);
+      throw error;
+    }
+  }
+
+  static async openBoosters(boosterId: string, count: number): Promise<BoosterBatchResult | null> {
+    try {
+      const response = await apiService.openBoosters(boosterId, count);
+      return response.success ? response.data : null;
+    } catch (error) {
+      console.error('Erreur lors de l\'ouverture groupée des boosters:', error);
+      throw error;
+    }
+  }
+
+  static async verifyOpening(openingId: string): Promise<OpeningVerification> {
+    try {
+      const response = await apiService.verifyOpening(openingId);
+      return response.data;
+    } catch (error) {
+      console.error('Erreur lors de la vérification de l\'ouverture:', error);
+      throw error;
+    }
+  }
+
+  static async getOpenings(
+    filters: OpeningFilters,
+    page: number,
+    limit: number
+  ): Promise<{ openings: OpeningHistoryEntry[]; pages: number; total: number }> {
+    try {
+      const response = await apiService.getOpenings({ ...filters, page, limit });
+      return {
+        openings: response.data || [],
+        pages: response.pagination?.pages || 0,
+        total: response.pagination?.total || 0
+      };
+    } catch (error) {
+      console.error('Erreur lors de la récupération de l\'historique des ouvertures:', error);
+      throw error;
+    }
+  }
+
+  static async getOpeningStats(filters: OpeningFilters): Promise<OpeningLuckStats> {
+    try {
+      const response = await apiService.getOpeningStats(filters);
+      return response.data;
+    } catch (error) {
+      console.error('Erreur lors de la récupération des statistiques d\'ouverture:', error);
+      throw error;
+    }
+  }
+
   static async getBerrysBalance(): Promise<number> {
     try {
       const response = await apiService.getBerrysBalance();
@@ -215,6 +366,16 @@ export class GameService {
     }
   }
 
+  static async getDustBalance(): Promise<number> {
+    try {
+      const response = await apiService.getBerrysBalance();
+      return response.data?.dust || 0;
+    } catch (error) {
+      console.error('Erreur lors de la récupération de la poussière:', error);
+      return 0;
+    }
+  }
+
   static async setProfileFavoriteCard(cardId: string | null): Promise<{ favorite_card_id: string | null; favorite_card: Card | null }> {
     try {
       const response = await apiService.setProfileFavoriteCard(cardId);
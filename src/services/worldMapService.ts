@@ -21,6 +21,76 @@ export interface Island {
   };
 }
 
+export type QuestReward =
+  | { type: 'berrys'; amount: number }
+  | { type: 'booster'; booster_id: string; count: number; booster_name?: string }
+  | { type: 'card'; rarities: string[]; booster_id: string | null; booster_name?: string }
+  | { type: 'crew_xp'; amount: number };
+
+export interface RewardCard {
+  id: string;
+  name: string;
+  rarity: string;
+  image_url?: string;
+}
+
+export type GrantedQuestReward =
+  | { type: 'berrys'; amount: number }
+  | { type: 'booster'; booster_id: string; opening_ids: string[]; cards: RewardCard[]; new_cards: string[] }
+  | { type: 'card'; card: RewardCard; is_new: boolean }
+  | { type: 'crew_xp'; amount: number; crew_member_ids: string[] };
+
+export type CrewStat = 'strength' | 'navigation' | 'intelligence' | 'stamina';
+
+export type CrewStats = Record<CrewStat, number>;
+
+export interface StatCheck {
+  stat: CrewStat;
+  required: number;
+  team: number;
+}
+
+export interface QuestOdds {
+  checks: StatCheck[];
+  team_stats: CrewStats;
+  meets_minimum: boolean;
+  success_chance: number;
+}
+
+export interface CrewCardBonus {
+  card_id: string;
+  card_name: string;
+  rarity: string;
+  owned_cards: number;
+  duration_reduction: number;
+  reward_bonus: number;
+}
+
+export interface TeamBonus {
+  duration_reduction: number;
+  reward_bonus: number;
+}
+
+export interface CrewLevelUp {
+  crew_member_id: string;
+  name: string;
+  level: number;
+}
+
+// Codes renvoyés par POST /world/quests/start quand le départ est refusé
+export type QuestStartErrorCode =
+  | 'INVALID_REQUEST'
+  | 'QUEST_NOT_FOUND'
+  | 'ISLAND_LOCKED'
+  | 'QUEST_ALREADY_COMPLETED'
+  | 'QUEST_IN_PROGRESS'
+  | 'DUPLICATE_CREW_MEMBER'
+  | 'WRONG_CREW_COUNT'
+  | 'CREW_MEMBER_LOCKED'
+  | 'CREW_MEMBER_BUSY'
+  | 'SPECIFIC_CREW_MEMBER_REQUIRED'
+  | 'CREW_TOO_WEAK';
+
 export interface Quest {
   id: string;
   island_id: string;
@@ -28,7 +98,9 @@ export interface Quest {
   description: string;
   duration_hours: number;
   reward_berrys: number;
+  rewards: QuestReward[];
   required_crew_count: number;
+  stat_requirements: Partial<CrewStats>;
   specific_crew_member_id: string | null;
   order_index: number;
   is_repeatable: boolean;
@@ -43,6 +115,13 @@ export interface CrewMember {
   order_index: number;
   unlocked: boolean;
   available?: boolean;
+  level: number;
+  experience: number;
+  level_experience: number;
+  next_level_experience: number | null;
+  stats: CrewStats;
+  card_characters: string[];
+  card_bonus: CrewCardBonus | null;
 }
 
 export interface ActiveQuest {
@@ -52,6 +131,8 @@ export interface ActiveQuest {
   crew_member_ids: string;
   started_at: string;
   completes_at: string;
+  success_chance: number;
+  reward_bonus: number;
   completed: boolean;
   reward_claimed: boolean;
 }
@@ -63,6 +144,8 @@ export interface QuestHistoryEntry {
   crew_member_ids: string;
   completed_at: string;
   reward_berrys: number;
+  rewards: GrantedQuestReward[];
+  success: boolean;
   quest: Quest;
 }
 
@@ -83,14 +166,26 @@ class WorldMapService {
     return response;
   }
 
+  async getQuestOdds(questId: string, crewMemberIds: string[]): Promise<{ odds: QuestOdds; bonus: TeamBonus }> {
+    const response = await apiService.post<{ odds: QuestOdds; bonus: TeamBonus }>('/world/quests/odds', {
+      questId,
+      crewMemberIds
+    });
+    return response;
+  }
+
   async startQuest(questId: string, crewMemberIds: string[]): Promise<{
     success: boolean;
     activeQuest: ActiveQuest;
+    odds: QuestOdds;
+    bonus: TeamBonus;
     message: string;
   }> {
     const response = await apiService.post<{
       success: boolean;
       activeQuest: ActiveQuest;
+      odds: QuestOdds;
+      bonus: TeamBonus;
       message: string;
     }>('/world/quests/start', {
       questId,
@@ -101,12 +196,22 @@ class WorldMapService {
 
   async completeQuest(activeQuestId: string): Promise<{
     success: boolean;
+    quest_succeeded: boolean;
+    success_chance: number;
     reward: { berrys: number };
+    rewards: GrantedQuestReward[];
+    experience: number;
+    level_ups: CrewLevelUp[];
     message: string;
   }> {
     const response = await apiService.post<{
       success: boolean;
+      quest_succeeded: boolean;
+      success_chance: number;
       reward: { berrys: number };
+      rewards: GrantedQuestReward[];
+      experience: number;
+      level_ups: CrewLevelUp[];
       message: string;
     }>(`/world/quests/${activeQuestId}/complete`, {});
     return response;
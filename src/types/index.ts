@@ -24,6 +24,8 @@ export interface UserCard {
   id: string;
   card_id: string;
   quantity: number;
+  // Exemplaires sous séquestre (en vente sur le marketplace)
+  reserved_quantity?: number;
   obtained_at: Date;
   is_favorite: boolean;
 }
@@ -44,6 +46,7 @@ export interface User {
   total_cards: number;
   unique_cards: number;
   berrys?: number;
+  dust?: number;
   is_admin?: boolean;
   favorite_card_id?: string | null;
   favorite_card?: FavoriteCard | null;
@@ -54,6 +57,27 @@ export interface BoosterStatus {
   max_daily_boosters: number;
   next_booster_time?: Date;
   time_until_next: number;
+  pity?: PityStatus;
+}
+
+// Protection anti-malchance: Super Rare garantie après une série sans SR
+export interface PityCounter {
+  booster_id: string;
+  packs_since_super_rare: number;
+  packs_until_guarantee: number;
+}
+
+export interface PityStatus {
+  threshold: number;
+  counters: PityCounter[];
+}
+
+export interface BoosterPityResult {
+  // false si le booster ne contient ni Super Rare ni Secret Rare
+  enabled: boolean;
+  guarantee_applied: boolean;
+  packs_since_super_rare: number;
+  packs_until_guarantee: number;
 }
 
 export interface BoosterResult {
@@ -61,14 +85,174 @@ export interface BoosterResult {
   new_cards: string[];
   available_boosters?: number;
   next_booster_time?: Date | string;
-  session_info?: {
-    sessionId: string;
-    boosterId: string;
-    timestamp: number;
-    seed: number;
+  fairness?: BoosterFairness;
+  pity?: BoosterPityResult;
+}
+
+// Seeds révélés après une ouverture (provably fair)
+export interface BoosterFairness {
+  opening_id: string;
+  server_seed: string;
+  server_seed_hash: string;
+  client_seed: string;
+  nonce: number;
+  next_server_seed_hash: string;
+}
+
+// Engagement courant des seeds, avant la prochaine ouverture
+export interface FairnessSeeds {
+  server_seed_hash: string;
+  client_seed: string;
+  nonce: number;
+}
+
+export interface OpeningVerification {
+  opening_id: string;
+  booster_id: string;
+  opened_at: string;
+  server_seed: string;
+  server_seed_hash: string;
+  client_seed: string;
+  nonce: number;
+  pity_applied: boolean;
+  // false pour les anciennes ouvertures, rejouées avec la table de drop actuelle
+  drop_table_recorded: boolean;
+  // false pour les anciennes ouvertures, rejouées avec le catalogue de cartes actuel
+  card_pool_recorded: boolean;
+  hash_valid: boolean;
+  recorded_cards: string[];
+  derived_cards: string[];
+  matches: boolean;
+}
+
+// Résultat d'une ouverture groupée (x10)
+export interface BoosterBatchPack {
+  opening_id: string;
+  cards: Card[];
+  new_cards: string[];
+  fairness: BoosterFairness;
+  pity: BoosterPityResult;
+}
+
+export interface GroupedCard {
+  card: Card;
+  quantity: number;
+  is_new: boolean;
+}
+
+export interface AchievementProgressDelta {
+  achievement_id: string;
+  name: string;
+  icon?: string;
+  threshold: number;
+  reward_berrys: number;
+  progress_before: number;
+  progress_after: number;
+  newly_completed: boolean;
+}
+
+export interface BoosterBatchResult {
+  booster_id: string;
+  packs: BoosterBatchPack[];
+  grouped_cards: GroupedCard[];
+  rarity_summary: Record<string, number>;
+  new_cards: string[];
+  achievement_deltas: AchievementProgressDelta[];
+  berrys_spent: number;
+  new_balance: number;
+  pity: BoosterPityResult;
+}
+
+// Historique des ouvertures de boosters
+export interface OpeningHistoryEntry {
+  id: string;
+  booster_id: string;
+  booster_name: string | null;
+  booster_code: string | null;
+  opened_at: string;
+  nonce: number | null;
+  pity_applied: boolean;
+  cards: Card[];
+}
+
+export interface OpeningFilters {
+  booster_id?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface RarityLuck {
+  rarity: Rarity;
+  count: number;
+  observed_rate: number;
+  expected_rate: number;
+}
+
+export interface OpeningLuckStats {
+  total_packs: number;
+  total_cards: number;
+  rarities: RarityLuck[];
+  best_pull: {
+    opening_id: string;
+    booster_id: string;
+    opened_at: string;
+    card_id: string;
+    card_name: string;
+    rarity: Rarity;
+  } | null;
+  longest_dry_streak: number;
+  current_dry_streak: number;
+}
+
+// Taux de drop publics d'un booster (annoncés vs observés)
+export interface RarityDropRate {
+  rarity: Rarity;
+  catalog_count: number;
+  configured_rate: number;
+  expected_per_pack: number;
+  observed_count: number;
+  observed_rate: number;
+  observed_per_pack: number;
+  ci_low: number;
+  ci_high: number;
+}
+
+export interface BoosterDropRates {
+  booster_id: string;
+  pack_size: number;
+  alternate_chance: number;
+  is_default_table: boolean;
+  total_packs: number;
+  total_cards: number;
+  pity_packs: number;
+  rarities: RarityDropRate[];
+  booster: {
+    id: string;
+    name: string;
+    code: string;
   };
 }
 
+// Estimation du nombre de boosters pour compléter un set
+export interface BoosterCompletion {
+  booster_id: string;
+  code: string;
+  name: string;
+  total_cards: number;
+  owned_cards: number;
+  missing_cards: number;
+  completion_rate: number;
+  expected_packs: number | null;
+  expected_berrys: number | null;
+}
+
 export interface RarityDistribution {
   common: number;
   uncommon: number;
@@ -98,6 +282,37 @@ export const CARD_SELL_PRICES: Record<Rarity, number> = {
 // Prix d'un booster en Berrys
 export const BOOSTER_BERRY_PRICE = 100;
 
+// Poussière obtenue en désenchantant une carte, selon la rareté
+export const CARD_DUST_VALUES: Record<Rarity, number> = {
+  common: 5,
+  uncommon: 10,
+  rare: 25,
+  leader: 50,
+  super_rare: 100,
+  secret_rare: 400,
+};
+
+// Coût en poussière pour fabriquer une carte manquante, selon la rareté
+export const CARD_CRAFT_COSTS: Record<Rarity, number> = {
+  common: 40,
+  uncommon: 100,
+  rare: 250,
+  leader: 500,
+  super_rare: 1000,
+  secret_rare: 4000,
+};
+
+export interface DisenchantResult {
+  dust_earned: number;
+  new_dust: number;
+}
+
+export interface CraftResult {
+  card_id: string;
+  dust_spent: number;
+  new_dust: number;
+}
+
 // Types pour les achievements
 export type AchievementType = 'boosters_opened' | 'unique_cards' | 'booster_cards';
 
@@ -130,4 +345,227 @@ export interface AchievementStats {
   unclaimed: number;
   total_berrys_earned: number;
   total_berrys_available: number;
-}
\ No newline at end of file
+}
+export type TradeOfferStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'countered';
+
+export interface TradeOfferCard {
+  card_id: string;
+  quantity: number;
+  card_name: string;
+  card_rarity: Rarity;
+  card_image_url?: string;
+  card_character: string;
+}
+
+export interface TradeOffer {
+  id: string;
+  proposer_id: string;
+  proposer_username: string;
+  recipient_id: string;
+  recipient_username: string;
+  offered_cards: TradeOfferCard[];
+  requested_cards: TradeOfferCard[];
+  offered_berrys: number;
+  requested_berrys: number;
+  status: TradeOfferStatus;
+  parent_offer_id?: string | null;
+  created_at: string;
+  responded_at?: string | null;
+}
+
+// Termes d'une offre, du point de vue de celui qui la propose
+export interface TradeTerms {
+  offeredCards: { cardId: string; quantity: number }[];
+  requestedCards: { cardId: string; quantity: number }[];
+  offeredBerrys: number;
+  requestedBerrys: number;
+}
+
+// Échange réalisé, avec le nouveau solde de celui qui l'accepte
+export interface TradeAcceptance {
+  trade: TradeOffer;
+  new_balance: number;
+}
+
+// Annonce du marketplace (prix fixe ou enchère)
+export interface MarketplaceListing {
+  id: string;
+  seller_id: string;
+  seller_username: string;
+  card_id: string;
+  card_name: string;
+  card_rarity: string;
+  card_character: string;
+  card_image_url?: string;
+  price: number;
+  created_at: string;
+  status: 'active' | 'sold' | 'cancelled' | 'expired';
+  listing_type: 'fixed' | 'auction';
+  buyout_price?: number | null;
+  ends_at?: string | null;
+  current_bid?: number | null;
+  current_bidder_id?: string | null;
+  current_bidder_username?: string | null;
+  bid_count?: number;
+  relisted_at?: string | null;
+}
+
+export interface MarketplaceBid {
+  id: string;
+  bidder_username: string;
+  amount: number;
+  status: 'active' | 'outbid' | 'won';
+  created_at: string;
+}
+
+// Historique des enchères d'une annonce et mise minimale pour surenchérir
+export interface MarketplaceBidHistory {
+  bids: MarketplaceBid[];
+  minimum_bid: number;
+}
+
+// Enchère placée (settled: le prix d'achat immédiat a été atteint)
+export interface MarketplaceBidResult {
+  listing: MarketplaceListing;
+  amount: number;
+  settled: boolean;
+  new_balance: number;
+}
+
+// Ordre d'achat sur le marketplace (prix maximum retenu tant que l'ordre est ouvert)
+export interface MarketplaceBuyOrder {
+  id: string;
+  buyer_id: string;
+  buyer_username: string;
+  card_id: string;
+  card_name: string;
+  card_rarity: string;
+  card_character: string;
+  card_image_url?: string;
+  max_price: number;
+  status: 'active' | 'filled' | 'cancelled';
+  created_at: string;
+  filled_at?: string | null;
+}
+
+// Vente à un ordre d'achat, taxe déduite
+export interface BuyOrderFill {
+  price: number;
+  tax: number;
+  new_balance: number;
+}
+
+// Annonce vendue immédiatement à un ordre d'achat au lieu d'être publiée
+export interface BuyOrderFillSale extends BuyOrderFill {
+  filled_buy_order: MarketplaceBuyOrder;
+}
+
+// Ordre d'achat exécuté immédiatement sur une annonce, ou mis en attente
+export type BuyOrderCreation =
+  | { matched_listing: MarketplaceListing; price: number; new_balance: number }
+  | { order: MarketplaceBuyOrder; new_balance: number };
+
+export interface BuyOrderCancellation {
+  refunded: number;
+  new_balance: number;
+}
+
+// Taxe de vente et emplacements d'annonces du joueur sur le marketplace
+export interface MarketplaceFees {
+  tax_rate: number;
+  listing_slots: {
+    base: number;
+    extra: number;
+    total: number;
+    used: number;
+    max_extra: number;
+    slot_price: number;
+  };
+}
+
+export interface ListingSlotPurchase {
+  listing_slots: Omit<MarketplaceFees['listing_slots'], 'used'>;
+  new_balance: number;
+}
+
+// Aperçu ou résultat d'une vente de doublons par lot
+export interface BulkSellResult {
+  items: {
+    card_id: string;
+    card_name: string;
+    rarity: Rarity;
+    quantity: number;
+    unit_price: number;
+    berrys: number;
+  }[];
+  total_cards: number;
+  total_berrys: number;
+  dry_run: boolean;
+  new_balance: number;
+}
+
+// Carte ignorée lors d'une mise en vente par lot, avec la raison
+export interface BulkListingSkip {
+  card_id: string;
+  reason: string;
+}
+
+// Aperçu d'une mise en vente par lot sur le marketplace
+export interface BulkListingPlan {
+  items: {
+    card_id: string;
+    card_name: string;
+    rarity: Rarity;
+    price: number;
+    buy_order_id: string | null;
+    buy_order_price: number | null;
+  }[];
+  skipped: BulkListingSkip[];
+  free_slots: number;
+}
+
+// Résultat d'une mise en vente par lot sur le marketplace
+export interface BulkListingResult {
+  listings: { id: string; card_id: string; price: number }[];
+  filled_buy_orders: { order: { id: string; card_id: string }; price: number; tax: number }[];
+  skipped: BulkListingSkip[];
+  new_balance: number;
+}
+
+// Point journalier de l'historique des prix d'une carte
+export interface CardPricePoint {
+  date: string;
+  average: number;
+  min: number;
+  max: number;
+  volume: number;
+}
+
+// Résumé du marché d'une carte (ventes réalisées sur le marketplace)
+export interface CardMarketSummary {
+  card_id: string;
+  last_sale: { price: number; source: 'listing' | 'auction' | 'buy_order'; sold_at: string } | null;
+  median_7d: number | null;
+  median_30d: number | null;
+  volume_7d: number;
+  volume_30d: number;
+  sell_price: number;
+  series: CardPricePoint[];
+}
+
+// Mouvement de Berrys enregistré dans le registre
+export interface BerryLedgerEntry {
+  id: number;
+  transaction_id: string;
+  amount: number;
+  balance_after: number | null;
+  source: string;
+  reference_id: string | null;
+  created_at: string;
+}
+
+// Page de l'historique des Berrys (next_cursor: null quand il n'y a plus d'entrées)
+export interface BerryHistoryPage {
+  entries: BerryLedgerEntry[];
+  next_cursor: number | null;
+}